@@ -1,28 +1,67 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { TranslationState, DocumentChunk } from './types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import JSZip from 'jszip';
+import { TranslationState, DocumentChunk, Glossary, XliffUpdate, AuditEvent, ReviewOverride, BatchItem, SessionSummary } from './types';
 import { fileService } from './services/fileService';
-import { geminiService } from './services/geminiService';
-import { ENGINES } from './constants';
+import { translationService } from './services/translationService';
+import { exportService } from './services/exportService';
+import { glossaryService } from './services/glossaryService';
+import { qaService } from './services/qaService';
+import { listNumbering } from './services/listNumbering';
+import { translationMemory } from './services/translationMemory';
+import { editHistory } from './services/editHistory';
+import { ReviewFilter, reviewService } from './services/reviewService';
+import { auditService } from './services/auditService';
+import { targetService } from './services/targetService';
+import { profileService } from './services/profileService';
+import { QueueSource, batchQueue } from './services/batchQueue';
+import { sessionStore } from './services/sessionStore';
+import { ENGINES, LANGUAGES, MEMORY_DEFAULT_THRESHOLD, SESSION_SAVE_DELAY_MS } from './constants';
 import Header from './components/Header';
 import Footer from './components/Footer';
-import LanguagePicker from './components/LanguagePicker';
+import TargetLanguagePicker from './components/TargetLanguagePicker';
+import TargetTabs from './components/TargetTabs';
 import DocumentPreview from './components/DocumentPreview';
 import FileUploader from './components/FileUploader';
 import GlossaryManager from './components/GlossaryManager';
+import MemoryManager from './components/MemoryManager';
+import QaPanel from './components/QaPanel';
+import XliffExchange from './components/XliffExchange';
+import { ChunkEditorActions } from './components/ChunkEditor';
+import ReviewSummary from './components/ReviewSummary';
+import ExportOverride from './components/ExportOverride';
+import ProfileManager from './components/ProfileManager';
+import BatchQueue from './components/BatchQueue';
+import RecentDocuments from './components/RecentDocuments';
 import { 
   Loader2, 
   AlertCircle, 
   Eye, 
   EyeOff, 
   RefreshCcw, 
+  RotateCw,
+  Database,
+  Book,
+  XCircle,
   Zap,
   Download,
   CheckCircle2,
   Building,
-  ShieldCheck
+  ShieldCheck,
+  ShieldAlert,
+  ListOrdered,
+  ArrowLeftRight,
+  Languages,
+  Stamp,
+  Drama,
+  Files
 } from 'lucide-react';
 
+const formatEta = (ms: number) => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
 declare global {
   interface Window {
     mammoth: any;
@@ -33,7 +72,18 @@ declare global {
 const App: React.FC = () => {
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
   const [showSource, setShowSource] = useState(true);
-  const [selectedEngine] = useState<string>(ENGINES.PRO); // Default to PRO for Real Estate precision
+  // Default to PRO for Real Estate precision; without an API key fall back to the offline engine
+  const [selectedEngine, setSelectedEngine] = useState<string>(process.env.API_KEY ? ENGINES.PRO : ENGINES.MOCK);
+  const [showMemory, setShowMemory] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showQa, setShowQa] = useState(false);
+  const [showXliff, setShowXliff] = useState(false);
+  const [showExportOverride, setShowExportOverride] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [exportMode, setExportMode] = useState<'current' | 'zip' | 'side-by-side'>('current');
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('all');
+  const [queue, setQueue] = useState<BatchItem[]>([]);
+  const [recent, setRecent] = useState<SessionSummary[]>([]);
   const [libsReady, setLibsReady] = useState<{docx: boolean, pdf: boolean}>({ docx: false, pdf: false });
   
   const [state, setState] = useState<TranslationState>({
@@ -41,16 +91,31 @@ const App: React.FC = () => {
     progress: 0,
     statusMessage: '',
     error: null,
+    sessionId: null,
     originalFileName: null,
     originalFileType: null,
     chunks: [],
     sourceLang: 'auto',
     targetLang: 'en',
+    targetLangs: ['en'],
+    parkedTargets: {},
+    jobs: {},
     tone: 'legal', // Default to Legal for Real Estate
     groundingEnabled: false,
     glossary: [],
+    activeGlossaryId: null,
+    memoryEnabled: true,
+    memoryThreshold: MEMORY_DEFAULT_THRESHOLD,
+    acknowledgedIssueIds: [],
+    listNumbering: 'keep',
+    reviewOverrides: [],
+    audit: null,
+    attachCertificate: false,
   });
 
+  // Custom profiles are re-read when the profile manager closes, so saved edits apply
+  const profile = useMemo(() => profileService.get(state.tone), [state.tone, showProfiles]);
+
   // Simple library initialization check
   useEffect(() => {
     const checkLibs = () => {
@@ -62,42 +127,411 @@ const App: React.FC = () => {
     checkLibs();
   }, []);
 
-  const performTranslation = async (currentChunks: DocumentChunk[], targetLang: string) => {
-    setState(prev => ({ ...prev, isProcessing: true, statusMessage: 'Analyzing Real Estate Terms...' }));
+  useEffect(() => batchQueue.subscribe(setQueue), []);
+
+  const refreshRecent = () => {
+    if (!sessionStore.isAvailable()) return;
+    sessionStore.list().then(setRecent).catch(err => console.warn("Could not list saved sessions:", err));
+  };
+
+  // The landing screen lists saved sessions, including the one just closed
+  useEffect(() => {
+    if (state.chunks.length === 0) refreshRecent();
+  }, [state.chunks.length === 0]);
+
+  // The document is saved shortly after every change, so each finished batch is kept
+  useEffect(() => {
+    if (!state.sessionId || state.chunks.length === 0 || !sessionStore.isAvailable()) return;
+    const timer = setTimeout(() => {
+      sessionStore.save(state).catch(err => console.warn("Could not save the session:", err));
+    }, SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state]);
+
+  // Queued documents pick up the current settings when they start
+  useEffect(() => {
+    batchQueue.configure({
+      sourceLang: state.sourceLang,
+      targetLangs: state.targetLangs,
+      tone: state.tone,
+      engine: selectedEngine,
+      groundingEnabled: state.groundingEnabled,
+      memory: state.memoryEnabled ? { threshold: state.memoryThreshold } : undefined,
+      listNumbering: state.listNumbering
+    });
+  }, [state.sourceLang, state.targetLangs, state.tone, selectedEngine, state.groundingEnabled, state.memoryEnabled, state.memoryThreshold, state.listNumbering]);
+
+  // Each language pair remembers the glossary last used with it
+  useEffect(() => {
+    const glossary = glossaryService.activeFor(state.sourceLang, state.targetLang);
+    setState(p => ({ ...p, glossary: glossary?.items || [], activeGlossaryId: glossary?.id || null }));
+  }, [state.sourceLang, state.targetLang]);
+
+  const selectGlossary = (glossary: Glossary | null) => {
+    setState(p => ({ ...p, glossary: glossary?.items || [], activeGlossaryId: glossary?.id || null }));
+  };
+
+  /**
+   * Records on each glossary entry which chunks it applied to. Chunks outside this run keep
+   * their previous usage so retries of a few chunks don't wipe the document-wide record.
+   */
+  const recordGlossaryUsage = (glossaryId: string | null, usage: Record<string, string[]>, translatedIds: Set<string>) => {
+    const glossary = glossaryId ? glossaryService.get(glossaryId) : undefined;
+    if (!glossary) return;
+    const saved = glossaryService.save({
+      ...glossary,
+      items: glossary.items.map(item => ({
+        ...item,
+        appliedTo: [...(item.appliedTo || []).filter(id => !translatedIds.has(id)), ...(usage[item.id] || [])]
+      }))
+    });
+    setState(p => p.activeGlossaryId === saved.id ? { ...p, glossary: saved.items } : p);
+  };
+
+  // One controller per target language with a running job
+  const abortRefs = useRef<Record<string, AbortController>>({});
+  // The session being reopened; its untranslated segments are sent once its state has rendered
+  const resumeRef = useRef<string | null>(null);
+
+  const logAudit = (event: Omit<AuditEvent, 'at'>) => {
+    setState(prev => prev.audit
+      ? { ...prev, audit: { ...prev.audit, events: [...prev.audit.events, { ...event, at: Date.now() }] } }
+      : prev);
+  };
+
+  const targetListLabel = (chunk: DocumentChunk, targetLang: string, mode: TranslationState['listNumbering']) => {
+    const label = chunk.metadata?.listLabel;
+    return mode === 'localize' && label ? listNumbering.localize(label, targetLang) : undefined;
+  };
+
+  const toggleListNumbering = () => {
+    setState(prev => {
+      const mode = prev.listNumbering === 'keep' ? 'localize' : 'keep';
+      return targetService.updateAll({ ...prev, listNumbering: mode }, (doc, lang) => ({
+        ...doc,
+        chunks: doc.chunks.map(chunk => chunk.type === 'list-item'
+          ? { ...chunk, translatedListLabel: targetListLabel(chunk, lang, mode) }
+          : chunk)
+      }));
+    });
+  };
+
+  /**
+   * Translates chunks of one target language's document. Each language is its own job, so
+   * several can run side by side; a new run of the same language supersedes the old one.
+   */
+  const performTranslation = async (
+    currentChunks: DocumentChunk[],
+    targetLang: string,
+    runOptions: { enforceGlossary?: boolean; retranslate?: { instruction?: string }; detectedSourceLang?: string } = {}
+  ) => {
+    // Hand-edited and approved translations are kept unless these chunks were asked for again
+    const chunksToTranslate = runOptions.retranslate
+      ? currentChunks
+      : currentChunks.filter(c => !editHistory.isHumanVerified(c));
+
+    abortRefs.current[targetLang]?.abort();
+    const controller = new AbortController();
+    abortRefs.current[targetLang] = controller;
+    const isCurrent = () => abortRefs.current[targetLang] === controller;
+    setState(prev => targetService.setJob(prev, targetLang, { isProcessing: true, progress: 0, statusMessage: `Analyzing ${profile.name} Terms...` }));
+
+    // The glossary picked for the language on screen, or the one last used with this pair
+    const glossaryId = targetLang === state.targetLang
+      ? state.activeGlossaryId
+      : glossaryService.activeFor(state.sourceLang, targetLang)?.id || null;
+    const glossaryItems = targetLang === state.targetLang
+      ? state.glossary
+      : (glossaryId && glossaryService.get(glossaryId)?.items) || [];
+
+    // Applies a translation to a chunk, both as batches arrive and when the run completes
+    const applied = new Set<string>();
+    const applyTranslation = (chunk: DocumentChunk, text: string, runs: DocumentChunk['translatedRuns'], memoryMatch: DocumentChunk['memoryMatch']) =>
+      editHistory.commit(
+        { ...chunk, translatedListLabel: targetListLabel(chunk, targetLang, state.listNumbering), memoryMatch },
+        { text, runs, status: 'machine' },
+        runOptions.retranslate ? 'retranslate' : 'machine',
+        { instruction: runOptions.retranslate?.instruction?.trim() || undefined }
+      );
 
     try {
-      let finalSourceLang = state.sourceLang;
+      let finalSourceLang = runOptions.detectedSourceLang || state.sourceLang;
       if (finalSourceLang === 'auto') {
-        const sample = currentChunks.slice(0, 3).map(c => c.originalText).join(' ');
-        finalSourceLang = await geminiService.detectLanguage(sample);
+        const sample = chunksToTranslate.slice(0, 3).map(c => c.originalText).join(' ');
+        finalSourceLang = await translationService.detectLanguage(sample, selectedEngine);
       }
 
-      const translatedTexts = await geminiService.translateChunks(
-        currentChunks,
+      const outcome = await translationService.translateChunks(
+        chunksToTranslate,
         finalSourceLang,
         targetLang,
         state.tone,
         selectedEngine,
         state.groundingEnabled,
-        state.glossary
+        glossaryItems,
+        {
+          signal: controller.signal,
+          memory: state.memoryEnabled ? { threshold: state.memoryThreshold } : undefined,
+          enforceGlossary: runOptions.enforceGlossary,
+          retranslate: runOptions.retranslate,
+          // Shown (and saved with the session) as each batch finishes, not only at the end of the run
+          onBatch: batch => {
+            if (!isCurrent()) return;
+            Object.keys(batch.translations).forEach(id => applied.add(id));
+            setState(prev => targetService.update(prev, targetLang, doc => ({
+              ...doc,
+              chunks: doc.chunks.map(chunk => batch.translations[chunk.id] === undefined
+                ? chunk
+                : applyTranslation(chunk, batch.translations[chunk.id], batch.runs[chunk.id], batch.memoryMatches[chunk.id]))
+            })));
+          },
+          onProgress: ({ completed, total, etaMs }) => {
+            if (!isCurrent()) return;
+            setState(prev => targetService.setJob(prev, targetLang, {
+              progress: total > 0 ? Math.round(completed / total * 100) : 0,
+              statusMessage: `${completed} / ${total} Segments${etaMs !== undefined && completed < total ? ` · ${formatEta(etaMs)} left` : ''}`
+            }));
+          }
+        }
       );
 
-      const translatedChunks = currentChunks.map((chunk, i) => ({
-        ...chunk,
-        translatedText: translatedTexts[i] || chunk.originalText
-      }));
+      // A newer run of this language owns its document now
+      if (!isCurrent()) return;
+      delete abortRefs.current[targetLang];
 
-      setState(prev => ({ 
-        ...prev, 
-        chunks: translatedChunks, 
-        isProcessing: false, 
-        statusMessage: 'Translation Optimized' 
-      }));
+      // Merge by id so a retry of failed chunks leaves the rest of the document untouched
+      const updates = new Map<string, (chunk: DocumentChunk) => DocumentChunk>();
+      chunksToTranslate.forEach(({ id }) => {
+        const error = outcome.errors[id]
+          || (outcome.cancelledChunkIds.includes(id) ? "Cancelled before translation." : undefined);
+        updates.set(id, chunk => {
+          if (error) {
+            // A failed retranslation leaves the translation the user asked to replace
+            return runOptions.retranslate && chunk.translatedText
+              ? chunk
+              : { ...chunk, translatedText: undefined, translatedRuns: undefined, translationError: error };
+          }
+          if (applied.has(id)) return chunk;
+          return applyTranslation(chunk, outcome.translations[id] ?? "", outcome.runs[id], outcome.memoryMatches[id]);
+        });
+      });
+
+      recordGlossaryUsage(glossaryId, outcome.glossaryUsage, new Set(chunksToTranslate.map(c => c.id)));
+
+      const glossary = glossaryId && glossaryItems.length > 0 ? glossaryService.get(glossaryId) : undefined;
+      const glossaryVersion = glossary ? await auditService.glossaryVersion(glossary) : undefined;
+
+      const failedCount = outcome.failedChunkIds.length;
+      const cancelledCount = outcome.cancelledChunkIds.length;
+      const allFailed = failedCount > 0 && failedCount === chunksToTranslate.length;
+
+      setState(prev => targetService.setJob(
+        targetService.update(
+          { ...prev, detectedSourceLang: finalSourceLang, error: allFailed ? outcome.errors[outcome.failedChunkIds[0]] : prev.error },
+          targetLang,
+          doc => ({ ...doc, chunks: doc.chunks.map(chunk => updates.get(chunk.id)?.(chunk) ?? chunk) })
+        ),
+        targetLang,
+        {
+          isProcessing: false,
+          progress: 100,
+          statusMessage: cancelledCount > 0
+            ? `Cancelled · ${chunksToTranslate.length - cancelledCount - failedCount} / ${chunksToTranslate.length} Translated`
+            : failedCount > 0 ? `${failedCount} Segments Failed` : 'Translation Optimized'
+        }
+      ));
+      logAudit({
+        kind: 'translation',
+        by: runOptions.retranslate ? reviewService.getReviewer() || undefined : undefined,
+        summary: `${runOptions.retranslate ? 'Retranslated' : 'Translated'} ${chunksToTranslate.length - failedCount - cancelledCount} of ${chunksToTranslate.length} segments into ${targetLang}`,
+        details: {
+          engine: selectedEngine,
+          sourceLang: state.sourceLang,
+          detectedLang: finalSourceLang,
+          targetLang,
+          tone: state.tone,
+          profileName: profile.name,
+          grounding: state.groundingEnabled,
+          memory: state.memoryEnabled,
+          glossaryId: glossaryVersion?.id,
+          glossaryName: glossaryVersion?.name,
+          glossaryVersion: glossaryVersion?.version,
+          glossarySha256: glossaryVersion?.sha256,
+          glossaryTerms: glossaryVersion?.terms,
+          instruction: runOptions.retranslate?.instruction?.trim() || undefined,
+          segments: chunksToTranslate.length,
+          failed: failedCount,
+          cancelled: cancelledCount
+        }
+      });
+    } catch (err: any) {
+      if (isCurrent()) delete abortRefs.current[targetLang];
+      setState(prev => targetService.setJob(
+        { ...prev, error: err.message || "Translation failed. Please try again." },
+        targetLang,
+        { isProcessing: false, statusMessage: 'Translation Failed' }
+      ));
+    }
+  };
+
+  /** Every target language in parallel; the source language is detected once for all of them. */
+  const translateTargets = async (chunks: DocumentChunk[], targetLangs: string[]) => {
+    let detectedSourceLang = state.sourceLang;
+    if (detectedSourceLang === 'auto') {
+      setState(prev => ({ ...prev, statusMessage: 'Detecting Language...' }));
+      try {
+        detectedSourceLang = await translationService.detectLanguage(chunks.slice(0, 3).map(c => c.originalText).join(' '), selectedEngine);
+      } catch {
+        detectedSourceLang = 'auto';
+      }
+    }
+    await Promise.all(targetLangs.map(lang => performTranslation(chunks, lang, { detectedSourceLang })));
+  };
+
+  /** Reopens a saved session and translates only the segments that never came back. */
+  const resumeSession = async (id: string) => {
+    try {
+      const saved = await sessionStore.load(id);
+      abortRefs.current = {};
+      resumeRef.current = id;
+      setState(prev => ({ ...prev, ...saved, isProcessing: false, progress: 0, statusMessage: '', error: null, jobs: {} }));
     } catch (err: any) {
-      setState(prev => ({ ...prev, isProcessing: false, error: err.message || "Translation failed. Please try again." }));
+      setState(p => ({ ...p, error: `Could not reopen the document: ${err.message}` }));
+      refreshRecent();
     }
   };
 
+  useEffect(() => {
+    if (!state.sessionId || resumeRef.current !== state.sessionId) return;
+    resumeRef.current = null;
+    state.targetLangs.forEach(lang => {
+      const pending = (targetService.document(state, lang)?.chunks || [])
+        .filter(c => c.translatedText === undefined && !editHistory.isHumanVerified(c));
+      if (pending.length > 0) performTranslation(pending, lang, { detectedSourceLang: state.detectedSourceLang });
+    });
+  }, [state.sessionId]);
+
+  const forgetSession = (id: string) => {
+    sessionStore.remove(id).catch(err => console.warn("Could not remove the session:", err)).finally(refreshRecent);
+  };
+
+  const cancelTranslation = () => {
+    Object.values(abortRefs.current).forEach((controller: AbortController) => controller.abort());
+  };
+
+  const addTargetLanguage = (lang: string) => {
+    if (!lang || state.targetLangs.includes(lang)) return;
+    setState(prev => targetService.add(prev, lang));
+    if (state.chunks.length > 0) performTranslation(targetService.fresh(state.chunks), lang);
+  };
+
+  const removeTargetLanguage = (lang: string) => {
+    abortRefs.current[lang]?.abort();
+    delete abortRefs.current[lang];
+    setState(prev => targetService.remove(prev, lang));
+  };
+
+  const selectTargetLanguage = (lang: string) => {
+    setState(prev => targetService.switchTo(prev, lang));
+  };
+
+  const retryFailed = () => {
+    const failed = state.chunks.filter(c => c.translationError);
+    if (failed.length > 0) performTranslation(failed, state.targetLang);
+  };
+
+  const retranslateWithGlossary = (chunkIds: string[]) => {
+    const ids = new Set(chunkIds);
+    const failing = state.chunks.filter(c => ids.has(c.id));
+    if (failing.length > 0) performTranslation(failing, state.targetLang, { enforceGlossary: true, retranslate: {} });
+  };
+
+  const updateChunks = (ids: string[], change: (chunk: DocumentChunk) => DocumentChunk) => {
+    const idSet = new Set(ids);
+    setState(prev => ({ ...prev, chunks: prev.chunks.map(chunk => idSet.has(chunk.id) ? change(chunk) : chunk) }));
+  };
+
+  /** Translations a person wrote or vouched for; the memory never lets machine output replace them. */
+  const rememberVerified = (records: { sourceText: string; targetText: string }[]) => {
+    const sourceLang = state.detectedSourceLang || state.sourceLang;
+    if (!state.memoryEnabled || sourceLang === 'auto' || records.length === 0) return;
+    translationMemory.store(records.map(r => ({ ...r, origin: 'edited' as const })), sourceLang, state.targetLang, state.tone)
+      .catch(err => console.warn("Translation memory update failed:", err));
+  };
+
+  const chunkEditActions: ChunkEditorActions = {
+    onSave: (chunkId, text) => {
+      const chunk = state.chunks.find(c => c.id === chunkId);
+      if (!chunk) return;
+      updateChunks([chunkId], c => editHistory.edit(c, text, reviewService.getReviewer() || undefined));
+      rememberVerified([{ sourceText: chunk.originalText, targetText: text }]);
+    },
+    onApprove: chunkId => {
+      const chunk = state.chunks.find(c => c.id === chunkId);
+      if (!chunk?.translatedText) return;
+      updateChunks([chunkId], c => editHistory.approve(c, reviewService.getReviewer() || undefined));
+      rememberVerified([{ sourceText: chunk.originalText, targetText: chunk.translatedText }]);
+    },
+    onReject: chunkId => updateChunks([chunkId], c => editHistory.reject(c, reviewService.getReviewer() || undefined)),
+    onRetranslate: (chunkId, instruction) => {
+      const chunk = state.chunks.find(c => c.id === chunkId);
+      if (chunk) performTranslation([chunk], state.targetLang, { retranslate: { instruction } });
+    },
+    onUndo: chunkId => updateChunks([chunkId], c => editHistory.undo(c)),
+    onRedo: chunkId => updateChunks([chunkId], c => editHistory.redo(c)),
+    onComment: (chunkId, text) => updateChunks([chunkId], c => reviewService.addComment(c, reviewService.getReviewer(), text)),
+    onResolveComment: (chunkId, commentId, resolved) => updateChunks([chunkId], c => reviewService.resolveComment(c, commentId, resolved)),
+    onAssign: (chunkId, assignee) => updateChunks([chunkId], c => reviewService.assign(c, assignee))
+  };
+
+  /** Reviewed translations from an XLIFF file replace the current ones and teach the memory. */
+  const applyXliffUpdates = (xliffUpdates: XliffUpdate[]) => {
+    const byId = new Map(xliffUpdates.map(u => [u.chunkId, u]));
+    updateChunks([...byId.keys()], chunk => {
+      const update = byId.get(chunk.id)!;
+      const status = update.state === 'reviewed' || update.state === 'final' ? 'approved' : 'edited';
+      return { ...editHistory.commit(chunk, { text: update.text, runs: update.runs, status }, 'xliff'), memoryMatch: undefined };
+    });
+    rememberVerified(state.chunks
+      .filter(c => byId.has(c.id))
+      .map(c => ({ sourceText: c.originalText, targetText: byId.get(c.id)!.text })));
+    logAudit({
+      kind: 'xliff-import',
+      by: reviewService.getReviewer() || undefined,
+      summary: `Applied ${xliffUpdates.length} reviewed segment${xliffUpdates.length === 1 ? '' : 's'} from XLIFF`,
+      details: { segments: xliffUpdates.length }
+    });
+  };
+
+  const locateChunk = (chunkId: string) => {
+    document.getElementById(`translated-${chunkId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // QA checks the terms the profile brought as well as the user's, under the profile's rules
+  const qaIssues = useMemo(() => {
+    const glossary = profileService.glossaryFor(profile, state.detectedSourceLang || state.sourceLang, state.targetLang, state.glossary);
+    return qaService.run(state.chunks, glossary, profile.qaRules);
+  }, [state.chunks, state.glossary, profile, state.detectedSourceLang, state.sourceLang, state.targetLang]);
+  const qaIssuesByChunk = useMemo(() => qaService.byChunk(qaIssues), [qaIssues]);
+  const hasListItems = state.chunks.some(c => c.type === 'list-item');
+  const unacknowledgedBlocking = qaIssues.filter(i => i.severity === 'blocking' && !state.acknowledgedIssueIds.includes(i.id));
+
+  const exportBundle = state.targetLangs.length > 1 ? exportMode : 'current';
+  const exportLangs = exportBundle === 'current' ? [state.targetLang] : state.targetLangs;
+  // Languages in other tabs are checked only for the export gate; the QA panel shows the open one
+  const exportBlockingCount = useMemo(() => exportLangs.reduce((count, lang) => {
+    if (lang === state.targetLang) return count + unacknowledgedBlocking.length;
+    const doc = state.parkedTargets[lang];
+    if (!doc) return count;
+    const glossary = profileService.glossaryFor(profile, state.detectedSourceLang || state.sourceLang, lang, glossaryService.activeFor(state.sourceLang, lang)?.items || []);
+    return count + qaService.run(doc.chunks, glossary, profile.qaRules)
+      .filter(i => i.severity === 'blocking' && !doc.acknowledgedIssueIds.includes(i.id)).length;
+  }, 0), [exportLangs.join(), state.parkedTargets, unacknowledgedBlocking.length, profile, state.detectedSourceLang, state.sourceLang, state.targetLang]);
+
+  const acknowledgeIssues = (ids: string[]) => {
+    setState(prev => ({ ...prev, acknowledgedIssueIds: Array.from(new Set([...prev.acknowledgedIssueIds, ...ids])) }));
+  };
+
   const handleFileUpload = useCallback(async (file: File) => {
     const ext = file.name.split('.').pop()?.toLowerCase();
     
@@ -116,48 +550,165 @@ const App: React.FC = () => {
     }));
 
     try {
-      const processed = await fileService.processFile(file);
+      const audit = auditService.newTrail(await auditService.sha256(await file.arrayBuffer()));
+      audit.events.push({ at: Date.now(), kind: 'upload', summary: `Uploaded ${file.name}`, details: { fileName: file.name, size: file.size, sha256: audit.sourceSha256 } });
+      setState(prev => ({ ...prev, audit, sessionId: audit.jobId, reviewOverrides: [] }));
+
+      const processed = await fileService.processFile(file, {
+        ocrLanguages: [state.sourceLang],
+        onStatus: (message) => setState(prev => ({ ...prev, statusMessage: message }))
+      });
+      // Every target language starts from its own copy of the parsed chunks
       setState(prev => ({ 
         ...prev, 
         chunks: processed.chunks, 
+        acknowledgedIssueIds: [],
+        parkedTargets: Object.fromEntries(prev.targetLangs
+          .filter(lang => lang !== prev.targetLang)
+          .map(lang => [lang, { chunks: targetService.fresh(processed.chunks), acknowledgedIssueIds: [] }])),
+        jobs: {},
         originalFileData: processed.fileData,
         mimeType: processed.mimeType,
         originalFileType: ext || 'unknown'
       }));
       
-      await performTranslation(processed.chunks, state.targetLang);
+      await translateTargets(processed.chunks, state.targetLangs);
     } catch (err: any) {
       setState(prev => ({ ...prev, isProcessing: false, error: err.message || "File processing failed." }));
     }
-  }, [libsReady, state.targetLang]);
+  }, [libsReady, state]);
 
-  const handleDownloadDoc = () => {
-    const translatedExists = state.chunks.some(c => c.translatedText);
+  const renderTarget = (view: TranslationState) => fileService.writeTranslation(
+    view.chunks,
+    { fileName: view.originalFileName || 'document', fileData: view.originalFileData, mimeType: view.mimeType },
+    view.targetLang
+  );
+
+  /**
+   * Exports the language on screen, or every target language as a ZIP or a side-by-side
+   * document. The override being exported with is passed along, since the state doesn't hold it yet.
+   */
+  const handleDownloadDoc = async (override?: ReviewOverride) => {
+    const translatedExists = exportLangs.some(lang => targetService.document(state, lang)?.chunks.some(c => c.translatedText));
     if (!translatedExists) return;
 
-    let html = "<html><head><meta charset='UTF-8'><style>body{font-family:serif;padding:40px;line-height:1.5;}h2{text-align:center;border-bottom:2px solid #000;padding-bottom:10px;}p{margin-bottom:15px;}</style></head><body>";
-    state.chunks.forEach(chunk => {
-      const text = chunk.translatedText || "";
-      if (chunk.type === 'empty-line') html += "<br/>";
-      else if (chunk.type === 'heading') html += `<h2>${text}</h2>`;
-      else if (chunk.type === 'checkbox') html += `<p>${chunk.metadata?.isChecked ? '☑' : '☐'} ${text}</p>`;
-      else html += `<p>${text}</p>`;
+    try {
+      const exportState = override ? { ...state, reviewOverrides: [...state.reviewOverrides, override] } : state;
+      const baseName = (state.originalFileName || 'document').replace(/\.[^.]+$/, '');
+      const certified = state.attachCertificate && exportBundle !== 'side-by-side';
+      let blob: Blob;
+      let downloadName: string;
+
+      if (exportBundle === 'current') {
+        const rendered = await renderTarget(state);
+        blob = rendered.blob;
+        downloadName = `Translated_${baseName}.${rendered.extension}`;
+        if (certified) {
+          blob = await auditService.bundle(exportState, { blob, fileName: downloadName });
+          downloadName = `Translated_${baseName}_certified.zip`;
+        }
+      } else if (exportBundle === 'zip') {
+        const zip = new JSZip();
+        for (const lang of exportLangs) {
+          const view = targetService.view(exportState, lang);
+          const rendered = await renderTarget(view);
+          const fileName = `Translated_${baseName}.${lang}.${rendered.extension}`;
+          if (certified) await auditService.addCertified(zip, view, { blob: rendered.blob, fileName });
+          else zip.file(fileName, rendered.blob);
+        }
+        blob = await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+        downloadName = `Translated_${baseName}_${exportLangs.length}_languages${certified ? '_certified' : ''}.zip`;
+      } else {
+        const label = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+        blob = await exportService.toSideBySideDocx(
+          { label: label(state.detectedSourceLang || state.sourceLang), chunks: state.chunks },
+          exportLangs.map(lang => ({ label: label(lang), chunks: targetService.document(state, lang)!.chunks }))
+        );
+        downloadName = `Translated_${baseName}_side_by_side.docx`;
+      }
+
+      const outputSha256 = await auditService.sha256(await blob.arrayBuffer());
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = downloadName;
+      link.click();
+      URL.revokeObjectURL(url);
+      logAudit({
+        kind: 'export',
+        by: reviewService.getReviewer() || undefined,
+        summary: `Exported ${downloadName}${certified ? ' with certificate and manifest' : ''}`,
+        details: { fileName: downloadName, sha256: outputSha256, certified, languages: exportLangs.join(',') }
+      });
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: err.message || "Export failed." }));
+    }
+  };
+
+  /** Export is gated on sign-off; exporting without it asks for a reason, kept in the state. */
+  const requestExport = () => {
+    if (pendingReviewIds.length > 0) setShowExportOverride(true);
+    else handleDownloadDoc();
+  };
+
+  const exportWithOverride = ({ reason, by }: { reason: string; by: string }) => {
+    const override = { reason, by, at: Date.now(), pendingChunkIds: pendingReviewIds };
+    setState(prev => ({ ...prev, reviewOverrides: [...prev.reviewOverrides, override] }));
+    logAudit({
+      kind: 'review-override',
+      by,
+      summary: `Export approved with ${override.pendingChunkIds.length} clause(s) unreviewed`,
+      details: { reason, pending: override.pendingChunkIds.length }
     });
-    html += "</body></html>";
-
-    const blob = new Blob(['\ufeff', html], { type: 'application/msword' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `Translated_${state.originalFileName}.doc`;
-    link.click();
-    URL.revokeObjectURL(url);
+    setShowExportOverride(false);
+    handleDownloadDoc(override);
+  };
+
+  const failedCount = state.chunks.filter(c => c.translationError).length;
+  const failedByLang = Object.fromEntries(state.targetLangs.map(lang =>
+    [lang, targetService.document(state, lang)?.chunks.filter(c => c.translationError).length || 0]));
+  const reviewProgress = useMemo(() => reviewService.progress(state.chunks), [state.chunks]);
+  // Chunk ids are shared across languages, so a clause pending in any exported language is listed once
+  const pendingReviewIds: string[] = Array.from(new Set(exportLangs.flatMap(lang =>
+    reviewService.pending(targetService.document(state, lang)?.chunks || []).map(c => c.id))));
+  const pendingReviewCount = pendingReviewIds.length;
+  const reviewChunkFilter = reviewFilter === 'all' ? undefined : (chunk: DocumentChunk) => reviewService.matches(chunk, reviewFilter);
+
+  const queueFiles = async (sources: QueueSource[]) => {
+    try {
+      const { sources: accepted, unsupported } = await batchQueue.expand(sources);
+      batchQueue.add(accepted, unsupported);
+    } catch (err: any) {
+      setState(p => ({ ...p, error: `Could not read the upload: ${err.message}` }));
+    }
+  };
+
+  const downloadQueue = async () => {
+    try {
+      const url = URL.createObjectURL(await batchQueue.toZip());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Translated_batch_${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setState(p => ({ ...p, error: `Batch download failed: ${err.message}` }));
+    }
   };
 
   const reset = () => {
+    cancelTranslation();
+    abortRefs.current = {};
     setState(prev => ({
       ...prev,
       chunks: [],
+      acknowledgedIssueIds: [],
+      parkedTargets: {},
+      jobs: {},
+      isProcessing: false,
+      reviewOverrides: [],
+      audit: null,
+      sessionId: null,
       originalFileName: null,
       error: null,
       statusMessage: ''
@@ -195,12 +746,65 @@ const App: React.FC = () => {
               </p>
             </div>
             
-            <FileUploader onUpload={handleFileUpload} />
+            <FileUploader
+              onUpload={handleFileUpload}
+              onUploadMany={queueFiles}
+              onError={message => setState(p => ({ ...p, error: message }))}
+            />
+
+            {recent.length > 0 && (
+              <RecentDocuments sessions={recent} onResume={resumeSession} onRemove={forgetSession} />
+            )}
+
+            {queue.length > 0 && (
+              <BatchQueue
+                items={queue}
+                onRetry={id => batchQueue.retry(id)}
+                onRetryFailed={() => batchQueue.retryFailed()}
+                onRemove={id => batchQueue.remove(id)}
+                onCancel={() => batchQueue.cancel()}
+                onClear={() => batchQueue.clear()}
+                onDownload={downloadQueue}
+              />
+            )}
 
             <div className="flex flex-col items-center gap-4 text-slate-400">
-               <span className="text-[10px] font-black uppercase tracking-[0.5em]">Global Output Language</span>
-               <div className="p-4 bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 shadow-xl flex items-center gap-4">
-                  <LanguagePicker value={state.targetLang} onChange={(val) => setState(p => ({ ...p, targetLang: val }))} />
+               <span className="text-[10px] font-black uppercase tracking-[0.5em]">Global Output Languages</span>
+               <div className="p-4 bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 shadow-xl flex flex-wrap items-center justify-center gap-4">
+                  <TargetLanguagePicker selected={state.targetLangs} onAdd={addTargetLanguage} onRemove={removeTargetLanguage} />
+                  <div className="h-8 w-[2px] bg-slate-200 dark:bg-slate-800"></div>
+                  <select
+                    value={selectedEngine}
+                    onChange={(e) => setSelectedEngine(e.target.value)}
+                    className="bg-transparent border-none focus:ring-0 font-semibold text-sm cursor-pointer hover:text-indigo-600 transition-colors"
+                    title="Translation engine"
+                  >
+                    {translationService.listProviders().map(provider => provider.engines.map(engine => (
+                      <option key={engine} value={engine} className="bg-white dark:bg-slate-900 text-slate-900 dark:text-white">
+                        {provider.name} · {engine}
+                      </option>
+                    )))}
+                  </select>
+                  <div className="h-8 w-[2px] bg-slate-200 dark:bg-slate-800"></div>
+                  <select
+                    value={profile.id}
+                    onChange={(e) => setState(p => ({ ...p, tone: e.target.value }))}
+                    className="bg-transparent border-none focus:ring-0 font-semibold text-sm cursor-pointer hover:text-indigo-600 transition-colors"
+                    title="Domain profile"
+                  >
+                    {profileService.list().map(p => (
+                      <option key={p.id} value={p.id} className="bg-white dark:bg-slate-900 text-slate-900 dark:text-white">
+                        {p.icon} {p.name} · {p.description}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setShowProfiles(true)}
+                    className="p-2 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 hover:text-indigo-600 transition-colors"
+                    title="Manage domain profiles"
+                  >
+                    <Drama className="w-4 h-4" />
+                  </button>
                </div>
             </div>
           </div>
@@ -224,14 +828,7 @@ const App: React.FC = () => {
               </div>
 
               <div className="flex items-center gap-4 flex-1 justify-center">
-                 <div className="flex items-center gap-4 px-6 py-3 bg-slate-100 dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700">
-                    <LanguagePicker value={state.targetLang} onChange={(val) => {
-                      setState(p => ({ ...p, targetLang: val }));
-                      performTranslation(state.chunks, val);
-                    }} />
-                 </div>
-                 
-                 <div className="flex items-center gap-3 px-6 py-3 bg-indigo-50 dark:bg-indigo-950/30 rounded-2xl border border-indigo-100 dark:border-indigo-900/50">
+                 <div className="relative overflow-hidden flex items-center gap-3 px-6 py-3 bg-indigo-50 dark:bg-indigo-950/30 rounded-2xl border border-indigo-100 dark:border-indigo-900/50">
                     {state.isProcessing ? (
                       <Loader2 className="w-4 h-4 text-indigo-600 animate-spin" />
                     ) : (
@@ -240,10 +837,92 @@ const App: React.FC = () => {
                     <span className="text-[10px] font-black uppercase tracking-widest text-indigo-600">
                       {state.statusMessage}
                     </span>
+                    {state.isProcessing && (
+                      <button
+                        onClick={cancelTranslation}
+                        className="ml-2 flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-rose-600 hover:underline"
+                        title="Stop pending batches and keep what is already translated"
+                      >
+                        <XCircle className="w-4 h-4" />
+                        Cancel
+                      </button>
+                    )}
+                    {state.isProcessing && (
+                      <div className="absolute bottom-0 left-0 h-1 bg-indigo-600 transition-all duration-500" style={{ width: `${state.progress}%` }} />
+                    )}
                  </div>
               </div>
 
               <div className="flex items-center gap-4">
+                {failedCount > 0 && !state.isProcessing && (
+                  <button 
+                    onClick={retryFailed}
+                    className="flex items-center gap-3 px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest bg-rose-50 text-rose-600 border border-rose-200 dark:bg-rose-950/30 dark:border-rose-900/50 hover:bg-rose-100 transition-all"
+                  >
+                    <RotateCw className="w-4 h-4" />
+                    Retry {failedCount} Failed
+                  </button>
+                )}
+                <ReviewSummary progress={reviewProgress} filter={reviewFilter} onFilterChange={setReviewFilter} />
+                <button 
+                  onClick={() => setShowQa(true)}
+                  className={`flex items-center gap-3 px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest transition-all ${qaIssues.length > 0 ? 'bg-rose-50 text-rose-600 border border-rose-200 dark:bg-rose-950/30 dark:border-rose-900/50 hover:bg-rose-100' : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                  title="Quality checks"
+                >
+                  <ShieldAlert className="w-4 h-4" />
+                  QA{qaIssues.length > 0 ? ` (${qaIssues.length})` : ''}
+                </button>
+                {hasListItems && (
+                  <button 
+                    onClick={toggleListNumbering}
+                    className="flex items-center gap-3 px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all"
+                    title="Keep the source's clause labels or rewrite them in the target language's digits and alphabet"
+                  >
+                    <ListOrdered className="w-4 h-4" />
+                    Numbering: {state.listNumbering === 'keep' ? 'Keep' : 'Localize'}
+                  </button>
+                )}
+                <button 
+                  onClick={() => performTranslation(state.chunks, state.targetLang)}
+                  disabled={state.isProcessing}
+                  className="flex items-center gap-3 px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all disabled:opacity-50"
+                  title="Translate the document again, keeping edited and approved segments"
+                >
+                  <Languages className="w-4 h-4" />
+                  Retranslate
+                </button>
+                <button 
+                  onClick={() => setShowProfiles(true)}
+                  className="flex items-center gap-3 px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all"
+                  title={`Domain profile: ${profile.description}. Retranslate to apply a change.`}
+                >
+                  <Drama className="w-4 h-4" />
+                  {profile.icon} {profile.name}
+                </button>
+                <button 
+                  onClick={() => setShowGlossary(true)}
+                  className="flex items-center gap-3 px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all"
+                  title="Glossary"
+                >
+                  <Book className="w-4 h-4" />
+                  Glossary{state.glossary.length > 0 ? ` (${state.glossary.length})` : ''}
+                </button>
+                <button 
+                  onClick={() => setShowXliff(true)}
+                  className="flex items-center gap-3 px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all"
+                  title="Exchange with a CAT tool as XLIFF 2.0"
+                >
+                  <ArrowLeftRight className="w-4 h-4" />
+                  XLIFF
+                </button>
+                <button 
+                  onClick={() => setShowMemory(true)}
+                  className="flex items-center gap-3 px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all"
+                  title="Translation memory"
+                >
+                  <Database className="w-4 h-4" />
+                  Memory
+                </button>
                 <button 
                   onClick={() => setShowSource(!showSource)}
                   className={`flex items-center gap-3 px-8 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest transition-all ${showSource ? 'bg-slate-900 text-white dark:bg-white dark:text-slate-900' : 'bg-slate-100 text-slate-600'}`}
@@ -252,8 +931,29 @@ const App: React.FC = () => {
                   Clause Sync
                 </button>
                 <button 
-                  onClick={handleDownloadDoc}
-                  disabled={state.isProcessing}
+                  onClick={() => setState(p => ({ ...p, attachCertificate: !p.attachCertificate }))}
+                  className={`flex items-center gap-3 px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest transition-all ${state.attachCertificate ? 'bg-indigo-50 text-indigo-700 border border-indigo-200 dark:bg-indigo-950/30 dark:text-indigo-300 dark:border-indigo-900/50' : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+                  title="Export a ZIP with the translation, a certificate of translation and the JSON audit manifest"
+                >
+                  <Stamp className="w-4 h-4" />
+                  Certificate: {state.attachCertificate ? 'On' : 'Off'}
+                </button>
+                {state.targetLangs.length > 1 && (
+                  <button 
+                    onClick={() => setExportMode(m => m === 'current' ? 'zip' : m === 'zip' ? 'side-by-side' : 'current')}
+                    className="flex items-center gap-3 px-6 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all"
+                    title="Export the open language, every language as a ZIP, or one document with the languages side by side (not certified)"
+                  >
+                    <Files className="w-4 h-4" />
+                    Export: {exportBundle === 'current' ? state.targetLang.toUpperCase() : exportBundle === 'zip' ? 'All (ZIP)' : 'Side-by-side'}
+                  </button>
+                )}
+                <button 
+                  onClick={requestExport}
+                  disabled={state.isProcessing || exportBlockingCount > 0}
+                  title={exportBlockingCount > 0
+                    ? `${exportBlockingCount} blocking check(s) must be reviewed in QA before export${exportLangs.length > 1 ? ' (see each language tab)' : ''}`
+                    : pendingReviewCount > 0 ? `${pendingReviewCount} clause(s) still awaiting approval` : undefined}
                   className="flex items-center gap-4 px-10 py-4 bg-indigo-600 hover:bg-indigo-700 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest shadow-xl shadow-indigo-600/30 active:scale-95 transition-all disabled:opacity-50"
                 >
                   <Download className="w-5 h-5" />
@@ -262,6 +962,17 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {/* Target Languages */}
+            <TargetTabs
+              languages={state.targetLangs}
+              active={state.targetLang}
+              jobs={state.jobs}
+              failed={failedByLang}
+              onSelect={selectTargetLanguage}
+              onAdd={addTargetLanguage}
+              onRemove={removeTargetLanguage}
+            />
+
             {/* Document Side-by-Side View */}
             <div className="grid grid-cols-1 xl:grid-cols-2 gap-10">
               {showSource && (
@@ -269,7 +980,7 @@ const App: React.FC = () => {
                   <div className="px-6 py-2 bg-slate-200/50 dark:bg-slate-800/50 rounded-t-2xl text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 border border-slate-200 dark:border-slate-800">
                     Draft / Original
                   </div>
-                  <DocumentPreview chunks={state.chunks} mode="original" />
+                  <DocumentPreview chunks={state.chunks} mode="original" filter={reviewChunkFilter} />
                 </div>
               )}
               
@@ -281,13 +992,79 @@ const App: React.FC = () => {
                     <span>Real Estate Mode</span>
                   </div>
                 </div>
-                <DocumentPreview chunks={state.chunks} mode="translated" />
+                <DocumentPreview
+                  chunks={state.chunks}
+                  mode="translated"
+                  issues={qaIssuesByChunk}
+                  editActions={chunkEditActions}
+                  isProcessing={state.isProcessing}
+                  filter={reviewChunkFilter}
+                />
               </div>
             </div>
           </div>
         )}
       </main>
 
+      {showQa && (
+        <QaPanel
+          issues={qaIssues}
+          isProcessing={state.isProcessing}
+          acknowledgedIds={state.acknowledgedIssueIds}
+          onAcknowledge={acknowledgeIssues}
+          onLocate={locateChunk}
+          onRetranslateGlossary={retranslateWithGlossary}
+          onClose={() => setShowQa(false)}
+        />
+      )}
+
+      {showGlossary && (
+        <GlossaryManager
+          sourceLang={state.sourceLang}
+          targetLang={state.targetLang}
+          activeGlossaryId={state.activeGlossaryId}
+          onChange={selectGlossary}
+          onClose={() => setShowGlossary(false)}
+        />
+      )}
+
+      {showProfiles && (
+        <ProfileManager
+          activeProfileId={profile.id}
+          onChange={(tone) => setState(p => ({ ...p, tone }))}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}
+
+      {showExportOverride && (
+        <ExportOverride
+          pendingCount={pendingReviewCount}
+          onConfirm={exportWithOverride}
+          onClose={() => setShowExportOverride(false)}
+        />
+      )}
+
+      {showXliff && (
+        <XliffExchange
+          chunks={state.chunks}
+          sourceLang={state.detectedSourceLang || state.sourceLang}
+          targetLang={state.targetLang}
+          fileName={state.originalFileName || 'document'}
+          onApply={applyXliffUpdates}
+          onLocate={locateChunk}
+          onClose={() => setShowXliff(false)}
+        />
+      )}
+
+      {showMemory && (
+        <MemoryManager
+          enabled={state.memoryEnabled}
+          threshold={state.memoryThreshold}
+          onChange={({ enabled, threshold }) => setState(p => ({ ...p, memoryEnabled: enabled, memoryThreshold: threshold }))}
+          onClose={() => setShowMemory(false)}
+        />
+      )}
+
       <Footer />
     </div>
   );
@@ -0,0 +1,68 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { basename, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { DOMParser as XmlParser, XMLSerializer as XmlSerializer } from '@xmldom/xmldom';
+import { DOMParser as HtmlParser } from 'linkedom';
+import mammoth from 'mammoth';
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { configureRuntime, fetchFont } from '../services/runtime';
+
+// XML packages need namespace support (xmldom); mammoth's HTML needs selectors (linkedom)
+class NodeDomParser {
+  parseFromString(text: string, type: DOMParserSupportedType): Document {
+    if (type !== 'text/html') return new XmlParser().parseFromString(text, type) as unknown as Document;
+    // Browsers wrap a fragment such as mammoth's output in html and body; linkedom does not
+    const html = /<html[\s>]/i.test(text) ? text : `<!DOCTYPE html><html><head></head><body>${text}</body></html>`;
+    return new HtmlParser().parseFromString(html, type) as unknown as Document;
+  }
+}
+
+/**
+ * PDF fonts without the network: a TTF in RETRANS_FONT_DIR (by file name, e.g.
+ * NotoSans_400Regular.ttf), then an installed @expo-google-fonts package, then the CDN.
+ */
+const loadFont = async (pkg: string, file: string): Promise<ArrayBuffer> => {
+  const candidates: string[] = [];
+  if (process.env.RETRANS_FONT_DIR) candidates.push(join(process.env.RETRANS_FONT_DIR, basename(file)));
+  try {
+    candidates.push(createRequire(import.meta.url).resolve(`@expo-google-fonts/${pkg.replace(/@[^@]*$/, '')}/${file}`));
+  } catch {
+    // Not installed
+  }
+  for (const path of candidates) {
+    const bytes = await readFile(path).catch(() => null);
+    if (bytes) return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  }
+  return fetchFont(pkg, file).catch(err => {
+    throw new Error(`${basename(file)} isn't in RETRANS_FONT_DIR and couldn't be downloaded: ${err?.message || err}`);
+  });
+};
+
+/**
+ * Gives the services Node versions of what the page provides in the browser. There is no canvas,
+ * so scanned pages and photos (which need OCR) are rejected with an error.
+ */
+export const configureNodeRuntime = () => {
+  pdfjs.GlobalWorkerOptions.workerSrc = pathToFileURL(
+    createRequire(import.meta.url).resolve('pdfjs-dist/legacy/build/pdf.worker.mjs')
+  ).href;
+
+  configureRuntime({
+    DOMParser: NodeDomParser as unknown as new () => DOMParser,
+    XMLSerializer: XmlSerializer as unknown as new () => XMLSerializer,
+    // The browser build of mammoth reads an ArrayBuffer, the Node build a Buffer
+    mammoth: {
+      convertToHtml: (input: { arrayBuffer: ArrayBuffer }, options?: object) =>
+        mammoth.convertToHtml({ buffer: Buffer.from(input.arrayBuffer) }, options)
+    },
+    // pdf.js logs font warnings with console.log, which would corrupt JSON output on stdout
+    pdfjsLib: {
+      GlobalWorkerOptions: pdfjs.GlobalWorkerOptions,
+      getDocument: (source: object) => pdfjs.getDocument({ ...source, verbosity: pdfjs.VerbosityLevel.ERRORS })
+    },
+    createCanvas: undefined,
+    apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY,
+    loadFont
+  });
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { outputPath } from "./outputPath";
+
+describe("outputPath", () => {
+  it("puts the language code before the extension", () => {
+    expect(outputPath('lease.docx', undefined, 'es', 'docx', false)).toBe('lease.es.docx');
+    expect(outputPath('lease.docx', 'out/contract.DOCX', 'fr', 'docx', true)).toBe('out/contract.fr.DOCX');
+  });
+
+  it("uses --out as given for one language", () => {
+    expect(outputPath('lease.docx', 'out/contract.docx', 'es', 'docx', false)).toBe('out/contract.docx');
+  });
+
+  it("replaces an --out extension the writer doesn't produce", () => {
+    expect(outputPath('scan.pdf', 'scan-es.pdf', 'es', 'docx', false)).toBe('scan-es.docx');
+    expect(outputPath('scan.pdf', 'translated', 'es', 'docx', false)).toBe('translated.docx');
+    expect(outputPath('scan.pdf', 'scan.pdf', 'de', 'docx', true)).toBe('scan.de.docx');
+  });
+});
@@ -0,0 +1,14 @@
+import { extname } from 'node:path';
+
+/**
+ * Where one language's output goes: --out for a single language, otherwise the input or --out
+ * with the code before the extension (lease.docx → lease.es.docx). The extension is always the
+ * writer's, so --out lease.pdf for a document written as DOCX becomes lease.docx.
+ */
+export const outputPath = (input: string, out: string | undefined, targetLang: string, extension: string, several: boolean): string => {
+  const base = out || input;
+  const ext = extname(base);
+  const stem = base.slice(0, base.length - ext.length);
+  const lang = out && !several ? '' : `.${targetLang}`;
+  return `${stem}${lang}${ext.slice(1).toLowerCase() === extension.toLowerCase() ? ext : `.${extension}`}`;
+};
@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { GlossaryItem, QaIssue } from '../types';
+import { ENGINES, LANGUAGES } from '../constants';
+import { glossaryService } from '../services/glossaryService';
+import { PipelineProgress, translationPipeline } from '../services/pipeline';
+import { profileService } from '../services/profileService';
+import { translationService } from '../services/translationService';
+import { configureNodeRuntime } from './nodeRuntime';
+import { outputPath } from './outputPath';
+
+const EXIT = {
+  OK: 0,
+  ERROR: 1,
+  /** Some segments came back untranslated; the output marks each with [TRANSLATION FAILED]. */
+  TRANSLATION_FAILED: 2,
+  /** QA found issues at or above --fail-on; the output is still written. */
+  QA_FAILED: 3,
+  INTERRUPTED: 130
+};
+
+const USAGE = `Usage: retrans translate <file> --to <lang>[,<lang>...] [options]
+
+Options:
+  -t, --to <lang>        Target language code; repeat or comma-separate for several
+  -f, --from <lang>      Source language code (default: auto-detect)
+      --tone <profile>   Domain profile: ${profileService.list().map(p => p.id).join(', ')} (default: legal)
+  -g, --glossary <file>  Glossary as CSV (source,target[,case_sensitive,whole_word]) or TBX
+  -o, --out <file>       Output file, with the output format's extension; with several languages
+                         the code is added before the extension
+  -e, --engine <engine>  flash, pro or mock, or an engine id (default: pro)
+      --grounding        Let the model consult web search for terminology
+      --localize-lists   Rewrite list labels in the target language's conventions
+      --fail-on <level>  Exit with ${EXIT.QA_FAILED} on QA issues: blocking, warning or none (default: blocking)
+      --json             Print progress and results as JSON lines on stdout
+  -h, --help             Show this help
+
+Set GEMINI_API_KEY for the Gemini engines. PDFs in scripts Helvetica can't draw use Noto Sans
+fonts from RETRANS_FONT_DIR, downloaded when they aren't there. Exit codes: ${EXIT.OK} success,
+${EXIT.ERROR} error, ${EXIT.TRANSLATION_FAILED} segments failed to translate, ${EXIT.QA_FAILED} QA failures.`;
+
+class UsageError extends Error {}
+
+const engineFor = (name: string): string => {
+  const byKey = (ENGINES as Record<string, string>)[name.toUpperCase()];
+  if (byKey) return byKey;
+  if (Object.values(ENGINES).includes(name)) return name;
+  throw new UsageError(`Unknown engine "${name}". Use flash, pro or mock.`);
+};
+
+const languageCode = (code: string): string => {
+  const lang = LANGUAGES.find(l => l.code.toLowerCase() === code.trim().toLowerCase());
+  if (!lang) throw new UsageError(`Unknown language "${code}". Known codes: ${LANGUAGES.map(l => l.code).join(', ')}.`);
+  return lang.code;
+};
+
+const readGlossaries = async (path: string, sourceLang: string, targetLangs: string[]): Promise<Record<string, GlossaryItem[]>> => {
+  const text = await readFile(path, 'utf8');
+  if (/\.tbx$|\.xml$/i.test(path)) {
+    return Object.fromEntries(targetLangs.map(lang => [lang, glossaryService.fromTbx(text, sourceLang, lang)]));
+  }
+  const items = glossaryService.fromCsv(text);
+  return Object.fromEntries(targetLangs.map(lang => [lang, items]));
+};
+
+const translate = async (args: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      to: { type: 'string', short: 't', multiple: true },
+      from: { type: 'string', short: 'f', default: 'auto' },
+      tone: { type: 'string', default: 'legal' },
+      glossary: { type: 'string', short: 'g' },
+      out: { type: 'string', short: 'o' },
+      engine: { type: 'string', short: 'e', default: 'pro' },
+      grounding: { type: 'boolean', default: false },
+      'localize-lists': { type: 'boolean', default: false },
+      'fail-on': { type: 'string', default: 'blocking' },
+      json: { type: 'boolean', default: false }
+    }
+  });
+
+  const input = positionals[0];
+  if (!input || positionals.length > 1) throw new UsageError("Give exactly one input file.");
+  const targetLangs = Array.from(new Set((values.to || []).flatMap(v => v.split(',')).filter(Boolean).map(languageCode)));
+  if (targetLangs.length === 0) throw new UsageError("Give at least one target language with --to.");
+  if (targetLangs.includes('auto')) throw new UsageError("Target languages can't be auto-detected.");
+  const sourceLang = values.from === 'auto' ? 'auto' : languageCode(values.from!);
+  if (!profileService.has(values.tone!)) {
+    throw new UsageError(`Unknown profile "${values.tone}". Use one of: ${profileService.list().map(p => p.id).join(', ')}.`);
+  }
+  const failOn = values['fail-on']!;
+  if (!['blocking', 'warning', 'none'].includes(failOn)) throw new UsageError("--fail-on must be blocking, warning or none.");
+  const engine = engineFor(values.engine!);
+  if (translationService.getProvider(engine).capabilities.requiresApiKey && !process.env.GEMINI_API_KEY && !process.env.API_KEY) {
+    throw new Error("Set GEMINI_API_KEY to use the Gemini engines, or pass --engine mock for a dry run.");
+  }
+
+  // JSON lines on stdout for scripts; human-readable progress on stderr otherwise
+  const emit = (event: string, data: object) => {
+    if (values.json) process.stdout.write(JSON.stringify({ event, ...data }) + '\n');
+  };
+  const say = (line: string) => {
+    if (!values.json) process.stderr.write(line + '\n');
+  };
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  const glossaries = values.glossary ? await readGlossaries(values.glossary, sourceLang, targetLangs) : undefined;
+  const file = new File([await readFile(input)], basename(input));
+  emit('start', { input, targetLangs, sourceLang, profile: values.tone, engine });
+
+  let lastLine = '';
+  const result = await translationPipeline.run(file, {
+    sourceLang,
+    targetLangs,
+    tone: values.tone!,
+    engine,
+    groundingEnabled: values.grounding!,
+    listNumbering: values['localize-lists'] ? 'localize' : 'keep',
+    glossaries
+  }, {
+    signal: controller.signal,
+    onProgress: (progress: PipelineProgress) => {
+      emit('progress', progress);
+      const line = `[${String(progress.percent).padStart(3)}%] ${progress.message}`;
+      if (line !== lastLine) say(line);
+      lastLine = line;
+    }
+  });
+  if (controller.signal.aborted) {
+    emit('cancelled', {});
+    say("Cancelled.");
+    return EXIT.INTERRUPTED;
+  }
+
+  const failing = (issues: QaIssue[]) =>
+    failOn === 'none' ? [] : issues.filter(i => failOn === 'warning' || i.severity === 'blocking');
+  let failedSegments = 0;
+  let qaFailures = 0;
+
+  for (const target of result.targets) {
+    const path = outputPath(input, values.out, target.targetLang, target.extension, targetLangs.length > 1);
+    await writeFile(path, new Uint8Array(await target.blob.arrayBuffer()));
+    if (values.out && targetLangs.length === 1 && path !== values.out) {
+      say(`The output is ${target.extension.toUpperCase()}, so it was written to ${path} instead of ${values.out}.`);
+    }
+    const blocking = target.issues.filter(i => i.severity === 'blocking').length;
+    failedSegments += target.failedSegments;
+    qaFailures += failing(target.issues).length;
+
+    emit('output', {
+      targetLang: target.targetLang,
+      path,
+      segments: result.segments,
+      failedSegments: target.failedSegments,
+      qa: { warnings: target.issues.length - blocking, blocking, issues: target.issues }
+    });
+    say(`${target.targetLang.toUpperCase()} → ${path} · ${result.segments} segments, ${target.failedSegments} failed · QA: ${blocking} blocking, ${target.issues.length - blocking} warnings`);
+    failing(target.issues).forEach(issue => say(`  ${issue.severity === 'blocking' ? '✗' : '!'} [${issue.kind}] ${issue.message}`));
+  }
+
+  const exitCode = failedSegments > 0 ? EXIT.TRANSLATION_FAILED : qaFailures > 0 ? EXIT.QA_FAILED : EXIT.OK;
+  emit('done', { exitCode, sourceLang: result.sourceLang, failedSegments, qaFailures });
+  return exitCode;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...args] = argv;
+  if (!command || command === '-h' || command === '--help' || args.includes('--help') || args.includes('-h')) {
+    process.stdout.write(USAGE + '\n');
+    return command ? EXIT.OK : EXIT.ERROR;
+  }
+  if (command !== 'translate') throw new UsageError(`Unknown command "${command}".`);
+  configureNodeRuntime();
+  return translate(args);
+};
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+}, (err: any) => {
+  if (process.argv.includes('--json')) process.stdout.write(JSON.stringify({ event: 'error', message: err?.message || String(err) }) + '\n');
+  process.stderr.write(`retrans: ${err?.message || err}\n${err instanceof UsageError ? `\n${USAGE}\n` : ''}`);
+  process.exitCode = EXIT.ERROR;
+});
@@ -0,0 +1,118 @@
+import React from 'react';
+import { BatchItem, BatchItemStatus } from '../types';
+import { Loader2, X, RotateCcw, Download, Ban, Trash2, Files, CircleCheck, CircleX, Clock } from 'lucide-react';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+  onRemove: (id: string) => void;
+  onCancel: () => void;
+  onClear: () => void;
+  onDownload: () => void;
+}
+
+const STATUS_STYLE: Record<BatchItemStatus, string> = {
+  queued: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400',
+  running: 'bg-indigo-100 text-indigo-600 dark:bg-indigo-900/40 dark:text-indigo-300',
+  done: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300',
+  failed: 'bg-rose-100 text-rose-700 dark:bg-rose-900/40 dark:text-rose-300',
+  cancelled: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'
+};
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  if (status === 'running') return <Loader2 className="w-3 h-3 animate-spin" />;
+  if (status === 'done') return <CircleCheck className="w-3 h-3" />;
+  if (status === 'failed') return <CircleX className="w-3 h-3" />;
+  if (status === 'cancelled') return <Ban className="w-3 h-3" />;
+  return <Clock className="w-3 h-3" />;
+};
+
+/** The batch queue: overall progress, bulk actions and one row per document. */
+const BatchQueue: React.FC<BatchQueueProps> = ({ items, onRetry, onRetryFailed, onRemove, onCancel, onClear, onDownload }) => {
+  const count = (status: BatchItemStatus) => items.filter(i => i.status === status).length;
+  const active = count('queued') + count('running');
+  const retryable = count('failed') + count('cancelled');
+  const progress = items.length > 0 ? Math.round(items.reduce((sum, i) => sum + (i.status === 'queued' ? 0 : i.status === 'running' ? i.progress : 100), 0) / items.length) : 0;
+  const buttonClass = 'flex items-center gap-2 px-4 py-2.5 rounded-xl bg-slate-50 dark:bg-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="max-w-4xl mx-auto text-left bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 shadow-xl overflow-hidden">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-800 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-600 p-2.5 rounded-xl text-white">
+              <Files className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="font-black text-lg tracking-tight">Batch Queue</h3>
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                {count('done')} done · {count('running')} running · {count('queued')} queued · {count('failed')} failed
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={onRetryFailed} disabled={retryable === 0} className={buttonClass}>
+              <RotateCcw className="w-3.5 h-3.5" />
+              Retry Failed
+            </button>
+            <button onClick={onCancel} disabled={active === 0} className={buttonClass}>
+              <Ban className="w-3.5 h-3.5" />
+              Cancel
+            </button>
+            <button onClick={onClear} disabled={items.length === count('running')} className={buttonClass}>
+              <Trash2 className="w-3.5 h-3.5" />
+              Clear
+            </button>
+            <button
+              onClick={onDownload}
+              disabled={count('done') === 0}
+              className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <Download className="w-3.5 h-3.5" />
+              Download ZIP
+            </button>
+          </div>
+        </div>
+        <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-600 transition-all duration-500" style={{ width: `${progress}%` }}></div>
+        </div>
+      </div>
+
+      <ul className="max-h-[420px] overflow-y-auto divide-y divide-slate-100 dark:divide-slate-800">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-4 px-6 py-3">
+            <span className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest shrink-0 ${STATUS_STYLE[item.status]}`}>
+              <StatusIcon status={item.status} />
+              {item.status}
+            </span>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-baseline gap-2">
+                <span className="font-bold text-sm truncate">{item.file.name}</span>
+                {item.path && <span className="text-[10px] text-slate-400 truncate">{item.path}</span>}
+              </div>
+              <p className={`text-xs truncate ${item.error ? 'text-rose-600' : 'text-slate-500 dark:text-slate-400'}`} title={item.error || item.statusMessage}>
+                {item.error || item.statusMessage}
+              </p>
+              {item.status === 'running' && (
+                <div className="mt-1.5 h-1 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${item.progress}%` }}></div>
+                </div>
+              )}
+            </div>
+            {(item.status === 'failed' || item.status === 'cancelled') && (
+              <button onClick={() => onRetry(item.id)} className="p-2 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title="Retry">
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+            <button onClick={() => onRemove(item.id)} className="p-2 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={item.status === 'running' ? 'Stop and remove' : 'Remove'}>
+              <X className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default BatchQueue;
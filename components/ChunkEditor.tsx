@@ -0,0 +1,179 @@
+
+import React, { useState } from 'react';
+import { ChunkRevision, DocumentChunk } from '../types';
+import { editHistory } from '../services/editHistory';
+import ReviewThread from './ReviewThread';
+import { Undo2, Redo2, BadgeCheck, WandSparkles, History, Check, X, ThumbsDown } from 'lucide-react';
+
+/** What the translated pane can do to a chunk; all handlers take the chunk id. */
+export interface ChunkEditorActions {
+  onSave: (chunkId: string, text: string) => void;
+  onApprove: (chunkId: string) => void;
+  onReject: (chunkId: string) => void;
+  onRetranslate: (chunkId: string, instruction: string) => void;
+  onUndo: (chunkId: string) => void;
+  onRedo: (chunkId: string) => void;
+  onComment: (chunkId: string, text: string) => void;
+  onResolveComment: (chunkId: string, commentId: string, resolved: boolean) => void;
+  onAssign: (chunkId: string, assignee: string) => void;
+}
+
+interface ChunkEditorProps {
+  chunk: DocumentChunk;
+  actions: ChunkEditorActions;
+  /** A translation run is in progress; retranslating now would cancel it. */
+  isProcessing: boolean;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  machine: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400',
+  edited: 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300',
+  approved: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300',
+  rejected: 'bg-rose-100 text-rose-700 dark:bg-rose-900/40 dark:text-rose-300'
+};
+
+const KIND_LABELS: Record<ChunkRevision['kind'], string> = {
+  machine: 'Machine translation',
+  retranslate: 'Retranslated',
+  edit: 'Edited',
+  approve: 'Approved',
+  reject: 'Rejected',
+  xliff: 'Imported from XLIFF'
+};
+
+const ChunkEditor: React.FC<ChunkEditorProps> = ({ chunk, actions, isProcessing, onClose }) => {
+  const [draft, setDraft] = useState(chunk.translatedText ?? '');
+  const [instruction, setInstruction] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const current = chunk.translatedText ?? '';
+  const dirty = draft !== current;
+  const revisions = chunk.revisions || [];
+
+  // Undo and redo replace the text, so the draft follows the chunk
+  const [seenText, setSeenText] = useState(current);
+  if (seenText !== current) {
+    setSeenText(current);
+    setDraft(current);
+  }
+
+  const save = () => {
+    if (dirty && draft.trim()) actions.onSave(chunk.id, draft);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') onClose();
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) save();
+  };
+
+  const iconButton = 'p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div
+      id={`translated-${chunk.id}`}
+      className="mb-4 p-3 rounded-xl border-2 border-indigo-300 dark:border-indigo-800 bg-indigo-50/40 dark:bg-indigo-950/20 space-y-2 font-normal not-italic no-underline text-left"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="text-[11px] text-slate-400 whitespace-pre-line">{chunk.originalText}</div>
+      <textarea
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={Math.min(10, Math.max(2, Math.ceil(draft.length / 80)))}
+        autoFocus
+        className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg p-2 text-sm leading-relaxed focus:outline-none focus:ring-2 focus:ring-indigo-500"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[chunk.status || 'machine']}`}>
+          {chunk.status || 'machine'}
+        </span>
+        <button onClick={() => actions.onUndo(chunk.id)} disabled={!editHistory.canUndo(chunk)} className={iconButton} title="Undo">
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button onClick={() => actions.onRedo(chunk.id)} disabled={!editHistory.canRedo(chunk)} className={iconButton} title="Redo">
+          <Redo2 className="w-4 h-4" />
+        </button>
+        <button onClick={() => setShowHistory(!showHistory)} disabled={revisions.length === 0} className={iconButton} title="History">
+          <History className="w-4 h-4" />
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={onClose}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-[10px] font-black uppercase tracking-widest transition-colors"
+        >
+          <X className="w-3 h-3" />
+          Close
+        </button>
+        <button
+          onClick={() => actions.onReject(chunk.id)}
+          disabled={dirty || !current || chunk.status === 'rejected'}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-rose-50 text-rose-600 dark:bg-rose-950/30 dark:text-rose-400 hover:bg-rose-100 text-[10px] font-black uppercase tracking-widest transition-colors disabled:opacity-40"
+          title="Send the translation back; it is retranslated with the document"
+        >
+          <ThumbsDown className="w-3 h-3" />
+          Reject
+        </button>
+        <button
+          onClick={() => actions.onApprove(chunk.id)}
+          disabled={dirty || !current || chunk.status === 'approved'}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-emerald-50 text-emerald-700 dark:bg-emerald-950/30 dark:text-emerald-400 hover:bg-emerald-100 text-[10px] font-black uppercase tracking-widest transition-colors disabled:opacity-40"
+          title={dirty ? "Save the edit before approving" : "Mark the translation as reviewed"}
+        >
+          <BadgeCheck className="w-3 h-3" />
+          Approve
+        </button>
+        <button
+          onClick={save}
+          disabled={!dirty || !draft.trim()}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-[10px] font-black uppercase tracking-widest transition-colors disabled:opacity-40"
+          title="Save (Ctrl+Enter)"
+        >
+          <Check className="w-3 h-3" />
+          Save
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && !isProcessing) actions.onRetranslate(chunk.id, instruction); }}
+          placeholder='Instruction (optional), e.g. "more formal", "keep the English term"'
+          className="flex-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          onClick={() => actions.onRetranslate(chunk.id, instruction)}
+          disabled={isProcessing}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 hover:opacity-90 text-[10px] font-black uppercase tracking-widest transition-opacity disabled:opacity-40"
+          title={isProcessing ? "Wait for the current translation to finish" : "Translate this segment again"}
+        >
+          <WandSparkles className="w-3 h-3" />
+          Retranslate
+        </button>
+      </div>
+
+      {showHistory && (
+        <ol className="space-y-1 pt-2 border-t border-indigo-100 dark:border-indigo-900/40">
+          {revisions.map((revision, i) => (
+            <li
+              key={i}
+              className={`text-xs p-2 rounded-lg ${i === chunk.revisionIndex ? 'bg-white dark:bg-slate-900 ring-1 ring-indigo-200 dark:ring-indigo-800' : 'text-slate-500'}`}
+            >
+              <div className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                {KIND_LABELS[revision.kind]}{revision.by ? ` by ${revision.by}` : ''} · {new Date(revision.at).toLocaleTimeString()}
+                {revision.instruction && <span className="normal-case tracking-normal font-medium"> · “{revision.instruction}”</span>}
+              </div>
+              <div className="whitespace-pre-line">{revision.text}</div>
+            </li>
+          )).reverse()}
+        </ol>
+      )}
+
+      <ReviewThread chunk={chunk} actions={actions} />
+    </div>
+  );
+};
+
+export default ChunkEditor;
@@ -1,30 +1,147 @@
 
-import React from 'react';
-import { DocumentChunk } from '../types';
+import React, { useState } from 'react';
+import { OCR_LOW_CONFIDENCE } from '../constants';
+import { DocumentChunk, QaIssue } from '../types';
+import ChunkEditor, { ChunkEditorActions } from './ChunkEditor';
 
 interface DocumentPreviewProps {
   chunks: DocumentChunk[];
   mode: 'original' | 'translated';
+  /** QA findings keyed by chunk id, highlighted in translated mode. */
+  issues?: Record<string, QaIssue[]>;
+  /** Makes translated chunks click-to-edit. */
+  editActions?: ChunkEditorActions;
+  isProcessing?: boolean;
+  /** Shows only the chunks that pass; tables stay whole and dim their other cells. */
+  filter?: (chunk: DocumentChunk) => boolean;
 }
 
-const DocumentPreview: React.FC<DocumentPreviewProps> = ({ chunks, mode }) => {
+const DocumentPreview: React.FC<DocumentPreviewProps> = ({ chunks, mode, issues, editActions, isProcessing = false, filter }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const isEditable = (chunk: DocumentChunk) =>
+    mode === 'translated' && !!editActions && !!chunk.translatedText && !chunk.metadata?.locked;
+
+  /**
+   * Translated-side annotations: review status, translation-memory provenance and QA findings.
+   * The element id lets the QA panel scroll a flagged clause into view. The source side only
+   * flags doubtful OCR.
+   */
+  const annotationProps = (chunk: DocumentChunk): { className: string; title?: string; id?: string; onClick?: (e: React.MouseEvent) => void } => {
+    let annotation = baseAnnotation(chunk);
+    const openComments = (chunk.comments || []).filter(c => !c.resolved).length;
+    if (mode === 'translated' && openComments > 0) {
+      annotation = {
+        ...annotation,
+        className: `${annotation.className} bg-amber-50/70 dark:bg-amber-950/20`,
+        title: [annotation.title, `${openComments} open comment${openComments === 1 ? '' : 's'}`].filter(Boolean).join('\n')
+      };
+    }
+    if (!isEditable(chunk)) return annotation;
+    return {
+      ...annotation,
+      className: `${annotation.className} cursor-text hover:bg-indigo-50/60 dark:hover:bg-indigo-950/20 rounded transition-colors`,
+      title: annotation.title ? `${annotation.title}\nClick to edit` : 'Click to edit',
+      // Nested table cells sit inside an editable cell; the innermost one is meant
+      onClick: e => {
+        e.stopPropagation();
+        setEditingId(chunk.id);
+      }
+    };
+  };
+
+  const baseAnnotation = (chunk: DocumentChunk): { className: string; title?: string; id?: string } => {
+    if (mode !== 'translated') {
+      const confidence = chunk.metadata?.ocrConfidence;
+      return confidence !== undefined && confidence < OCR_LOW_CONFIDENCE
+        ? { className: 'underline decoration-dotted decoration-sky-400', title: `Recognized by OCR with ${Math.round(confidence * 100)}% confidence; check against the scan` }
+        : { className: '' };
+    }
+    const id = `translated-${chunk.id}`;
+    const chunkIssues = issues?.[chunk.id];
+    if (chunkIssues && chunkIssues.length > 0) {
+      return {
+        id,
+        className: 'bg-rose-50 dark:bg-rose-950/30 outline outline-2 outline-dashed outline-rose-300 dark:outline-rose-800 rounded',
+        title: chunkIssues.map(i => i.message).join('\n')
+      };
+    }
+    if (chunk.status === 'rejected') {
+      return { id, className: 'border-l-4 border-rose-400 pl-3', title: 'Rejected in review' };
+    }
+    if (chunk.status === 'approved') {
+      return { id, className: 'border-l-4 border-indigo-500 pl-3', title: 'Approved' };
+    }
+    if (chunk.status === 'edited') {
+      return { id, className: 'border-l-4 border-sky-400 pl-3', title: 'Edited by hand' };
+    }
+    const match = chunk.memoryMatch;
+    if (!match) return { id, className: '' };
+    return match.kind === 'exact'
+      ? { id, className: 'border-l-4 border-emerald-400 pl-3', title: 'Reused from translation memory (exact match)' }
+      : { id, className: 'border-l-4 border-amber-300 pl-3', title: `Guided by translation memory (${Math.round(match.score * 100)}% match)` };
+  };
+
+  /** The chunk's text for this side, with inline runs rendered when it has them. */
+  const renderText = (chunk: DocumentChunk): React.ReactNode => {
+    const runs = mode === 'original' ? chunk.runs : chunk.translatedRuns;
+    const text = mode === 'original' ? chunk.originalText : chunk.translatedText;
+    if (!runs) return text;
+
+    return runs.map((run, i) => {
+      const classes = [run.bold && 'font-bold', run.italic && 'italic', run.underline && 'underline'].filter(Boolean).join(' ');
+      let node: React.ReactNode = classes ? <span className={classes}>{run.text}</span> : run.text;
+      if (run.code) node = <code className="font-mono text-[0.9em] px-1 rounded bg-slate-100 dark:bg-slate-800">{node}</code>;
+      if (run.superscript) node = <sup>{node}</sup>;
+      if (run.href) {
+        node = (
+          <a href={run.href} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()} className="text-indigo-600 dark:text-indigo-400 underline underline-offset-2">
+            {node}
+          </a>
+        );
+      }
+      return <React.Fragment key={i}>{node}</React.Fragment>;
+    });
+  };
+
+  const renderEditor = (chunk: DocumentChunk) => (
+    <ChunkEditor chunk={chunk} actions={editActions!} isProcessing={isProcessing} onClose={() => setEditingId(null)} />
+  );
+
+  // Cells of nested tables, grouped per table under the id of the cell that contains them
+  const nestedTables: Record<string, DocumentChunk[][]> = {};
+  chunks.forEach(chunk => {
+    const parent = chunk.metadata?.parentCellId;
+    if (chunk.type !== 'table-cell' || !parent) return;
+    const tables = (nestedTables[parent] = nestedTables[parent] || []);
+    const last = tables[tables.length - 1];
+    if (last && last[0].metadata?.tableId === chunk.metadata?.tableId) last.push(chunk);
+    else tables.push([chunk]);
+  });
+
   const renderContent = () => {
     const renderedElements: React.ReactNode[] = [];
     let currentTableCells: DocumentChunk[] = [];
 
     const flushTable = () => {
       if (currentTableCells.length > 0) {
-        renderedElements.push(renderTable(currentTableCells));
+        const shown = !filter || currentTableCells.some(c => filter(c) || nestedTables[c.id]?.some(t => t.some(filter)));
+        if (shown) renderedElements.push(renderTable(currentTableCells));
         currentTableCells = [];
       }
     };
 
     chunks.forEach((chunk, index) => {
       if (chunk.type === 'table-cell') {
+        if (chunk.metadata?.parentCellId) return;
+        // A new table id starts a new table even when nothing separates the two
+        if (currentTableCells.length > 0 && currentTableCells[0].metadata?.tableId !== chunk.metadata?.tableId) {
+          flushTable();
+        }
         currentTableCells.push(chunk);
       } else {
         flushTable();
-        renderedElements.push(renderChunk(chunk, index));
+        if (!filter || filter(chunk)) renderedElements.push(renderChunk(chunk, index));
       }
     });
 
@@ -43,7 +160,7 @@ const DocumentPreview: React.FC<DocumentPreviewProps> = ({ chunks, mode }) => {
     const sortedRowIndices = Object.keys(rows).map(Number).sort((a, b) => a - b);
 
     return (
-      <div key={`table-${cells[0].id}`} className="mb-6 overflow-x-auto">
+      <div key={`table-${cells[0].id}`} className={cells[0].metadata?.parentCellId ? 'mt-2 overflow-x-auto' : 'mb-6 overflow-x-auto'}>
         <table className="w-full border-collapse border border-slate-300 dark:border-slate-700 text-[11pt]">
           <tbody>
             {sortedRowIndices.map(rowIndex => (
@@ -55,16 +172,24 @@ const DocumentPreview: React.FC<DocumentPreviewProps> = ({ chunks, mode }) => {
                     const weightClass = cell.metadata?.isBold ? 'font-bold' : 'font-normal';
                     const italicClass = cell.metadata?.isItalic ? 'italic' : '';
                     const underlineClass = cell.metadata?.isUnderlined ? 'underline' : '';
+                    const annotation = annotationProps(cell);
+                    const editing = isEditable(cell) && editingId === cell.id;
                     
                     return (
                       <td
                         key={cell.id}
                         rowSpan={cell.metadata?.rowSpan}
                         colSpan={cell.metadata?.colSpan}
-                        className={`border border-slate-300 dark:border-slate-700 p-3 ${weightClass} ${italicClass} ${underlineClass} text-slate-700 dark:text-slate-300 bg-white/40 dark:bg-slate-800/20`}
+                        id={editing ? undefined : annotation.id}
+                        title={editing ? undefined : annotation.title}
+                        onClick={editing ? undefined : annotation.onClick}
+                        className={`border border-slate-300 dark:border-slate-700 p-3 align-top whitespace-pre-line ${filter && !filter(cell) ? 'opacity-30' : ''} ${weightClass} ${italicClass} ${underlineClass} ${annotation.className} text-slate-700 dark:text-slate-300 bg-white/40 dark:bg-slate-800/20`}
                         style={{ textAlign: cell.metadata?.alignment || 'left' }}
                       >
-                        {text || (mode === 'translated' && <div className="h-4 bg-blue-50/50 dark:bg-blue-900/10 rounded animate-pulse" />)}
+                        {editing ? renderEditor(cell) : text ? renderText(cell) : (mode === 'translated' && cell.originalText && (cell.translationError
+                          ? <span className="text-xs text-rose-600" title={cell.translationError}>Untranslated</span>
+                          : <div className="h-4 bg-blue-50/50 dark:bg-blue-900/10 rounded animate-pulse" />))}
+                        {nestedTables[cell.id]?.map(renderTable)}
                       </td>
                     );
                   })}
@@ -82,7 +207,19 @@ const DocumentPreview: React.FC<DocumentPreviewProps> = ({ chunks, mode }) => {
     }
 
     const text = mode === 'original' ? chunk.originalText : chunk.translatedText;
+
+    if (isEditable(chunk) && editingId === chunk.id) {
+      return <React.Fragment key={chunk.id}>{renderEditor(chunk)}</React.Fragment>;
+    }
     
+    if (!text && mode === 'translated' && chunk.translationError) {
+       return (
+         <div key={chunk.id} className="mb-4 px-3 py-2 rounded-lg border border-dashed border-rose-300 dark:border-rose-900/50 bg-rose-50/60 dark:bg-rose-950/20 text-xs text-rose-600" title={chunk.translationError}>
+           Untranslated — use Retry to resend this segment.
+         </div>
+       );
+    }
+
     if (!text && mode === 'translated') {
        return (
          <div key={chunk.id} className="mb-4 space-y-2">
@@ -95,17 +232,50 @@ const DocumentPreview: React.FC<DocumentPreviewProps> = ({ chunks, mode }) => {
     const italicClass = chunk.metadata?.isItalic ? 'italic' : '';
     const underlineClass = chunk.metadata?.isUnderlined ? 'underline underline-offset-4' : '';
 
+    const annotation = annotationProps(chunk);
+
     const customStyles: React.CSSProperties = {
       textAlign: (chunk.metadata?.alignment as any) || 'left',
     };
 
     if (chunk.type === 'checkbox') {
       return (
-        <div key={chunk.id} className="flex items-start gap-3 mb-3">
+        <div key={chunk.id} id={annotation.id} className={`flex items-start gap-3 mb-3 ${annotation.className}`} title={annotation.title} onClick={annotation.onClick}>
           <div className={`w-5 h-5 rounded border border-slate-300 dark:border-slate-600 flex-shrink-0 flex items-center justify-center ${chunk.metadata?.isChecked ? 'bg-blue-600 border-blue-600' : 'bg-white'}`}>
             {chunk.metadata?.isChecked && <div className="w-2 h-2 bg-white rounded-full" />}
           </div>
-          <span className={`${weightClass} ${italicClass} ${underlineClass} text-slate-700 dark:text-slate-300`}>{text}</span>
+          <span className={`${weightClass} ${italicClass} ${underlineClass} text-slate-700 dark:text-slate-300`}>{renderText(chunk)}</span>
+        </div>
+      );
+    }
+
+    if (chunk.metadata?.pageRegion) {
+      return (
+        <div
+          key={chunk.id}
+          id={annotation.id}
+          title={annotation.title || `Running ${chunk.metadata.pageRegion}${chunk.metadata.repeatOf ? ', repeated from an earlier page' : ''}`}
+          onClick={annotation.onClick}
+          className={`mb-3 text-[10px] uppercase tracking-widest text-slate-400 dark:text-slate-500 ${chunk.metadata.pageRegion === 'footer' ? 'text-center' : ''} ${annotation.className}`}
+        >
+          {renderText(chunk)}
+        </div>
+      );
+    }
+
+    if (chunk.type === 'list-item') {
+      const label = mode === 'translated' ? (chunk.translatedListLabel ?? chunk.metadata?.listLabel) : chunk.metadata?.listLabel;
+      return (
+        <div
+          key={chunk.id}
+          id={annotation.id}
+          title={annotation.title}
+          onClick={annotation.onClick}
+          className={`flex items-baseline gap-3 mb-2 leading-relaxed text-slate-700 dark:text-slate-300 ${annotation.className}`}
+          style={{ ...customStyles, paddingLeft: `${((chunk.metadata?.level || 1) - 1) * 1.5}rem` }}
+        >
+          <span className="shrink-0 min-w-[2rem] tabular-nums text-slate-500 dark:text-slate-400">{label}</span>
+          <span className={`${weightClass} ${italicClass} ${underlineClass}`}>{renderText(chunk)}</span>
         </div>
       );
     }
@@ -116,10 +286,13 @@ const DocumentPreview: React.FC<DocumentPreviewProps> = ({ chunks, mode }) => {
       return (
         <HeadingTag 
           key={chunk.id} 
-          className={`${weightClass} ${italicClass} ${underlineClass} mb-4 text-slate-900 dark:text-slate-100`}
+          className={`${weightClass} ${italicClass} ${underlineClass} ${annotation.className} mb-4 text-slate-900 dark:text-slate-100`}
           style={customStyles}
+          id={annotation.id}
+          title={annotation.title}
+          onClick={annotation.onClick}
         >
-          {text}
+          {renderText(chunk)}
         </HeadingTag>
       );
     }
@@ -127,10 +300,13 @@ const DocumentPreview: React.FC<DocumentPreviewProps> = ({ chunks, mode }) => {
     return (
       <p 
         key={chunk.id} 
-        className={`mb-4 leading-relaxed text-slate-700 dark:text-slate-300 ${weightClass} ${italicClass} ${underlineClass}`}
+        className={`mb-4 leading-relaxed text-slate-700 dark:text-slate-300 ${weightClass} ${italicClass} ${underlineClass} ${annotation.className}`}
         style={customStyles}
+        id={annotation.id}
+        title={annotation.title}
+        onClick={annotation.onClick}
       >
-        {text}
+        {renderText(chunk)}
       </p>
     );
   };
@@ -0,0 +1,84 @@
+
+import React, { useState } from 'react';
+import { reviewService } from '../services/reviewService';
+import { X, ShieldAlert } from 'lucide-react';
+
+interface ExportOverrideProps {
+  pendingCount: number;
+  onConfirm: (override: { reason: string; by: string }) => void;
+  onClose: () => void;
+}
+
+/** Asks why the document is exported before every clause is approved; the answer is recorded. */
+const ExportOverride: React.FC<ExportOverrideProps> = ({ pendingCount, onConfirm, onClose }) => {
+  const [reason, setReason] = useState('');
+  const [by, setBy] = useState(reviewService.getReviewer());
+  const ready = reason.trim().length > 0 && by.trim().length > 0;
+
+  const confirm = () => {
+    if (!ready) return;
+    reviewService.setReviewer(by);
+    onConfirm({ reason: reason.trim(), by: by.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-950/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-lg rounded-3xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="bg-rose-100 dark:bg-rose-900/40 p-2 rounded-lg text-rose-600 dark:text-rose-400">
+              <ShieldAlert className="w-5 h-5" />
+            </div>
+            <h2 className="text-xl font-bold font-lexend">Review Incomplete</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {pendingCount} clause{pendingCount === 1 ? ' has' : 's have'} not been approved. You can export anyway, but the reason is recorded with the document.
+          </p>
+          <label className="block space-y-1">
+            <span className="text-xs font-bold uppercase tracking-widest text-slate-400">Your name</span>
+            <input
+              value={by}
+              onChange={e => setBy(e.target.value)}
+              className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-xs font-bold uppercase tracking-widest text-slate-400">Reason</span>
+            <textarea
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              rows={3}
+              autoFocus
+              placeholder="e.g. Draft for internal discussion, not for the tenant"
+              className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </label>
+        </div>
+
+        <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 rounded-xl font-semibold text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={confirm}
+            disabled={!ready}
+            className="px-6 py-2 bg-rose-600 hover:bg-rose-700 text-white rounded-xl font-semibold text-sm transition-colors disabled:opacity-50"
+          >
+            Export Anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportOverride;
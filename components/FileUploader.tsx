@@ -1,14 +1,50 @@
 
 import React, { useRef, useState, useCallback } from 'react';
-import { Upload, FileText, CheckCircle, Plus, Building2, FileSignature, Receipt } from 'lucide-react';
+import { Upload, FileText, CheckCircle, Plus, Building2, FileSignature, Receipt, Camera, FolderOpen } from 'lucide-react';
+import CameraCapture from './CameraCapture';
+import { fileService } from '../services/fileService';
+import { QueueSource, batchQueue } from '../services/batchQueue';
 
 interface FileUploaderProps {
   onUpload: (file: File) => void;
+  /** Several files, a folder or a ZIP archive; without it only the first file is used. */
+  onUploadMany?: (sources: QueueSource[]) => void;
+  /** A dropped folder that could not be read. */
+  onError?: (message: string) => void;
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ onUpload }) => {
+const folderOf = (path: string) => path.replace(/^\/+/, '').split('/').slice(0, -1).join('/');
+
+// Walks a dropped folder; directory readers hand out their entries in batches until one is empty
+const readEntry = async (entry: FileSystemEntry): Promise<QueueSource[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ file, path: folderOf(entry.fullPath) }];
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const sources: QueueSource[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return sources;
+    for (const child of batch) sources.push(...await readEntry(child));
+  }
+};
+
+const FileUploader: React.FC<FileUploaderProps> = ({ onUpload, onUploadMany, onError }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // One plain document opens in the editor; anything more goes to the batch queue
+  const deliver = (sources: QueueSource[]) => {
+    if (sources.length === 0) return;
+    if (!onUploadMany || !batchQueue.isBatch(sources)) {
+      onUpload(sources[0].file);
+    } else {
+      onUploadMany(sources);
+    }
+  };
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -22,10 +58,17 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload }) => {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const files = e.dataTransfer.files;
-    if (files && files[0]) {
-      onUpload(files[0]);
+    // Entries must be taken before the handler returns; the drop data is cleared afterwards
+    const entries = onUploadMany
+      ? Array.from(e.dataTransfer.items).map((item: DataTransferItem) => item.webkitGetAsEntry?.()).filter((entry): entry is FileSystemEntry => !!entry)
+      : [];
+    if (entries.some(entry => entry.isDirectory)) {
+      Promise.all(entries.map(readEntry))
+        .then(found => deliver(found.flat()))
+        .catch((err: any) => onError?.(`Could not read the dropped folder: ${err?.message || err}`));
+      return;
     }
+    deliver(Array.from(e.dataTransfer.files).map((file: File) => ({ file, path: '' })));
   };
 
   const handleClick = (e: React.MouseEvent) => {
@@ -34,14 +77,22 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload }) => {
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (files && files[0]) {
-      onUpload(files[0]);
-    }
-    if (fileInputRef.current) fileInputRef.current.value = '';
+    deliver(Array.from(e.target.files || []).map((file: File) => ({ file, path: folderOf(file.webkitRelativePath || '') })));
+    e.target.value = '';
+  };
+
+  const handleFolderClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    folderInputRef.current?.click();
+  };
+
+  const handleCameraClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowCamera(true);
   };
 
   return (
+    <>
     <div 
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
@@ -60,8 +111,18 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload }) => {
         ref={fileInputRef} 
         className="hidden" 
         onChange={handleFileSelect}
-        accept=".txt,.docx,.pdf"
+        multiple={!!onUploadMany}
+        accept={[...fileService.acceptedExtensions(), ...(onUploadMany ? ['.zip'] : [])].join(',')}
       />
+      {onUploadMany && (
+        <input
+          type="file"
+          // React has no prop for directory pickers
+          ref={input => { folderInputRef.current = input; input?.setAttribute('webkitdirectory', ''); }}
+          className="hidden"
+          onChange={handleFileSelect}
+        />
+      )}
       
       <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-64 h-64 bg-indigo-500/5 blur-[120px] rounded-full pointer-events-none group-hover:bg-indigo-500/10 transition-colors"></div>
 
@@ -83,20 +144,61 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onUpload }) => {
           Optimized for <span className="text-indigo-600 dark:text-indigo-400 font-bold">Leases, Amendments, and Real Estate Invoices</span>.
         </p>
         
-        <div className="flex items-center justify-center gap-4 mt-8 pt-8 border-t border-slate-100 dark:border-slate-800 w-full">
+        <div className="flex flex-wrap items-center justify-center gap-4 mt-8 pt-8 border-t border-slate-100 dark:border-slate-800 w-full">
           <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400 bg-slate-100 dark:bg-slate-800 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700">
              Contract (DOCX)
           </div>
           <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400 bg-slate-100 dark:bg-slate-800 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700">
              Invoice (PDF)
           </div>
+          <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400 bg-slate-100 dark:bg-slate-800 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700">
+             Scan (PNG/JPEG)
+          </div>
+          <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400 bg-slate-100 dark:bg-slate-800 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700">
+             Rent Roll & Deck (XLSX/PPTX)
+          </div>
+          <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400 bg-slate-100 dark:bg-slate-800 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700">
+             Notice (HTML/MD/RTF/ODT)
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          {onUploadMany && (
+            <button
+              onClick={handleFolderClick}
+              className="inline-flex items-center gap-2 mt-4 px-5 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 text-[10px] font-black uppercase tracking-widest transition-colors"
+            >
+              <FolderOpen className="w-4 h-4" />
+              Queue Folder
+            </button>
+          )}
+          {typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && (
+            <button
+              onClick={handleCameraClick}
+              className="inline-flex items-center gap-2 mt-4 px-5 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white text-[10px] font-black uppercase tracking-widest transition-colors"
+            >
+              <Camera className="w-4 h-4" />
+              Use Camera
+            </button>
+          )}
         </div>
       </div>
       
       <div className="absolute bottom-6 text-[9px] font-black uppercase tracking-[0.4em] text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity translate-y-2 group-hover:translate-y-0 duration-500">
-         Select Real Estate Document
+         {onUploadMany ? 'Select Documents or a ZIP Archive' : 'Select Real Estate Document'}
       </div>
     </div>
+
+    {showCamera && (
+      <CameraCapture
+        onCapture={(file) => {
+          setShowCamera(false);
+          onUpload(file);
+        }}
+        onClose={() => setShowCamera(false)}
+      />
+    )}
+    </>
   );
 };
 
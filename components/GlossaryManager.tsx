@@ -1,46 +1,133 @@
 
-import React, { useState } from 'react';
-import { GlossaryItem } from '../types';
-import { Plus, X, Book, Trash2 } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { Glossary, GlossaryItem } from '../types';
+import { glossaryService } from '../services/glossaryService';
+import { Plus, X, Book, Trash2, Upload, Download, CaseSensitive, WholeWord } from 'lucide-react';
 
 interface GlossaryManagerProps {
-  glossary: GlossaryItem[];
-  onChange: (glossary: GlossaryItem[]) => void;
+  sourceLang: string;
+  targetLang: string;
+  activeGlossaryId: string | null;
+  onChange: (glossary: Glossary | null) => void;
   onClose: () => void;
 }
 
-const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossary, onChange, onClose }) => {
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ sourceLang, targetLang, activeGlossaryId, onChange, onClose }) => {
+  const [glossaries, setGlossaries] = useState<Glossary[]>(() => glossaryService.listFor(sourceLang, targetLang));
+  const [activeId, setActiveId] = useState<string | null>(activeGlossaryId);
   const [newOriginal, setNewOriginal] = useState('');
   const [newTarget, setNewTarget] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const active = glossaries.find(g => g.id === activeId) || null;
+
+  const select = (glossary: Glossary | null) => {
+    setActiveId(glossary?.id || null);
+    glossaryService.setActive(sourceLang, targetLang, glossary?.id || null);
+    onChange(glossary);
+  };
+
+  const persist = (glossary: Glossary) => {
+    const saved = glossaryService.save(glossary);
+    setGlossaries(glossaryService.listFor(sourceLang, targetLang));
+    select(saved);
+    return saved;
+  };
+
+  const ensureActive = (name: string): Glossary =>
+    active || glossaryService.create(name, sourceLang, targetLang);
+
+  const createGlossary = () => {
+    const name = window.prompt("Glossary name", `${sourceLang === 'auto' ? 'Any' : sourceLang.toUpperCase()} → ${targetLang.toUpperCase()} Terms`);
+    if (!name?.trim()) return;
+    persist(glossaryService.create(name.trim(), sourceLang, targetLang));
+  };
+
+  const renameGlossary = () => {
+    if (!active) return;
+    const name = window.prompt("Rename glossary", active.name);
+    if (!name?.trim()) return;
+    persist({ ...active, name: name.trim() });
+  };
+
+  const deleteGlossary = () => {
+    if (!active || !window.confirm(`Delete the glossary "${active.name}"?`)) return;
+    glossaryService.remove(active.id);
+    setGlossaries(glossaryService.listFor(sourceLang, targetLang));
+    select(null);
+  };
+
+  const updateItems = (items: GlossaryItem[], fallbackName = 'My Glossary') => {
+    persist({ ...ensureActive(fallbackName), items });
+  };
 
   const addTerm = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newOriginal.trim() || !newTarget.trim()) return;
 
-    const newItem: GlossaryItem = {
-      id: Math.random().toString(36).substr(2, 9),
-      original: newOriginal.trim(),
-      target: newTarget.trim(),
-    };
-
-    onChange([...glossary, newItem]);
+    updateItems([...(active?.items || []), glossaryService.newItem(newOriginal.trim(), newTarget.trim())]);
     setNewOriginal('');
     setNewTarget('');
   };
 
   const removeTerm = (id: string) => {
-    onChange(glossary.filter(item => item.id !== id));
+    updateItems((active?.items || []).filter(item => item.id !== id));
+  };
+
+  const toggleOption = (id: string, option: 'caseSensitive' | 'wholeWord') => {
+    updateItems((active?.items || []).map(item => {
+      if (item.id !== id) return item;
+      const current = option === 'wholeWord' ? item.wholeWord !== false : !!item.caseSensitive;
+      return { ...item, [option]: !current };
+    }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const imported = /\.(tbx|xml)$/i.test(file.name)
+        ? glossaryService.fromTbx(text, sourceLang, targetLang)
+        : glossaryService.fromCsv(text);
+      const existing = active?.items || [];
+      // Re-importing a term replaces its translation instead of duplicating it
+      const merged = [
+        ...existing.filter(item => !imported.some(i => i.original.toLowerCase() === item.original.toLowerCase())),
+        ...imported
+      ];
+      updateItems(merged, file.name.replace(/\.[^.]+$/, ''));
+      setNotice(`Imported ${imported.length} terms from ${file.name}.`);
+    } catch (err: any) {
+      setNotice(err.message || "Glossary import failed.");
+    }
+  };
+
+  const download = (content: string, type: string, extension: string) => {
+    if (!active) return;
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${active.name.replace(/[^\w\- ]+/g, '_')}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
+  const items = active?.items || [];
+
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-950/40 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="bg-white dark:bg-slate-900 w-full max-w-lg rounded-3xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden flex flex-col max-h-[80vh]">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-2xl rounded-3xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden flex flex-col max-h-[85vh]">
         <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
           <div className="flex items-center gap-3">
             <div className="bg-indigo-100 dark:bg-indigo-900/40 p-2 rounded-lg text-indigo-600 dark:text-indigo-400">
               <Book className="w-5 h-5" />
             </div>
             <h2 className="text-xl font-bold font-lexend">Custom Glossary</h2>
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{sourceLang} → {targetLang}</span>
           </div>
           <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors">
             <X className="w-5 h-5" />
@@ -48,6 +135,22 @@ const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossary, onChange, o
         </div>
 
         <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={activeId || ''}
+              onChange={(e) => select(glossaries.find(g => g.id === e.target.value) || null)}
+              className="flex-1 min-w-[12rem] px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border-none focus:ring-2 focus:ring-indigo-500 text-sm font-semibold"
+            >
+              <option value="">No glossary</option>
+              {glossaries.map(g => (
+                <option key={g.id} value={g.id}>{g.name} ({g.items.length})</option>
+              ))}
+            </select>
+            <button onClick={createGlossary} className="px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">New</button>
+            <button onClick={renameGlossary} disabled={!active} className="px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-40">Rename</button>
+            <button onClick={deleteGlossary} disabled={!active} className="px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-950/30 transition-colors disabled:opacity-40">Delete</button>
+          </div>
+
           <form onSubmit={addTerm} className="grid grid-cols-1 sm:grid-cols-[1fr,1fr,auto] gap-3">
             <input
               type="text"
@@ -71,27 +174,73 @@ const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossary, onChange, o
             </button>
           </form>
 
+          <div className="flex flex-wrap items-center gap-3">
+            <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.tsv,.txt,.tbx,.xml" onChange={handleImport} />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              <Upload className="w-4 h-4" /> Import CSV / TBX
+            </button>
+            <button
+              onClick={() => active && download(glossaryService.toCsv(active), 'text/csv', 'csv')}
+              disabled={!active}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-40"
+            >
+              <Download className="w-4 h-4" /> CSV
+            </button>
+            <button
+              onClick={() => active && download(glossaryService.toTbx(active), 'application/x-tbx+xml', 'tbx')}
+              disabled={!active}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-40"
+            >
+              <Download className="w-4 h-4" /> TBX
+            </button>
+            {notice && <span className="text-xs text-slate-500">{notice}</span>}
+          </div>
+
           <div className="space-y-2">
             <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400 mb-4">Saved Mappings</h3>
-            {glossary.length === 0 ? (
+            {items.length === 0 ? (
               <div className="text-center py-8 text-slate-400 text-sm italic">
                 No custom terms added yet.
               </div>
             ) : (
               <div className="grid gap-2">
-                {glossary.map((item) => (
+                {items.map((item) => (
                   <div key={item.id} className="flex items-center justify-between p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 group">
                     <div className="flex items-center gap-4 text-sm">
                       <span className="font-semibold text-slate-900 dark:text-slate-100">{item.original}</span>
                       <span className="text-slate-400">→</span>
                       <span className="text-indigo-600 dark:text-indigo-400">{item.target}</span>
+                      {item.appliedTo && item.appliedTo.length > 0 && (
+                        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400" title={item.appliedTo.join(', ')}>
+                          {item.appliedTo.length} {item.appliedTo.length === 1 ? 'clause' : 'clauses'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => toggleOption(item.id, 'caseSensitive')}
+                        className={`p-1 rounded-lg transition-colors ${item.caseSensitive ? 'text-indigo-600 bg-indigo-100 dark:bg-indigo-900/40' : 'text-slate-400 hover:text-slate-600'}`}
+                        title="Match case"
+                      >
+                        <CaseSensitive className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => toggleOption(item.id, 'wholeWord')}
+                        className={`p-1 rounded-lg transition-colors ${item.wholeWord !== false ? 'text-indigo-600 bg-indigo-100 dark:bg-indigo-900/40' : 'text-slate-400 hover:text-slate-600'}`}
+                        title="Whole word only"
+                      >
+                        <WholeWord className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => removeTerm(item.id)}
+                        className="text-slate-400 hover:text-red-500 p-1 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
                     </div>
-                    <button
-                      onClick={() => removeTerm(item.id)}
-                      className="text-slate-400 hover:text-red-500 p-1 rounded-lg transition-colors"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
                   </div>
                 ))}
               </div>
@@ -5,16 +5,24 @@ import { LANGUAGES } from '../constants';
 interface LanguagePickerProps {
   value: string;
   onChange: (value: string) => void;
+  /** Language codes to leave out, e.g. the ones already chosen. */
+  exclude?: string[];
+  /** Shown while no language is chosen; with it the picker acts as an "add" menu. */
+  placeholder?: string;
+  className?: string;
 }
 
-const LanguagePicker: React.FC<LanguagePickerProps> = ({ value, onChange }) => {
+const LanguagePicker: React.FC<LanguagePickerProps> = ({ value, onChange, exclude = [], placeholder, className }) => {
   return (
     <select 
       value={value}
       onChange={(e) => onChange(e.target.value)}
-      className="bg-transparent border-none focus:ring-0 font-semibold text-lg cursor-pointer hover:text-indigo-600 transition-colors"
+      className={className || "bg-transparent border-none focus:ring-0 font-semibold text-lg cursor-pointer hover:text-indigo-600 transition-colors"}
     >
-      {LANGUAGES.map((lang) => (
+      {placeholder && (
+        <option value="" disabled className="bg-white dark:bg-slate-900 text-slate-400">{placeholder}</option>
+      )}
+      {LANGUAGES.filter(lang => !exclude.includes(lang.code)).map((lang) => (
         <option key={lang.code} value={lang.code} className="bg-white dark:bg-slate-900 text-slate-900 dark:text-white">
           {lang.flag} {lang.name}
         </option>
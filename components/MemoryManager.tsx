@@ -0,0 +1,142 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { translationMemory } from '../services/translationMemory';
+import { X, Database, Upload, Download, Trash2 } from 'lucide-react';
+
+interface MemoryManagerProps {
+  enabled: boolean;
+  threshold: number;
+  onChange: (settings: { enabled: boolean; threshold: number }) => void;
+  onClose: () => void;
+}
+
+const MemoryManager: React.FC<MemoryManagerProps> = ({ enabled, threshold, onChange, onClose }) => {
+  const [entryCount, setEntryCount] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshCount = () => {
+    translationMemory.count().then(setEntryCount).catch(() => setEntryCount(null));
+  };
+
+  useEffect(refreshCount, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    try {
+      const imported = await translationMemory.importTmx(await file.text());
+      setNotice(`Imported ${imported} entries from ${file.name}.`);
+      refreshCount();
+    } catch (err: any) {
+      setNotice(err.message || "TMX import failed.");
+    }
+  };
+
+  const handleExport = async () => {
+    const tmx = await translationMemory.exportTmx();
+    const url = URL.createObjectURL(new Blob([tmx], { type: 'application/x-tmx+xml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ReTrans_Memory.tmx';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete every translation memory entry?")) return;
+    await translationMemory.clear();
+    setNotice("Translation memory cleared.");
+    refreshCount();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-950/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-lg rounded-3xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden flex flex-col max-h-[80vh]">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-100 dark:bg-indigo-900/40 p-2 rounded-lg text-indigo-600 dark:text-indigo-400">
+              <Database className="w-5 h-5" />
+            </div>
+            <h2 className="text-xl font-bold font-lexend">Translation Memory</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          {!translationMemory.isAvailable() && (
+            <div className="text-sm text-rose-600">This browser does not allow local storage, so the memory is disabled.</div>
+          )}
+
+          <label className="flex items-center justify-between gap-4 text-sm font-semibold">
+            Reuse past translations
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => onChange({ enabled: e.target.checked, threshold })}
+              className="w-5 h-5 accent-indigo-600"
+            />
+          </label>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm font-semibold">
+              <span>Fuzzy match threshold</span>
+              <span className="text-indigo-600">{Math.round(threshold * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={50}
+              max={99}
+              value={Math.round(threshold * 100)}
+              onChange={(e) => onChange({ enabled, threshold: Number(e.target.value) / 100 })}
+              className="w-full accent-indigo-600"
+            />
+            <p className="text-xs text-slate-400">Exact matches are reused directly. Matches above the threshold are shown to the engine as references.</p>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400 mb-4">Stored Segments</h3>
+            <div className="text-3xl font-black">{entryCount ?? '—'}</div>
+            {notice && <p className="text-xs text-slate-500">{notice}</p>}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <input type="file" ref={fileInputRef} className="hidden" accept=".tmx,.xml" onChange={handleImport} />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              <Upload className="w-4 h-4" /> Import TMX
+            </button>
+            <button
+              onClick={handleExport}
+              className="flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              <Download className="w-4 h-4" /> Export TMX
+            </button>
+            <button
+              onClick={handleClear}
+              className="flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-950/30 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" /> Clear
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-semibold text-sm hover:opacity-90 transition-opacity"
+          >
+            Finished
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryManager;
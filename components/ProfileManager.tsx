@@ -0,0 +1,275 @@
+import React, { useRef, useState } from 'react';
+import { DomainProfile, ProfileExample, ProfileTerm, QaIssue } from '../types';
+import { profileService } from '../services/profileService';
+import { X, Drama, Copy, Upload, Download, Save } from 'lucide-react';
+
+interface ProfileManagerProps {
+  activeProfileId: string;
+  onChange: (profileId: string) => void;
+  onClose: () => void;
+}
+
+const QA_CHECKS: { kind: QaIssue['kind']; label: string }[] = [
+  { kind: 'number', label: 'Figures' },
+  { kind: 'date', label: 'Dates' },
+  { kind: 'clause', label: 'Clause refs' },
+  { kind: 'currency', label: 'Currencies' },
+  { kind: 'glossary', label: 'Glossary' },
+  { kind: 'formatting', label: 'Formatting' },
+  { kind: 'terminology', label: 'Forbidden terms' }
+];
+
+// Glossary terms and examples are edited one per line: "en-es: Lessor = Arrendador", "en-es: source => target"
+const PAIR_LINE = /^\s*([a-z]{2,4}|auto)\s*-\s*([a-z]{2,4})\s*:\s*(.+?)\s*(=>|=)\s*(.+?)\s*$/i;
+
+const termsToText = (terms: ProfileTerm[]) => terms.map(t => `${t.sourceLang}-${t.targetLang}: ${t.original} = ${t.target}`).join('\n');
+const examplesToText = (examples: ProfileExample[]) => examples.map(e => `${e.sourceLang}-${e.targetLang}: ${e.source} => ${e.target}`).join('\n');
+
+const parsePairs = (text: string, separator: '=' | '=>') => text.split('\n')
+  .map(line => line.match(PAIR_LINE))
+  .filter((m): m is RegExpMatchArray => !!m && m[4] === separator)
+  .map(m => ({ sourceLang: m[1].toLowerCase(), targetLang: m[2].toLowerCase(), left: m[3], right: m[5] }));
+
+const lines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+const ProfileManager: React.FC<ProfileManagerProps> = ({ activeProfileId, onChange, onClose }) => {
+  const [profiles, setProfiles] = useState<DomainProfile[]>(() => profileService.list());
+  const [draft, setDraft] = useState<DomainProfile>(() => profileService.get(activeProfileId));
+  const [glossaryText, setGlossaryText] = useState(() => termsToText(draft.defaultGlossary));
+  const [examplesText, setExamplesText] = useState(() => examplesToText(draft.examples));
+  const [dirty, setDirty] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const readOnly = !!draft.builtIn;
+
+  const show = (profile: DomainProfile) => {
+    setDraft(profile);
+    setGlossaryText(termsToText(profile.defaultGlossary));
+    setExamplesText(examplesToText(profile.examples));
+    setDirty(false);
+    onChange(profile.id);
+  };
+
+  const select = (profile: DomainProfile) => {
+    if (dirty && !window.confirm("Discard unsaved changes to this profile?")) return;
+    show(profile);
+  };
+
+  const refresh = (profile: DomainProfile) => {
+    setProfiles(profileService.list());
+    show(profile);
+  };
+
+  const edit = (change: Partial<DomainProfile>) => {
+    setDraft(d => ({ ...d, ...change }));
+    setDirty(true);
+  };
+
+  const createProfile = () => {
+    const name = window.prompt("Profile name", "My Domain");
+    if (!name?.trim()) return;
+    refresh(profileService.create(name.trim()));
+  };
+
+  const cloneProfile = () => {
+    const name = window.prompt("Name of the copy", `${draft.name} (copy)`);
+    if (!name?.trim()) return;
+    refresh(profileService.clone(draft.id, name.trim()));
+  };
+
+  const deleteProfile = () => {
+    if (readOnly || !window.confirm(`Delete the profile "${draft.name}"?`)) return;
+    profileService.remove(draft.id);
+    refresh(profileService.get('legal'));
+  };
+
+  const saveProfile = () => {
+    if (!draft.name.trim() || !draft.systemInstruction.trim()) {
+      setNotice("A name and a system instruction are required.");
+      return;
+    }
+    const saved = profileService.save({
+      ...draft,
+      terminologyRules: lines(draft.terminologyRules.join('\n')),
+      qaRules: { ...draft.qaRules, forbiddenTerms: lines(draft.qaRules.forbiddenTerms.join('\n')) },
+      defaultGlossary: parsePairs(glossaryText, '=').map(p => ({ sourceLang: p.sourceLang, targetLang: p.targetLang, original: p.left, target: p.right })),
+      examples: parsePairs(examplesText, '=>').map(p => ({ sourceLang: p.sourceLang, targetLang: p.targetLang, source: p.left, target: p.right }))
+    });
+    setNotice(`Saved "${saved.name}".`);
+    refresh(saved);
+  };
+
+  const toggleCheck = (list: 'checks' | 'blocking', kind: QaIssue['kind']) => {
+    const current = draft.qaRules[list];
+    edit({ qaRules: { ...draft.qaRules, [list]: current.includes(kind) ? current.filter(k => k !== kind) : [...current, kind] } });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      const imported = profileService.fromJson(await file.text());
+      setNotice(`Imported "${imported.name}".`);
+      refresh(imported);
+    } catch (err: any) {
+      setNotice(err.message || "Profile import failed.");
+    }
+  };
+
+  const exportProfile = () => {
+    const url = URL.createObjectURL(new Blob([profileService.toJson(draft)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${draft.name.replace(/[^\w\- ]+/g, '_')}.profile.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const fieldClass = 'w-full px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border-none focus:ring-2 focus:ring-indigo-500 text-sm disabled:opacity-60';
+  const buttonClass = 'flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-40';
+  const label = 'block space-y-1';
+  const labelText = 'text-xs font-bold uppercase tracking-widest text-slate-400';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-950/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-2xl rounded-3xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-100 dark:bg-indigo-900/40 p-2 rounded-lg text-indigo-600 dark:text-indigo-400">
+              <Drama className="w-5 h-5" />
+            </div>
+            <h2 className="text-xl font-bold font-lexend">Domain Profiles</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={draft.id}
+              onChange={(e) => select(profileService.get(e.target.value))}
+              className="flex-1 min-w-[12rem] px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border-none focus:ring-2 focus:ring-indigo-500 text-sm font-semibold"
+            >
+              {profiles.map(p => (
+                <option key={p.id} value={p.id}>{p.icon} {p.name}{p.builtIn ? ' (built-in)' : ''}</option>
+              ))}
+            </select>
+            <button onClick={createProfile} className={buttonClass}>New</button>
+            <button onClick={cloneProfile} className={buttonClass}><Copy className="w-4 h-4" /> Clone</button>
+            <button onClick={deleteProfile} disabled={readOnly} className="px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-950/30 transition-colors disabled:opacity-40">Delete</button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleImport} />
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+              <Upload className="w-4 h-4" /> Import JSON
+            </button>
+            <button onClick={exportProfile} className={buttonClass}>
+              <Download className="w-4 h-4" /> Export JSON
+            </button>
+            {notice && <span className="text-xs text-slate-500">{notice}</span>}
+          </div>
+
+          {readOnly && (
+            <p className="text-xs text-slate-400">Built-in profiles can't be changed. Clone this one to adapt it for your team.</p>
+          )}
+
+          <div className="grid grid-cols-[4rem,1fr] gap-3">
+            <label className={label}>
+              <span className={labelText}>Icon</span>
+              <input value={draft.icon} onChange={e => edit({ icon: e.target.value })} disabled={readOnly} className={fieldClass} />
+            </label>
+            <label className={label}>
+              <span className={labelText}>Name</span>
+              <input value={draft.name} onChange={e => edit({ name: e.target.value })} disabled={readOnly} className={fieldClass} />
+            </label>
+          </div>
+          <label className={label}>
+            <span className={labelText}>Description</span>
+            <input value={draft.description} onChange={e => edit({ description: e.target.value })} disabled={readOnly} className={fieldClass} />
+          </label>
+          <label className={label}>
+            <span className={labelText}>System instruction</span>
+            <textarea rows={2} value={draft.systemInstruction} onChange={e => edit({ systemInstruction: e.target.value })} disabled={readOnly} className={fieldClass} />
+          </label>
+          <label className={label}>
+            <span className={labelText}>Terminology rules (one per line)</span>
+            <textarea
+              rows={4}
+              value={draft.terminologyRules.join('\n')}
+              onChange={e => edit({ terminologyRules: e.target.value.split('\n') })}
+              disabled={readOnly}
+              className={fieldClass}
+            />
+          </label>
+          <label className={label}>
+            <span className={labelText}>Default glossary (en-es: Lessor = Arrendador)</span>
+            <textarea rows={3} value={glossaryText} onChange={e => { setGlossaryText(e.target.value); setDirty(true); }} disabled={readOnly} className={`${fieldClass} font-mono`} />
+          </label>
+          <label className={label}>
+            <span className={labelText}>Example translations (en-es: source =&gt; target)</span>
+            <textarea rows={3} value={examplesText} onChange={e => { setExamplesText(e.target.value); setDirty(true); }} disabled={readOnly} className={`${fieldClass} font-mono`} />
+          </label>
+
+          <div className="space-y-2">
+            <h3 className={labelText}>Quality checks</h3>
+            <div className="grid gap-1">
+              {QA_CHECKS.map(({ kind, label: name }) => (
+                <div key={kind} className="flex items-center justify-between px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800/50 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={draft.qaRules.checks.includes(kind)} onChange={() => toggleCheck('checks', kind)} disabled={readOnly} className="accent-indigo-600" />
+                    {name}
+                  </label>
+                  <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={draft.qaRules.blocking.includes(kind)}
+                      onChange={() => toggleCheck('blocking', kind)}
+                      disabled={readOnly || !draft.qaRules.checks.includes(kind)}
+                      className="accent-rose-600"
+                    />
+                    Blocks export
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <label className={label}>
+            <span className={labelText}>Forbidden terms (one per line)</span>
+            <textarea
+              rows={2}
+              value={draft.qaRules.forbiddenTerms.join('\n')}
+              onChange={e => edit({ qaRules: { ...draft.qaRules, forbiddenTerms: e.target.value.split('\n') } })}
+              disabled={readOnly}
+              className={fieldClass}
+            />
+          </label>
+        </div>
+
+        <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end gap-3">
+          {!readOnly && (
+            <button
+              onClick={saveProfile}
+              disabled={!dirty}
+              className="flex items-center gap-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-semibold text-sm transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" /> Save
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-semibold text-sm hover:opacity-90 transition-opacity"
+          >
+            Finished
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileManager;
@@ -0,0 +1,165 @@
+
+import React from 'react';
+import { QaIssue } from '../types';
+import { X, ShieldAlert, BookCheck, Wand2, Hash, Check, CheckCheck, Bold, Ban } from 'lucide-react';
+
+interface QaPanelProps {
+  issues: QaIssue[];
+  isProcessing: boolean;
+  acknowledgedIds: string[];
+  onAcknowledge: (issueIds: string[]) => void;
+  onLocate: (chunkId: string) => void;
+  onRetranslateGlossary: (chunkIds: string[]) => void;
+  onClose: () => void;
+}
+
+const QaPanel: React.FC<QaPanelProps> = ({ issues, isProcessing, acknowledgedIds, onAcknowledge, onLocate, onRetranslateGlossary, onClose }) => {
+  const integrityIssues = issues.filter(i => i.severity === 'blocking');
+  // A domain profile can make any check blocking; those issues are listed once, with the blocking ones
+  const warnings = issues.filter(i => i.severity !== 'blocking');
+  const formattingIssues = warnings.filter(i => i.kind === 'formatting');
+  const terminologyIssues = warnings.filter(i => i.kind === 'terminology');
+  const pendingIds = integrityIssues.filter(i => !acknowledgedIds.includes(i.id)).map(i => i.id);
+  const glossaryIssues = warnings.filter(i => i.kind === 'glossary');
+  const glossaryChunkIds = Array.from(new Set(issues.filter(i => i.kind === 'glossary').map(i => i.chunkId)));
+
+  return (
+    <aside className="fixed top-0 right-0 bottom-0 z-[55] w-full max-w-sm bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 shadow-2xl flex flex-col animate-in slide-in-from-right-8 duration-300">
+      <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+        <div className="flex items-center gap-3">
+          <div className="bg-rose-100 dark:bg-rose-900/40 p-2 rounded-lg text-rose-600 dark:text-rose-400">
+            <ShieldAlert className="w-5 h-5" />
+          </div>
+          <h2 className="text-xl font-bold font-lexend">Quality Checks</h2>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="p-6 overflow-y-auto flex-1 space-y-6">
+        {issues.length === 0 ? (
+          <div className="text-center py-8 text-slate-400 text-sm italic">
+            No issues found.
+          </div>
+        ) : (
+          <>
+            {integrityIssues.length > 0 && (
+              <section className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-slate-400">
+                    <Hash className="w-4 h-4" />
+                    Figures &amp; References ({pendingIds.length}/{integrityIssues.length})
+                  </h3>
+                  {pendingIds.length > 0 && (
+                    <button
+                      onClick={() => onAcknowledge(pendingIds)}
+                      className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-[10px] font-black uppercase tracking-widest transition-colors"
+                      title="Confirm every listed difference is intentional"
+                    >
+                      <CheckCheck className="w-3 h-3" />
+                      Acknowledge all
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-slate-400">Export stays locked until each difference is fixed or acknowledged.</p>
+                {integrityIssues.map(issue => {
+                  const acknowledged = acknowledgedIds.includes(issue.id);
+                  return (
+                    <div
+                      key={issue.id}
+                      className={`flex items-start gap-2 p-3 rounded-xl border transition-colors ${acknowledged ? 'bg-slate-50 dark:bg-slate-800/40 border-slate-100 dark:border-slate-800 opacity-60' : 'bg-rose-50/60 dark:bg-rose-950/20 border-rose-100 dark:border-rose-900/40 hover:border-rose-300'}`}
+                    >
+                      <button onClick={() => onLocate(issue.chunkId)} className="flex-1 text-left">
+                        <div className="text-sm text-slate-800 dark:text-slate-200">{issue.message}</div>
+                        <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">{issue.kind} · {issue.chunkId}</div>
+                      </button>
+                      {!acknowledged && (
+                        <button
+                          onClick={() => onAcknowledge([issue.id])}
+                          className="p-1.5 rounded-lg text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-950/30 transition-colors"
+                          title="Acknowledge"
+                        >
+                          <Check className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </section>
+            )}
+            {glossaryChunkIds.length > 0 && (
+              <section className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-slate-400">
+                    <BookCheck className="w-4 h-4" />
+                    Glossary ({glossaryIssues.length})
+                  </h3>
+                  {glossaryChunkIds.length > 0 && (
+                    <button
+                      onClick={() => onRetranslateGlossary(glossaryChunkIds)}
+                      disabled={isProcessing}
+                      className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-[10px] font-black uppercase tracking-widest transition-colors disabled:opacity-50"
+                      title="Send only the failing clauses back with the glossary enforced"
+                    >
+                      <Wand2 className="w-3 h-3" />
+                      Retranslate with enforcement
+                    </button>
+                  )}
+                </div>
+                {glossaryIssues.map(issue => (
+                  <button
+                    key={issue.id}
+                    onClick={() => onLocate(issue.chunkId)}
+                    className="w-full text-left p-3 rounded-xl bg-rose-50/60 dark:bg-rose-950/20 border border-rose-100 dark:border-rose-900/40 hover:border-rose-300 transition-colors"
+                  >
+                    <div className="text-sm text-slate-800 dark:text-slate-200">{issue.message}</div>
+                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">{issue.chunkId}</div>
+                  </button>
+                ))}
+              </section>
+            )}
+            {terminologyIssues.length > 0 && (
+              <section className="space-y-3">
+                <h3 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-slate-400">
+                  <Ban className="w-4 h-4" />
+                  Terminology ({terminologyIssues.length})
+                </h3>
+                {terminologyIssues.map(issue => (
+                  <button
+                    key={issue.id}
+                    onClick={() => onLocate(issue.chunkId)}
+                    className="w-full text-left p-3 rounded-xl bg-amber-50/60 dark:bg-amber-950/20 border border-amber-100 dark:border-amber-900/40 hover:border-amber-300 transition-colors"
+                  >
+                    <div className="text-sm text-slate-800 dark:text-slate-200">{issue.message}</div>
+                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">{issue.chunkId}</div>
+                  </button>
+                ))}
+              </section>
+            )}
+            {formattingIssues.length > 0 && (
+              <section className="space-y-3">
+                <h3 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-slate-400">
+                  <Bold className="w-4 h-4" />
+                  Formatting ({formattingIssues.length})
+                </h3>
+                {formattingIssues.map(issue => (
+                  <button
+                    key={issue.id}
+                    onClick={() => onLocate(issue.chunkId)}
+                    className="w-full text-left p-3 rounded-xl bg-amber-50/60 dark:bg-amber-950/20 border border-amber-100 dark:border-amber-900/40 hover:border-amber-300 transition-colors"
+                  >
+                    <div className="text-sm text-slate-800 dark:text-slate-200">{issue.message}</div>
+                    <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">{issue.chunkId}</div>
+                  </button>
+                ))}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default QaPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { SessionSummary } from '../types';
+import { LANGUAGES } from '../constants';
+import { History, Play, FileText, Trash2 } from 'lucide-react';
+
+interface RecentDocumentsProps {
+  sessions: SessionSummary[];
+  onResume: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const savedAgo = (ms: number) => {
+  const minutes = Math.round((Date.now() - ms) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)} h ago`;
+  return new Date(ms).toLocaleDateString();
+};
+
+/** Documents saved in this browser; unfinished ones resume from their first untranslated segment. */
+const RecentDocuments: React.FC<RecentDocumentsProps> = ({ sessions, onResume, onRemove }) => {
+  return (
+    <div className="max-w-4xl mx-auto text-left bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 shadow-xl overflow-hidden">
+      <div className="flex items-center gap-3 p-6 border-b border-slate-100 dark:border-slate-800">
+        <div className="bg-indigo-600 p-2.5 rounded-xl text-white">
+          <History className="w-5 h-5" />
+        </div>
+        <div>
+          <h3 className="font-black text-lg tracking-tight">Recent Documents</h3>
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Saved in this browser as you work</p>
+        </div>
+      </div>
+
+      <ul className="max-h-[360px] overflow-y-auto divide-y divide-slate-100 dark:divide-slate-800">
+        {sessions.map(session => {
+          const remaining = session.segments - session.translated;
+          return (
+            <li key={session.id} className="flex items-center gap-4 px-6 py-3">
+              <FileText className="w-5 h-5 text-slate-400 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-baseline gap-2">
+                  <span className="font-bold text-sm truncate">{session.fileName}</span>
+                  <span className="text-sm shrink-0" title={session.targetLangs.join(', ')}>
+                    {session.targetLangs.map(code => LANGUAGES.find(l => l.code === code)?.flag || code).join(' ')}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {remaining > 0
+                    ? <span className="text-amber-600 font-semibold">Interrupted · {session.translated} / {session.segments} segments translated</span>
+                    : `${session.segments} segments translated`}
+                  {' · '}saved {savedAgo(session.updatedAt)}
+                </p>
+              </div>
+              <button
+                onClick={() => onResume(session.id)}
+                className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-slate-50 dark:bg-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+              >
+                <Play className="w-3.5 h-3.5" />
+                {remaining > 0 ? 'Resume' : 'Open'}
+              </button>
+              <button onClick={() => onRemove(session.id)} className="p-2 rounded-lg text-slate-400 hover:text-rose-600 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title="Forget this document">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default RecentDocuments;
@@ -0,0 +1,52 @@
+
+import React from 'react';
+import { ReviewFilter, ReviewProgress } from '../services/reviewService';
+import { ClipboardCheck } from 'lucide-react';
+
+interface ReviewSummaryProps {
+  progress: ReviewProgress;
+  filter: ReviewFilter;
+  onFilterChange: (filter: ReviewFilter) => void;
+}
+
+/** Sign-off progress for the action bar, with the filter that narrows both panes. */
+const ReviewSummary: React.FC<ReviewSummaryProps> = ({ progress, filter, onFilterChange }) => {
+  const percent = progress.total > 0 ? Math.round(progress.approved / progress.total * 100) : 0;
+  const options: { value: ReviewFilter; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'unapproved', label: `Unapproved (${progress.total - progress.approved})` },
+    { value: 'commented', label: `Commented (${progress.commented})` }
+  ];
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 rounded-2xl bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700">
+      <div
+        className="flex items-center gap-2"
+        title={`${progress.approved} approved, ${progress.rejected} rejected, ${progress.total - progress.approved - progress.rejected} awaiting review`}
+      >
+        <ClipboardCheck className={`w-4 h-4 ${percent === 100 ? 'text-emerald-500' : 'text-slate-500'}`} />
+        <div className="flex flex-col gap-1">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">
+            Review {progress.approved} / {progress.total}
+          </span>
+          <div className="h-1 w-24 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      </div>
+      <div className="flex rounded-xl bg-white dark:bg-slate-900 p-0.5">
+        {options.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onFilterChange(option.value)}
+            className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-colors ${filter === option.value ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-800 dark:hover:text-slate-200'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSummary;
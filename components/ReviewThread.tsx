@@ -0,0 +1,94 @@
+
+import React, { useState } from 'react';
+import { DocumentChunk } from '../types';
+import { reviewService } from '../services/reviewService';
+import { ChunkEditorActions } from './ChunkEditor';
+import { MessageSquarePlus, UserRound, CircleCheck } from 'lucide-react';
+
+interface ReviewThreadProps {
+  chunk: DocumentChunk;
+  actions: ChunkEditorActions;
+}
+
+/** The assignee and comment thread of one clause, shown under its editor. */
+const ReviewThread: React.FC<ReviewThreadProps> = ({ chunk, actions }) => {
+  const [assignee, setAssignee] = useState(chunk.assignee || '');
+  const [reviewer, setReviewer] = useState(reviewService.getReviewer());
+  const [comment, setComment] = useState('');
+  const comments = chunk.comments || [];
+
+  const commitAssignee = () => {
+    if (assignee.trim() !== (chunk.assignee || '')) actions.onAssign(chunk.id, assignee);
+  };
+
+  const addComment = () => {
+    if (!comment.trim()) return;
+    reviewService.setReviewer(reviewer);
+    actions.onComment(chunk.id, comment);
+    setComment('');
+  };
+
+  const inputClass = 'bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="pt-2 border-t border-indigo-100 dark:border-indigo-900/40 space-y-2">
+      <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <UserRound className="w-3 h-3" />
+        Assignee
+        <input
+          value={assignee}
+          onChange={e => setAssignee(e.target.value)}
+          onBlur={commitAssignee}
+          onKeyDown={e => { if (e.key === 'Enter') commitAssignee(); }}
+          placeholder="Unassigned"
+          className={`flex-1 normal-case tracking-normal font-normal text-slate-700 dark:text-slate-300 ${inputClass}`}
+        />
+      </label>
+
+      {comments.length > 0 && (
+        <ul className="space-y-1">
+          {comments.map(c => (
+            <li key={c.id} className={`flex items-start gap-2 p-2 rounded-lg text-xs ${c.resolved ? 'text-slate-400' : 'bg-amber-50 dark:bg-amber-950/20'}`}>
+              <div className="flex-1">
+                <div className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                  {c.author} · {new Date(c.at).toLocaleString()}
+                </div>
+                <div className={`whitespace-pre-line ${c.resolved ? 'line-through' : ''}`}>{c.text}</div>
+              </div>
+              <button
+                onClick={() => actions.onResolveComment(chunk.id, c.id, !c.resolved)}
+                className={`p-1 rounded-md hover:bg-slate-100 dark:hover:bg-slate-800 ${c.resolved ? 'text-emerald-500' : 'text-slate-400'}`}
+                title={c.resolved ? "Reopen" : "Resolve"}
+              >
+                <CircleCheck className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        {!reviewService.getReviewer() && (
+          <input value={reviewer} onChange={e => setReviewer(e.target.value)} placeholder="Your name" className={`w-28 ${inputClass}`} />
+        )}
+        <input
+          value={comment}
+          onChange={e => setComment(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') addComment(); }}
+          placeholder="Add a comment for the reviewers"
+          className={`flex-1 ${inputClass}`}
+        />
+        <button
+          onClick={addComment}
+          disabled={!comment.trim() || !reviewer.trim()}
+          className="p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30 transition-colors"
+          title={reviewer.trim() ? "Comment" : "Enter your name to comment"}
+        >
+          <MessageSquarePlus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewThread;
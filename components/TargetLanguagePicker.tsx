@@ -0,0 +1,44 @@
+
+import React from 'react';
+import { LANGUAGES } from '../constants';
+import LanguagePicker from './LanguagePicker';
+import { X } from 'lucide-react';
+
+interface TargetLanguagePickerProps {
+  selected: string[];
+  onAdd: (lang: string) => void;
+  onRemove: (lang: string) => void;
+}
+
+/** Chooses every language the document goes out in; each becomes its own translation job. */
+const TargetLanguagePicker: React.FC<TargetLanguagePickerProps> = ({ selected, onAdd, onRemove }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selected.map(code => {
+        const lang = LANGUAGES.find(l => l.code === code);
+        return (
+          <span key={code} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-xl bg-indigo-50 dark:bg-indigo-950/40 text-indigo-700 dark:text-indigo-300 text-sm font-semibold">
+            {lang?.flag} {lang?.name || code}
+            <button
+              onClick={() => onRemove(code)}
+              disabled={selected.length < 2}
+              className="p-1 rounded-lg hover:bg-indigo-100 dark:hover:bg-indigo-900/40 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title={selected.length < 2 ? "At least one language is needed" : "Remove"}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        );
+      })}
+      <LanguagePicker
+        value=""
+        onChange={onAdd}
+        exclude={['auto', ...selected]}
+        placeholder="+ Add language"
+        className="bg-transparent border-none focus:ring-0 font-semibold text-sm cursor-pointer text-slate-500 hover:text-indigo-600 transition-colors"
+      />
+    </div>
+  );
+};
+
+export default TargetLanguagePicker;
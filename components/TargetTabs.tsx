@@ -0,0 +1,71 @@
+
+import React from 'react';
+import { TargetJob } from '../types';
+import { LANGUAGES } from '../constants';
+import LanguagePicker from './LanguagePicker';
+import { Loader2, X, AlertCircle } from 'lucide-react';
+
+interface TargetTabsProps {
+  languages: string[];
+  active: string;
+  jobs: Record<string, TargetJob>;
+  /** Segments that failed to translate, per language. */
+  failed: Record<string, number>;
+  onSelect: (lang: string) => void;
+  onAdd: (lang: string) => void;
+  onRemove: (lang: string) => void;
+}
+
+/** One tab per target language, with each language's job progress. */
+const TargetTabs: React.FC<TargetTabsProps> = ({ languages, active, jobs, failed, onSelect, onAdd, onRemove }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {languages.map(code => {
+        const lang = LANGUAGES.find(l => l.code === code);
+        const job = jobs[code];
+        const isActive = code === active;
+        return (
+          <div
+            key={code}
+            className={`group flex items-center gap-2 pl-4 pr-2 py-2 rounded-2xl border transition-all ${isActive ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg shadow-indigo-600/20' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 hover:border-indigo-300'}`}
+          >
+            <button onClick={() => onSelect(code)} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest" title={job?.statusMessage}>
+              <span className="text-base leading-none">{lang?.flag}</span>
+              {lang?.name || code}
+              {job?.isProcessing && (
+                <span className="flex items-center gap-1 normal-case tracking-normal font-semibold">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  {job.progress}%
+                </span>
+              )}
+              {!job?.isProcessing && failed[code] > 0 && (
+                <span className={`flex items-center gap-1 ${isActive ? 'text-rose-100' : 'text-rose-600'}`} title={`${failed[code]} segment(s) failed`}>
+                  <AlertCircle className="w-3 h-3" />
+                  {failed[code]}
+                </span>
+              )}
+            </button>
+            {languages.length > 1 && (
+              <button
+                onClick={() => onRemove(code)}
+                className={`p-1 rounded-lg transition-colors ${isActive ? 'hover:bg-indigo-500' : 'text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                title={`Remove ${lang?.name || code}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <LanguagePicker
+        value=""
+        onChange={onAdd}
+        exclude={['auto', ...languages]}
+        placeholder="+ Add language"
+        className="bg-transparent border-none focus:ring-0 font-black text-[10px] uppercase tracking-widest cursor-pointer text-slate-500 hover:text-indigo-600 transition-colors"
+      />
+    </div>
+  );
+};
+
+export default TargetTabs;
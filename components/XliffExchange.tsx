@@ -0,0 +1,180 @@
+
+import React, { useRef, useState } from 'react';
+import { DocumentChunk, XliffImportResult, XliffUpdate } from '../types';
+import { xliffService } from '../services/xliffService';
+import { X, ArrowLeftRight, Upload, Download, GitMerge, Check } from 'lucide-react';
+
+interface XliffExchangeProps {
+  chunks: DocumentChunk[];
+  sourceLang: string;
+  targetLang: string;
+  fileName: string;
+  onApply: (updates: XliffUpdate[]) => void;
+  onLocate: (chunkId: string) => void;
+  onClose: () => void;
+}
+
+const XliffExchange: React.FC<XliffExchangeProps> = ({ chunks, sourceLang, targetLang, fileName, onApply, onLocate, onClose }) => {
+  const [report, setReport] = useState<XliffImportResult | null>(null);
+  const [resolvedIds, setResolvedIds] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+
+  const handleExport = () => {
+    const xliff = xliffService.toXliff(chunks, { sourceLang, targetLang, fileName });
+    const url = URL.createObjectURL(new Blob([xliff], { type: 'application/xliff+xml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}.${targetLang}.xlf`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    try {
+      const result = xliffService.fromXliff(await file.text(), chunks, targetLang);
+      if (result.updates.length > 0) onApply(result.updates);
+      setReport(result);
+      setResolvedIds([]);
+      setNotice(`${file.name}: ${result.updates.length} segment(s) updated, ${result.unchangedCount} unchanged.`);
+    } catch (err: any) {
+      setReport(null);
+      setNotice(err.message || "XLIFF import failed.");
+    }
+  };
+
+  const resolve = (chunkId: string, update?: XliffUpdate) => {
+    if (update) onApply([update]);
+    setResolvedIds(ids => [...ids, chunkId]);
+  };
+
+  const openConflicts = report?.conflicts.filter(c => !resolvedIds.includes(c.chunkId)) || [];
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-950/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-900 w-full max-w-2xl rounded-3xl shadow-2xl border border-slate-200 dark:border-slate-800 overflow-hidden flex flex-col max-h-[80vh]">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-100 dark:bg-indigo-900/40 p-2 rounded-lg text-indigo-600 dark:text-indigo-400">
+              <ArrowLeftRight className="w-5 h-5" />
+            </div>
+            <h2 className="text-xl font-bold font-lexend">XLIFF Exchange</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-6">
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Export the document as XLIFF 2.0 for review in a CAT tool, then import the edited file. Segments edited in the file replace the current translation; segments also edited here since the export are listed as conflicts.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <button
+              onClick={handleExport}
+              className="flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              <Download className="w-4 h-4" /> Export XLIFF
+            </button>
+            <input type="file" ref={fileInputRef} className="hidden" accept=".xlf,.xliff,.xml" onChange={handleImport} />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-sm font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              <Upload className="w-4 h-4" /> Import XLIFF
+            </button>
+          </div>
+
+          {notice && <p className="text-xs text-slate-500">{notice}</p>}
+
+          {report && (
+            <>
+              {openConflicts.length > 0 && (
+                <section className="space-y-3">
+                  <h3 className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-slate-400">
+                    <GitMerge className="w-4 h-4" />
+                    Conflicts ({openConflicts.length})
+                  </h3>
+                  {openConflicts.map(conflict => (
+                    <div key={conflict.chunkId} className="p-3 rounded-xl border bg-amber-50/60 dark:bg-amber-950/20 border-amber-100 dark:border-amber-900/40 space-y-2">
+                      <button onClick={() => onLocate(conflict.chunkId)} className="w-full text-left">
+                        <div className="text-sm text-slate-800 dark:text-slate-200">{conflict.message}</div>
+                        <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">{conflict.kind} · {conflict.chunkId}</div>
+                      </button>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs">
+                        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+                          <div className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-1">Current</div>
+                          {conflict.current || <span className="italic text-slate-400">Not translated</span>}
+                        </div>
+                        <div className="p-2 rounded-lg bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800">
+                          <div className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-1">In file</div>
+                          {conflict.incoming.text}
+                        </div>
+                      </div>
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => resolve(conflict.chunkId)}
+                          className="px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-[10px] font-black uppercase tracking-widest transition-colors"
+                        >
+                          Keep current
+                        </button>
+                        <button
+                          onClick={() => resolve(conflict.chunkId, conflict.incoming)}
+                          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-[10px] font-black uppercase tracking-widest transition-colors"
+                        >
+                          <Check className="w-3 h-3" />
+                          Use file
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </section>
+              )}
+
+              {report.missingIds.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400">Not in file ({report.missingIds.length})</h3>
+                  <div className="flex flex-wrap gap-1">
+                    {report.missingIds.map(id => (
+                      <button key={id} onClick={() => onLocate(id)} className="px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-800 text-[10px] font-mono hover:bg-slate-200 dark:hover:bg-slate-700">
+                        {id}
+                      </button>
+                    ))}
+                  </div>
+                </section>
+              )}
+
+              {report.unknownIds.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-xs font-bold uppercase tracking-widest text-slate-400">Unknown units ({report.unknownIds.length})</h3>
+                  <p className="text-xs text-slate-400">These ids are not in this document and were ignored.</p>
+                  <div className="flex flex-wrap gap-1">
+                    {report.unknownIds.map(id => (
+                      <span key={id} className="px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-800 text-[10px] font-mono">{id}</span>
+                    ))}
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-t border-slate-100 dark:border-slate-800 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-semibold text-sm hover:opacity-90 transition-opacity"
+          >
+            Finished
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default XliffExchange;
@@ -1,5 +1,5 @@
 
-import { Language } from './types';
+import { DomainProfile, Language, QaIssue } from './types';
 
 export const LANGUAGES: Language[] = [
   { code: 'auto', name: 'Auto-Detect', flag: '🔍' },
@@ -22,18 +22,156 @@ export const LANGUAGES: Language[] = [
   { code: 'th', name: 'Thai', flag: '🇹🇭' },
 ];
 
-export const TRANSLATION_TONES = [
-  { id: 'professional', name: 'Professional', icon: '💼', description: 'Business & General' },
-  { id: 'legal', name: 'Legal', icon: '⚖️', description: 'Contracts & Compliance' },
-  { id: 'technical', name: 'Technical', icon: '⚙️', description: 'Manuals & Code' },
-  { id: 'medical', name: 'Medical', icon: '🩺', description: 'Healthcare & Pharma' },
-  { id: 'creative', name: 'Creative', icon: '🎨', description: 'Marketing & UI' },
-] as const;
+const ALL_CHECKS: QaIssue['kind'][] = ['number', 'date', 'clause', 'currency', 'glossary', 'formatting', 'terminology'];
+const FIGURE_CHECKS: QaIssue['kind'][] = ['number', 'date', 'clause', 'currency'];
+
+/**
+ * The built-in domain profiles. Each one is the entry point for a translation style: the prompt,
+ * the terms it brings and the QA it runs. Users clone these to make their own (see profileService).
+ */
+export const TRANSLATION_TONES: DomainProfile[] = [
+  {
+    id: 'professional',
+    name: 'Professional',
+    icon: '💼',
+    description: 'Business & General',
+    builtIn: true,
+    systemInstruction: "You are a senior business translator producing documents ready to send to clients and partners.",
+    terminologyRules: [
+      "TONE: Use a clear, courteous professional register; prefer plain wording over jargon.",
+      "FIGURES: Keep amounts, dates, names and references exactly as in the source."
+    ],
+    defaultGlossary: [],
+    qaRules: { checks: ALL_CHECKS, blocking: FIGURE_CHECKS, forbiddenTerms: [] },
+    examples: [
+      { sourceLang: 'en', targetLang: 'es', source: "Please find the signed agreement attached.", target: "Adjunto encontrará el acuerdo firmado." }
+    ]
+  },
+  {
+    id: 'legal',
+    name: 'Legal',
+    icon: '⚖️',
+    description: 'Contracts & Compliance',
+    builtIn: true,
+    systemInstruction: "You are a Senior Real Estate Legal Translator specialized in Lease Agreements, Amendments, and Invoices.",
+    terminologyRules: [
+      "TERMINOLOGY: Use precise real estate terms (e.g., 'Lessor/Lessee' instead of 'Owner/Renter', 'Common Area Maintenance', 'Subordination', 'Habitability', 'Quiet Enjoyment').",
+      "INVOICES: Maintain exact numerical values, currencies, and line-item structures for real estate billing.",
+      "LEGAL TONE: Use a formal legal tone."
+    ],
+    defaultGlossary: [
+      { sourceLang: 'en', targetLang: 'es', original: 'Lessor', target: 'Arrendador' },
+      { sourceLang: 'en', targetLang: 'es', original: 'Lessee', target: 'Arrendatario' },
+      { sourceLang: 'en', targetLang: 'es', original: 'Quiet Enjoyment', target: 'Goce pacífico' },
+      { sourceLang: 'en', targetLang: 'fr', original: 'Lessor', target: 'Bailleur' },
+      { sourceLang: 'en', targetLang: 'fr', original: 'Lessee', target: 'Preneur' },
+      { sourceLang: 'en', targetLang: 'de', original: 'Lessor', target: 'Vermieter' },
+      { sourceLang: 'en', targetLang: 'de', original: 'Lessee', target: 'Mieter' }
+    ],
+    qaRules: { checks: ALL_CHECKS, blocking: FIGURE_CHECKS, forbiddenTerms: [] },
+    examples: [
+      { sourceLang: 'en', targetLang: 'es', source: "The Lessee shall pay the Rent on the first day of each month.", target: "El Arrendatario pagará la Renta el primer día de cada mes." }
+    ]
+  },
+  {
+    id: 'technical',
+    name: 'Technical',
+    icon: '⚙️',
+    description: 'Manuals & Code',
+    builtIn: true,
+    systemInstruction: "You are a technical translator specialized in user manuals, specifications and software documentation.",
+    terminologyRules: [
+      "CODE: Never translate code, commands, file names, identifiers, units or UI labels given in quotes.",
+      "STYLE: Use the imperative for instructions and keep sentences short and unambiguous.",
+      "UNITS: Keep measurements and tolerances exactly as written."
+    ],
+    defaultGlossary: [],
+    qaRules: { checks: ALL_CHECKS, blocking: ['number'], forbiddenTerms: [] },
+    examples: [
+      { sourceLang: 'en', targetLang: 'de', source: "Press and hold the Reset button for 5 seconds.", target: "Halten Sie die Reset-Taste 5 Sekunden lang gedrückt." }
+    ]
+  },
+  {
+    id: 'medical',
+    name: 'Medical',
+    icon: '🩺',
+    description: 'Healthcare & Pharma',
+    builtIn: true,
+    systemInstruction: "You are a medical translator specialized in clinical documentation, patient information and pharmaceutical labeling.",
+    terminologyRules: [
+      "TERMINOLOGY: Use standard medical terminology of the target language; keep drug names (INN) and dosages unchanged.",
+      "SAFETY: Never soften warnings, contraindications or dosage instructions.",
+      "TONE: Use a precise, neutral clinical register."
+    ],
+    defaultGlossary: [],
+    qaRules: { checks: ALL_CHECKS, blocking: ['number', 'date', 'currency'], forbiddenTerms: ['Lessor', 'Lessee', 'Arrendador', 'Arrendatario'] },
+    examples: [
+      { sourceLang: 'en', targetLang: 'es', source: "Take one tablet twice daily with food.", target: "Tome un comprimido dos veces al día con alimentos." }
+    ]
+  },
+  {
+    id: 'creative',
+    name: 'Creative',
+    icon: '🎨',
+    description: 'Marketing & UI',
+    builtIn: true,
+    systemInstruction: "You are a marketing translator and copywriter who adapts campaigns and product copy for local audiences.",
+    terminologyRules: [
+      "TRANSCREATION: Convey the intent and energy of the source; idiomatic rewording is preferred over literal translation.",
+      "BRANDS: Keep brand and product names untranslated.",
+      "UI: Keep interface strings short enough to fit the original layout."
+    ],
+    defaultGlossary: [],
+    qaRules: { checks: ['number', 'currency', 'glossary', 'formatting'], blocking: [], forbiddenTerms: [] },
+    examples: [
+      { sourceLang: 'en', targetLang: 'fr', source: "Get more done, faster.", target: "Faites-en plus, plus vite." }
+    ]
+  },
+];
 
 export const APP_NAME = "ReTrans";
 
 // Define Engine Models
 export const ENGINES = {
   FLASH: 'gemini-3-flash-preview', // High speed, high limits (Free feel)
-  PRO: 'gemini-3-pro-preview'      // High quality, precision
+  PRO: 'gemini-3-pro-preview',     // High quality, precision
+  MOCK: 'mock-pseudo-locale'        // Offline, deterministic (no API key)
+};
+
+// Batch scheduling for translateChunks
+export const TRANSLATION_SCHEDULER = {
+  concurrency: 3,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
 };
+
+// Documents the batch queue works on at once; each also runs its own translation batches
+export const BATCH_QUEUE_CONCURRENCY = 2;
+
+// Saved sessions: how many recent documents are kept, and how long edits settle before a save
+export const SESSION_MAX_RECENT = 20;
+export const SESSION_SAVE_DELAY_MS = 400;
+
+// Translation memory
+export const MEMORY_DEFAULT_THRESHOLD = 0.75;
+export const MEMORY_MAX_REFERENCES = 3;
+
+// Revisions kept per chunk for undo and redo
+export const EDIT_HISTORY_LIMIT = 50;
+
+// Unicode fonts for PDF export, fetched only when the translation has characters Helvetica can't
+// draw. Noto Sans TTFs from the @expo-google-fonts packages; italics exist for Latin only.
+export const PDF_FONT_CDN = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts';
+export const PDF_FONTS = {
+  latin: { pkg: 'noto-sans@0.4.2', family: 'NotoSans', italic: true },
+  arabic: { pkg: 'noto-sans-arabic@0.4.3', family: 'NotoSansArabic', italic: false },
+  devanagari: { pkg: 'noto-sans-devanagari@0.4.1', family: 'NotoSansDevanagari', italic: false },
+  thai: { pkg: 'noto-sans-thai@0.4.2', family: 'NotoSansThai', italic: false },
+  japanese: { pkg: 'noto-sans-jp@0.4.3', family: 'NotoSansJP', italic: false },
+  korean: { pkg: 'noto-sans-kr@0.4.3', family: 'NotoSansKR', italic: false },
+  chinese: { pkg: 'noto-sans-sc@0.4.3', family: 'NotoSansSC', italic: false }
+};
+
+// OCR lines below this confidence are flagged for review in the source view
+export const OCR_LOW_CONFIDENCE = 0.6;
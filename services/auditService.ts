@@ -0,0 +1,314 @@
+
+import JSZip from "jszip";
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import { APP_NAME, ENGINES, LANGUAGES } from "../constants";
+import { AuditEvent, AuditTrail, ChunkRevision, DocumentChunk, Glossary, ReviewOverride, TranslationState } from "../types";
+import { profileService } from "./profileService";
+import { reviewService } from "./reviewService";
+
+/** Where the current translation of a clause came from. */
+export interface ChunkProvenance {
+  id: string;
+  type: DocumentChunk['type'];
+  status: DocumentChunk['status'] | 'untranslated';
+  origin: 'machine' | 'memory' | 'edited' | 'xliff' | 'source' | 'untranslated';
+  memoryMatch?: { kind: string; score: number };
+  editedBy: string[];
+  approvedBy?: string;
+  approvedAt?: string;
+  assignee?: string;
+  openComments: number;
+  /** The revisions behind the current text, oldest first; undone revisions are left out. */
+  revisions: { kind: ChunkRevision['kind']; by?: string; at: string; instruction?: string }[];
+}
+
+/**
+ * The provenance record delivered with a certified export. Settings are those of the latest
+ * translation run; earlier runs are in `events`.
+ */
+export interface AuditManifest {
+  format: 'retrans-audit-manifest';
+  version: 1;
+  generator: string;
+  jobId: string;
+  createdAt: string;
+  exportedAt: string;
+  source: { fileName: string | null; fileType: string | null; sha256?: string; language: string; detectedLanguage?: string };
+  output?: { fileName: string; sha256: string };
+  translation: {
+    targetLanguage: string;
+    tone: string;
+    /** The tone's domain profile by name, as it was called when the translation ran. */
+    profile: string;
+    engine?: string;
+    /** The ENGINES key of the engine, e.g. "PRO". */
+    engineKey?: string;
+    grounding?: boolean;
+    memory?: boolean;
+    glossary: { id: string; name: string; version: string; sha256: string; terms: number } | null;
+  };
+  review: {
+    clauses: number;
+    approved: number;
+    rejected: number;
+    edited: number;
+    machine: number;
+    untranslated: number;
+    overrides: (Omit<ReviewOverride, 'at'> & { at: string })[];
+  };
+  events: (Omit<AuditEvent, 'at'> & { at: string })[];
+  chunks: ChunkProvenance[];
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const LABEL_WIDTH = 150;
+const INK = rgb(0.1, 0.12, 0.16);
+const MUTED = rgb(0.42, 0.45, 0.5);
+
+const iso = (ms: number) => new Date(ms).toISOString();
+const languageName = (code?: string) => LANGUAGES.find(l => l.code === code)?.name || code || 'unknown';
+
+/**
+ * Audit trail and certification. The app logs job-level events (upload, translation runs,
+ * imports, exports); clause-level provenance is read from each chunk's revisions. Certified
+ * exports bundle the translated file with a certificate page and the JSON manifest, both carrying
+ * SHA-256 hashes of the source and the delivered translation.
+ */
+export class AuditService {
+  async sha256(data: ArrayBuffer | Uint8Array | string): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  newTrail(sourceSha256?: string): AuditTrail {
+    const jobId = typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : Math.random().toString(36).substr(2, 12);
+    return { jobId, startedAt: Date.now(), sourceSha256, events: [] };
+  }
+
+  engineKey(engine: string): string | undefined {
+    return Object.entries(ENGINES).find(([, id]) => id === engine)?.[0];
+  }
+
+  /** A glossary's version is its last save time, with a hash of its terms to prove what they were. */
+  async glossaryVersion(glossary: Glossary): Promise<{ id: string; name: string; version: string; sha256: string; terms: number }> {
+    const terms = glossary.items.map(({ original, target, caseSensitive, wholeWord }) => ({ original, target, caseSensitive, wholeWord }));
+    return { id: glossary.id, name: glossary.name, version: iso(glossary.updatedAt), sha256: await this.sha256(JSON.stringify(terms)), terms: terms.length };
+  }
+
+  provenance(chunk: DocumentChunk): ChunkProvenance {
+    const index = chunk.revisionIndex ?? -1;
+    const effective = (chunk.revisions || []).slice(0, index + 1);
+    const textRevision = [...effective].reverse().find(r => r.kind !== 'approve' && r.kind !== 'reject');
+    const current = effective[effective.length - 1];
+
+    let origin: ChunkProvenance['origin'];
+    if (chunk.metadata?.locked) origin = 'source';
+    else if (!chunk.translatedText) origin = 'untranslated';
+    else if (textRevision?.kind === 'edit') origin = 'edited';
+    else if (textRevision?.kind === 'xliff') origin = 'xliff';
+    else origin = chunk.memoryMatch?.kind === 'exact' ? 'memory' : 'machine';
+
+    return {
+      id: chunk.id,
+      type: chunk.type,
+      status: chunk.translatedText ? chunk.status || 'machine' : 'untranslated',
+      origin,
+      memoryMatch: chunk.memoryMatch ? { ...chunk.memoryMatch } : undefined,
+      editedBy: Array.from(new Set(effective.filter(r => r.kind === 'edit' && r.by).map(r => r.by!))),
+      approvedBy: chunk.status === 'approved' ? current?.by : undefined,
+      approvedAt: chunk.status === 'approved' && current ? iso(current.at) : undefined,
+      assignee: chunk.assignee,
+      openComments: reviewService.openComments(chunk).length,
+      revisions: effective.map(r => ({ kind: r.kind, by: r.by, at: iso(r.at), instruction: r.instruction }))
+    };
+  }
+
+  manifest(state: TranslationState, output?: { fileName: string; sha256: string }): AuditManifest {
+    const trail = state.audit || this.newTrail();
+    // With several target languages, the settings are those of this language's last run
+    const runs = [...trail.events].reverse().filter(e => e.kind === 'translation');
+    const lastRun = (runs.find(e => e.details?.targetLang === state.targetLang) || runs[0])?.details || {};
+    const chunks = state.chunks.filter(c => reviewService.needsReview(c)).map(c => this.provenance(c));
+    const glossary = lastRun.glossaryId ? {
+      id: String(lastRun.glossaryId),
+      name: String(lastRun.glossaryName),
+      version: String(lastRun.glossaryVersion),
+      sha256: String(lastRun.glossarySha256),
+      terms: Number(lastRun.glossaryTerms)
+    } : null;
+
+    return {
+      format: 'retrans-audit-manifest',
+      version: 1,
+      generator: APP_NAME,
+      jobId: trail.jobId,
+      createdAt: iso(trail.startedAt),
+      exportedAt: iso(Date.now()),
+      source: {
+        fileName: state.originalFileName,
+        fileType: state.originalFileType,
+        sha256: trail.sourceSha256,
+        language: state.sourceLang,
+        detectedLanguage: state.detectedSourceLang
+      },
+      output,
+      translation: {
+        targetLanguage: state.targetLang,
+        tone: String(lastRun.tone ?? state.tone),
+        profile: String(lastRun.profileName ?? profileService.get(String(lastRun.tone ?? state.tone)).name),
+        engine: lastRun.engine as string | undefined,
+        engineKey: lastRun.engine ? this.engineKey(String(lastRun.engine)) : undefined,
+        grounding: (lastRun.grounding ?? state.groundingEnabled) as boolean,
+        memory: (lastRun.memory ?? state.memoryEnabled) as boolean,
+        glossary
+      },
+      review: {
+        clauses: chunks.length,
+        approved: chunks.filter(c => c.status === 'approved').length,
+        rejected: chunks.filter(c => c.status === 'rejected').length,
+        edited: chunks.filter(c => c.status === 'edited').length,
+        machine: chunks.filter(c => c.status === 'machine').length,
+        untranslated: chunks.filter(c => c.status === 'untranslated').length,
+        overrides: state.reviewOverrides.map(o => ({ ...o, at: iso(o.at) }))
+      },
+      events: trail.events.map(e => ({ ...e, at: iso(e.at) })),
+      chunks
+    };
+  }
+
+  /** A one-page certificate of translation summarizing the manifest, with a signature block. */
+  async certificate(manifest: AuditManifest): Promise<Blob> {
+    const pdf = await PDFDocument.create();
+    pdf.setTitle('Certificate of Translation');
+    pdf.setProducer(APP_NAME);
+    const regular = await pdf.embedFont(StandardFonts.Helvetica);
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+    let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN;
+
+    const write = (text: string, font: PDFFont, size: number, x: number, width: number, color = INK) => {
+      this.wrap(this.toWinAnsi(text, font), font, size, width).forEach(line => {
+        if (y < MARGIN + size) {
+          page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+          y = PAGE_HEIGHT - MARGIN;
+        }
+        page.drawText(line, { x, y: y - size, size, font, color });
+        y -= size * 1.4;
+      });
+    };
+    const row = (label: string, value: string) => {
+      const top = y;
+      write(label, bold, 9, MARGIN, LABEL_WIDTH - 10, MUTED);
+      const labelBottom = y;
+      y = top;
+      write(value, regular, 9, MARGIN + LABEL_WIDTH, PAGE_WIDTH - 2 * MARGIN - LABEL_WIDTH);
+      y = Math.min(y, labelBottom) - 3;
+    };
+
+    const { source, output, translation, review } = manifest;
+    write('Certificate of Translation', bold, 22, MARGIN, PAGE_WIDTH - 2 * MARGIN);
+    write(`${APP_NAME} · Job ${manifest.jobId}`, regular, 9, MARGIN, PAGE_WIDTH - 2 * MARGIN, MUTED);
+    y -= 16;
+
+    const sourceLanguage = languageName(source.detectedLanguage || source.language);
+    const statement = [
+      `This certifies that the accompanying document${output ? ` "${output.fileName}"` : ''} is a translation of "${source.fileName}" from ${sourceLanguage} into ${languageName(translation.targetLanguage)}.`,
+      `It was produced with the ${translation.engineKey || translation.engine || 'configured'} engine under the ${translation.profile} domain profile${translation.glossary ? `, applying the glossary "${translation.glossary.name}"` : ''}.`,
+      `${review.approved} of ${review.clauses} clauses were approved by a reviewer${review.edited > 0 ? ` and ${review.edited} more were edited by hand` : ''}.`
+    ].join(' ');
+    write(statement, regular, 11, MARGIN, PAGE_WIDTH - 2 * MARGIN);
+    const override = review.overrides[review.overrides.length - 1];
+    if (override) {
+      y -= 6;
+      write(`The document was released before every clause was approved. ${override.by} gave this reason on ${override.at.slice(0, 10)}: "${override.reason}"`, regular, 11, MARGIN, PAGE_WIDTH - 2 * MARGIN);
+    }
+    y -= 16;
+
+    row('Source file', source.fileName || 'unknown');
+    if (source.sha256) row('Source SHA-256', source.sha256);
+    row('Source language', source.language === 'auto' ? `${sourceLanguage} (detected)` : sourceLanguage);
+    row('Target language', languageName(translation.targetLanguage));
+    if (output) {
+      row('Translation file', output.fileName);
+      row('Translation SHA-256', output.sha256);
+    }
+    row('Engine', [translation.engineKey, translation.engine].filter(Boolean).join(' · ') || 'unknown');
+    row('Domain profile', translation.profile);
+    row('Glossary', translation.glossary ? `${translation.glossary.name} · ${translation.glossary.terms} terms · version ${translation.glossary.version}` : 'None');
+    row('Web grounding', translation.grounding ? 'Enabled' : 'Disabled');
+    row('Translation memory', translation.memory ? 'Enabled' : 'Disabled');
+    const reviewers = Array.from(new Set(manifest.chunks.map(c => c.approvedBy).filter(Boolean)));
+    row('Approved by', reviewers.length > 0 ? reviewers.join(', ') : 'Nobody');
+    row('Job started', manifest.createdAt);
+    row('Issued', manifest.exportedAt);
+
+    y -= 40;
+    if (y < MARGIN + 80) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    this.signatureLine(page, regular, 'Certified by (name and signature)', MARGIN, y, 260);
+    this.signatureLine(page, regular, 'Date', MARGIN + 300, y, PAGE_WIDTH - 2 * MARGIN - 300);
+    y -= 50;
+    write('The JSON manifest delivered with this certificate records the origin, edits and approvals of every clause. Compare the SHA-256 values above with the delivered files to confirm that they are unchanged.', regular, 8, MARGIN, PAGE_WIDTH - 2 * MARGIN, MUTED);
+
+    return new Blob([await pdf.save()], { type: 'application/pdf' });
+  }
+
+  /** The translated file, its certificate and the manifest in one ZIP. */
+  async bundle(state: TranslationState, output: { blob: Blob; fileName: string }): Promise<Blob> {
+    const zip = new JSZip();
+    await this.addCertified(zip, state, output);
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+  }
+
+  /** Adds the file with its certificate and manifest, e.g. one language of a multilingual bundle. */
+  async addCertified(zip: JSZip, state: TranslationState, output: { blob: Blob; fileName: string }) {
+    const baseName = output.fileName.replace(/\.[^.]+$/, '');
+    const bytes = new Uint8Array(await output.blob.arrayBuffer());
+    const manifest = this.manifest(state, { fileName: output.fileName, sha256: await this.sha256(bytes) });
+    zip.file(output.fileName, bytes);
+    zip.file(`${baseName}.certificate.pdf`, await (await this.certificate(manifest)).arrayBuffer());
+    zip.file(`${baseName}.manifest.json`, JSON.stringify(manifest, null, 2));
+  }
+
+  private signatureLine(page: PDFPage, font: PDFFont, label: string, x: number, y: number, width: number) {
+    page.drawLine({ start: { x, y }, end: { x: x + width, y }, thickness: 0.75, color: INK });
+    page.drawText(label, { x, y: y - 12, size: 8, font, color: MUTED });
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    text.split(/\s+/).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width || !line) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+      // Hashes and long file names have no spaces to break at
+      while (font.widthOfTextAtSize(line, size) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > width) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  private toWinAnsi(text: string, font: PDFFont): string {
+    const supported = new Set(font.getCharacterSet());
+    return Array.from(text.normalize('NFC'))
+      .map(ch => (supported.has(ch.codePointAt(0)!) ? ch : '?'))
+      .join('');
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,225 @@
+
+import JSZip from "jszip";
+import { BatchItem, BatchOutput } from "../types";
+import { BATCH_QUEUE_CONCURRENCY } from "../constants";
+import { fileService } from "./fileService";
+import { PipelineSettings, translationPipeline } from "./pipeline";
+
+/** A file handed to the queue, with the folder or archive it came from. */
+export interface QueueSource {
+  file: File;
+  path: string;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Translates many documents unattended: loose files, folders and ZIP archives are expanded into
+ * items that run a few at a time through the translation pipeline, all with the same settings.
+ * Each item keeps its own status, progress and error and can be retried on its own; finished
+ * files are collected into one ZIP with a CSV summary.
+ */
+export class BatchQueue {
+  private items: BatchItem[] = [];
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<(items: BatchItem[]) => void>();
+  private settings: PipelineSettings | null = null;
+
+  constructor(private concurrency: number = BATCH_QUEUE_CONCURRENCY) {}
+
+  list(): BatchItem[] {
+    return this.items;
+  }
+
+  /** Calls the listener with the items after every change; returns the unsubscribe function. */
+  subscribe(listener: (items: BatchItem[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.items);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  configure(settings: PipelineSettings) {
+    this.settings = settings;
+  }
+
+  /** Whether a drop should go to the queue rather than open in the editor. */
+  isBatch(sources: QueueSource[]): boolean {
+    return sources.length > 1 || sources.some(s => /\.zip$/i.test(s.file.name));
+  }
+
+  /**
+   * Unpacks ZIP archives (their folders become the items' paths) and flags files no format can
+   * read, so they show up as failed instead of silently disappearing from a 300-file run.
+   */
+  async expand(sources: QueueSource[]): Promise<{ sources: QueueSource[]; unsupported: QueueSource[] }> {
+    const accepted = new Set(fileService.acceptedExtensions().map(ext => ext.slice(1)));
+    const supported = (name: string) => accepted.has(name.split('.').pop()?.toLowerCase() || '');
+    const result: QueueSource[] = [];
+    const unsupported: QueueSource[] = [];
+
+    for (const source of sources) {
+      if (!/\.zip$/i.test(source.file.name)) {
+        (supported(source.file.name) ? result : unsupported).push(source);
+        continue;
+      }
+      const zip = await JSZip.loadAsync(await source.file.arrayBuffer());
+      const archive = [source.path, source.file.name.replace(/\.zip$/i, '')].filter(Boolean).join('/');
+      for (const entry of Object.values(zip.files)) {
+        const parts = entry.name.split('/');
+        const name = parts.pop() || '';
+        // Folders, macOS resource forks and hidden files carry no documents
+        if (entry.dir || !name || name.startsWith('.') || parts.includes('__MACOSX')) continue;
+        const file = new File([await entry.async('blob')], name);
+        const item = { file, path: [archive, ...parts].join('/') };
+        (supported(name) ? result : unsupported).push(item);
+      }
+    }
+    return { sources: result, unsupported };
+  }
+
+  add(sources: QueueSource[], unsupported: QueueSource[] = []) {
+    const item = (source: QueueSource): BatchItem => ({
+      id: newId(), file: source.file, path: source.path, status: 'queued', progress: 0, statusMessage: 'Queued', outputs: []
+    });
+    this.items = [
+      ...this.items,
+      ...sources.map(item),
+      ...unsupported.map(source => ({ ...item(source), status: 'failed' as const, statusMessage: 'Skipped', error: "Unsupported file format." }))
+    ];
+    this.emit();
+    this.pump();
+  }
+
+  retry(id: string) {
+    const item = this.items.find(i => i.id === id);
+    if (!item || item.status === 'running' || item.status === 'queued') return;
+    this.patch(id, { status: 'queued', progress: 0, statusMessage: 'Queued', error: undefined, outputs: [], startedAt: undefined, finishedAt: undefined });
+    this.pump();
+  }
+
+  retryFailed() {
+    this.items.filter(i => i.status === 'failed' || i.status === 'cancelled').forEach(i => this.retry(i.id));
+  }
+
+  /** Stops running documents and takes the waiting ones off the queue; both can be retried. */
+  cancel() {
+    this.items.filter(i => i.status === 'queued').forEach(i => this.patch(i.id, { status: 'cancelled', statusMessage: 'Cancelled' }));
+    this.controllers.forEach(controller => controller.abort());
+  }
+
+  remove(id: string) {
+    this.controllers.get(id)?.abort();
+    this.items = this.items.filter(i => i.id !== id);
+    this.emit();
+  }
+
+  /** Removes every document that is not running. */
+  clear() {
+    this.items = this.items.filter(i => i.status === 'running');
+    this.emit();
+  }
+
+  // --- Results -------------------------------------------------------------------
+
+  /** One row per document and target language, including failed and skipped documents. */
+  toCsv(): string {
+    const header = ['path', 'file', 'status', 'source_language', 'target_language', 'output', 'segments', 'failed_segments', 'qa_warnings', 'qa_blocking', 'seconds', 'error'];
+    const rows = this.items.flatMap(item => {
+      const seconds = item.startedAt && item.finishedAt ? ((item.finishedAt - item.startedAt) / 1000).toFixed(1) : '';
+      const base = [item.path, item.file.name, item.status, item.detectedSourceLang || ''];
+      if (item.outputs.length === 0) return [[...base, '', '', '', '', '', '', seconds, item.error || '']];
+      return item.outputs.map(o => [...base, o.targetLang, o.fileName, o.segments, o.failedSegments, o.qaWarnings, o.qaBlocking, seconds, item.error || '']);
+    });
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /** Every finished file under its original folder, plus summary.csv. */
+  async toZip(): Promise<Blob> {
+    const zip = new JSZip();
+    const used = new Set<string>();
+    this.items.filter(i => i.status === 'done').forEach(item => item.outputs.forEach(output => {
+      const base = [item.path, output.fileName].filter(Boolean).join('/');
+      let name = base;
+      for (let n = 2; used.has(name.toLowerCase()); n++) name = base.replace(/(\.[^./]+)?$/, ` (${n})$1`);
+      used.add(name.toLowerCase());
+      zip.file(name, output.blob);
+    }));
+    zip.file('summary.csv', '﻿' + this.toCsv());
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+  }
+
+  // --- Running ---------------------------------------------------------------------
+
+  private pump() {
+    while (this.controllers.size < this.concurrency) {
+      const next = this.items.find(i => i.status === 'queued');
+      if (!next || !this.settings) return;
+      this.start(next, this.settings);
+    }
+  }
+
+  private async start(item: BatchItem, settings: PipelineSettings) {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    this.patch(item.id, { status: 'running', progress: 0, statusMessage: 'Reading', startedAt: Date.now() });
+
+    try {
+      const { outputs, detectedSourceLang } = await this.translateItem(item, settings, controller.signal);
+      if (controller.signal.aborted) throw new Error("Cancelled.");
+      const failed = outputs.reduce((sum, o) => sum + o.failedSegments, 0);
+      this.patch(item.id, {
+        status: 'done',
+        progress: 100,
+        statusMessage: failed > 0 ? `${failed} Segments Failed` : 'Done',
+        outputs,
+        detectedSourceLang,
+        finishedAt: Date.now()
+      });
+    } catch (err: any) {
+      const cancelled = controller.signal.aborted;
+      this.patch(item.id, {
+        status: cancelled ? 'cancelled' : 'failed',
+        statusMessage: cancelled ? 'Cancelled' : 'Failed',
+        error: cancelled ? undefined : err?.message || "Translation failed.",
+        finishedAt: Date.now()
+      });
+    } finally {
+      this.controllers.delete(item.id);
+      this.pump();
+    }
+  }
+
+  private async translateItem(item: BatchItem, settings: PipelineSettings, signal: AbortSignal): Promise<{ outputs: BatchOutput[]; detectedSourceLang: string }> {
+    const result = await translationPipeline.run(item.file, settings, {
+      signal,
+      onProgress: ({ percent, message }) => this.patch(item.id, { progress: percent, statusMessage: message })
+    });
+    const baseName = item.file.name.replace(/\.[^.]+$/, '');
+    const outputs = result.targets.map((target): BatchOutput => ({
+      targetLang: target.targetLang,
+      fileName: `Translated_${baseName}.${settings.targetLangs.length > 1 ? `${target.targetLang}.` : ''}${target.extension}`,
+      blob: target.blob,
+      segments: result.segments,
+      failedSegments: target.failedSegments,
+      qaWarnings: target.issues.filter(i => i.severity === 'warning').length,
+      qaBlocking: target.issues.filter(i => i.severity === 'blocking').length
+    }));
+    return { outputs, detectedSourceLang: result.sourceLang };
+  }
+
+  private patch(id: string, change: Partial<BatchItem>) {
+    this.items = this.items.map(i => i.id === id ? { ...i, ...change } : i);
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener(this.items));
+  }
+}
+
+export const batchQueue = new BatchQueue();
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BatchOutcome, BatchScheduler, isRetryableError } from "./batchScheduler";
+
+const OPTIONS = { concurrency: 1, maxRetries: 3, baseDelayMs: 100, maxDelayMs: 150 };
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe("BatchScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // The longest jittered delay, so the backoff is predictable
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("retries retryable errors with capped exponential backoff", async () => {
+    const startedAt: number[] = [];
+    const worker = async () => {
+      startedAt.push(Date.now());
+      if (startedAt.length < 3) throw httpError(503);
+      return 'done';
+    };
+
+    const run = new BatchScheduler(OPTIONS).run(['a'], worker);
+    await vi.runAllTimersAsync();
+    const [outcome] = await run;
+
+    expect(outcome).toEqual({ index: 0, status: 'fulfilled', value: 'done', attempts: 3 });
+    expect(startedAt.map(t => t - startedAt[0])).toEqual([0, 100, 250]);
+  });
+
+  it("reports the error once retries run out or the error can't be retried", async () => {
+    const settled: BatchOutcome<never>[] = [];
+    const run = new BatchScheduler(OPTIONS).run(
+      [503, 400],
+      async status => { throw httpError(status); },
+      { onSettled: outcome => settled.push(outcome) }
+    );
+    await vi.runAllTimersAsync();
+    const outcomes = await run;
+
+    expect(outcomes.map(o => [o.status, o.attempts, (o.error as Error).message])).toEqual([
+      ['failed', 4, 'HTTP 503'],
+      ['failed', 1, 'HTTP 400']
+    ]);
+    expect(settled).toEqual(outcomes);
+  });
+
+  it("cancels the item waiting to retry and the ones not started", async () => {
+    const controller = new AbortController();
+    const worker = vi.fn(async () => { throw httpError(429); });
+
+    const run = new BatchScheduler(OPTIONS).run(['a', 'b'], worker, { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(150);
+    controller.abort();
+    const outcomes = await run;
+
+    expect(worker).toHaveBeenCalledTimes(2);
+    expect(outcomes.map(o => [o.status, o.attempts])).toEqual([['cancelled', 2], ['cancelled', 0]]);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries rate limits, server errors and network drops only", () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(500))).toBe(true);
+    expect(isRetryableError(httpError(403))).toBe(false);
+    expect(isRetryableError(new Error("RESOURCE_EXHAUSTED: quota"))).toBe(true);
+    expect(isRetryableError(new Error("API key not valid"))).toBe(false);
+    expect(isRetryableError(new TypeError("fetch failed"))).toBe(true);
+  });
+});
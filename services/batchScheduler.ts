@@ -0,0 +1,128 @@
+
+export interface SchedulerOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface BatchOutcome<T> {
+  index: number;
+  status: 'fulfilled' | 'failed' | 'cancelled';
+  value?: T;
+  error?: unknown;
+  attempts: number;
+}
+
+const field = (error: unknown, key: string): unknown =>
+  typeof error === 'object' && error !== null ? (error as Record<string, unknown>)[key] : undefined;
+
+/** What a worker threw, as a message fit to show next to the segments it cost. */
+export const errorMessage = (error: unknown): string => {
+  if (typeof error === 'string') return error;
+  const message = field(error, 'message');
+  return typeof message === 'string' ? message : '';
+};
+
+/**
+ * Rate limits, server errors and network drops are worth another attempt; other client errors
+ * (bad key, invalid request) will fail the same way every time.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const status = Number(field(error, 'status') ?? field(error, 'code'));
+  if (!isNaN(status) && status > 0) {
+    return status === 429 || status === 408 || status >= 500;
+  }
+  const message = errorMessage(error);
+  if (/\b(429|5\d\d)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED/i.test(message)) return true;
+  if (/\b4\d\d\b|INVALID_ARGUMENT|PERMISSION_DENIED|UNAUTHENTICATED|API key/i.test(message)) return false;
+  return true;
+};
+
+export interface RunHooks<O> {
+  signal?: AbortSignal;
+  /** Called as soon as each item settles, in completion order. */
+  onSettled?: (outcome: BatchOutcome<O>) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(done, ms);
+  function done() {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  }
+  signal?.addEventListener('abort', done);
+});
+
+export class BatchScheduler {
+  private options: SchedulerOptions;
+
+  constructor(options: SchedulerOptions) {
+    this.options = { ...options, concurrency: Math.max(1, options.concurrency) };
+  }
+
+  /**
+   * Runs every item through the worker with bounded concurrency. Each item is retried with
+   * exponential backoff; items that exhaust their retries are reported as failed instead of
+   * aborting the rest of the run. Once the signal aborts, no new items start and unfinished
+   * ones are reported as cancelled.
+   */
+  async run<I, O>(
+    items: I[],
+    worker: (item: I, index: number, signal?: AbortSignal) => Promise<O>,
+    hooks: RunHooks<O> = {}
+  ): Promise<BatchOutcome<O>[]> {
+    const { signal, onSettled } = hooks;
+    const outcomes: BatchOutcome<O>[] = new Array(items.length);
+    let next = 0;
+
+    const lane = async () => {
+      while (next < items.length && !signal?.aborted) {
+        const index = next++;
+        outcomes[index] = await this.attempt(items[index], index, worker, signal);
+        onSettled?.(outcomes[index]);
+      }
+    };
+
+    const lanes = Math.min(this.options.concurrency, items.length);
+    await Promise.all(Array.from({ length: lanes }, lane));
+
+    for (let index = 0; index < items.length; index++) {
+      if (!outcomes[index]) outcomes[index] = { index, status: 'cancelled', attempts: 0 };
+    }
+    return outcomes;
+  }
+
+  private async attempt<I, O>(
+    item: I,
+    index: number,
+    worker: (item: I, index: number, signal?: AbortSignal) => Promise<O>,
+    signal?: AbortSignal
+  ): Promise<BatchOutcome<O>> {
+    const { maxRetries, baseDelayMs, maxDelayMs } = this.options;
+    let attempts = 0;
+
+    while (true) {
+      attempts++;
+      try {
+        const value = await worker(item, index, signal);
+        return { index, status: 'fulfilled', value, attempts };
+      } catch (error: unknown) {
+        if (signal?.aborted) {
+          return { index, status: 'cancelled', error, attempts };
+        }
+        // The caller reports the error with the items it cost
+        if (attempts > maxRetries || !isRetryableError(error)) {
+          return { index, status: 'failed', error, attempts };
+        }
+        // Full jitter keeps parallel lanes from retrying in lockstep against a rate limit
+        const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+        await sleep(Math.random() * ceiling, signal);
+        if (signal?.aborted) {
+          return { index, status: 'cancelled', error, attempts };
+        }
+      }
+    }
+  }
+}
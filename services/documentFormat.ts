@@ -0,0 +1,70 @@
+
+import { DocumentChunk, InlineRun } from "../types";
+import { inlineMarkup } from "./inlineMarkup";
+
+export interface ProcessOptions {
+  /** Languages expected in scanned pages, passed to the OCR engine. */
+  ocrLanguages?: string[];
+  onStatus?: (message: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * A file format the app can read and, when `write` is present, give back in the same format.
+ * Formats are registered with `fileService` and looked up by extension, then by MIME type.
+ */
+export interface DocumentFormat {
+  readonly id: string;
+  /** Shown in messages, e.g. "Excel". */
+  readonly name: string;
+  /** Lower-case, without the dot. */
+  readonly extensions: string[];
+  readonly mimeTypes: string[];
+  /** False while a library loaded by index.html is still initializing. */
+  isReady?(): boolean;
+  parse(file: File, options: ProcessOptions): Promise<DocumentChunk[]>;
+  /**
+   * Rebuilds the document with the translations. `original` is the uploaded file as base64, for
+   * writers that patch it in place. Formats without a writer are exported as DOCX.
+   */
+  write?(chunks: DocumentChunk[], original: string, targetLang: string): Promise<Blob>;
+}
+
+/** Written in place of a segment that failed to translate; an export never passes the source off as its translation. */
+export const TRANSLATION_FAILED_MARKER = '[TRANSLATION FAILED]';
+
+/** The chunk with the failure marker as its translation when translating it failed. */
+export const markFailed = (chunk: DocumentChunk): DocumentChunk =>
+  chunk.translationError && !chunk.translatedText
+    ? { ...chunk, translatedText: TRANSLATION_FAILED_MARKER, translatedRuns: undefined }
+    : chunk;
+
+/** The chunk's text for output: the translation, the failure marker, or the source when it was never sent. */
+export const outputText = (chunk: DocumentChunk): string =>
+  markFailed(chunk).translatedText || chunk.originalText;
+
+/**
+ * The runs a chunk should keep: formatting that varies inside it, or a link, superscript or code
+ * over all of it, which the chunk's bold/italic/underline flags can't carry to the writer.
+ */
+export const chunkRuns = (runs?: InlineRun[]): InlineRun[] | undefined => {
+  if (!runs || runs.length === 0) return undefined;
+  const base = inlineMarkup.baseFormat(runs);
+  return inlineMarkup.hasInlineFormatting(runs) || base.href || base.superscript || base.code ? runs : undefined;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked, since spreading a whole file into fromCharCode overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
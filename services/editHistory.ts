@@ -0,0 +1,80 @@
+
+import { ChunkRevision, ChunkStatus, DocumentChunk, InlineRun } from "../types";
+import { EDIT_HISTORY_LIMIT } from "../constants";
+import { inlineMarkup } from "./inlineMarkup";
+
+/**
+ * Per-chunk translation history. Every change to a translation — machine output, a hand edit, an
+ * approval, an XLIFF import — is recorded as a revision, so undo and redo simply move between
+ * revisions and restore the text, runs and status they captured.
+ */
+export class EditHistory {
+  /** Applies a new translation state to the chunk and records it, dropping any redo states. */
+  commit(
+    chunk: DocumentChunk,
+    change: { text: string; runs?: InlineRun[]; status: ChunkStatus },
+    kind: ChunkRevision['kind'],
+    details: { instruction?: string; by?: string } = {}
+  ): DocumentChunk {
+    const revision: ChunkRevision = { ...change, kind, ...details, at: Date.now() };
+    const kept = (chunk.revisions || []).slice(0, (chunk.revisionIndex ?? -1) + 1);
+    const revisions = [...kept, revision].slice(-EDIT_HISTORY_LIMIT);
+    return { ...this.restore(chunk, revision), translationError: undefined, revisions, revisionIndex: revisions.length - 1 };
+  }
+
+  /**
+   * A hand edit of the translated text. Formatting the editor can't show is kept while the text
+   * is unchanged; otherwise the chunk's base format (a link, superscript) covers the new text.
+   */
+  edit(chunk: DocumentChunk, text: string, by?: string): DocumentChunk {
+    const runs = chunk.translatedRuns && inlineMarkup.toPlain(chunk.translatedRuns) === text
+      ? chunk.translatedRuns
+      : chunk.runs ? [{ ...inlineMarkup.baseFormat(chunk.runs), text }] : undefined;
+    return { ...this.commit(chunk, { text, runs, status: 'edited' }, 'edit', { by }), memoryMatch: undefined };
+  }
+
+  approve(chunk: DocumentChunk, by?: string): DocumentChunk {
+    return this.commit(chunk, { text: chunk.translatedText ?? '', runs: chunk.translatedRuns, status: 'approved' }, 'approve', { by });
+  }
+
+  /** Sends the translation back; a rejected clause is retranslated with the rest of the document. */
+  reject(chunk: DocumentChunk, by?: string): DocumentChunk {
+    return this.commit(chunk, { text: chunk.translatedText ?? '', runs: chunk.translatedRuns, status: 'rejected' }, 'reject', { by });
+  }
+
+  /** Starts the history over, e.g. when the document is translated into another language. */
+  clear(chunk: DocumentChunk): DocumentChunk {
+    return { ...chunk, status: undefined, revisions: undefined, revisionIndex: undefined };
+  }
+
+  canUndo(chunk: DocumentChunk): boolean {
+    return (chunk.revisionIndex ?? 0) > 0;
+  }
+
+  canRedo(chunk: DocumentChunk): boolean {
+    return chunk.revisions !== undefined && (chunk.revisionIndex ?? 0) < chunk.revisions.length - 1;
+  }
+
+  undo(chunk: DocumentChunk): DocumentChunk {
+    if (!this.canUndo(chunk)) return chunk;
+    const index = chunk.revisionIndex! - 1;
+    return { ...this.restore(chunk, chunk.revisions![index]), revisionIndex: index };
+  }
+
+  redo(chunk: DocumentChunk): DocumentChunk {
+    if (!this.canRedo(chunk)) return chunk;
+    const index = (chunk.revisionIndex ?? 0) + 1;
+    return { ...this.restore(chunk, chunk.revisions![index]), revisionIndex: index };
+  }
+
+  /** Edited and approved translations are a person's work; a document retranslation leaves them be. */
+  isHumanVerified(chunk: DocumentChunk): boolean {
+    return chunk.status === 'edited' || chunk.status === 'approved';
+  }
+
+  private restore(chunk: DocumentChunk, revision: ChunkRevision): DocumentChunk {
+    return { ...chunk, translatedText: revision.text, translatedRuns: revision.runs, status: revision.status };
+  }
+}
+
+export const editHistory = new EditHistory();
@@ -0,0 +1,826 @@
+
+import JSZip from "jszip";
+import { PDFDocument, PDFFont, PDFPage, PDFString, StandardFonts, rgb } from "pdf-lib";
+import fontkit from "@pdf-lib/fontkit";
+// fontkit's Devanagari and Thai shaping expects a global regeneratorRuntime
+import "regenerator-runtime/runtime.js";
+import { DocumentChunk, InlineRun } from "../types";
+import { PDF_FONTS } from "../constants";
+import { base64ToBytes, markFailed, outputText } from "./documentFormat";
+import { pdfTextRemover } from "./pdfTextRemover";
+import { runtime } from "./runtime";
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const MIN_PDF_FONT_SIZE = 4;
+const PDF_LINE_HEIGHT = 1.15;
+
+// Superscript runs are drawn smaller and raised by these fractions of the font size
+const SUPERSCRIPT_SCALE = 0.6;
+const SUPERSCRIPT_RISE = 0.35;
+
+const LINK_COLOR = rgb(0.02, 0.39, 0.76);
+
+const HYPERLINK_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const LINK_REL_PREFIX = 'rIdLink';
+
+// Hanging indent (twips) between a literal list label and the item text
+const LIST_HANGING = 432;
+
+// Schema order of the run properties we write (CT_RPr is a sequence; Word rejects reordering)
+const RPR_ORDER = ['rStyle', 'rFonts', 'b', 'bCs', 'i', 'iCs', 'caps', 'smallCaps', 'strike', 'dstrike', 'outline', 'shadow', 'emboss', 'imprint', 'noProof', 'snapToGrid', 'vanish', 'webHidden', 'color', 'spacing', 'w', 'kern', 'position', 'sz', 'szCs', 'highlight', 'u', 'effect', 'bdr', 'shd', 'fitText', 'vertAlign', 'rtl', 'cs', 'em', 'lang', 'eastAsianLayout', 'specVanish', 'oMath'];
+
+// Schema order of paragraph properties (CT_PPr), for inserting an indent in the right place
+const PPR_ORDER = ['pStyle', 'keepNext', 'keepLines', 'pageBreakBefore', 'framePr', 'widowControl', 'numPr', 'suppressLineNumbers', 'pBdr', 'shd', 'tabs', 'suppressAutoHyphens', 'kinsoku', 'wordWrap', 'overflowPunct', 'topLinePunct', 'autoSpaceDE', 'autoSpaceDN', 'bidi', 'adjustRightInd', 'snapToGrid', 'spacing', 'ind', 'contextualSpacing', 'mirrorIndents', 'suppressOverlap', 'jc', 'textDirection', 'textAlignment', 'textboxTightWrap', 'outlineLvl', 'divId', 'cnfStyle', 'rPr', 'sectPr', 'pPrChange'];
+
+type PdfStyle = 'regular' | 'bold' | 'italic' | 'boldItalic';
+type PdfFontFamily = keyof typeof PDF_FONTS;
+
+/** For each style, the fonts to draw with in order of preference; a character uses the first that has it. */
+type PdfFonts = Record<PdfStyle, PDFFont[]>;
+
+const PDF_STYLES: PdfStyle[] = ['regular', 'bold', 'italic', 'boldItalic'];
+
+const STANDARD_FONTS: Record<PdfStyle, StandardFonts> = {
+  regular: StandardFonts.Helvetica,
+  bold: StandardFonts.HelveticaBold,
+  italic: StandardFonts.HelveticaOblique,
+  boldItalic: StandardFonts.HelveticaBoldOblique
+};
+
+// Fonts for targets whose script Helvetica lacks, tried before any other
+const PDF_TARGET_FAMILIES: Record<string, PdfFontFamily> = {
+  ar: 'arabic',
+  hi: 'devanagari',
+  th: 'thai',
+  ja: 'japanese',
+  ko: 'korean',
+  zh: 'chinese'
+};
+
+// File name suffix of each style in the font packages
+const FONT_FILE_STYLES: Record<PdfStyle, string> = {
+  regular: '400Regular',
+  bold: '700Bold',
+  italic: '400Regular_Italic',
+  boldItalic: '700Bold_Italic'
+};
+
+/** A piece of a laid-out PDF line: one run's share of one word. */
+interface PdfPiece {
+  text: string;
+  run: InlineRun;
+  font: PDFFont;
+  size: number;
+  width: number;
+}
+
+// How far ahead of the last matched paragraph we search for the next chunk's source text
+const MATCH_WINDOW = 40;
+
+export class ExportService {
+  /**
+   * Produces a Word document from the translated chunks. When the uploaded DOCX is available,
+   * the translation is written into its paragraphs so styles, headers and footers survive.
+   */
+  async toDocx(chunks: DocumentChunk[], originalDocxBase64?: string): Promise<Blob> {
+    if (originalDocxBase64) {
+      try {
+        const patched = await this.patchDocx(chunks, originalDocxBase64);
+        if (patched) return patched;
+      } catch (err) {
+        console.warn("DOCX patching failed, rebuilding document:", err);
+      }
+    }
+    return this.buildDocx(chunks);
+  }
+
+  /**
+   * Writes the translation over a copy of the original PDF pages. Each chunk's source text is
+   * removed from the page and masked at its recorded position, and the translation is shrunk and
+   * wrapped to fit that box.
+   * Scanned images are first placed on a page of their own size.
+   */
+  async toPdf(chunks: DocumentChunk[], originalBase64: string, mimeType: string = 'application/pdf', targetLang?: string): Promise<Blob> {
+    const pdf = mimeType.startsWith('image/')
+      ? await this.imageToPdf(originalBase64, mimeType)
+      : await PDFDocument.load(base64ToBytes(originalBase64));
+    const pages = pdf.getPages();
+
+    const blocks = chunks.flatMap(chunk => {
+      const meta = chunk.metadata;
+      if (!meta?.bbox || !meta.page || !chunk.translatedText || !pages[meta.page - 1]) return [];
+      const runs = chunk.translatedRuns
+        ? [...chunk.translatedRuns]
+        : [{ text: chunk.translatedText, bold: meta.isBold, italic: meta.isItalic, underline: meta.isUnderlined }];
+      const label = chunk.type === 'list-item' ? this.listLabelFor(chunk) : undefined;
+      if (label) runs.unshift({ text: `${label} ` });
+      return [{ meta, page: pages[meta.page - 1], runs }];
+    });
+    const fonts = await this.pdfFonts(pdf, blocks.flatMap(block => block.runs), targetLang);
+    pages.forEach(page => pdfTextRemover.remove(pdf, page, blocks.filter(block => block.page === page).map(block => block.meta.bbox!)));
+
+    for (const { meta, page, runs } of blocks) {
+      const { x, y, width, height } = meta.bbox!;
+      page.drawRectangle({ x: x - 1, y: y - 1, width: width + 2, height: height + 2, color: rgb(1, 1, 1) });
+
+      const fit = this.fitText(runs, fonts, parseFloat(meta.fontSize || '') || 10, width, height);
+      fit.lines.forEach((line, i) => {
+        const baseline = y + height - fit.size * (i + 1) * PDF_LINE_HEIGHT + fit.size * 0.25;
+        this.drawLine(pdf, page, line, x, baseline, fit.size, fonts.regular[0]);
+      });
+    }
+
+    const bytes = await pdf.save();
+    return new Blob([bytes], { type: 'application/pdf' });
+  }
+
+  /**
+   * Helvetica when it covers the translation, which keeps Western European PDFs small. Otherwise
+   * the Noto Sans fonts for the scripts Helvetica is missing go first, subset into the file. Text
+   * no font can draw fails the export rather than turning into question marks.
+   */
+  private async pdfFonts(pdf: PDFDocument, runs: InlineRun[], targetLang?: string): Promise<PdfFonts> {
+    const textByStyle: Record<PdfStyle, string> = { regular: '', bold: '', italic: '', boldItalic: '' };
+    runs.forEach(run => { textByStyle[this.styleOf(run)] += run.text.normalize('NFC').replace(/\s+/g, ''); });
+
+    const fonts = {} as PdfFonts;
+    for (const style of PDF_STYLES) fonts[style] = [await pdf.embedFont(STANDARD_FONTS[style])];
+    const missing = (style: PdfStyle) => Array.from(new Set(Array.from(textByStyle[style])))
+      .filter(ch => !fonts[style].some(font => this.charactersOf(font).has(ch.codePointAt(0)!)));
+
+    pdf.registerFontkit(fontkit);
+    for (const style of PDF_STYLES) {
+      const needed = missing(style);
+      if (needed.length === 0) continue;
+      // The target's own script first: its punctuation and combining marks are often script-neutral
+      const scriptFamilies = needed.map(ch => this.fontFamilyFor(ch, targetLang));
+      const families = Array.from(new Set([...(targetLang && PDF_TARGET_FAMILIES[targetLang] ? [PDF_TARGET_FAMILIES[targetLang]] : []), ...scriptFamilies]))
+        .sort((a, b) => Number(a === 'latin') - Number(b === 'latin'));
+      const embedded: PDFFont[] = [];
+      for (const family of families) {
+        embedded.push(await pdf.embedFont(await this.loadFont(family, style), { subset: true }));
+      }
+      fonts[style] = [...embedded, ...fonts[style]];
+
+      const undrawable = missing(style);
+      if (undrawable.length > 0) {
+        const list = undrawable.slice(0, 5).map(ch => `"${ch}" (U+${ch.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')})`).join(', ');
+        throw new Error(`The PDF can't be written: no font has ${list}. Export the translation as DOCX instead.`);
+      }
+    }
+    return fonts;
+  }
+
+  private fontFamilyFor(ch: string, targetLang?: string): PdfFontFamily {
+    if (/\p{Script=Hangul}/u.test(ch)) return 'korean';
+    if (/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\uff00-\uffef]/u.test(ch)) {
+      return targetLang === 'ja' ? 'japanese' : targetLang === 'ko' ? 'korean' : 'chinese';
+    }
+    if (/\p{Script=Arabic}/u.test(ch)) return 'arabic';
+    if (/\p{Script=Devanagari}/u.test(ch)) return 'devanagari';
+    if (/\p{Script=Thai}/u.test(ch)) return 'thai';
+    return 'latin';
+  }
+
+  private fontFiles = new Map<string, Promise<ArrayBuffer>>();
+
+  /** Font files are loaded once per page load (or CLI run) and shared by every export. */
+  private loadFont(family: PdfFontFamily, style: PdfStyle): Promise<ArrayBuffer> {
+    const { pkg, family: name, italic } = PDF_FONTS[family];
+    const fileStyle = FONT_FILE_STYLES[italic ? style : style === 'boldItalic' ? 'bold' : style === 'italic' ? 'regular' : style];
+    const file = `${fileStyle}/${name}_${fileStyle}.ttf`;
+    const key = `${pkg}/${file}`;
+    if (!this.fontFiles.has(key)) {
+      const bytes = runtime.loadFont(pkg, file).catch(err => {
+        this.fontFiles.delete(key);
+        throw new Error(`Couldn't load the ${name} font for the PDF (${err?.message || err}). Export the translation as DOCX instead.`);
+      });
+      this.fontFiles.set(key, bytes);
+    }
+    return this.fontFiles.get(key)!;
+  }
+
+  private characterSets = new WeakMap<PDFFont, Set<number>>();
+
+  private charactersOf(font: PDFFont): Set<number> {
+    if (!this.characterSets.has(font)) this.characterSets.set(font, new Set(font.getCharacterSet()));
+    return this.characterSets.get(font)!;
+  }
+
+  private async imageToPdf(imageBase64: string, mimeType: string): Promise<PDFDocument> {
+    const pdf = await PDFDocument.create();
+    const bytes = base64ToBytes(imageBase64);
+    const image = mimeType === 'image/png' ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes);
+    const page = pdf.addPage([image.width, image.height]);
+    page.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height });
+    return pdf;
+  }
+
+  /**
+   * Largest font size (capped at the source size) at which the wrapped text fits the box.
+   */
+  private fitText(runs: InlineRun[], fonts: PdfFonts, startSize: number, width: number, height: number) {
+    for (let size = startSize; size > MIN_PDF_FONT_SIZE; size -= 0.5) {
+      const lines = this.wrapRuns(runs, fonts, size, width);
+      if (lines.length * size * PDF_LINE_HEIGHT <= Math.max(height, size * PDF_LINE_HEIGHT)) {
+        return { size, lines };
+      }
+    }
+    return { size: MIN_PDF_FONT_SIZE, lines: this.wrapRuns(runs, fonts, MIN_PDF_FONT_SIZE, width) };
+  }
+
+  /**
+   * Breaks runs into lines of words at whitespace. A word may span several runs ("Lessee's"
+   * with a bold "Lessee"), so each word is a list of pieces measured in their own font.
+   */
+  private wrapRuns(runs: InlineRun[], fonts: PdfFonts, size: number, width: number): PdfPiece[][][] {
+    const words: PdfPiece[][] = [];
+    let word: PdfPiece[] = [];
+
+    runs.forEach(run => {
+      const stack = fonts[this.styleOf(run)];
+      const pieceSize = run.superscript ? size * SUPERSCRIPT_SCALE : size;
+      run.text.split(/(\s+)/).forEach(token => {
+        if (!token) return;
+        if (/^\s+$/.test(token)) {
+          if (word.length > 0) words.push(word);
+          word = [];
+          return;
+        }
+        this.splitByFont(token, stack).forEach(({ text, font }) => {
+          word.push({ text, run, font, size: pieceSize, width: font.widthOfTextAtSize(text, pieceSize) });
+        });
+      });
+    });
+    if (word.length > 0) words.push(word);
+
+    const space = fonts.regular[0].widthOfTextAtSize(' ', size);
+    const wordWidth = (w: PdfPiece[]) => w.reduce((sum, piece) => sum + piece.width, 0);
+    const lines: PdfPiece[][][] = [];
+    let current: PdfPiece[][] = [];
+    let currentWidth = 0;
+
+    words.forEach(w => {
+      const added = (current.length > 0 ? space : 0) + wordWidth(w);
+      if (current.length > 0 && currentWidth + added > width) {
+        lines.push(current);
+        current = [w];
+        currentWidth = wordWidth(w);
+      } else {
+        current.push(w);
+        currentWidth += added;
+      }
+    });
+    if (current.length > 0) lines.push(current);
+    return lines;
+  }
+
+  private drawLine(pdf: PDFDocument, page: PDFPage, line: PdfPiece[][], x: number, baseline: number, size: number, spaceFont: PDFFont) {
+    const space = spaceFont.widthOfTextAtSize(' ', size);
+    let cursor = x;
+
+    line.forEach((word, w) => {
+      if (w > 0) cursor += space;
+      word.forEach(piece => {
+        const rise = piece.run.superscript ? size * SUPERSCRIPT_RISE : 0;
+        const color = piece.run.href ? LINK_COLOR : rgb(0, 0, 0);
+        page.drawText(piece.text, { x: cursor, y: baseline + rise, size: piece.size, font: piece.font, color });
+
+        if (piece.run.underline || piece.run.href) {
+          const underlineY = baseline + rise - piece.size * 0.12;
+          page.drawLine({ start: { x: cursor, y: underlineY }, end: { x: cursor + piece.width, y: underlineY }, thickness: Math.max(piece.size / 18, 0.4), color });
+        }
+        if (piece.run.href) {
+          const annotation = pdf.context.obj({
+            Type: 'Annot',
+            Subtype: 'Link',
+            Rect: [cursor, baseline - piece.size * 0.25, cursor + piece.width, baseline + rise + piece.size],
+            Border: [0, 0, 0],
+            A: { Type: 'Action', S: 'URI', URI: PDFString.of(piece.run.href) }
+          });
+          page.node.addAnnot(pdf.context.register(annotation));
+        }
+        cursor += piece.width;
+      });
+    });
+  }
+
+  private styleOf(run: InlineRun): PdfStyle {
+    if (run.bold && run.italic) return 'boldItalic';
+    if (run.bold) return 'bold';
+    if (run.italic) return 'italic';
+    return 'regular';
+  }
+
+  /** Splits a word where the font that can draw it changes; pdfFonts has checked every character has one. */
+  private splitByFont(text: string, stack: PDFFont[]): { text: string; font: PDFFont }[] {
+    const pieces: { text: string; font: PDFFont }[] = [];
+    Array.from(text.normalize('NFC')).forEach(ch => {
+      const font = stack.find(f => this.charactersOf(f).has(ch.codePointAt(0)!)) || stack[0];
+      const last = pieces[pieces.length - 1];
+      if (last?.font === font) last.text += ch;
+      else pieces.push({ text: ch, font });
+    });
+    return pieces;
+  }
+
+  private async patchDocx(chunks: DocumentChunk[], base64: string): Promise<Blob | null> {
+    const zip = await JSZip.loadAsync(base64, { base64: true });
+    const entry = zip.file('word/document.xml');
+    if (!entry) return null;
+
+    const doc = new runtime.DOMParser().parseFromString(await entry.async('string'), 'application/xml');
+    const body = doc.getElementsByTagNameNS(W_NS, 'body')[0];
+    if (!body) return null;
+
+    // Paragraphs and table cells in reading order, mirroring how the DOCX parser emits chunks
+    const targets: Element[] = [];
+    const collect = (el: Element) => {
+      for (const child of Array.from(el.children)) {
+        if (child.namespaceURI === W_NS && (child.localName === 'p' || child.localName === 'tc')) {
+          targets.push(child);
+          // Nested tables follow their cell, as their chunks follow the cell's chunk
+          if (child.localName === 'tc') {
+            Array.from(child.children).filter(c => c.localName === 'tbl').forEach(collect);
+          }
+        } else {
+          collect(child);
+        }
+      }
+    };
+    collect(body);
+
+    const targetKeys = targets.map(t => this.normalize(this.textOf(t)));
+    const relsPath = 'word/_rels/document.xml.rels';
+    const relsEntry = zip.file(relsPath);
+    const rels = relsEntry ? new runtime.DOMParser().parseFromString(await relsEntry.async('string'), 'application/xml') : null;
+    let cursor = 0;
+    let matched = 0;
+
+    for (const chunk of chunks) {
+      // Typed-in list labels are part of the paragraph text; Word numbering is not
+      const meta = chunk.metadata || {};
+      const labelInText = chunk.type === 'list-item' && meta.listLabelInText && meta.listLabel ? meta.listLabel : '';
+      const key = this.normalize(labelInText + chunk.originalText);
+      if (!key || !chunk.translatedText) continue;
+
+      const label = chunk.type === 'list-item' ? this.listLabelFor(chunk) : undefined;
+      let text = chunk.translatedText;
+      let runs = chunk.translatedRuns;
+      if (labelInText && label) {
+        text = `${label} ${text}`;
+        runs = runs && [{ text: `${label} ` }, ...runs];
+      }
+
+      const limit = Math.min(targets.length, cursor + MATCH_WINDOW);
+      for (let i = cursor; i < limit; i++) {
+        if (targetKeys[i] === key) {
+          if (runs && rels) this.replaceRuns(targets[i], runs, rels);
+          else this.replaceText(targets[i], text);
+          if (!labelInText && label && label !== meta.listLabel && targets[i].localName === 'p') {
+            this.writeLiteralLabel(targets[i], label, meta.level || 1);
+          }
+          cursor = i + 1;
+          matched++;
+          break;
+        }
+      }
+    }
+
+    if (matched === 0) return null;
+
+    zip.file('word/document.xml', new runtime.XMLSerializer().serializeToString(doc));
+    if (rels) zip.file(relsPath, new runtime.XMLSerializer().serializeToString(rels));
+    return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME });
+  }
+
+  private textOf(el: Element): string {
+    return this.own(el, 't').map(t => t.textContent || '').join('');
+  }
+
+  /** Descendants of a paragraph or cell, excluding those inside tables nested in it. */
+  private own(el: Element, localName: string): Element[] {
+    return Array.from(el.getElementsByTagNameNS(W_NS, localName)).filter(child => {
+      for (let node = child.parentElement; node && node !== el; node = node.parentElement) {
+        if (node.namespaceURI === W_NS && node.localName === 'tbl') return false;
+      }
+      return true;
+    });
+  }
+
+  private normalize(text: string): string {
+    return text.replace(/\s+/g, '');
+  }
+
+  /**
+   * Puts the translation into the first text run so it inherits that run's formatting,
+   * and empties the remaining runs of the paragraph (or cell). A multi-paragraph cell whose
+   * translation has one line per paragraph keeps its paragraphs.
+   */
+  private replaceText(target: Element, translated: string) {
+    const lines = translated.split('\n');
+    if (target.localName === 'tc' && lines.length > 1) {
+      const paragraphs = this.own(target, 'p').filter(p => this.own(p, 't').length > 0);
+      if (paragraphs.length === lines.length) {
+        paragraphs.forEach((p, i) => this.replaceText(p, lines[i]));
+        return;
+      }
+    }
+
+    const texts = this.own(target, 't');
+    if (texts.length === 0) return;
+    texts.forEach((t, i) => {
+      t.textContent = i === 0 ? lines.join(' ') : '';
+    });
+    texts[0].setAttributeNS(XML_NS, 'xml:space', 'preserve');
+  }
+
+  /**
+   * Rewrites a paragraph's text runs from translated inline runs. The first text run's properties
+   * are the template, so fonts and sizes survive while bold/italic/underline follow the runs.
+   * Runs without text (drawings, fields) are left in place.
+   */
+  private replaceRuns(target: Element, runs: InlineRun[], rels: Document) {
+    const doc = target.ownerDocument;
+    const paragraph = target.localName === 'p' ? target : this.own(target, 'p')[0];
+    if (!paragraph) return;
+
+    const textRuns = this.own(target, 'r')
+      .filter(r => r.getElementsByTagNameNS(W_NS, 't').length > 0);
+    const template = textRuns[0]?.getElementsByTagNameNS(W_NS, 'rPr')[0];
+
+    // Clear the old text everywhere, then drop the paragraph's own text runs and links
+    this.own(target, 't').forEach(t => { t.textContent = ''; });
+    Array.from(paragraph.children)
+      .filter(c => c.namespaceURI === W_NS && ((c.localName === 'r' && textRuns.includes(c)) || c.localName === 'hyperlink'))
+      .forEach(c => paragraph.removeChild(c));
+
+    runs.forEach(run => {
+      const r = doc.createElementNS(W_NS, 'w:r');
+      const rPr = template ? (template.cloneNode(true) as Element) : doc.createElementNS(W_NS, 'w:rPr');
+      ['b', 'bCs', 'i', 'iCs', 'u', 'vertAlign'].forEach(name => {
+        Array.from(rPr.getElementsByTagNameNS(W_NS, name)).forEach(el => rPr.removeChild(el));
+      });
+      if (run.bold) this.setRunProperty(rPr, 'b');
+      if (run.italic) this.setRunProperty(rPr, 'i');
+      if (run.href) this.setRunProperty(rPr, 'color', '0563C1');
+      if (run.underline || run.href) this.setRunProperty(rPr, 'u', 'single');
+      if (run.superscript) this.setRunProperty(rPr, 'vertAlign', 'superscript');
+      if (rPr.childNodes.length > 0) r.appendChild(rPr);
+
+      const t = doc.createElementNS(W_NS, 'w:t');
+      t.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+      t.textContent = run.text;
+      r.appendChild(t);
+
+      if (run.href) {
+        const link = doc.createElementNS(W_NS, 'w:hyperlink');
+        link.setAttributeNS(R_NS, 'r:id', this.hyperlinkRel(rels, run.href));
+        link.appendChild(r);
+        paragraph.appendChild(link);
+      } else {
+        paragraph.appendChild(r);
+      }
+    });
+  }
+
+  /**
+   * Replaces Word's automatic numbering on a paragraph with a literal (localized) label, keeping
+   * the hanging indent the numbering provided.
+   */
+  private writeLiteralLabel(paragraph: Element, label: string, level: number) {
+    const doc = paragraph.ownerDocument;
+    let pPr = Array.from(paragraph.children).find(c => c.localName === 'pPr');
+    if (!pPr) {
+      pPr = doc.createElementNS(W_NS, 'w:pPr');
+      paragraph.insertBefore(pPr, paragraph.firstChild);
+    }
+    Array.from(pPr.children).filter(c => c.localName === 'numPr' || c.localName === 'ind').forEach(c => pPr!.removeChild(c));
+
+    const ind = doc.createElementNS(W_NS, 'w:ind');
+    ind.setAttributeNS(W_NS, 'w:left', String(720 * level));
+    ind.setAttributeNS(W_NS, 'w:hanging', String(LIST_HANGING));
+    const rank = PPR_ORDER.indexOf('ind');
+    pPr.insertBefore(ind, Array.from(pPr.children).find(c => PPR_ORDER.indexOf(c.localName) > rank) || null);
+
+    const run = doc.createElementNS(W_NS, 'w:r');
+    const t = doc.createElementNS(W_NS, 'w:t');
+    t.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+    t.textContent = label;
+    run.appendChild(t);
+    run.appendChild(doc.createElementNS(W_NS, 'w:tab'));
+    paragraph.insertBefore(run, pPr.nextSibling);
+  }
+
+  /** Adds or replaces a run property, keeping the schema's element order. */
+  private setRunProperty(rPr: Element, name: string, val?: string) {
+    const doc = rPr.ownerDocument;
+    Array.from(rPr.getElementsByTagNameNS(W_NS, name)).forEach(el => rPr.removeChild(el));
+    const el = doc.createElementNS(W_NS, `w:${name}`);
+    if (val !== undefined) el.setAttributeNS(W_NS, 'w:val', val);
+
+    const rank = RPR_ORDER.indexOf(name);
+    const before = Array.from(rPr.children).find(c => RPR_ORDER.indexOf(c.localName) > rank);
+    rPr.insertBefore(el, before || null);
+  }
+
+  /** Id of an external hyperlink relationship for `href`, added if the document lacks one. */
+  private hyperlinkRel(rels: Document, href: string): string {
+    const existing = Array.from(rels.getElementsByTagNameNS(PKG_REL_NS, 'Relationship'));
+    const match = existing.find(r => r.getAttribute('Type') === HYPERLINK_REL && r.getAttribute('Target') === href);
+    if (match) return match.getAttribute('Id')!;
+
+    const ids = new Set(existing.map(r => r.getAttribute('Id')));
+    let n = 1;
+    while (ids.has(`${LINK_REL_PREFIX}${n}`)) n++;
+    const rel = rels.createElementNS(PKG_REL_NS, 'Relationship');
+    rel.setAttribute('Id', `${LINK_REL_PREFIX}${n}`);
+    rel.setAttribute('Type', HYPERLINK_REL);
+    rel.setAttribute('Target', href);
+    rel.setAttribute('TargetMode', 'External');
+    rels.documentElement.appendChild(rel);
+    return `${LINK_REL_PREFIX}${n}`;
+  }
+
+  /**
+   * A Word document putting the source and every target language side by side, one table row
+   * per clause, for reading and review across languages. Target documents are matched to the
+   * source by chunk id; columns follow the order given.
+   */
+  async toSideBySideDocx(source: { label: string; chunks: DocumentChunk[] }, targets: { label: string; chunks: DocumentChunk[] }[]): Promise<Blob> {
+    const links: string[] = [];
+    const byId = targets.map(target => new Map(target.chunks.map(c => [c.id, c])));
+    const colWidth = Math.floor((targets.length > 1 ? 12960 : 9360) / (targets.length + 1));
+    const cell = (paragraph: string) => `<w:tc><w:tcPr><w:tcW w:w="${colWidth}" w:type="dxa"/></w:tcPr>${paragraph}</w:tc>`;
+    const heading = (label: string) => cell(`<w:p><w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">${this.escape(label)}</w:t></w:r></w:p>`);
+
+    const rows = source.chunks
+      .filter(chunk => chunk.type !== 'empty-line' && chunk.originalText.trim() && !chunk.metadata?.repeatOf)
+      .map(chunk => {
+        const original = this.buildCellParagraph({ ...chunk, translatedText: undefined, translatedRuns: undefined }, links);
+        const translations = byId.map(chunks => {
+          const target = chunks.get(chunk.id);
+          const translated = target && markFailed(target);
+          return translated?.translatedText ? this.buildCellParagraph(translated, links) : '<w:p/>';
+        });
+        return `<w:tr>${[original, ...translations].map(cell).join('')}</w:tr>`;
+      });
+
+    const header = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${[source.label, ...targets.map(t => t.label)].map(heading).join('')}</w:tr>`;
+    const gridCols = Array.from({ length: targets.length + 1 }, () => `<w:gridCol w:w="${colWidth}"/>`).join('');
+    const table = `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr><w:tblGrid>${gridCols}</w:tblGrid>${header}${rows.join('')}</w:tbl><w:p/>`;
+    // Three or more columns read better across a landscape page
+    const page = targets.length > 1
+      ? '<w:pgSz w:w="15840" w:h="12240" w:orient="landscape"/>'
+      : '<w:pgSz w:w="12240" w:h="15840"/>';
+    const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${table}<w:sectPr>${page}<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+    return this.packageDocx(documentXml, links);
+  }
+
+  private async buildDocx(chunks: DocumentChunk[]): Promise<Blob> {
+    const links: string[] = [];
+    return this.packageDocx(this.buildDocumentXml(chunks, links), links);
+  }
+
+  /** Wraps a document.xml into a DOCX package with our styles and its hyperlink relationships. */
+  private async packageDocx(documentXml: string, links: string[]): Promise<Blob> {
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml', CONTENT_TYPES_XML);
+    zip.file('_rels/.rels', ROOT_RELS_XML);
+    zip.file('word/document.xml', documentXml);
+    zip.file('word/_rels/document.xml.rels', DOCUMENT_RELS_XML.replace('</Relationships>', `${links.map((href, i) =>
+      `<Relationship Id="${LINK_REL_PREFIX}${i + 1}" Type="${HYPERLINK_REL}" Target="${this.escape(href)}" TargetMode="External"/>`).join('')}</Relationships>`));
+    zip.file('word/styles.xml', STYLES_XML);
+    zip.file('word/numbering.xml', NUMBERING_XML);
+    return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME });
+  }
+
+  /** `links` collects hyperlink targets; each one's relationship id is its 1-based position. */
+  private buildDocumentXml(chunks: DocumentChunk[], links: string[]): string {
+    const parts: string[] = [];
+    let tableCells: DocumentChunk[] = [];
+
+    const flushTable = () => {
+      if (tableCells.length > 0) {
+        parts.push(this.buildTable(tableCells, links, nested));
+        tableCells = [];
+      }
+    };
+
+    const nested = this.nestedTables(chunks);
+    chunks.forEach(chunk => {
+      // A flowing document has no page breaks to repeat running headers at
+      if (chunk.metadata?.repeatOf) return;
+      if (chunk.type === 'table-cell') {
+        if (chunk.metadata?.parentCellId) return;
+        if (tableCells.length > 0 && tableCells[0].metadata?.tableId !== chunk.metadata?.tableId) flushTable();
+        tableCells.push(chunk);
+      } else {
+        flushTable();
+        parts.push(this.buildParagraph(chunk, links));
+      }
+    });
+    flushTable();
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${parts.join('')}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+  }
+
+  private buildParagraph(chunk: DocumentChunk, links: string[]): string {
+    if (chunk.type === 'empty-line') return '<w:p/>';
+
+    const meta = chunk.metadata || {};
+    const pPr: string[] = [];
+
+    if (chunk.type === 'heading') {
+      const level = Math.min(Math.max(meta.level || 1, 1), 6);
+      pPr.push(`<w:pStyle w:val="Heading${level}"/>`);
+    } else if (chunk.type === 'list-item') {
+      const level = Math.min(Math.max((meta.level || 1) - 1, 0), 8);
+      if (meta.listType === 'ordered' && meta.listLabel) {
+        // Ordered labels are written out literally so "(a)(i)" and localized labels survive as shown
+        pPr.push(`<w:pStyle w:val="ListParagraph"/><w:ind w:left="${720 * (level + 1)}" w:hanging="${LIST_HANGING}"/>`);
+      } else {
+        pPr.push(`<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr>`);
+      }
+    }
+    if (meta.alignment) {
+      pPr.push(`<w:jc w:val="${meta.alignment === 'justify' ? 'both' : meta.alignment}"/>`);
+    }
+
+    const runs = this.runsFor(chunk);
+    const text = this.textFor(chunk);
+    if (chunk.type === 'checkbox' && !/^[\[(][xX\s][\])]|^[☐☑☒]/.test(text)) {
+      runs.unshift({ text: `${meta.isChecked ? '☑' : '☐'} ` });
+    }
+
+    const label = chunk.type === 'list-item' && meta.listType === 'ordered' ? this.listLabelFor(chunk) : undefined;
+    const labelXml = label ? `<w:r><w:t xml:space="preserve">${this.escape(label)}</w:t><w:tab/></w:r>` : '';
+
+    const pPrXml = pPr.length > 0 ? `<w:pPr>${pPr.join('')}</w:pPr>` : '';
+    return `<w:p>${pPrXml}${labelXml}${this.buildRuns(runs, chunk, links)}</w:p>`;
+  }
+
+  /** The label to show for a list item: localized once translated, if localization is on. */
+  private listLabelFor(chunk: DocumentChunk): string | undefined {
+    return (chunk.translatedText ? chunk.translatedListLabel : undefined) ?? chunk.metadata?.listLabel;
+  }
+
+  /**
+   * The runs to write for a chunk: its inline runs when it has them, otherwise one run carrying
+   * the paragraph-level flags.
+   */
+  private runsFor(chunk: DocumentChunk): InlineRun[] {
+    const runs = chunk.translatedText ? chunk.translatedRuns : chunk.translationError ? undefined : chunk.runs;
+    if (runs) return runs.map(run => ({ ...run }));
+    const meta = chunk.metadata || {};
+    return [{ text: this.textFor(chunk), bold: meta.isBold, italic: meta.isItalic, underline: meta.isUnderlined }];
+  }
+
+  private buildRuns(runs: InlineRun[], chunk: DocumentChunk, links: string[]): string {
+    const meta = chunk.metadata || {};
+    const points = parseFloat(meta.fontSize || '');
+
+    return runs.map(run => {
+      const rPr: string[] = [];
+      if (meta.fontFamily) {
+        const font = this.escape(meta.fontFamily);
+        rPr.push(`<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>`);
+      }
+      if (run.bold) rPr.push('<w:b/>');
+      if (run.italic) rPr.push('<w:i/>');
+      if (run.href) rPr.push('<w:color w:val="0563C1"/>');
+      if (!isNaN(points) && points > 0) {
+        rPr.push(`<w:sz w:val="${Math.round(points * 2)}"/>`);
+      }
+      if (run.underline || run.href) rPr.push('<w:u w:val="single"/>');
+      if (run.superscript) rPr.push('<w:vertAlign w:val="superscript"/>');
+
+      const rPrXml = rPr.length > 0 ? `<w:rPr>${rPr.join('')}</w:rPr>` : '';
+      const lines = run.text.split(/\r?\n/).map(line => `<w:t xml:space="preserve">${this.escape(line)}</w:t>`);
+      const xml = `<w:r>${rPrXml}${lines.join('<w:br/>')}</w:r>`;
+      if (!run.href) return xml;
+
+      let index = links.indexOf(run.href);
+      if (index === -1) index = links.push(run.href) - 1;
+      return `<w:hyperlink r:id="${LINK_REL_PREFIX}${index + 1}">${xml}</w:hyperlink>`;
+    }).join('');
+  }
+
+  /**
+   * Rebuilds a table grid from row/col/span metadata. Cells without a column index are
+   * placed in the next free slot of their row.
+   */
+  /** Cells of nested tables grouped per table, keyed by the id of the containing cell. */
+  private nestedTables(chunks: DocumentChunk[]): Record<string, DocumentChunk[][]> {
+    const nested: Record<string, DocumentChunk[][]> = {};
+    chunks.forEach(chunk => {
+      const parent = chunk.metadata?.parentCellId;
+      if (chunk.type !== 'table-cell' || !parent) return;
+      const tables = (nested[parent] = nested[parent] || []);
+      const last = tables[tables.length - 1];
+      if (last && last[0].metadata?.tableId === chunk.metadata?.tableId) last.push(chunk);
+      else tables.push([chunk]);
+    });
+    return nested;
+  }
+
+  private buildTable(cells: DocumentChunk[], links: string[], nested: Record<string, DocumentChunk[][]> = {}): string {
+    type Slot = { chunk: DocumentChunk; origin: boolean; colSpan: number; rowSpan: number };
+    const grid: Slot[][] = [];
+    const slotRow = (r: number) => (grid[r] = grid[r] || []);
+
+    cells.forEach(cell => {
+      const row = cell.metadata?.row ?? 0;
+      const rowSpan = Math.max(cell.metadata?.rowSpan || 1, 1);
+      const colSpan = Math.max(cell.metadata?.colSpan || 1, 1);
+      let col = cell.metadata?.col ?? 0;
+      if (cell.metadata?.col === undefined) {
+        while (slotRow(row)[col]) col++;
+      }
+
+      for (let r = row; r < row + rowSpan; r++) {
+        for (let c = col; c < col + colSpan; c++) {
+          slotRow(r)[c] = { chunk: cell, origin: r === row && c === col, colSpan, rowSpan };
+        }
+      }
+    });
+
+    const colCount = Math.max(1, ...grid.map(r => (r ? r.length : 0)));
+    const colWidth = Math.floor(9360 / colCount);
+    const rows: string[] = [];
+
+    for (let r = 0; r < grid.length; r++) {
+      const row = grid[r] || [];
+      const tcs: string[] = [];
+      let c = 0;
+      while (c < colCount) {
+        const slot = row[c];
+        if (!slot) {
+          tcs.push(`<w:tc><w:tcPr><w:tcW w:w="${colWidth}" w:type="dxa"/></w:tcPr><w:p/></w:tc>`);
+          c++;
+          continue;
+        }
+
+        const tcPr: string[] = [`<w:tcW w:w="${colWidth * slot.colSpan}" w:type="dxa"/>`];
+        if (slot.colSpan > 1) tcPr.push(`<w:gridSpan w:val="${slot.colSpan}"/>`);
+        if (slot.rowSpan > 1) tcPr.push(slot.origin ? '<w:vMerge w:val="restart"/>' : '<w:vMerge/>');
+
+        // A nested table follows the cell's own paragraph; buildTable ends with the <w:p/> a cell must end with
+        const content = slot.origin
+          ? this.buildCellParagraph(slot.chunk, links) + (nested[slot.chunk.id] || []).map(t => this.buildTable(t, links, nested)).join('')
+          : '<w:p/>';
+        tcs.push(`<w:tc><w:tcPr>${tcPr.join('')}</w:tcPr>${content}</w:tc>`);
+        c += slot.colSpan;
+      }
+      rows.push(`<w:tr>${tcs.join('')}</w:tr>`);
+    }
+
+    const gridCols = Array.from({ length: colCount }, () => `<w:gridCol w:w="${colWidth}"/>`).join('');
+    return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr><w:tblGrid>${gridCols}</w:tblGrid>${rows.join('')}</w:tbl><w:p/>`;
+  }
+
+  private buildCellParagraph(chunk: DocumentChunk, links: string[]): string {
+    const alignment = chunk.metadata?.alignment;
+    const pPr = alignment ? `<w:pPr><w:jc w:val="${alignment === 'justify' ? 'both' : alignment}"/></w:pPr>` : '';
+    return `<w:p>${pPr}${this.buildRuns(this.runsFor(chunk), chunk, links)}</w:p>`;
+  }
+
+  private textFor(chunk: DocumentChunk): string {
+    return outputText(chunk) || '';
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+  }
+}
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/></Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/></Relationships>`;
+
+const HEADING_SIZES = [32, 28, 26, 24, 22, 22];
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>${HEADING_SIZES.map((size, i) => `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`).join('')}<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720"/></w:pPr></w:style><w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:left w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:right w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="auto"/></w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style></w:styles>`;
+
+const NUMBERING_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${W_NS}"><w:abstractNum w:abstractNumId="0">${Array.from({ length: 9 }, (_, i) => `<w:lvl w:ilvl="${i}"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="${i % 2 === 0 ? '•' : '◦'}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (i + 1)}" w:hanging="360"/></w:pPr></w:lvl>`).join('')}</w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+
+export const exportService = new ExportService();
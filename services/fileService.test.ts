@@ -0,0 +1,111 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { configureNodeRuntime } from "../cli/nodeRuntime";
+import { fileService } from "./fileService";
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const paragraph = (text: string, numbering?: { numId: number; ilvl: number }) =>
+  `<w:p>${numbering ? `<w:pPr><w:numPr><w:ilvl w:val="${numbering.ilvl}"/><w:numId w:val="${numbering.numId}"/></w:numPr></w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+const cell = (content: string, props = '') => `<w:tc><w:tcPr>${props}</w:tcPr>${content}</w:tc>`;
+
+const level = (ilvl: number, numFmt: string, lvlText: string) =>
+  `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${numFmt}"/><w:lvlText w:val="${lvlText}"/></w:lvl>`;
+
+const NUMBERING = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering ${W}>
+  <w:abstractNum w:abstractNumId="0">${level(0, 'decimal', '%1.')}${level(1, 'lowerLetter', '(%2)')}</w:abstractNum>
+  <w:abstractNum w:abstractNumId="1">${level(0, 'bullet', '•')}</w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+  <w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>
+</w:numbering>`;
+
+/** A minimal Word package around the given body XML. */
+const docx = async (body: string): Promise<File> => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+</Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`);
+  zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`);
+  zip.file('word/numbering.xml', NUMBERING);
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W}><w:body>${body}</w:body></w:document>`);
+  const bytes = await zip.generateAsync({ type: 'uint8array' });
+  return new File([bytes], 'lease.docx', { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
+
+describe("FileService DOCX extraction", () => {
+  beforeAll(() => configureNodeRuntime());
+
+  it("places table cells on the grid, counting spans and nested tables", async () => {
+    const nested = `<w:tbl><w:tr>${cell(paragraph('Inner'))}</w:tr></w:tbl>`;
+    const file = await docx(`<w:tbl>
+      <w:tr>${cell(paragraph('Item'), '<w:gridSpan w:val="2"/>')}${cell(paragraph('Amount'))}</w:tr>
+      <w:tr>${cell(paragraph('Rent'), '<w:vMerge w:val="restart"/>')}${cell(paragraph('May'))}${cell(paragraph('1,500'))}</w:tr>
+      <w:tr>${cell(paragraph(''), '<w:vMerge/>')}${cell(paragraph('June') + nested)}${cell(paragraph('1,500'))}</w:tr>
+    </w:tbl>`);
+
+    const { chunks } = await fileService.processFile(file);
+    const cells = chunks.filter(c => c.type === 'table-cell').map(c => ({
+      text: c.originalText,
+      table: c.metadata?.tableId,
+      row: c.metadata?.row,
+      col: c.metadata?.col,
+      rowSpan: c.metadata?.rowSpan,
+      colSpan: c.metadata?.colSpan,
+      parent: c.metadata?.parentCellId
+    }));
+
+    const june = chunks.find(c => c.originalText === 'June')!;
+    expect(cells).toEqual([
+      { text: 'Item', table: 'docx-t-0', row: 0, col: 0, rowSpan: undefined, colSpan: 2, parent: undefined },
+      { text: 'Amount', table: 'docx-t-0', row: 0, col: 2, rowSpan: undefined, colSpan: undefined, parent: undefined },
+      { text: 'Rent', table: 'docx-t-0', row: 1, col: 0, rowSpan: 2, colSpan: undefined, parent: undefined },
+      { text: 'May', table: 'docx-t-0', row: 1, col: 1, rowSpan: undefined, colSpan: undefined, parent: undefined },
+      { text: '1,500', table: 'docx-t-0', row: 1, col: 2, rowSpan: undefined, colSpan: undefined, parent: undefined },
+      { text: 'June', table: 'docx-t-0', row: 2, col: 1, rowSpan: undefined, colSpan: undefined, parent: undefined },
+      { text: 'Inner', table: 'docx-t-1', row: 0, col: 0, rowSpan: undefined, colSpan: undefined, parent: june.id },
+      { text: '1,500', table: 'docx-t-0', row: 2, col: 2, rowSpan: undefined, colSpan: undefined, parent: undefined }
+    ]);
+  });
+
+  it("reads Word numbering labels, nesting and typed clause labels", async () => {
+    const file = await docx([
+      paragraph('Payment', { numId: 1, ilvl: 0 }),
+      paragraph('Rent is due monthly', { numId: 1, ilvl: 1 }),
+      paragraph('Late fees apply', { numId: 1, ilvl: 1 }),
+      paragraph('Termination', { numId: 1, ilvl: 0 }),
+      paragraph('Keys', { numId: 2, ilvl: 0 }),
+      paragraph('(a) The Lessee shall vacate.'),
+      paragraph('(ii) The keys are returned.')
+    ].join(''));
+
+    const { chunks } = await fileService.processFile(file);
+    const items = chunks.filter(c => c.type === 'list-item').map(c => [
+      c.metadata?.listLabel, c.metadata?.level, c.metadata?.listType, c.originalText, c.metadata?.listLabelInText
+    ]);
+
+    expect(items).toEqual([
+      ['1.', 1, 'ordered', 'Payment', false],
+      ['(a)', 2, 'ordered', 'Rent is due monthly', false],
+      ['(b)', 2, 'ordered', 'Late fees apply', false],
+      ['2.', 1, 'ordered', 'Termination', false],
+      ['•', 1, 'bullet', 'Keys', false],
+      // Typed labels nest by kind: letters under numbers, roman numerals under letters
+      ['(a)', 2, 'ordered', 'The Lessee shall vacate.', true],
+      ['(ii)', 3, 'ordered', 'The keys are returned.', true]
+    ]);
+  });
+});
@@ -1,8 +1,33 @@
 
-import { DocumentChunk } from "../types";
+import { DocumentChunk, InlineRun } from "../types";
+import { DocumentFormat, ProcessOptions, bytesToBase64, markFailed } from "./documentFormat";
+import { exportService } from "./exportService";
+import { HtmlFormat } from "./htmlFormat";
+import { inlineMarkup } from "./inlineMarkup";
+import { listNumbering } from "./listNumbering";
+import { MarkdownFormat } from "./markdownFormat";
+import { OcrImage } from "./ocrEngine";
+import { ocrService } from "./ocrService";
+import { OdtFormat } from "./odtFormat";
+import { LayoutPage, pdfLayout } from "./pdfLayout";
+import { PptxFormat } from "./pptxFormat";
+import { RtfFormat } from "./rtfFormat";
+import { runtime } from "./runtime";
+import { XlsxFormat } from "./xlsxFormat";
 
-declare const mammoth: any;
-declare const pdfjsLib: any;
+export type { DocumentFormat, ProcessOptions };
+
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg'];
+
+// Render scale for OCR of PDF pages (2 ≈ 144 dpi) and the longest edge photos are reduced to
+const PDF_OCR_SCALE = 2;
+const MAX_IMAGE_EDGE = 2400;
+
+// Block elements inside a table cell, separated by line breaks in the cell's text
+const BLOCK_TAGS = ['p', 'div', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+// Pages with fewer visible characters than this are treated as having no text layer
+const MIN_TEXT_LAYER_CHARS = 3;
 
 export interface ProcessedFile {
   chunks: DocumentChunk[];
@@ -10,54 +35,119 @@ export interface ProcessedFile {
   mimeType: string;
 }
 
+/**
+ * Reads uploads into chunks. Images go to OCR; every other type is handled by a registered
+ * `DocumentFormat`, found by the file's extension and then by its MIME type. Plain text, Word and
+ * PDF are built in; more formats can be added with `register`.
+ */
 export class FileService {
-  async processFile(file: File): Promise<ProcessedFile> {
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    const base64 = await this.toBase64(file);
-    const mimeType = file.type || (extension === 'pdf' ? 'application/pdf' : 'text/plain');
+  private formats: DocumentFormat[] = [];
 
-    let chunks: DocumentChunk[] = [];
-    
-    if (extension === 'txt') {
-      chunks = await this.processTxt(file);
-    } else if (extension === 'docx') {
-      if (typeof mammoth === 'undefined') {
-        throw new Error("Word processing engine is still initializing. Please wait.");
-      }
-      chunks = await this.processDocx(file);
-    } else if (extension === 'pdf') {
-      if (typeof pdfjsLib === 'undefined') {
-        throw new Error("PDF processing engine is still initializing. Please wait.");
+  constructor(formats: DocumentFormat[] = []) {
+    const builtIn: DocumentFormat[] = [
+      {
+        id: 'txt',
+        name: 'Text',
+        extensions: ['txt'],
+        mimeTypes: ['text/plain'],
+        parse: file => this.processTxt(file)
+      },
+      {
+        id: 'docx',
+        name: 'Word',
+        extensions: ['docx'],
+        mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+        isReady: () => !!runtime.mammoth,
+        parse: file => this.processDocx(file),
+        write: (chunks, original) => exportService.toDocx(chunks, original)
+      },
+      {
+        id: 'pdf',
+        name: 'PDF',
+        extensions: ['pdf'],
+        mimeTypes: ['application/pdf'],
+        isReady: () => !!runtime.pdfjsLib,
+        parse: (file, options) => this.processPdf(file, options),
+        write: (chunks, original, targetLang) => exportService.toPdf(chunks, original, 'application/pdf', targetLang)
       }
-      chunks = await this.processPdf(file);
-    } else {
-      throw new Error("Unsupported file format. Please use PDF, DOCX, or TXT.");
+    ];
+    [...builtIn, ...formats].forEach(format => this.register(format));
+  }
+
+  register(format: DocumentFormat) {
+    this.formats = [...this.formats.filter(f => f.id !== format.id), format];
+  }
+
+  listFormats(): DocumentFormat[] {
+    return this.formats;
+  }
+
+  /** The format for a file name, falling back to its MIME type when the extension is unknown. */
+  formatFor(fileName: string, mimeType?: string): DocumentFormat | undefined {
+    const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+    return this.formats.find(f => f.extensions.includes(extension))
+      || (mimeType ? this.formats.find(f => f.mimeTypes.includes(mimeType.split(';')[0].trim())) : undefined);
+  }
+
+  /** Extensions for the upload picker's `accept` attribute, images included. */
+  acceptedExtensions(): string[] {
+    return [...this.formats.flatMap(f => f.extensions), ...IMAGE_EXTENSIONS].map(ext => `.${ext}`);
+  }
+
+  /**
+   * Writes translated chunks back in the upload's format when it has a writer; scanned images
+   * become PDFs and anything else DOCX. Segments that failed to translate are written as a
+   * visible marker, so writers that patch the original don't leave the source standing in.
+   */
+  async writeTranslation(
+    translated: DocumentChunk[],
+    original: { fileName: string; fileData?: string; mimeType?: string },
+    targetLang: string
+  ): Promise<{ blob: Blob; extension: string }> {
+    const chunks = translated.map(markFailed);
+    const format = original.fileData ? this.formatFor(original.fileName, original.mimeType) : undefined;
+    if (original.fileData && original.mimeType?.startsWith('image/')) {
+      return { blob: await exportService.toPdf(chunks, original.fileData, original.mimeType, targetLang), extension: 'pdf' };
+    }
+    if (format?.write) {
+      const uploaded = original.fileName.includes('.') ? original.fileName.split('.').pop()!.toLowerCase() : '';
+      return { blob: await format.write(chunks, original.fileData!, targetLang), extension: format.extensions.includes(uploaded) ? uploaded : format.extensions[0] };
+    }
+    return { blob: await exportService.toDocx(chunks), extension: 'docx' };
+  }
+
+  async processFile(file: File, options: ProcessOptions = {}): Promise<ProcessedFile> {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+
+    if (extension && IMAGE_EXTENSIONS.includes(extension)) {
+      return this.processImage(file, options);
+    }
+
+    const format = this.formatFor(file.name, file.type);
+    if (!format) {
+      const names = this.formats.map(f => f.extensions[0].toUpperCase()).join(', ');
+      throw new Error(`Unsupported file format. Please use ${names}, PNG or JPEG.`);
+    }
+    if (format.isReady && !format.isReady()) {
+      throw new Error(`${format.name} processing engine is still initializing. Please wait.`);
     }
 
+    const base64 = bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+    const chunks = await format.parse(file, options);
+
     return {
       chunks,
       fileData: base64,
-      mimeType
+      mimeType: file.type || format.mimeTypes[0]
     };
   }
 
-  private toBase64(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        const result = reader.result as string;
-        resolve(result.split(',')[1]);
-      };
-      reader.onerror = error => reject(error);
-    });
-  }
-
   private async processTxt(file: File): Promise<DocumentChunk[]> {
     const text = await file.text();
     const lines = text.split(/\r?\n/);
+    let previousLabel: string | undefined;
     
-    return lines.map((line, index) => {
+    return lines.map((line, index): DocumentChunk => {
       if (line.trim().length === 0) {
         return {
           id: `txt-empty-${index}`,
@@ -65,6 +155,23 @@ export class FileService {
           originalText: "",
         };
       }
+      const parsed = index > 0 ? listNumbering.parseLabel(line.trim(), previousLabel) : null;
+      if (parsed) {
+        previousLabel = parsed.label;
+        return {
+          id: `chunk-${index}`,
+          type: 'list-item',
+          originalText: parsed.rest,
+          metadata: {
+            alignment: 'left',
+            // Indentation in plain text is the only nesting hint besides the label itself
+            level: Math.max(parsed.level, Math.floor((line.length - line.trimStart().length) / 4) + 1),
+            listType: parsed.format === 'bullet' ? 'bullet' : 'ordered',
+            listLabel: parsed.label,
+            listLabelInText: true
+          }
+        };
+      }
       return {
         id: `chunk-${index}`,
         type: index === 0 ? 'heading' : 'paragraph',
@@ -77,61 +184,96 @@ export class FileService {
   private async processDocx(file: File): Promise<DocumentChunk[]> {
     try {
       const arrayBuffer = await file.arrayBuffer();
-      const result = await mammoth.convertToHtml({ arrayBuffer });
+      // Word's automatic numbering isn't in mammoth's output; read the labels from the package itself
+      const docxLabels = await listNumbering.readDocxLabels(arrayBuffer).catch(() => []);
+      let labelCursor = 0;
+      let previousLabel: string | undefined;
+      const matchDocxLabel = (text: string) => {
+        const key = text.replace(/\s+/g, '');
+        for (let i = labelCursor; i < Math.min(docxLabels.length, labelCursor + 20); i++) {
+          if (docxLabels[i].text.replace(/\s+/g, '') === key) {
+            labelCursor = i + 1;
+            return docxLabels[i];
+          }
+        }
+        return undefined;
+      };
+
+      // Mammoth drops underlines unless they are mapped explicitly
+      const result = await runtime.mammoth.convertToHtml({ arrayBuffer }, { styleMap: ["u => u"] });
       const html = result.value;
       
-      const parser = new DOMParser();
+      const parser = new runtime.DOMParser();
       const doc = parser.parseFromString(html, 'text/html');
       const chunks: DocumentChunk[] = [];
       
       const walk = (node: Node) => {
-        if (node.nodeType === Node.ELEMENT_NODE) {
+        if (node.nodeType === node.ELEMENT_NODE) {
           const el = node as HTMLElement;
           const tagName = el.tagName.toLowerCase();
           
           if (['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].includes(tagName)) {
+            const { text, runs, base } = this.inlineContent(el);
             chunks.push({
               id: `docx-h-${chunks.length}`,
               type: 'heading',
-              originalText: el.innerText.trim(),
+              originalText: text,
+              runs,
               metadata: { 
                 level: parseInt(tagName.substring(1)), 
                 isBold: true,
-                isUnderlined: el.querySelector('u') !== null || el.style.textDecoration.includes('underline')
+                isUnderlined: !!base.underline || el.style.textDecoration.includes('underline')
               }
             });
           } else if (tagName === 'p') {
-            const text = el.innerText.trim();
+            const { text, runs, base } = this.inlineContent(el);
             if (!text) {
               chunks.push({ id: `docx-e-${chunks.length}`, type: 'empty-line', originalText: "" });
               return;
             }
 
             const checkboxMatch = text.match(/^[\[(][xX\s][\])]|^[☐☑☒]/);
+
+            // Clause labels typed into the text ("(a) The Lessee...") make the paragraph a list item
+            const parsed = checkboxMatch ? null : listNumbering.parseLabel(text, previousLabel);
+            if (parsed) {
+              previousLabel = parsed.label;
+              const restRuns = runs && inlineMarkup.sliceFrom(runs, text.length - parsed.rest.length);
+              chunks.push({
+                id: `docx-li-${chunks.length}`,
+                type: 'list-item',
+                originalText: parsed.rest,
+                runs: inlineMarkup.hasInlineFormatting(restRuns) ? restRuns : undefined,
+                metadata: {
+                  isBold: !!base.bold,
+                  isItalic: !!base.italic,
+                  isUnderlined: !!base.underline,
+                  level: parsed.level,
+                  listType: parsed.format === 'bullet' ? 'bullet' : 'ordered',
+                  listLabel: parsed.label,
+                  listLabelInText: true
+                }
+              });
+              return;
+            }
             
             chunks.push({
               id: `docx-p-${chunks.length}`,
               type: checkboxMatch ? 'checkbox' : 'paragraph',
               originalText: text,
+              runs,
               metadata: { 
-                isBold: el.querySelector('strong, b') !== null,
-                isItalic: el.querySelector('em, i') !== null,
-                isUnderlined: el.querySelector('u') !== null || el.style.textDecoration.includes('underline') || !!el.closest('u'),
+                isBold: !!base.bold,
+                isItalic: !!base.italic,
+                isUnderlined: !!base.underline || el.style.textDecoration.includes('underline') || !!el.closest('u'),
                 isCheckbox: !!checkboxMatch,
                 isChecked: text.includes('☑') || text.includes('☒') || /^[\[(][xX][\])]/.test(text)
               }
             });
-          } else if (tagName === 'td' || tagName === 'th') {
-            chunks.push({
-              id: `docx-td-${chunks.length}`,
-              type: 'table-cell',
-              originalText: el.innerText.trim(),
-              metadata: { 
-                isBold: tagName === 'th' || el.querySelector('strong, b') !== null,
-                isUnderlined: el.querySelector('u') !== null || el.style.textDecoration.includes('underline'),
-                alignment: (el.style.textAlign as any) || 'left'
-              }
-            });
+          } else if (tagName === 'table') {
+            walkTable(el);
+          } else if (tagName === 'ul' || tagName === 'ol') {
+            walkList(el, 1);
           } else if (tagName === 'br') {
             chunks.push({ id: `docx-br-${chunks.length}`, type: 'empty-line', originalText: "" });
           } else {
@@ -142,6 +284,102 @@ export class FileService {
         }
       };
 
+      const walkList = (list: HTMLElement, depth: number) => {
+        const ordered = list.tagName.toLowerCase() === 'ol';
+        let index = 0;
+
+        Array.from(list.children).forEach(item => {
+          if (item.tagName.toLowerCase() !== 'li') return;
+          index++;
+          const li = item as HTMLElement;
+          const { text, runs, base } = this.inlineContent(li);
+
+          if (text) {
+            // Word numbering first, then a label typed into the text, then the list's own position
+            const numbered = matchDocxLabel(text);
+            const parsed = numbered ? null : listNumbering.parseLabel(text, previousLabel);
+            const label = numbered?.label ?? parsed?.label ?? listNumbering.defaultLabel(index, depth, ordered);
+            const body = parsed ? parsed.rest : text;
+            const bodyRuns = parsed && runs ? inlineMarkup.sliceFrom(runs, text.length - parsed.rest.length) : runs;
+            previousLabel = label;
+
+            chunks.push({
+              id: `docx-li-${chunks.length}`,
+              type: 'list-item',
+              originalText: body,
+              runs: inlineMarkup.hasInlineFormatting(bodyRuns) ? bodyRuns : undefined,
+              metadata: {
+                isBold: !!base.bold,
+                isItalic: !!base.italic,
+                isUnderlined: !!base.underline,
+                level: numbered?.level ?? depth,
+                listType: (numbered ? numbered.ordered : ordered) ? 'ordered' : 'bullet',
+                listLabel: label,
+                listLabelInText: !!parsed
+              }
+            });
+          }
+
+          Array.from(li.children).forEach(child => {
+            const tag = child.tagName.toLowerCase();
+            if (tag === 'ul' || tag === 'ol') walkList(child as HTMLElement, depth + 1);
+            else if (tag === 'table') walkTable(child as HTMLElement);
+          });
+        });
+      };
+
+      let tableCount = 0;
+
+      // Cells carry grid coordinates: `col` counts the slots taken by earlier colspans and by
+      // rowspans reaching down from rows above, so merged cells land in their real columns
+      const walkTable = (table: HTMLElement, parentCellId?: string) => {
+        const tableId = `docx-t-${tableCount++}`;
+        const occupied: boolean[][] = [];
+        const rows = Array.from(table.querySelectorAll('tr')).filter(tr => tr.closest('table') === table);
+
+        rows.forEach((tr, row) => {
+          occupied[row] = occupied[row] || [];
+          let col = 0;
+          const cells = Array.from(tr.children).filter(c => ['td', 'th'].includes(c.tagName.toLowerCase())) as HTMLElement[];
+
+          cells.forEach(cell => {
+            while (occupied[row][col]) col++;
+            const rowSpan = Math.max(parseInt(cell.getAttribute('rowspan') || '1', 10) || 1, 1);
+            const colSpan = Math.max(parseInt(cell.getAttribute('colspan') || '1', 10) || 1, 1);
+            for (let r = row; r < row + rowSpan; r++) {
+              occupied[r] = occupied[r] || [];
+              for (let c = col; c < col + colSpan; c++) occupied[r][c] = true;
+            }
+
+            const { text, runs, base } = this.inlineContent(cell);
+            const id = `docx-td-${chunks.length}`;
+            chunks.push({
+              id,
+              type: 'table-cell',
+              originalText: text,
+              runs,
+              metadata: { 
+                isBold: cell.tagName.toLowerCase() === 'th' || !!base.bold,
+                isItalic: !!base.italic,
+                isUnderlined: !!base.underline || cell.style.textDecoration.includes('underline'),
+                alignment: (cell.style.textAlign as any) || 'left',
+                tableId,
+                parentCellId,
+                row,
+                col,
+                rowSpan: rowSpan > 1 ? rowSpan : undefined,
+                colSpan: colSpan > 1 ? colSpan : undefined
+              }
+            });
+
+            Array.from(cell.querySelectorAll('table'))
+              .filter(nested => nested.parentElement?.closest('td, th') === cell)
+              .forEach(nested => walkTable(nested as HTMLElement, id));
+            col += colSpan;
+          });
+        });
+      };
+
       walk(doc.body);
       return chunks;
     } catch (err) {
@@ -150,57 +388,223 @@ export class FileService {
     }
   }
 
-  private async processPdf(file: File): Promise<DocumentChunk[]> {
+  /**
+   * Text of an element split into formatting runs. Runs are only returned when formatting varies
+   * inside the element; `base` is the formatting shared by all of it.
+   */
+  private inlineContent(el: HTMLElement): { text: string; runs?: InlineRun[]; base: Omit<InlineRun, 'text'> } {
+    const collected: InlineRun[] = [];
+    const visit = (node: Node, format: Omit<InlineRun, 'text'>) => {
+      if (node.nodeType === node.TEXT_NODE) {
+        collected.push({ ...format, text: node.textContent || '' });
+        return;
+      }
+      if (node.nodeType !== node.ELEMENT_NODE) return;
+      const child = node as HTMLElement;
+      const tag = child.tagName.toLowerCase();
+      // Nested tables and lists become chunks of their own
+      if (tag === 'table' || tag === 'ul' || tag === 'ol') return;
+      // Separate block children (paragraphs inside a table cell) by line breaks in the previous run's format
+      if (BLOCK_TAGS.includes(tag) && collected.some(r => r.text.trim())) {
+        const last = collected[collected.length - 1];
+        collected.push({ ...last, href: undefined, text: '\n' });
+      }
+      const next = { ...format };
+      if (tag === 'strong' || tag === 'b') next.bold = true;
+      if (tag === 'em' || tag === 'i') next.italic = true;
+      if (tag === 'u') next.underline = true;
+      if (tag === 'sup') next.superscript = true;
+      // Mammoth emits empty anchors for bookmarks; only real links count
+      if (tag === 'a' && child.getAttribute('href') && !child.getAttribute('href')!.startsWith('#')) next.href = child.getAttribute('href')!;
+      child.childNodes.forEach(n => visit(n, next));
+    };
+    el.childNodes.forEach(n => visit(n, {}));
+
+    const runs = inlineMarkup.normalize(collected.map(r => ({ ...r, text: r.text.replace(/[ \t]*\n[ \t\n]*/g, '\n') })));
+    if (runs.length > 0) {
+      runs[0].text = runs[0].text.replace(/^\s+/, '');
+      runs[runs.length - 1].text = runs[runs.length - 1].text.replace(/\s+$/, '');
+    }
+    const trimmed = inlineMarkup.normalize(runs);
+    return {
+      text: inlineMarkup.toPlain(trimmed),
+      runs: inlineMarkup.hasInlineFormatting(trimmed) ? trimmed : undefined,
+      base: inlineMarkup.baseFormat(trimmed)
+    };
+  }
+
+  private async processPdf(file: File, options: ProcessOptions): Promise<DocumentChunk[]> {
+    let pdf: any;
     try {
       const arrayBuffer = await file.arrayBuffer();
+      const pdfjsLib = runtime.pdfjsLib;
       if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
         pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
       }
-
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-      const chunks: DocumentChunk[] = [];
-      
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        
-        let currentLine = "";
-        let lastY = -1;
-        
-        for (const item of (textContent.items as any[])) {
-          const y = item.transform[5];
-          if (lastY !== -1 && Math.abs(y - lastY) > 10) {
-            if (currentLine.trim()) {
-              chunks.push({
-                id: `pdf-p-${chunks.length}`,
-                type: 'paragraph',
-                originalText: currentLine.trim(),
-                metadata: { alignment: 'left' }
-              });
-            } else {
-               chunks.push({ id: `pdf-e-${chunks.length}`, type: 'empty-line', originalText: "" });
-            }
-            currentLine = "";
-          }
-          currentLine += " " + item.str;
-          lastY = y;
-        }
-        
-        if (currentLine.trim()) {
-          chunks.push({
-            id: `pdf-p-${chunks.length}`,
-            type: 'paragraph',
-            originalText: currentLine.trim(),
-            metadata: { alignment: 'left' }
-          });
-        }
-      }
-      return chunks;
+      pdf = await pdfjsLib.getDocument({ data: new Uint8Array(arrayBuffer) }).promise;
     } catch (err) {
       console.error("PDF parsing error:", err);
-      throw new Error("PDF mapping failed. This file might be an image-only scan; please try the Neural Vision mode.");
+      throw new Error("PDF mapping failed. The file might be corrupted or password protected.");
+    }
+
+    const chunks: DocumentChunk[] = [];
+    const layoutPages: LayoutPage[] = [];
+    const ocrChunks = new Map<number, DocumentChunk[]>();
+    let ocrCount = 0;
+    const scannedPages: number[] = [];
+
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      const items = textContent.items as any[];
+
+      // Image-only scans have no (or a stray few) text items; they go to OCR instead
+      const visibleChars = items.reduce((n, item) => n + (item.str || '').replace(/\s/g, '').length, 0);
+      if (visibleChars < MIN_TEXT_LAYER_CHARS) {
+        scannedPages.push(i);
+        if (!this.canOcr()) continue;
+        options.onStatus?.(`Reading scanned page ${i} of ${pdf.numPages}...`);
+        const { image, pageHeight } = await this.renderPdfPage(page);
+        const recognized = await ocrService.recognize(
+          image,
+          { page: i, scale: PDF_OCR_SCALE, pageHeight },
+          { languages: options.ocrLanguages || [], signal: options.signal },
+          ocrCount
+        );
+        ocrChunks.set(i, recognized);
+        ocrCount += recognized.length;
+        continue;
+      }
+
+      options.onStatus?.(`Analyzing layout of page ${i} of ${pdf.numPages}...`);
+      layoutPages.push(await this.layoutPage(page, i, items, textContent.styles || {}));
+    }
+
+    // Headers and footers are recognized by repeating across pages, so layout runs on the whole document
+    const analyzed = pdfLayout.analyze(layoutPages);
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const index = layoutPages.findIndex(p => p.page === i);
+      chunks.push(...(index >= 0 ? analyzed[index] : ocrChunks.get(i) || []));
+    }
+
+    if (scannedPages.length > 0 && !this.canOcr()) {
+      throw new Error(`${scannedPages.length === pdf.numPages ? 'This PDF is an image-only scan' : `Pages ${scannedPages.join(', ')} are scanned images`} and no OCR engine is available. Load the local OCR engine or configure an API key.`);
+    }
+    return chunks;
+  }
+
+  /** OCR needs an engine and a canvas to render pages on; headless runs have no canvas. */
+  private canOcr(): boolean {
+    return ocrService.isAvailable() && !!runtime.createCanvas;
+  }
+
+  private async renderPdfPage(page: any): Promise<{ image: OcrImage; pageHeight: number }> {
+    const viewport = page.getViewport({ scale: PDF_OCR_SCALE });
+    const canvas = runtime.createCanvas!(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+
+    return {
+      image: { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png', width: canvas.width, height: canvas.height },
+      pageHeight: viewport.height / PDF_OCR_SCALE
+    };
+  }
+
+  /**
+   * Photos and scans: the image is normalized (orientation applied, long edge capped) and that
+   * normalized copy becomes the file data, so OCR boxes and the PDF export share one coordinate space.
+   */
+  private async processImage(file: File, options: ProcessOptions): Promise<ProcessedFile> {
+    if (!this.canOcr()) {
+      throw new Error("Images need OCR, but no OCR engine is available. Load the local OCR engine or configure an API key.");
     }
+
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(file);
+    } catch {
+      throw new Error("The image could not be read. Please use a PNG or JPEG file.");
+    }
+
+    const ratio = Math.min(1, MAX_IMAGE_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = runtime.createCanvas!(Math.round(bitmap.width * ratio), Math.round(bitmap.height * ratio));
+    const ctx = canvas.getContext('2d')!;
+    // JPEG has no transparency; flatten onto white like paper
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const data = canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+    const image: OcrImage = { data, mimeType: 'image/jpeg', width: canvas.width, height: canvas.height };
+
+    options.onStatus?.('Reading scanned image...');
+    const chunks = await ocrService.recognize(
+      image,
+      { page: 1, scale: 1, pageHeight: canvas.height },
+      { languages: options.ocrLanguages || [], signal: options.signal },
+      0
+    );
+
+    return { chunks, fileData: data, mimeType: 'image/jpeg' };
+  }
+
+  /**
+   * Positioned text items of a PDF page for layout analysis, with weight and family read from the
+   * page's fonts. pdf.js only resolves fonts once the page's operator list has been loaded.
+   */
+  private async layoutPage(page: any, pageNumber: number, items: any[], styles: Record<string, any>): Promise<LayoutPage> {
+    const fonts = new Map<string, { family?: string; bold: boolean; italic: boolean }>();
+    try {
+      await page.getOperatorList();
+    } catch { /* fall back to the text layer's style hints */ }
+
+    const fontFor = (fontName: string) => {
+      if (!fonts.has(fontName)) {
+        let font: any;
+        try {
+          font = page.commonObjs.get(fontName);
+        } catch { /* not resolved */ }
+        // Embedded names look like "ABCDEF+Arial-BoldItalicMT"
+        const name: string = (font?.name || styles[fontName]?.fontFamily || '').replace(/^[A-Z]{6}\+/, '');
+        fonts.set(fontName, {
+          family: name.split(/[-,]/)[0].replace(/(PS)?MT$/, '') || undefined,
+          bold: !!(font?.bold || font?.black) || /bold|black|heavy|semibold|demi/i.test(name),
+          italic: !!font?.italic || /italic|oblique/i.test(name)
+        });
+      }
+      return fonts.get(fontName)!;
+    };
+
+    const viewport = page.getViewport({ scale: 1 });
+    return {
+      page: pageNumber,
+      width: viewport.width,
+      height: viewport.height,
+      items: items
+        .filter(item => item.str && item.transform)
+        .map(item => {
+          const [, , c, d, x, y] = item.transform;
+          const font = fontFor(item.fontName);
+          return {
+            text: item.str,
+            x,
+            y,
+            width: item.width || 0,
+            size: Math.hypot(c, d) || item.height || 0,
+            fontFamily: font.family,
+            bold: font.bold,
+            italic: font.italic
+          };
+        })
+    };
   }
 }
 
-export const fileService = new FileService();
+export const fileService = new FileService([
+  new XlsxFormat(),
+  new PptxFormat(),
+  new MarkdownFormat(),
+  new HtmlFormat(),
+  new RtfFormat(),
+  new OdtFormat()
+]);
@@ -0,0 +1,76 @@
+
+import { GoogleGenAI, Type } from "@google/genai";
+import { ENGINES, LANGUAGES } from "../constants";
+import { OcrEngine, OcrImage, OcrLine, OcrOptions } from "./ocrEngine";
+import { runtime } from "./runtime";
+
+/**
+ * Cloud OCR using Gemini's vision input. Boxes come back normalized to 0–1000 as
+ * [ymin, xmin, ymax, xmax] and are scaled to the image's pixels.
+ */
+export class GeminiOcrEngine implements OcrEngine {
+  readonly id = 'gemini-vision';
+  readonly name = 'Gemini Vision';
+  readonly offline = false;
+
+  isAvailable(): boolean {
+    return !!runtime.apiKey;
+  }
+
+  async recognize(image: OcrImage, options: OcrOptions): Promise<OcrLine[]> {
+    const ai = new GoogleGenAI({ apiKey: runtime.apiKey });
+    const names = options.languages
+      .map(code => LANGUAGES.find(l => l.code === code && code !== 'auto')?.name)
+      .filter(Boolean);
+    const hint = names.length > 0 ? ` The document is written in ${names.join(', ')}.` : '';
+
+    const config: any = {
+      systemInstruction: `You are an OCR engine for scanned legal and real estate documents. Transcribe every line of text exactly as printed, in reading order, without translating, correcting or summarizing. Keep numbers, dates and punctuation verbatim.${hint}`,
+      temperature: 0,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING },
+            box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+          },
+          required: ["text", "box_2d"]
+        }
+      }
+    };
+    if (options.signal) {
+      config.abortSignal = options.signal;
+    }
+
+    const response = await ai.models.generateContent({
+      model: ENGINES.FLASH,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: image.mimeType, data: image.data } },
+          { text: "Return one object per text line with its bounding box as box_2d [ymin, xmin, ymax, xmax] normalized to 0-1000." }
+        ]
+      },
+      config
+    });
+
+    const parsed = JSON.parse(response.text || "[]");
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter((line: any) => typeof line.text === 'string' && line.text.trim() && Array.isArray(line.box_2d) && line.box_2d.length === 4)
+      .map((line: any) => {
+        const [ymin, xmin, ymax, xmax] = line.box_2d.map((v: number) => Math.min(1000, Math.max(0, v)) / 1000);
+        return {
+          text: line.text.trim(),
+          bbox: {
+            x: xmin * image.width,
+            y: ymin * image.height,
+            width: (xmax - xmin) * image.width,
+            height: (ymax - ymin) * image.height
+          }
+        };
+      });
+  }
+}
@@ -1,78 +1,64 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { DocumentChunk, GlossaryItem, TranslationTone } from "../types";
+import { GoogleGenAI, Type } from "@google/genai";
 import { ENGINES } from "../constants";
+import { profileService } from "./profileService";
+import { runtime } from "./runtime";
+import { BatchRequest, ProviderCapabilities, TranslationProvider, TranslationSegment } from "./translationProvider";
+
+export class GeminiService implements TranslationProvider {
+  readonly id = 'gemini';
+  readonly name = 'Google Gemini';
+  readonly engines = [ENGINES.FLASH, ENGINES.PRO];
+  readonly capabilities: ProviderCapabilities = {
+    grounding: true,
+    languageDetection: true,
+    requiresApiKey: true,
+    memoryWritable: true
+  };
+
+  batchSize(engine: string): number {
+    return engine === ENGINES.FLASH ? 12 : 8;
+  }
 
-export class GeminiService {
   /**
-   * Translates text chunks with heavy focus on Real Estate, Legal, and Financial terminology.
+   * Translates a batch following the domain profile's instruction, rules and example translations.
    */
-  async translateChunks(
-    chunks: DocumentChunk[],
-    sourceLang: string,
-    targetLang: string,
-    tone: TranslationTone,
-    engine: string = ENGINES.FLASH,
-    useGrounding: boolean = false,
-    glossary: GlossaryItem[] = []
-  ): Promise<string[]> {
-    const BATCH_SIZE = engine === ENGINES.FLASH ? 12 : 8;
-    const results: string[] = [];
-    
-    // Create a context abstract from the document to help the model understand if it's a Lease or Invoice
-    const abstract = chunks
-      .filter(c => c.originalText.length > 5)
-      .slice(0, 15)
-      .map(c => c.originalText)
-      .join(' ')
-      .substring(0, 1000);
-    
-    for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
-      const batch = chunks.slice(i, i + BATCH_SIZE);
-      try {
-        const batchResults = await this.translateBatch(
-          batch, 
-          sourceLang, 
-          targetLang, 
-          tone,
-          engine,
-          abstract,
-          useGrounding, 
-          glossary
-        );
-        results.push(...batchResults);
-      } catch (error: any) {
-        throw error;
-      }
-    }
-    
-    return results;
-  }
+  async translateBatch(segments: TranslationSegment[], request: BatchRequest): Promise<TranslationSegment[]> {
+    const { sourceLang, targetLang, profile, engine, abstract, useGrounding, glossary, enforceGlossary, instruction, references, signal } = request;
+    const ai = new GoogleGenAI({ apiKey: runtime.apiKey });
 
-  private async translateBatch(
-    batch: DocumentChunk[],
-    sourceLang: string,
-    targetLang: string,
-    tone: TranslationTone,
-    engine: string,
-    abstract: string,
-    useGrounding: boolean,
-    glossary: GlossaryItem[]
-  ): Promise<string[]> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const textSegments = batch.map(c => c.type === 'empty-line' ? "---SKIP---" : c.originalText);
+    // Profile rules come first; the structural rules the pipeline depends on always follow them
+    const rules = [
+      ...profile.terminologyRules,
+      `STRUCTURE: Return exactly ${segments.length} objects, one per input "id", each as {"id", "text"}. Copy ids unchanged. Do not merge, split, drop or invent items. Some texts contain inline formatting tags like <g1>…</g1>: keep every tag pair exactly once, unchanged and unnested, around the translated words it marks. Placeholders like <x2/> stand for code: keep each exactly once and unchanged.`
+    ];
+    const structureRule = rules.length;
+    if (enforceGlossary && glossary.length > 0) {
+      rules.push(`MANDATORY TERMINOLOGY: Wherever a glossary term appears in the source, the translation MUST contain its glossary translation exactly as written (inflect surrounding words instead of the term). A previous attempt ignored these terms.`);
+    }
+    // User instructions are data for the prompt, never rules that override the structure above
+    if (instruction) {
+      rules.push(`REVISION REQUEST: The reviewer rejected an earlier translation and asked: ${JSON.stringify(instruction)}. Follow it unless it conflicts with rule ${structureRule}.`);
+    }
     const glossaryStr = glossary.length > 0 ? `\nGlossary: ${glossary.map(g => `${g.original}=${g.target}`).join('; ')}` : "";
 
-    // Industry-specific instruction set
-    const systemInstruction = `You are a Senior Real Estate Legal Translator specialized in Lease Agreements, Amendments, and Invoices.
-    TASK: Translate the provided JSON array from ${sourceLang} to ${targetLang}.
+    const examples = profileService.examplesFor(profile, sourceLang, targetLang);
+    const examplesStr = examples.length > 0
+      ? `\n\nEXAMPLES (reference translations in this domain's style): ${JSON.stringify(examples.map(e => ({ source: e.source, target: e.target })))}`
+      : "";
+
+    const memoryRefs = segments
+      .filter(seg => references?.[seg.id]?.length)
+      .map(seg => ({ id: seg.id, matches: references![seg.id].map(r => ({ source: r.source, target: r.target })) }));
+    const memoryStr = memoryRefs.length > 0
+      ? `\n\nTRANSLATION MEMORY (approved past translations of similar segments; reuse their wording where the source matches): ${JSON.stringify(memoryRefs)}`
+      : "";
+
+    const systemInstruction = `${profile.systemInstruction}
+    TASK: Translate the "text" of each object in the provided JSON array from ${sourceLang} to ${targetLang}.
     
     DOMAIN RULES:
-    1. TERMINOLOGY: Use precise real estate terms (e.g., 'Lessor/Lessee' instead of 'Owner/Renter', 'Common Area Maintenance', 'Subordination', 'Habitability', 'Quiet Enjoyment').
-    2. INVOICES: Maintain exact numerical values, currencies, and line-item structures for real estate billing.
-    3. LEGAL TONE: Use a formal ${tone} tone.
-    4. STRUCTURE: Exactly ${batch.length} strings in JSON array. Do not merge or split items.
-    5. If "---SKIP---", return it.${glossaryStr}`;
+${rules.map((rule, i) => `    ${i + 1}. ${rule}`).join('\n')}${glossaryStr}`;
 
     const config: any = {
       systemInstruction,
@@ -80,7 +66,14 @@ export class GeminiService {
       responseMimeType: "application/json",
       responseSchema: {
         type: Type.ARRAY,
-        items: { type: Type.STRING }
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            text: { type: Type.STRING }
+          },
+          required: ["id", "text"]
+        }
       }
     };
 
@@ -88,20 +81,24 @@ export class GeminiService {
       config.tools = [{ googleSearch: {} }];
     }
 
+    if (signal) {
+      config.abortSignal = signal;
+    }
+
     const response = await ai.models.generateContent({
       model: engine,
       contents: { 
-        parts: [{ text: `DOCUMENT CONTEXT: ${abstract}\n\nTRANSLATE SEGMENTS: ${JSON.stringify(textSegments)}` }] 
+        parts: [{ text: `DOCUMENT CONTEXT: ${abstract}${examplesStr}${memoryStr}\n\nTRANSLATE SEGMENTS: ${JSON.stringify(segments)}` }] 
       },
       config
     });
 
     const parsed = JSON.parse(response.text || "[]");
-    return parsed.map((val: string) => (val === "---SKIP---" ? "" : val));
+    return Array.isArray(parsed) ? parsed : [];
   }
 
   async detectLanguage(sample: string): Promise<string> {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const ai = new GoogleGenAI({ apiKey: runtime.apiKey });
     try {
       const response = await ai.models.generateContent({
         model: ENGINES.FLASH,
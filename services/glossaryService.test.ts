@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { DOMParser } from "@xmldom/xmldom";
+import { configureRuntime } from "./runtime";
+import { glossaryService } from "./glossaryService";
+
+const terms = (items: ReturnType<typeof glossaryService.fromCsv>) =>
+  items.map(({ original, target, caseSensitive, wholeWord }) => ({ original, target, caseSensitive, wholeWord }));
+
+describe("GlossaryService.fromCsv", () => {
+  it("reads quoted cells and the option columns, skipping the header", () => {
+    const csv = 'source,target,case_sensitive,whole_word\r\n"Lessee, the","El ""Arrendatario""",true,false\r\nLessor,Arrendador\r\n';
+    expect(terms(glossaryService.fromCsv(csv))).toEqual([
+      { original: 'Lessee, the', target: 'El "Arrendatario"', caseSensitive: true, wholeWord: false },
+      { original: 'Lessor', target: 'Arrendador', caseSensitive: false, wholeWord: true }
+    ]);
+  });
+
+  it("detects semicolon and tab separated spreadsheet exports", () => {
+    const semicolon = '﻿Source;Target\nLessee;Arrendatario, S.A.\n';
+    expect(terms(glossaryService.fromCsv(semicolon)).map(t => [t.original, t.target])).toEqual([['Lessee', 'Arrendatario, S.A.']]);
+
+    const tab = 'Source term\tTarget term\nRent; monthly\tRenta; mensual\n';
+    expect(terms(glossaryService.fromCsv(tab)).map(t => [t.original, t.target])).toEqual([['Rent; monthly', 'Renta; mensual']]);
+  });
+
+  it("keeps a first row that only looks like a header", () => {
+    const csv = 'Terms of Use,Condiciones de uso\nSource code,Código fuente\n';
+    expect(terms(glossaryService.fromCsv(csv)).map(t => t.original)).toEqual(['Terms of Use', 'Source code']);
+  });
+
+  it("skips rows without a target", () => {
+    expect(glossaryService.fromCsv('Lessee,\n,Arrendador\nRent,Renta\n').map(t => t.original)).toEqual(['Rent']);
+  });
+});
+
+describe("GlossaryService.fromTbx", () => {
+  beforeAll(() => {
+    configureRuntime({ DOMParser: DOMParser as unknown as new () => globalThis.DOMParser });
+  });
+
+  it("picks the pair's language sets and reads the exported options", () => {
+    const tbx = `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX-Basic" xml:lang="en">
+  <text><body>
+    <termEntry id="t1">
+      <descrip type="x-case-sensitive">true</descrip>
+      <descrip type="x-whole-word">false</descrip>
+      <langSet xml:lang="fr-FR"><tig><term>Preneur</term></tig></langSet>
+      <langSet xml:lang="en-US"><tig><term>Lessee</term></tig></langSet>
+      <langSet xml:lang="es-ES"><tig><term>Arrendatario</term></tig></langSet>
+    </termEntry>
+    <termEntry id="t2">
+      <langSet xml:lang="en"><tig><term>Lessor</term></tig></langSet>
+    </termEntry>
+  </body></text>
+</martif>`;
+    expect(terms(glossaryService.fromTbx(tbx, 'en', 'es'))).toEqual([
+      { original: 'Lessee', target: 'Arrendatario', caseSensitive: true, wholeWord: false }
+    ]);
+  });
+
+  it("reads TBX 3 concept entries and round-trips its own export", () => {
+    const tbx3 = `<tbx style="dca" type="TBX-Basic" xml:lang="en"><text><body>
+      <conceptEntry id="c1">
+        <langSec xml:lang="en"><termSec><term>Rent</term></termSec></langSec>
+        <langSec xml:lang="de"><termSec><term>Miete</term></termSec></langSec>
+      </conceptEntry>
+    </body></text></tbx>`;
+    const items = glossaryService.fromTbx(tbx3, 'en', 'de');
+    expect(terms(items)).toEqual([{ original: 'Rent', target: 'Miete', caseSensitive: false, wholeWord: true }]);
+
+    const exported = glossaryService.toTbx({ id: 'g', name: 'Lease <terms>', sourceLang: 'en', targetLang: 'de', items, updatedAt: 0 });
+    expect(terms(glossaryService.fromTbx(exported, 'en', 'de'))).toEqual(terms(items));
+  });
+});
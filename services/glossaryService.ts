@@ -0,0 +1,249 @@
+
+import { DocumentChunk, Glossary, GlossaryItem } from "../types";
+import { runtime } from "./runtime";
+
+const STORAGE_KEY = 'retrans.glossaries';
+const ACTIVE_KEY = 'retrans.activeGlossaries';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const primaryLang = (lang: string) => lang.trim().toLowerCase().split(/[-_]/)[0];
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const storage = (): Storage | null => (typeof localStorage !== 'undefined' ? localStorage : null);
+
+export class GlossaryService {
+  /**
+   * Regular expression for an item's original term, honouring its case and whole-word options.
+   * Word boundaries are Unicode-aware so accented and non-Latin terms match correctly.
+   */
+  termPattern(item: GlossaryItem, flags: string = 'g'): RegExp {
+    const body = escapeRegExp(item.original.trim());
+    const bounded = item.wholeWord !== false ? `(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])` : body;
+    return new RegExp(bounded, `${flags}u${item.caseSensitive ? '' : 'i'}`);
+  }
+
+  matches(item: GlossaryItem, text: string): boolean {
+    return !!item.original.trim() && this.termPattern(item, '').test(text);
+  }
+
+  /**
+   * Chunk ids each item occurs in, keyed by item id. Items that occur nowhere are omitted.
+   */
+  findUsage(items: GlossaryItem[], chunks: DocumentChunk[]): Record<string, string[]> {
+    const usage: Record<string, string[]> = {};
+    items.forEach(item => {
+      const ids = chunks.filter(c => c.originalText && this.matches(item, c.originalText)).map(c => c.id);
+      if (ids.length > 0) usage[item.id] = ids;
+    });
+    return usage;
+  }
+
+  // --- Persistence -------------------------------------------------------------
+
+  list(): Glossary[] {
+    try {
+      return JSON.parse(storage()?.getItem(STORAGE_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  /** Glossaries usable for a language pair; 'auto' glossaries apply to every source language. */
+  listFor(sourceLang: string, targetLang: string): Glossary[] {
+    return this.list().filter(g =>
+      g.targetLang === targetLang && (g.sourceLang === 'auto' || sourceLang === 'auto' || g.sourceLang === sourceLang)
+    );
+  }
+
+  get(id: string): Glossary | undefined {
+    return this.list().find(g => g.id === id);
+  }
+
+  save(glossary: Glossary): Glossary {
+    const saved = { ...glossary, updatedAt: Date.now() };
+    const others = this.list().filter(g => g.id !== glossary.id);
+    storage()?.setItem(STORAGE_KEY, JSON.stringify([...others, saved]));
+    return saved;
+  }
+
+  create(name: string, sourceLang: string, targetLang: string, items: GlossaryItem[] = []): Glossary {
+    return this.save({ id: newId(), name, sourceLang, targetLang, items, updatedAt: Date.now() });
+  }
+
+  remove(id: string) {
+    storage()?.setItem(STORAGE_KEY, JSON.stringify(this.list().filter(g => g.id !== id)));
+  }
+
+  /** The glossary last chosen for a language pair, if it still exists. */
+  activeFor(sourceLang: string, targetLang: string): Glossary | undefined {
+    try {
+      const active = JSON.parse(storage()?.getItem(ACTIVE_KEY) || '{}');
+      const id = active[`${sourceLang}|${targetLang}`];
+      return id ? this.get(id) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  setActive(sourceLang: string, targetLang: string, id: string | null) {
+    let active: Record<string, string> = {};
+    try {
+      active = JSON.parse(storage()?.getItem(ACTIVE_KEY) || '{}');
+    } catch { /* start over */ }
+    if (id) active[`${sourceLang}|${targetLang}`] = id;
+    else delete active[`${sourceLang}|${targetLang}`];
+    storage()?.setItem(ACTIVE_KEY, JSON.stringify(active));
+  }
+
+  newItem(original: string, target: string, options: Partial<GlossaryItem> = {}): GlossaryItem {
+    return { id: newId(), original, target, caseSensitive: false, wholeWord: true, ...options };
+  }
+
+  // --- CSV -----------------------------------------------------------------------
+
+  toCsv(glossary: Glossary): string {
+    const cell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = glossary.items.map(item => [
+      cell(item.original),
+      cell(item.target),
+      item.caseSensitive ? 'true' : 'false',
+      item.wholeWord !== false ? 'true' : 'false'
+    ].join(','));
+    return ['source,target,case_sensitive,whole_word', ...rows].join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Reads "source,target[,case_sensitive,whole_word]" rows. A header row is detected and skipped;
+   * semicolon- and tab-separated exports from spreadsheets are accepted too.
+   */
+  fromCsv(text: string): GlossaryItem[] {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const delimiter = firstLine.includes('\t') ? '\t' : (firstLine.split(';').length > firstLine.split(',').length ? ';' : ',');
+    const rows = this.parseDelimited(text.replace(/^﻿/, ''), delimiter);
+    // Only a row of column names is a header, so a term like "Terms of Use" still imports
+    const isHeader = (row: string[]) => /^(source|original|term|src)([\s_-]*(term|text))?$/i.test(row[0]?.trim() || '')
+      && /^(target|translation|tgt)([\s_-]*(term|text))?$/i.test(row[1]?.trim() || '');
+    if (rows.length > 0 && isHeader(rows[0])) rows.shift();
+
+    const flag = (value: string | undefined, fallback: boolean) =>
+      value === undefined || value.trim() === '' ? fallback : /^(true|yes|1|y)$/i.test(value.trim());
+
+    return rows
+      .filter(row => row[0]?.trim() && row[1]?.trim())
+      .map(row => this.newItem(row[0].trim(), row[1].trim(), {
+        caseSensitive: flag(row[2], false),
+        wholeWord: flag(row[3], true)
+      }));
+  }
+
+  private parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (quoted) {
+        if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+        else if (ch === '"') quoted = false;
+        else field += ch;
+      } else if (ch === '"' && field === '') {
+        quoted = true;
+      } else if (ch === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (ch === '\n' || ch === '\r') {
+        if (ch === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += ch;
+      }
+    }
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows.filter(r => r.some(f => f.trim()));
+  }
+
+  // --- TBX -----------------------------------------------------------------------
+
+  /** TBX-Basic (ISO 30042, martif) with one termEntry per item. */
+  toTbx(glossary: Glossary): string {
+    const sourceLang = glossary.sourceLang === 'auto' ? 'und' : glossary.sourceLang;
+    const entries = glossary.items.map(item => `      <termEntry id="${escapeXml(item.id)}">
+        <descrip type="x-case-sensitive">${item.caseSensitive ? 'true' : 'false'}</descrip>
+        <descrip type="x-whole-word">${item.wholeWord !== false ? 'true' : 'false'}</descrip>
+        <langSet xml:lang="${sourceLang}"><tig><term>${escapeXml(item.original)}</term></tig></langSet>
+        <langSet xml:lang="${glossary.targetLang}"><tig><term>${escapeXml(item.target)}</term></tig></langSet>
+      </termEntry>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX-Basic" xml:lang="${sourceLang}">
+  <martifHeader>
+    <fileDesc><sourceDesc><p>${escapeXml(glossary.name)} (exported from ReTrans)</p></sourceDesc></fileDesc>
+  </martifHeader>
+  <text>
+    <body>
+${entries.join('\n')}
+    </body>
+  </text>
+</martif>
+`;
+  }
+
+  /**
+   * Reads TBX 2 (martif/termEntry/langSet) and TBX 3 (tbx/conceptEntry/langSec) files. The
+   * source and target terms are taken from the language sets matching the pair, falling back
+   * to the first and second language set of each entry.
+   */
+  fromTbx(xml: string, sourceLang: string, targetLang: string): GlossaryItem[] {
+    const doc = new runtime.DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error("The TBX file could not be parsed.");
+    }
+
+    const entries = [
+      ...Array.from(doc.getElementsByTagName('termEntry')),
+      ...Array.from(doc.getElementsByTagName('conceptEntry'))
+    ];
+    const items: GlossaryItem[] = [];
+
+    entries.forEach(entry => {
+      const sets = [
+        ...Array.from(entry.getElementsByTagName('langSet')),
+        ...Array.from(entry.getElementsByTagName('langSec'))
+      ].map(set => ({
+        lang: primaryLang(set.getAttribute('xml:lang') || set.getAttribute('lang') || ''),
+        term: set.getElementsByTagName('term')[0]?.textContent?.trim() || ''
+      })).filter(set => set.term);
+      if (sets.length < 2) return;
+
+      const source = sets.find(s => s.lang === sourceLang) || sets[0];
+      const target = sets.find(s => s !== source && s.lang === targetLang) || sets.find(s => s !== source)!;
+      const descrip = (type: string) => Array.from(entry.getElementsByTagName('descrip'))
+        .find(d => d.getAttribute('type') === type)?.textContent?.trim();
+
+      items.push(this.newItem(source.term, target.term, {
+        caseSensitive: descrip('x-case-sensitive') === 'true',
+        wholeWord: descrip('x-whole-word') !== 'false'
+      }));
+    });
+
+    return items;
+  }
+}
+
+export const glossaryService = new GlossaryService();
@@ -0,0 +1,254 @@
+
+import { DocumentChunk, InlineRun } from "../types";
+import { DocumentFormat, base64ToBytes, chunkRuns, outputText } from "./documentFormat";
+import { inlineMarkup } from "./inlineMarkup";
+import { listNumbering } from "./listNumbering";
+import { runtime } from "./runtime";
+
+type Format = Omit<InlineRun, 'text'>;
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'center', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main',
+  'nav', 'ol', 'p', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul'
+]);
+// Never translated: code, scripts and embedded content
+const SKIP_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'math', 'pre', 'head', 'iframe', 'object', 'select', 'textarea']);
+// Inline tags whose meaning the runs carry; anything else (span, font) is styling to keep
+const FORMAT_TAGS = new Set(['b', 'strong', 'i', 'em', 'u', 'sup', 'a', 'br']);
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+
+/** Consecutive inline nodes under one element: a paragraph's content, or loose text between blocks. */
+interface Target {
+  parent: Element;
+  nodes: Node[];
+}
+
+const isElement = (node: Node): node is Element => node.nodeType === node.ELEMENT_NODE;
+const tagOf = (node: Node) => (isElement(node) ? node.tagName.toLowerCase() : '');
+const containsBlock = (el: Element): boolean => Array.from(el.children).some(c => BLOCK_TAGS.has(tagOf(c)) || containsBlock(c));
+
+/**
+ * HTML pages and e-mails. Text is taken from the innermost blocks, so layout tables and wrapper
+ * divs disappear and their paragraphs, headings, list items and data cells remain. The writer
+ * swaps translated text into the same places, keeping styles, images and attributes.
+ */
+export class HtmlFormat implements DocumentFormat {
+  readonly id = 'html';
+  readonly name = 'HTML';
+  readonly extensions = ['html', 'htm'];
+  readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+
+  async parse(file: File): Promise<DocumentChunk[]> {
+    const doc = new runtime.DOMParser().parseFromString(await file.text(), 'text/html');
+    const tableIds = new Map<Element, string>();
+    const chunks: DocumentChunk[] = [];
+
+    this.targets(doc).forEach((target, t) => {
+      const runs = this.readRuns(target.nodes);
+      const text = inlineMarkup.toPlain(runs);
+      if (!text) return;
+
+      const block = this.blockOf(target);
+      const tag = block ? tagOf(block) : '';
+      const base = inlineMarkup.baseFormat(runs);
+      const common = {
+        runs: chunkRuns(runs),
+        originalText: text
+      };
+      const metadata = {
+        isBold: !!base.bold,
+        isItalic: !!base.italic,
+        isUnderlined: !!base.underline,
+        alignment: this.alignmentOf(block || target.parent),
+        sourceRef: String(t)
+      };
+
+      if (/^h[1-6]$/.test(tag)) {
+        chunks.push({ id: `html-h-${chunks.length}`, type: 'heading', ...common, metadata: { ...metadata, level: Number(tag[1]) } });
+      } else if (tag === 'li') {
+        const list = block!.parentElement;
+        const ordered = tagOf(list!) === 'ol';
+        const level = this.ancestors(block!).filter(a => ['ul', 'ol'].includes(tagOf(a))).length;
+        const index = Array.from(list!.children).filter(c => tagOf(c) === 'li').indexOf(block!) + Number(list!.getAttribute('start') || 1);
+        chunks.push({
+          id: `html-li-${chunks.length}`,
+          type: 'list-item',
+          ...common,
+          metadata: { ...metadata, level, listType: ordered ? 'ordered' : 'bullet', listLabel: listNumbering.defaultLabel(index, ordered ? 1 : level, ordered) }
+        });
+      } else if (tag === 'td' || tag === 'th') {
+        const table = block!.closest('table')!;
+        if (!tableIds.has(table)) tableIds.set(table, `html-t-${tableIds.size}`);
+        const rows = Array.from<Element>(table.querySelectorAll('tr')).filter(tr => tr.closest('table') === table);
+        const tr = block!.parentElement!;
+        const cells = Array.from(tr.children).filter(c => ['td', 'th'].includes(tagOf(c)));
+        const col = cells.slice(0, cells.indexOf(block!)).reduce((n, c) => n + (Number(c.getAttribute('colspan')) || 1), 0);
+        chunks.push({
+          id: `html-td-${chunks.length}`,
+          type: 'table-cell',
+          ...common,
+          metadata: {
+            ...metadata,
+            isBold: tag === 'th' || metadata.isBold,
+            tableId: tableIds.get(table),
+            row: rows.indexOf(tr),
+            col,
+            rowSpan: Number(block!.getAttribute('rowspan')) > 1 ? Number(block!.getAttribute('rowspan')) : undefined,
+            colSpan: Number(block!.getAttribute('colspan')) > 1 ? Number(block!.getAttribute('colspan')) : undefined
+          }
+        });
+      } else {
+        chunks.push({ id: `html-p-${chunks.length}`, type: 'paragraph', ...common, metadata });
+      }
+    });
+    return chunks;
+  }
+
+  async write(chunks: DocumentChunk[], original: string, targetLang: string): Promise<Blob> {
+    const doc = new runtime.DOMParser().parseFromString(new TextDecoder().decode(base64ToBytes(original)), 'text/html');
+    const bySource = new Map(chunks.filter(c => c.metadata?.sourceRef && c.translatedText).map(c => [c.metadata!.sourceRef!, c]));
+
+    this.targets(doc).forEach((target, t) => {
+      const chunk = bySource.get(String(t));
+      if (!chunk) return;
+      const textNodes = target.nodes.filter(n => n.nodeType === n.TEXT_NODE && n.textContent!.trim());
+
+      // Plain text in a single text node keeps every wrapper around it
+      if (!chunk.translatedRuns && textNodes.length === 1 && !chunk.translatedText!.includes('\n')) {
+        const [, lead, , trail] = textNodes[0].textContent!.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        textNodes[0].textContent = lead + chunk.translatedText + trail;
+        return;
+      }
+      const anchor = target.nodes[target.nodes.length - 1].nextSibling;
+      target.nodes.forEach(n => target.parent.removeChild(n));
+      const meta = chunk.metadata!;
+      this.buildNodes(doc, chunk.translatedRuns || [{ text: outputText(chunk), bold: meta.isBold && chunk.type !== 'table-cell', italic: meta.isItalic, underline: meta.isUnderlined }])
+        .forEach(n => target.parent.insertBefore(n, anchor));
+    });
+
+    const lang = targetLang.split(/[-_]/)[0];
+    doc.documentElement.setAttribute('lang', targetLang);
+    if (RTL_LANGUAGES.includes(lang)) doc.documentElement.setAttribute('dir', 'rtl');
+    // The output is always UTF-8, whatever the source declared
+    doc.querySelectorAll('meta[charset]').forEach(meta => meta.setAttribute('charset', 'utf-8'));
+    doc.querySelectorAll('meta[http-equiv="Content-Type" i]').forEach(meta => meta.setAttribute('content', 'text/html; charset=utf-8'));
+
+    const doctype = doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>\n` : '';
+    return new Blob([doctype + doc.documentElement.outerHTML], { type: 'text/html;charset=utf-8' });
+  }
+
+  /**
+   * Translatable text in document order. The parser and the writer both use this walk, so a
+   * chunk's index (its `sourceRef`) finds the same nodes again.
+   */
+  private targets(doc: Document): Target[] {
+    const targets: Target[] = [];
+    const walk = (parent: Element) => {
+      let group: Node[] = [];
+      const flush = () => {
+        if (group.some(n => n.textContent!.trim())) targets.push(this.unwrap({ parent, nodes: group }));
+        group = [];
+      };
+      Array.from(parent.childNodes).forEach(node => {
+        const tag = tagOf(node);
+        if (node.nodeType === node.TEXT_NODE || (isElement(node) && !BLOCK_TAGS.has(tag) && !SKIP_TAGS.has(tag) && !containsBlock(node))) {
+          group.push(node);
+        } else {
+          flush();
+          if (isElement(node) && !SKIP_TAGS.has(tag)) walk(node);
+        }
+      });
+      flush();
+    };
+    if (doc.body) walk(doc.body);
+    return targets;
+  }
+
+  /** A group that is one styling wrapper (a span or font) is worked on inside the wrapper. */
+  private unwrap(target: Target): Target {
+    let current = target;
+    while (current.nodes.length === 1 && isElement(current.nodes[0]) && !FORMAT_TAGS.has(tagOf(current.nodes[0]))) {
+      const wrapper = current.nodes[0] as Element;
+      current = { parent: wrapper, nodes: Array.from(wrapper.childNodes) };
+    }
+    return current;
+  }
+
+  /** The block the target fills entirely, if any; loose text between blocks has none. */
+  private blockOf(target: Target): Element | null {
+    let el: Element | null = target.parent;
+    while (el && !BLOCK_TAGS.has(tagOf(el))) el = el.parentElement;
+    return el && !containsBlock(el) ? el : null;
+  }
+
+  private ancestors(el: Element): Element[] {
+    const found: Element[] = [];
+    for (let a = el.parentElement; a; a = a.parentElement) found.push(a);
+    return found;
+  }
+
+  private alignmentOf(el: Element): 'left' | 'center' | 'right' | 'justify' {
+    const align = ((el as HTMLElement).style?.textAlign || el.getAttribute('align') || '').toLowerCase();
+    if (tagOf(el) === 'center' || el.closest('center')) return 'center';
+    return align === 'center' || align === 'right' || align === 'justify' ? align : 'left';
+  }
+
+  private readRuns(nodes: Node[]): InlineRun[] {
+    const runs: InlineRun[] = [];
+    const visit = (node: Node, format: Format) => {
+      if (node.nodeType === node.TEXT_NODE) {
+        runs.push({ ...format, text: node.textContent!.replace(/\s+/g, ' ') });
+        return;
+      }
+      if (!isElement(node) || SKIP_TAGS.has(tagOf(node))) return;
+      const tag = tagOf(node);
+      if (tag === 'br') {
+        runs.push({ ...format, href: undefined, text: '\n' });
+        return;
+      }
+      const next = { ...format };
+      if (tag === 'b' || tag === 'strong') next.bold = true;
+      if (tag === 'i' || tag === 'em') next.italic = true;
+      if (tag === 'u') next.underline = true;
+      if (tag === 'sup') next.superscript = true;
+      const href = tag === 'a' ? node.getAttribute('href') : null;
+      if (href && !href.startsWith('#')) next.href = href;
+      node.childNodes.forEach(child => visit(child, next));
+    };
+    nodes.forEach(node => visit(node, {}));
+
+    // Collapse whitespace the way a browser would, around line breaks too
+    const collapsed = inlineMarkup.normalize(runs.map(r => ({ ...r, text: r.text.replace(/ ?\n ?/g, '\n') })));
+    collapsed.forEach((run, i) => {
+      if (i > 0 && / $/.test(collapsed[i - 1].text)) run.text = run.text.replace(/^ /, '');
+    });
+    if (collapsed.length > 0) {
+      collapsed[0].text = collapsed[0].text.replace(/^\s+/, '');
+      collapsed[collapsed.length - 1].text = collapsed[collapsed.length - 1].text.replace(/\s+$/, '');
+    }
+    return inlineMarkup.normalize(collapsed);
+  }
+
+  private buildNodes(doc: Document, runs: InlineRun[]): Node[] {
+    return runs.flatMap(run => run.text.split('\n').flatMap((line, i): Node[] => {
+      const nodes: Node[] = i > 0 ? [doc.createElement('br')] : [];
+      if (!line) return nodes;
+      let node: Node = doc.createTextNode(line);
+      const wrap = (tag: string) => {
+        const el = doc.createElement(tag);
+        el.appendChild(node);
+        node = el;
+      };
+      if (run.bold) wrap('strong');
+      if (run.italic) wrap('em');
+      if (run.underline) wrap('u');
+      if (run.superscript) wrap('sup');
+      if (run.href) {
+        wrap('a');
+        (node as Element).setAttribute('href', run.href);
+      }
+      return [...nodes, node];
+    }));
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { InlineRun } from "../types";
+import { inlineMarkup } from "./inlineMarkup";
+
+const SOURCE: InlineRun[] = [
+  { text: "Run " },
+  { text: "npm install", code: true },
+  { text: " before the " },
+  { text: "build", bold: true },
+  { text: " step." }
+];
+
+describe("InlineMarkup code placeholders", () => {
+  it("sends code runs as placeholders and restores them verbatim", () => {
+    expect(inlineMarkup.toTagged(SOURCE)).toBe("Run <x2/> before the <g4>build</g4> step.");
+    expect(inlineMarkup.fromTagged("Ejecute <x2/> antes del paso de <g4>compilación</g4>.", SOURCE)).toEqual([
+      { text: "Ejecute " },
+      { text: "npm install", code: true },
+      { text: " antes del paso de " },
+      { text: "compilación", bold: true },
+      { text: "." }
+    ]);
+  });
+
+  it("rejects a translation that drops or repeats a placeholder", () => {
+    expect(inlineMarkup.fromTagged("Ejecute antes del paso de <g4>compilación</g4>.", SOURCE)).toBeNull();
+    expect(inlineMarkup.fromTagged("<x2/> <x2/> <g4>compilación</g4>", SOURCE)).toBeNull();
+  });
+
+  it("puts the code back when stripping untrustworthy tags", () => {
+    expect(inlineMarkup.stripTags("Ejecute <x2/> antes <g4>del paso", SOURCE)).toBe("Ejecute npm install antes del paso");
+  });
+});
@@ -0,0 +1,141 @@
+
+import { InlineRun } from "../types";
+
+type RunFormat = Omit<InlineRun, 'text'>;
+
+const FORMAT_KEYS: (keyof RunFormat)[] = ['bold', 'italic', 'underline', 'superscript', 'href', 'code'];
+
+const TAG = /<(\/?)g(\d+)>|<x(\d+)\/>/g;
+
+const formatOf = (run: InlineRun): RunFormat => {
+  const format: RunFormat = {};
+  FORMAT_KEYS.forEach(key => {
+    if (run[key]) (format as any)[key] = run[key];
+  });
+  return format;
+};
+
+const sameFormat = (a: RunFormat, b: RunFormat) => FORMAT_KEYS.every(key => (a[key] || undefined) === (b[key] || undefined));
+
+/**
+ * Inline formatting travels to the model as numbered tags, `<g1>Lessee</g1>`, one per run that
+ * differs from the paragraph's base format. Text outside tags takes the base format. Code runs
+ * are locked: they travel as a placeholder, `<x2/>`, and come back as the source run unchanged.
+ */
+export class InlineMarkup {
+  /** Merges adjacent runs with identical formatting and drops empty ones. */
+  normalize(runs: InlineRun[]): InlineRun[] {
+    const merged: InlineRun[] = [];
+    runs.forEach(run => {
+      if (!run.text) return;
+      const last = merged[merged.length - 1];
+      if (last && sameFormat(formatOf(last), formatOf(run))) {
+        last.text += run.text;
+      } else {
+        merged.push({ ...run });
+      }
+    });
+    return merged;
+  }
+
+  /** The formatting every run shares, i.e. what applies to the whole paragraph. */
+  baseFormat(runs: InlineRun[]): RunFormat {
+    if (runs.length === 0) return {};
+    const [first, ...rest] = runs.map(formatOf);
+    const base: RunFormat = {};
+    FORMAT_KEYS.forEach(key => {
+      if (first[key] && rest.every(f => f[key] === first[key])) (base as any)[key] = first[key];
+    });
+    return base;
+  }
+
+  /** True when the runs carry formatting that paragraph-level flags can't express. */
+  hasInlineFormatting(runs?: InlineRun[]): runs is InlineRun[] {
+    if (!runs || runs.length === 0) return false;
+    const base = this.baseFormat(runs);
+    return runs.some(run => !sameFormat(formatOf(run), base));
+  }
+
+  /** The runs from character `start` on, e.g. after a clause label has been split off. */
+  sliceFrom(runs: InlineRun[], start: number): InlineRun[] {
+    const sliced: InlineRun[] = [];
+    let offset = 0;
+    runs.forEach(run => {
+      const end = offset + run.text.length;
+      if (end > start) sliced.push({ ...run, text: run.text.slice(Math.max(0, start - offset)) });
+      offset = end;
+    });
+    return this.normalize(sliced);
+  }
+
+  /** True when two runs carry the same formatting, whatever their text. */
+  sameFormat(a: InlineRun, b: InlineRun): boolean {
+    return sameFormat(formatOf(a), formatOf(b));
+  }
+
+  toPlain(runs: InlineRun[]): string {
+    return runs.map(r => r.text).join('');
+  }
+
+  toTagged(runs: InlineRun[]): string {
+    const base = this.baseFormat(runs);
+    return runs.map((run, i) => {
+      if (run.code) return `<x${i + 1}/>`;
+      return sameFormat(formatOf(run), base) ? run.text : `<g${i + 1}>${run.text}</g${i + 1}>`;
+    }).join('');
+  }
+
+  /** Drops tags, for when the translation's tags can't be trusted; placeholders still get their code back. */
+  stripTags(text: string, sourceRuns: InlineRun[] = []): string {
+    return text.replace(TAG, (_, _close, _id, placeholder) => (placeholder ? sourceRuns[Number(placeholder) - 1]?.text ?? '' : ''));
+  }
+
+  /**
+   * Maps a tagged translation back onto runs using the source runs' formats. Returns null when
+   * tags are unbalanced, nested, unknown, or a source tag or placeholder went missing or repeats.
+   */
+  fromTagged(tagged: string, sourceRuns: InlineRun[]): InlineRun[] | null {
+    const base = this.baseFormat(sourceRuns);
+    const expected = new Set<number>();
+    const placeholders = new Set<number>();
+    sourceRuns.forEach((run, i) => {
+      if (run.code) placeholders.add(i + 1);
+      else if (!sameFormat(formatOf(run), base)) expected.add(i + 1);
+    });
+
+    const runs: InlineRun[] = [];
+    const seen = new Set<number>();
+    const placed = new Set<number>();
+    let open: number | null = null;
+    let last = 0;
+
+    for (const match of tagged.matchAll(TAG)) {
+      const text = tagged.slice(last, match.index);
+      last = match.index! + match[0].length;
+      runs.push({ ...(open === null ? base : formatOf(sourceRuns[open - 1])), text });
+
+      if (match[3] !== undefined) {
+        const id = Number(match[3]);
+        if (!placeholders.has(id) || placed.has(id)) return null;
+        placed.add(id);
+        runs.push({ ...sourceRuns[id - 1] });
+        continue;
+      }
+      const id = Number(match[2]);
+      if (match[1] === '') {
+        if (open !== null || !expected.has(id)) return null;
+        open = id;
+        seen.add(id);
+      } else {
+        if (open !== id) return null;
+        open = null;
+      }
+    }
+    if (open !== null || seen.size !== expected.size || placed.size !== placeholders.size) return null;
+    runs.push({ ...base, text: tagged.slice(last) });
+
+    return this.normalize(runs);
+  }
+}
+
+export const inlineMarkup = new InlineMarkup();
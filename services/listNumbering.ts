@@ -0,0 +1,216 @@
+
+import JSZip from "jszip";
+import { runtime } from "./runtime";
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+export type ListFormat = 'decimal' | 'lower-alpha' | 'upper-alpha' | 'lower-roman' | 'upper-roman' | 'bullet';
+
+export interface ParsedLabel {
+  label: string;
+  /** The text after the label and its separating whitespace. */
+  rest: string;
+  format: ListFormat;
+  /** Nesting level implied by the label itself (1-based). */
+  level: number;
+}
+
+// Clause labels recognized at the start of a paragraph: "(a)", "(iv)", "a)", "1.", "1.2.3", "A.", "•"
+const LABEL_PATTERNS: { pattern: RegExp; kind: 'paren' | 'dotted' | 'letter' | 'bullet' }[] = [
+  { pattern: /^(\((\d{1,3}|[a-zA-Z]{1,2}|[ivxlcdm]{1,6}|[IVXLCDM]{1,6})\))\s+/, kind: 'paren' },
+  { pattern: /^((\d{1,3}|[a-z]|[ivxlcdm]{1,6})\))\s+/, kind: 'paren' },
+  { pattern: /^((\d{1,3}(?:\.\d{1,3})+)\.?|(\d{1,3})\.)\s+/, kind: 'dotted' },
+  { pattern: /^(([a-zA-Z]|[ivxlcdm]{2,6}|[IVXLCDM]{2,6})\.)\s+/, kind: 'letter' },
+  { pattern: /^([•◦▪‣–\-*])\s+/, kind: 'bullet' }
+];
+
+const ROMAN = /^[ivxlcdm]+$/i;
+
+// Alphabets used for lettered clauses, by target language
+const ALPHABETS: Record<string, string[]> = {
+  ru: 'абвгдежзиклмнопрстуфхцчшщэюя'.split(''),
+  ar: ['أ', 'ب', 'ج', 'د', 'هـ', 'و', 'ز', 'ح', 'ط', 'ي', 'ك', 'ل', 'م', 'ن', 'س', 'ع', 'ف', 'ص', 'ق', 'ر', 'ش', 'ت', 'ث', 'خ', 'ذ', 'ض', 'ظ', 'غ']
+};
+
+// Digits for languages whose legal texts number clauses in native digits
+const NUMBERING_SYSTEMS: Record<string, string> = { ar: 'arab', hi: 'deva', th: 'thai' };
+
+const toRoman = (n: number): string => {
+  const table: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+  let out = '';
+  for (const [value, numeral] of table) {
+    while (n >= value) { out += numeral; n -= value; }
+  }
+  return out;
+};
+
+const toAlpha = (n: number): string => {
+  let out = '';
+  while (n > 0) {
+    n--;
+    out = String.fromCharCode(97 + (n % 26)) + out;
+    n = Math.floor(n / 26);
+  }
+  return out;
+};
+
+/**
+ * Clause numbering for list items: recognizing labels typed into the text, reproducing Word's
+ * automatic numbering, and localizing labels for the target language.
+ */
+export class ListNumbering {
+  /**
+   * Splits a leading clause label off a paragraph. `previousLabel` disambiguates "(i)", which is
+   * the letter after "(h)" but a roman numeral anywhere else.
+   */
+  parseLabel(text: string, previousLabel?: string): ParsedLabel | null {
+    for (const { pattern, kind } of LABEL_PATTERNS) {
+      const match = text.match(pattern);
+      if (!match) continue;
+      const label = match[1];
+      const rest = text.slice(match[0].length);
+      if (!rest.trim()) return null;
+
+      if (kind === 'bullet') return { label: '•', rest, format: 'bullet', level: 1 };
+      if (kind === 'dotted') {
+        return { label, rest, format: 'decimal', level: label.replace(/\.$/, '').split('.').length };
+      }
+
+      const core = label.replace(/[().]/g, '');
+      if (/^\d+$/.test(core)) return { label, rest, format: 'decimal', level: 1 };
+      // A lone i, v or x continues a lettered list when the previous label was the letter before it
+      const previousCore = previousLabel?.replace(/[().]/g, '').toLowerCase();
+      const continuesLetters = core.length === 1 && previousCore?.length === 1
+        && previousCore.charCodeAt(0) === core.toLowerCase().charCodeAt(0) - 1;
+      if (ROMAN.test(core) && (core.length > 1 || (/[ivx]/i.test(core) && !continuesLetters))) {
+        return { label, rest, format: core === core.toLowerCase() ? 'lower-roman' : 'upper-roman', level: 3 };
+      }
+      return { label, rest, format: core === core.toLowerCase() ? 'lower-alpha' : 'upper-alpha', level: 2 };
+    }
+    return null;
+  }
+
+  /** Label for the `index`-th (1-based) item of an ordered list with no label of its own. */
+  defaultLabel(index: number, level: number, ordered: boolean): string {
+    if (!ordered) return '•';
+    switch ((level - 1) % 3) {
+      case 0: return `${index}.`;
+      case 1: return `(${toAlpha(index)})`;
+      default: return `(${toRoman(index)})`;
+    }
+  }
+
+  /**
+   * Rewrites a label in the target language's conventions: native digits where legal texts use
+   * them and the target alphabet for lettered clauses. Roman numerals and bullets are universal.
+   */
+  localize(label: string, targetLang: string): string {
+    const lang = targetLang.toLowerCase().split(/[-_]/)[0];
+    let localized = label;
+
+    const alphabet = ALPHABETS[lang];
+    if (alphabet) {
+      localized = localized.replace(/^(\(?)([a-z])([.)])$/i, (_, open, letter, close) => {
+        const native = alphabet[letter.toLowerCase().charCodeAt(0) - 97];
+        if (!native || (ROMAN.test(letter) && /[ivx]/i.test(letter))) return `${open}${letter}${close}`;
+        return `${open}${letter === letter.toUpperCase() ? native.toUpperCase() : native}${close}`;
+      });
+    }
+
+    const system = NUMBERING_SYSTEMS[lang];
+    if (system) {
+      try {
+        const format = new Intl.NumberFormat(`${lang}-u-nu-${system}`, { useGrouping: false });
+        localized = localized.replace(/\d+/g, digits => format.format(Number(digits)));
+      } catch { /* numbering system not supported by this runtime */ }
+    }
+    return localized;
+  }
+
+  /**
+   * Labels Word shows for automatically numbered paragraphs, in document order, each with the
+   * paragraph's text so callers can match them against parsed list items.
+   */
+  async readDocxLabels(data: ArrayBuffer): Promise<{ text: string; label: string; ordered: boolean; level: number }[]> {
+    const zip = await JSZip.loadAsync(data);
+    const documentXml = await zip.file('word/document.xml')?.async('string');
+    const numberingXml = await zip.file('word/numbering.xml')?.async('string');
+    if (!documentXml || !numberingXml) return [];
+
+    const parser = new runtime.DOMParser();
+    const numbering = parser.parseFromString(numberingXml, 'application/xml');
+    const attr = (el: Element | undefined, name: string) => el?.getAttributeNS(W_NS, name) ?? el?.getAttribute(`w:${name}`) ?? null;
+    const child = (el: Element, name: string) => Array.from(el.children).find(c => c.localName === name);
+
+    type Level = { numFmt: string; lvlText: string; start: number };
+    const abstracts = new Map<string, Map<number, Level>>();
+    Array.from(numbering.getElementsByTagNameNS(W_NS, 'abstractNum')).forEach(abstract => {
+      const levels = new Map<number, Level>();
+      Array.from(abstract.getElementsByTagNameNS(W_NS, 'lvl')).forEach(lvl => {
+        levels.set(Number(attr(lvl, 'ilvl')), {
+          numFmt: attr(child(lvl, 'numFmt'), 'val') || 'decimal',
+          lvlText: attr(child(lvl, 'lvlText'), 'val') ?? '',
+          start: Number(attr(child(lvl, 'start'), 'val') ?? 1)
+        });
+      });
+      abstracts.set(attr(abstract, 'abstractNumId')!, levels);
+    });
+
+    const nums = new Map<string, Map<number, Level>>();
+    Array.from(numbering.getElementsByTagNameNS(W_NS, 'num')).forEach(num => {
+      const levels = new Map(abstracts.get(attr(child(num, 'abstractNumId'), 'val')!) || []);
+      Array.from(num.getElementsByTagNameNS(W_NS, 'lvlOverride')).forEach(override => {
+        const ilvl = Number(attr(override, 'ilvl'));
+        const start = attr(child(override, 'startOverride'), 'val');
+        const level = levels.get(ilvl);
+        if (level && start !== null) levels.set(ilvl, { ...level, start: Number(start) });
+      });
+      nums.set(attr(num, 'numId')!, levels);
+    });
+
+    const formatCounter = (n: number, numFmt: string) => {
+      switch (numFmt) {
+        case 'lowerLetter': return toAlpha(n);
+        case 'upperLetter': return toAlpha(n).toUpperCase();
+        case 'lowerRoman': return toRoman(n);
+        case 'upperRoman': return toRoman(n).toUpperCase();
+        case 'decimalZero': return n < 10 ? `0${n}` : String(n);
+        default: return String(n);
+      }
+    };
+
+    const doc = parser.parseFromString(documentXml, 'application/xml');
+    const counters = new Map<string, number[]>();
+    const labels: { text: string; label: string; ordered: boolean; level: number }[] = [];
+
+    Array.from(doc.getElementsByTagNameNS(W_NS, 'p')).forEach(p => {
+      const numPr = p.getElementsByTagNameNS(W_NS, 'numPr')[0];
+      if (!numPr) return;
+      const numId = attr(child(numPr, 'numId'), 'val');
+      const ilvl = Number(attr(child(numPr, 'ilvl'), 'val') ?? 0);
+      const levels = numId ? nums.get(numId) : undefined;
+      const level = levels?.get(ilvl);
+      if (!numId || numId === '0' || !levels || !level) return;
+
+      const counts = counters.get(numId) || [];
+      counts[ilvl] = counts[ilvl] === undefined ? level.start : counts[ilvl] + 1;
+      counts.length = ilvl + 1;
+      counters.set(numId, counts);
+
+      const text = Array.from(p.getElementsByTagNameNS(W_NS, 't')).map(t => t.textContent || '').join('');
+      if (level.numFmt === 'bullet' || level.numFmt === 'none') {
+        labels.push({ text, label: '•', ordered: false, level: ilvl + 1 });
+        return;
+      }
+      const label = level.lvlText.replace(/%(\d)/g, (_, k) => {
+        const i = Number(k) - 1;
+        return formatCounter(counts[i] ?? levels.get(i)?.start ?? 1, levels.get(i)?.numFmt || 'decimal');
+      });
+      labels.push({ text, label, ordered: true, level: ilvl + 1 });
+    });
+
+    return labels;
+  }
+}
+
+export const listNumbering = new ListNumbering();
@@ -0,0 +1,242 @@
+
+import { DocumentChunk, InlineRun } from "../types";
+import { DocumentFormat, base64ToBytes, chunkRuns, outputText } from "./documentFormat";
+import { inlineMarkup } from "./inlineMarkup";
+
+type Format = Omit<InlineRun, 'text'>;
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const SETEXT = /^ {0,3}(=+|-+)\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^(\s*(?:>\s?)+)/;
+// Lines left exactly as they are: raw HTML blocks and link reference definitions
+const PASSTHROUGH = /^ {0,3}(<[a-zA-Z/!]|\[[^\]]+\]:\s)/;
+// Bold, italic, links and code spans, in that order of precedence
+const INLINE = /(\*\*|__)(?=\S)(.+?)(?<=\S)\1|(?<![\w*])\*(?=\S)(.+?)(?<=\S)\*(?!\*)|(?<![\w_])_(?=\S)(.+?)(?<=\S)_(?![\w_])|\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)|`([^`]+)`/g;
+
+const splitRow = (line: string) => line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim());
+const unescape = (text: string) => text.replace(/\\([\\`*_{}[\]()#+\-.!|>])/g, '$1');
+
+/**
+ * Markdown notices and READMEs. Headings, paragraphs, list items, blockquotes and table cells
+ * become chunks that remember the lines they came from; everything else (code, rules, raw HTML)
+ * is written back untouched, so the output differs from the source only in translated text.
+ */
+export class MarkdownFormat implements DocumentFormat {
+  readonly id = 'markdown';
+  readonly name = 'Markdown';
+  readonly extensions = ['md', 'markdown'];
+  readonly mimeTypes = ['text/markdown', 'text/x-markdown'];
+
+  async parse(file: File): Promise<DocumentChunk[]> {
+    const lines = (await file.text()).split(/\r?\n/);
+    const chunks: DocumentChunk[] = [];
+    const listIndents: number[] = [];
+    let tables = 0;
+    let i = 0;
+
+    const push = (type: DocumentChunk['type'], text: string, start: number, end: number, metadata: DocumentChunk['metadata'] = {}) => {
+      const { plain, runs, base } = this.readInline(text);
+      chunks.push({
+        id: `md-${type === 'heading' ? 'h' : type === 'list-item' ? 'li' : 'p'}-${chunks.length}`,
+        type,
+        originalText: plain,
+        runs,
+        metadata: { isBold: !!base.bold, isItalic: !!base.italic, locked: !!base.code || undefined, ...metadata, sourceRef: `${start}:${end}` }
+      });
+    };
+
+    // Front matter is metadata, not prose
+    if (lines[0]?.trim() === '---') {
+      const close = lines.findIndex((line, n) => n > 0 && line.trim() === '---');
+      if (close > 0) i = close + 1;
+    }
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (!line.trim()) {
+        chunks.push({ id: `md-e-${chunks.length}`, type: 'empty-line', originalText: "" });
+        listIndents.length = 0;
+        i++;
+        continue;
+      }
+
+      const fence = line.match(FENCE);
+      if (fence) {
+        const close = lines.findIndex((l, n) => n > i && l.trim().startsWith(fence[1]));
+        i = close < 0 ? lines.length : close + 1;
+        continue;
+      }
+      if (RULE.test(line) || PASSTHROUGH.test(line) || (/^( {4}|\t)/.test(line) && listIndents.length === 0)) {
+        i++;
+        continue;
+      }
+
+      const heading = line.match(HEADING);
+      if (heading) {
+        push('heading', heading[2], i, i + 1, { level: heading[1].length });
+        i++;
+        continue;
+      }
+
+      if (line.includes('|') && TABLE_SEPARATOR.test(lines[i + 1] || '') && lines[i + 1].includes('-')) {
+        const tableId = `md-t-${tables++}`;
+        const alignments = splitRow(lines[i + 1]).map(cell =>
+          cell.startsWith(':') && cell.endsWith(':') ? 'center' as const : cell.endsWith(':') ? 'right' as const : 'left' as const);
+        const start = i;
+        let row = 0;
+        for (let n = start; n < lines.length && lines[n].includes('|') && lines[n].trim(); n++) {
+          i = n + 1;
+          if (n === start + 1) continue;
+          splitRow(lines[n]).forEach((cell, col) => {
+            const { plain, runs, base } = this.readInline(cell);
+            chunks.push({
+              id: `md-td-${chunks.length}`,
+              type: 'table-cell',
+              originalText: plain,
+              runs,
+              metadata: { isBold: !!base.bold, isItalic: !!base.italic, locked: !!base.code || undefined, alignment: alignments[col] || 'left', tableId, row, col, sourceRef: `${n}:${col}` }
+            });
+          });
+          row++;
+        }
+        continue;
+      }
+
+      const item = line.match(LIST_ITEM);
+      if (item) {
+        const indent = item[1].replace(/\t/g, '    ').length;
+        while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) listIndents.pop();
+        if (listIndents[listIndents.length - 1] !== indent) listIndents.push(indent);
+
+        // Continuation lines are indented past the marker
+        let end = i + 1;
+        while (end < lines.length && lines[end].trim() && /^\s+/.test(lines[end]) && !LIST_ITEM.test(lines[end])) end++;
+        const text = [item[3], ...lines.slice(i + 1, end).map(l => l.trim())].join(' ');
+        const ordered = /\d/.test(item[2]);
+        const checkbox = text.match(/^\[([ xX])\]\s+/);
+
+        push(checkbox ? 'checkbox' : 'list-item', checkbox ? text.slice(checkbox[0].length) : text, i, end, {
+          level: listIndents.length,
+          listType: ordered ? 'ordered' : 'bullet',
+          listLabel: ordered ? item[2] : '•',
+          isCheckbox: !!checkbox || undefined,
+          isChecked: checkbox ? checkbox[1] !== ' ' : undefined
+        });
+        i = end;
+        continue;
+      }
+
+      // A paragraph runs to the next blank line or block; "===" or "---" under it makes it a heading
+      const quote = line.match(QUOTE)?.[1];
+      let end = i + 1;
+      while (end < lines.length && lines[end].trim()
+        && !HEADING.test(lines[end]) && !LIST_ITEM.test(lines[end]) && !FENCE.test(lines[end]) && !PASSTHROUGH.test(lines[end])
+        && !SETEXT.test(lines[end]) && !RULE.test(lines[end]) && !!lines[end].match(QUOTE) === !!quote) end++;
+      const text = lines.slice(i, end).map(l => l.replace(QUOTE, '').trim()).join(' ');
+
+      if (!quote && end < lines.length && SETEXT.test(lines[end])) {
+        push('heading', text, i, end + 1, { level: lines[end].trim().startsWith('=') ? 1 : 2 });
+        i = end + 1;
+      } else {
+        push('paragraph', text, i, end);
+        i = end;
+      }
+    }
+    return chunks;
+  }
+
+  async write(chunks: DocumentChunk[], original: string): Promise<Blob> {
+    const source = new TextDecoder().decode(base64ToBytes(original));
+    const newline = source.includes('\r\n') ? '\r\n' : '\n';
+    const lines = source.split(/\r?\n/);
+    const replacements = new Map<number, { end: number; text: string }>();
+    const rows = new Map<number, Map<number, string>>();
+
+    chunks.forEach(chunk => {
+      const ref = chunk.metadata?.sourceRef;
+      // Chunks that are all code are left exactly as written
+      if (!ref || !chunk.translatedText || chunk.metadata?.locked) return;
+      const [a, b] = ref.split(':').map(Number);
+      // Formatting shared by the whole chunk lives in its flags rather than its runs
+      const text = this.writeInline(chunk.translatedRuns || [{ text: outputText(chunk), bold: chunk.metadata?.isBold, italic: chunk.metadata?.isItalic }]);
+
+      if (chunk.type === 'table-cell') {
+        rows.set(a, (rows.get(a) || new Map()).set(b, text.replace(/\|/g, '\\|')));
+        return;
+      }
+      const first = lines[a];
+      let prefix = '';
+      if (chunk.type === 'heading') prefix = `${'#'.repeat(chunk.metadata?.level || 1)} `;
+      else if (chunk.type === 'list-item' || chunk.type === 'checkbox') {
+        const [, indent, marker] = first.match(LIST_ITEM) || [, '', '-'];
+        const label = chunk.type === 'list-item' && chunk.metadata?.listType === 'ordered' ? chunk.translatedListLabel ?? marker : marker;
+        const box = chunk.type === 'checkbox' ? `[${chunk.metadata?.isChecked ? 'x' : ' '}] ` : '';
+        prefix = `${indent}${label} ${box}`;
+      } else {
+        prefix = first.match(QUOTE)?.[1] || '';
+      }
+      replacements.set(a, { end: b, text: prefix + text });
+    });
+
+    rows.forEach((cells, n) => {
+      const original = splitRow(lines[n]);
+      const indent = lines[n].match(/^\s*/)![0];
+      replacements.set(n, { end: n + 1, text: `${indent}| ${original.map((cell, col) => cells.get(col) ?? cell).join(' | ')} |` });
+    });
+
+    const output: string[] = [];
+    for (let n = 0; n < lines.length;) {
+      const replacement = replacements.get(n);
+      if (replacement) {
+        output.push(replacement.text);
+        n = replacement.end;
+      } else {
+        output.push(lines[n]);
+        n++;
+      }
+    }
+    return new Blob([output.join(newline)], { type: 'text/markdown;charset=utf-8' });
+  }
+
+  /** Plain text and formatting runs of a line of Markdown. */
+  private readInline(markdown: string): { plain: string; runs?: InlineRun[]; base: Format } {
+    const collect = (text: string, format: Format): InlineRun[] => {
+      const runs: InlineRun[] = [];
+      let last = 0;
+      for (const match of text.matchAll(INLINE)) {
+        runs.push({ ...format, text: unescape(text.slice(last, match.index)) });
+        last = match.index! + match[0].length;
+        if (match[2] !== undefined) runs.push(...collect(match[2], { ...format, bold: true }));
+        else if (match[3] !== undefined || match[4] !== undefined) runs.push(...collect(match[3] ?? match[4], { ...format, italic: true }));
+        else if (match[5] !== undefined) runs.push(...collect(match[5], { ...format, href: match[6] }));
+        else runs.push({ ...format, text: match[7], code: true });
+      }
+      runs.push({ ...format, text: unescape(text.slice(last)) });
+      return runs;
+    };
+    const runs = inlineMarkup.normalize(collect(markdown.trim(), {}));
+    return {
+      plain: inlineMarkup.toPlain(runs),
+      runs: chunkRuns(runs),
+      base: inlineMarkup.baseFormat(runs)
+    };
+  }
+
+  /** Runs back to Markdown; spaces at a run's edges go outside its markers. Code spans keep theirs. */
+  private writeInline(runs: InlineRun[]): string {
+    return runs.map(run => {
+      const [, lead, core, trail] = run.code ? ['', '', `\`${run.text}\``, ''] : run.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      if (!core) return run.text;
+      let text = run.code ? core : core.replace(/\n/g, ' ');
+      if (run.italic) text = `*${text}*`;
+      if (run.bold) text = `**${text}**`;
+      if (run.href) text = `[${text}](${run.href})`;
+      return lead + text + trail;
+    }).join('');
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { DocumentChunk, GlossaryItem } from "../types";
+import { ENGINES } from "../constants";
+import { MockTranslationProvider } from "./mockProvider";
+import { profileService } from "./profileService";
+import { qaService } from "./qaService";
+
+const SOURCES = [
+  "The Lessee shall pay 1,500 USD on January 5, 2024 under Section 4.2(a).",
+  "A deposit of $2,000 is held by the LESSOR in EUR and GBP accounts.",
+  "<b>Term</b>: {{months}} months, subject to the NDA and § 12."
+];
+
+const GLOSSARY: GlossaryItem[] = [{ id: 'g1', original: 'Lessee', target: 'Arrendatario' }];
+
+describe("MockTranslationProvider", () => {
+  it("produces output that passes the QA checks", async () => {
+    const provider = new MockTranslationProvider(0);
+    const profile = profileService.get('legal');
+    const segments = await provider.translateBatch(SOURCES.map((text, i) => ({ id: `c${i}`, text })), {
+      sourceLang: 'en',
+      targetLang: 'es',
+      tone: 'legal',
+      profile,
+      engine: ENGINES.MOCK,
+      abstract: '',
+      useGrounding: false,
+      glossary: GLOSSARY
+    });
+
+    const chunks: DocumentChunk[] = SOURCES.map((originalText, i) => ({
+      id: `c${i}`,
+      type: 'paragraph',
+      originalText,
+      translatedText: segments.find(s => s.id === `c${i}`)!.text
+    }));
+    expect(qaService.run(chunks, GLOSSARY, profile.qaRules)).toEqual([]);
+  });
+
+  it("keeps dates intact when they are the only figures", async () => {
+    const provider = new MockTranslationProvider(0);
+    const profile = profileService.get('legal');
+    const originalText = "Rent is due on March 1, 2025.";
+    const [segment] = await provider.translateBatch([{ id: 'c0', text: originalText }], {
+      sourceLang: 'en',
+      targetLang: 'es',
+      tone: 'legal',
+      profile,
+      engine: ENGINES.MOCK,
+      abstract: '',
+      useGrounding: false,
+      glossary: []
+    });
+
+    expect(segment.text).toBe("[es] Réñt ís dúé óñ March 1, 2025.");
+    expect(qaService.run([{ id: 'c0', type: 'paragraph', originalText, translatedText: segment.text }], [], profile.qaRules)).toEqual([]);
+  });
+
+  it("keeps all-caps codes and acronyms unaccented", async () => {
+    const provider = new MockTranslationProvider(0);
+    const [segment] = await provider.translateBatch([{ id: 'c0', text: "Pay 10 USD per NDA" }], {
+      sourceLang: 'en',
+      targetLang: 'fr',
+      tone: 'legal',
+      profile: profileService.get('legal'),
+      engine: ENGINES.MOCK,
+      abstract: '',
+      useGrounding: false,
+      glossary: []
+    });
+    expect(segment.text).toBe("[fr] Páý 10 USD pér NDA");
+  });
+});
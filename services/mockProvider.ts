@@ -0,0 +1,95 @@
+
+import { ENGINES } from "../constants";
+import { glossaryService } from "./glossaryService";
+import { BatchRequest, ProviderCapabilities, TranslationProvider, TranslationSegment } from "./translationProvider";
+
+const ACCENTS: Record<string, string> = {
+  a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú', c: 'ç', n: 'ñ', y: 'ý',
+  A: 'Á', E: 'É', I: 'Í', O: 'Ó', U: 'Ú', C: 'Ç', N: 'Ñ', Y: 'Ý'
+};
+
+const MONTHS = 'January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept?|Oct|Nov|Dec';
+
+// Markup, placeholders, all-caps tokens (currency codes, acronyms), month names and clause labels
+// such as "(a)" pass through untouched so downstream checks see them intact
+const PROTECTED = new RegExp(`(<[^>]+>|\\{\\{[^}]*\\}\\}|\\b[A-Z]{2,}\\b|\\b(?:${MONTHS})\\b|\\([A-Za-z0-9]{1,4}\\))`);
+
+/**
+ * Deterministic offline provider for development and automated runs. "Translates" by
+ * pseudo-localizing letters while keeping digits, dates, markup, all-caps codes and glossary
+ * targets exact, so the whole pipeline can be exercised without an API key.
+ */
+export class MockTranslationProvider implements TranslationProvider {
+  readonly id = 'mock';
+  readonly name = 'Offline Pseudo-Localizer';
+  readonly engines = [ENGINES.MOCK];
+  readonly capabilities: ProviderCapabilities = {
+    grounding: false,
+    languageDetection: true,
+    requiresApiKey: false,
+    memoryWritable: false
+  };
+
+  constructor(private latencyMs: number = 150) {}
+
+  batchSize(): number {
+    return 12;
+  }
+
+  async translateBatch(segments: TranslationSegment[], request: BatchRequest): Promise<TranslationSegment[]> {
+    await this.delay(request.signal);
+    return segments.map(segment => ({
+      id: segment.id,
+      text: this.pseudoLocalize(segment.text, request)
+    }));
+  }
+
+  /**
+   * Script-based guess that is good enough to route offline runs; Latin text reports English.
+   */
+  async detectLanguage(sample: string): Promise<string> {
+    if (/[぀-ヿ]/.test(sample)) return 'ja';
+    if (/[가-힯]/.test(sample)) return 'ko';
+    if (/[一-鿿]/.test(sample)) return 'zh';
+    if (/[؀-ۿ]/.test(sample)) return 'ar';
+    if (/[ऀ-ॿ]/.test(sample)) return 'hi';
+    if (/[฀-๿]/.test(sample)) return 'th';
+    if (/[Ѐ-ӿ]/.test(sample)) return 'ru';
+    return 'en';
+  }
+
+  private pseudoLocalize(text: string, request: BatchRequest): string {
+    // Swap glossary terms for placeholders first so their targets come out verbatim
+    const terms = [...request.glossary].sort((a, b) => b.original.length - a.original.length);
+    let working = text;
+    terms.forEach((term, i) => {
+      if (!term.original.trim()) return;
+      working = working.replace(glossaryService.termPattern(term), `{{g${i}}}`);
+    });
+
+    const localized = working
+      .split(PROTECTED)
+      .map((part, i) => (i % 2 === 1 ? part : part.replace(/[A-Za-z]/g, ch => ACCENTS[ch] || ch)))
+      .join('')
+      .replace(/\{\{g(\d+)\}\}/g, (_, i) => terms[Number(i)].target);
+
+    return `[${request.targetLang}] ${localized}`;
+  }
+
+  private delay(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(new Error("Translation cancelled."));
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, this.latencyMs);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error("Translation cancelled."));
+      };
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+}
+
+export const mockProvider = new MockTranslationProvider();
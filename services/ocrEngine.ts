@@ -0,0 +1,36 @@
+
+/** A rasterized page or photo handed to an OCR engine. */
+export interface OcrImage {
+  /** Base64 image data without the data-URL prefix. */
+  data: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/** A recognized line in image pixels (origin at the top-left of the image). */
+export interface OcrLine {
+  text: string;
+  bbox: { x: number; y: number; width: number; height: number };
+  /** 0–1, when the engine reports it. */
+  confidence?: number;
+}
+
+export interface OcrOptions {
+  /** ISO 639-1 codes of the languages expected on the page; empty or 'auto' means unknown. */
+  languages: string[];
+  signal?: AbortSignal;
+}
+
+/**
+ * A text recognizer. Engines that run entirely in the browser (e.g. a self-hosted Tesseract
+ * build) report `offline` so scanned documents can be processed without network access.
+ */
+export interface OcrEngine {
+  readonly id: string;
+  readonly name: string;
+  readonly offline: boolean;
+  /** False while the engine's scripts or credentials are missing. */
+  isAvailable(): boolean;
+  recognize(image: OcrImage, options: OcrOptions): Promise<OcrLine[]>;
+}
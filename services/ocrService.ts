@@ -0,0 +1,81 @@
+
+import { DocumentChunk } from "../types";
+import { GeminiOcrEngine } from "./geminiOcr";
+import { OcrEngine, OcrImage, OcrOptions } from "./ocrEngine";
+import { TesseractOcrEngine } from "./tesseractOcr";
+
+/** How an OCR'd image maps onto the page it came from. */
+export interface OcrPlacement {
+  page: number;
+  /** Image pixels per page unit (the render scale for PDF pages, 1 for photos). */
+  scale: number;
+  /** Page height in page units, used to flip the top-left image origin to the bottom-left PDF origin. */
+  pageHeight: number;
+}
+
+/**
+ * Keeps the registered OCR engines and turns recognized lines into document chunks.
+ * Offline engines are preferred over cloud ones when both are available.
+ */
+export class OcrService {
+  private engines: OcrEngine[] = [];
+  private preferredId: string | null = null;
+
+  constructor(engines: OcrEngine[] = []) {
+    engines.forEach(engine => this.register(engine));
+  }
+
+  register(engine: OcrEngine) {
+    this.engines = [...this.engines.filter(e => e.id !== engine.id), engine];
+  }
+
+  listEngines(): OcrEngine[] {
+    return this.engines;
+  }
+
+  /** Pins an engine by id; pass null to go back to automatic selection. */
+  setPreferred(id: string | null) {
+    this.preferredId = id;
+  }
+
+  getEngine(): OcrEngine | undefined {
+    const available = this.engines.filter(e => e.isAvailable());
+    return available.find(e => e.id === this.preferredId)
+      || available.find(e => e.offline)
+      || available[0];
+  }
+
+  isAvailable(): boolean {
+    return !!this.getEngine();
+  }
+
+  async recognize(image: OcrImage, placement: OcrPlacement, options: OcrOptions, idOffset: number): Promise<DocumentChunk[]> {
+    const engine = this.getEngine();
+    if (!engine) {
+      throw new Error("No OCR engine is available. Load the local Tesseract engine or configure an API key.");
+    }
+
+    const lines = await engine.recognize(image, options);
+    const { page, scale, pageHeight } = placement;
+
+    return lines.map((line, i) => {
+      const width = line.bbox.width / scale;
+      const height = line.bbox.height / scale;
+      return {
+        id: `ocr-p-${idOffset + i}`,
+        type: 'paragraph',
+        originalText: line.text,
+        metadata: {
+          alignment: 'left',
+          page,
+          bbox: { x: line.bbox.x / scale, y: pageHeight - (line.bbox.y / scale) - height, width, height },
+          // Line boxes include ascenders and descenders, roughly 1.25× the font size
+          fontSize: `${Math.round((height / 1.25) * 10) / 10}pt`,
+          ocrConfidence: line.confidence
+        }
+      };
+    });
+  }
+}
+
+export const ocrService = new OcrService([new TesseractOcrEngine(), new GeminiOcrEngine()]);
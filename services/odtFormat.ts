@@ -0,0 +1,424 @@
+
+import JSZip from "jszip";
+import { DocumentChunk, InlineRun } from "../types";
+import { DocumentFormat, chunkRuns, outputText } from "./documentFormat";
+import { inlineMarkup } from "./inlineMarkup";
+import { listNumbering } from "./listNumbering";
+import { runtime } from "./runtime";
+
+type Format = Omit<InlineRun, 'text'>;
+
+const OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+const TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const STYLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:style:1.0';
+const FO_NS = 'urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const ODT_MIME = 'application/vnd.oasis.opendocument.text';
+
+// Inline content that is not part of the sentence: footnotes, frames, comments and change marks
+const SKIP_INLINE = new Set(['note', 'frame', 'annotation', 'annotation-end', 'tracked-changes', 'bookmark', 'bookmark-start', 'bookmark-end', 'soft-page-break', 'reference-mark', 'change', 'change-start', 'change-end']);
+// Inline elements the writer replaces with the translation
+const TEXT_CONTENT = new Set(['span', 'a', 's', 'tab', 'line-break', 'soft-page-break']);
+
+/** A paragraph or heading, a table cell's paragraphs, or an empty paragraph. */
+type Target =
+  | { kind: 'block'; el: Element }
+  | { kind: 'cell'; el: Element; paragraphs: Element[] }
+  | { kind: 'empty' };
+
+const is = (node: Node, ns: string, localName: string): boolean =>
+  node.nodeType === node.ELEMENT_NODE && (node as Element).namespaceURI === ns && (node as Element).localName === localName;
+const childrenOf = (el: Element, ns: string, localName: string) => Array.from(el.children).filter(c => is(c, ns, localName));
+const attr = (el: Element, ns: string, localName: string) => el.getAttributeNS(ns, localName);
+
+/**
+ * OpenDocument text (LibreOffice, Google Docs exports). Paragraphs, headings, nested lists and
+ * table cells are read from content.xml with the bold, italic, underline and superscript of their
+ * automatic styles. The writer patches content.xml in place, so page styles, images and fields
+ * are kept, and sets the document language.
+ */
+export class OdtFormat implements DocumentFormat {
+  readonly id = 'odt';
+  readonly name = 'OpenDocument';
+  readonly extensions = ['odt'];
+  readonly mimeTypes = [ODT_MIME];
+
+  async parse(file: File): Promise<DocumentChunk[]> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch {
+      throw new Error("OpenDocument extraction failed. The file might be corrupted or protected.");
+    }
+    const { content, styles } = await this.readPackage(zip);
+    const formats = this.styleFormats(content, styles);
+    const tableIds = new Map<Element, string>();
+    const cellIds = new Map<Element, string>();
+    const chunks: DocumentChunk[] = [];
+
+    this.targets(content).forEach((target, t) => {
+      if (target.kind === 'empty') {
+        chunks.push({ id: `odt-e-${chunks.length}`, type: 'empty-line', originalText: "" });
+        return;
+      }
+      const runs = target.kind === 'cell'
+        ? inlineMarkup.normalize(target.paragraphs.flatMap((p, i) => [...(i > 0 ? [{ text: '\n' }] : []), ...this.readRuns(p, formats)]))
+        : this.readRuns(target.el, formats);
+      const text = inlineMarkup.toPlain(runs);
+      const base = inlineMarkup.baseFormat(runs);
+      const common = { originalText: text, runs: chunkRuns(runs) };
+      const metadata = { isBold: !!base.bold, isItalic: !!base.italic, isUnderlined: !!base.underline, sourceRef: String(t) };
+
+      if (target.kind === 'cell') {
+        const table = this.ancestor(target.el, TABLE_NS, 'table')!;
+        if (!tableIds.has(table)) tableIds.set(table, `odt-t-${tableIds.size}`);
+        const rows = Array.from(table.getElementsByTagNameNS(TABLE_NS, 'table-row')).filter(r => this.ancestor(r, TABLE_NS, 'table') === table);
+        const row = target.el.parentElement!;
+        let col = 0;
+        for (const cell of Array.from(row.children)) {
+          if (cell === target.el) break;
+          col += Number(attr(cell, TABLE_NS, 'number-columns-repeated')) || 1;
+        }
+        const rowSpan = Number(attr(target.el, TABLE_NS, 'number-rows-spanned')) || 1;
+        const colSpan = Number(attr(target.el, TABLE_NS, 'number-columns-spanned')) || 1;
+        const parentCell = this.ancestor(table, TABLE_NS, 'table-cell');
+        const id = `odt-td-${chunks.length}`;
+        cellIds.set(target.el, id);
+        chunks.push({
+          id,
+          type: 'table-cell',
+          ...common,
+          metadata: {
+            ...metadata,
+            alignment: this.alignmentOf(target.paragraphs[0], content, styles),
+            tableId: tableIds.get(table),
+            parentCellId: parentCell ? cellIds.get(parentCell) : undefined,
+            row: rows.indexOf(row),
+            col,
+            rowSpan: rowSpan > 1 ? rowSpan : undefined,
+            colSpan: colSpan > 1 ? colSpan : undefined
+          }
+        });
+        return;
+      }
+
+      const el = target.el;
+      const alignment = this.alignmentOf(el, content, styles);
+      const item = this.ancestor(el, TEXT_NS, 'list-item');
+      if (is(el, TEXT_NS, 'h')) {
+        chunks.push({ id: `odt-h-${chunks.length}`, type: 'heading', ...common, metadata: { ...metadata, alignment, level: Number(attr(el, TEXT_NS, 'outline-level')) || 1 } });
+      } else if (item && childrenOf(item, TEXT_NS, 'p').concat(childrenOf(item, TEXT_NS, 'h'))[0] === el) {
+        const list = item.parentElement!;
+        const level = this.ancestors(el).filter(a => is(a, TEXT_NS, 'list')).length;
+        const ordered = this.isOrdered(list, level, content, styles);
+        const index = childrenOf(list, TEXT_NS, 'list-item').indexOf(item) + (Number(attr(item, TEXT_NS, 'start-value')) || 1);
+        chunks.push({
+          id: `odt-li-${chunks.length}`,
+          type: 'list-item',
+          ...common,
+          metadata: { ...metadata, alignment, level, listType: ordered ? 'ordered' : 'bullet', listLabel: listNumbering.defaultLabel(index, ordered ? 1 : level, ordered) }
+        });
+      } else {
+        chunks.push({ id: `odt-p-${chunks.length}`, type: 'paragraph', ...common, metadata: { ...metadata, alignment } });
+      }
+    });
+    return chunks;
+  }
+
+  async write(chunks: DocumentChunk[], original: string, targetLang: string): Promise<Blob> {
+    const zip = await JSZip.loadAsync(original, { base64: true });
+    const { content, styles, meta } = await this.readPackage(zip);
+    const bySource = new Map(chunks.filter(c => c.metadata?.sourceRef && c.translatedText && !c.metadata.locked).map(c => [c.metadata!.sourceRef!, c]));
+    const spanStyles = new Map<string, string>();
+
+    this.targets(content).forEach((target, t) => {
+      const chunk = bySource.get(String(t));
+      if (!chunk || target.kind === 'empty') return;
+      const meta = chunk.metadata!;
+      const runs = chunk.translatedRuns || [{ text: outputText(chunk), bold: meta.isBold, italic: meta.isItalic, underline: meta.isUnderlined }];
+
+      if (target.kind === 'block') {
+        this.writeParagraph(target.el, runs, !chunk.translatedRuns && !outputText(chunk).includes('\n'), spanStyles);
+        return;
+      }
+      // A cell's lines go back into its paragraphs; extra lines stay in the last one as line breaks
+      const lines = this.splitLines(runs);
+      target.paragraphs.forEach((p, i) => {
+        const last = i === target.paragraphs.length - 1;
+        const part = last ? lines.slice(i).flatMap((line, n) => (n > 0 ? [{ text: '\n' }, ...line] : line)) : lines[i];
+        if (part && part.length > 0) this.writeParagraph(p, part, !chunk.translatedRuns && lines.length === 1, spanStyles);
+        else if (i > 0) p.parentElement!.removeChild(p);
+      });
+    });
+
+    this.setLanguage(styles, meta, targetLang);
+    zip.file('content.xml', new runtime.XMLSerializer().serializeToString(content));
+    if (styles) zip.file('styles.xml', new runtime.XMLSerializer().serializeToString(styles));
+    if (meta) zip.file('meta.xml', new runtime.XMLSerializer().serializeToString(meta));
+    return zip.generateAsync({ type: 'blob', mimeType: ODT_MIME });
+  }
+
+  private async readPackage(zip: JSZip): Promise<{ content: Document; styles: Document | null; meta: Document | null }> {
+    const parser = new runtime.DOMParser();
+    const read = async (path: string) => {
+      const xml = await zip.file(path)?.async('string');
+      return xml ? parser.parseFromString(xml, 'application/xml') : null;
+    };
+    const content = await read('content.xml');
+    if (!content) throw new Error("This file is not an OpenDocument text document.");
+    return { content, styles: await read('styles.xml'), meta: await read('meta.xml') };
+  }
+
+  /**
+   * Text targets in document order. The parser and the writer both use this walk, so a chunk's
+   * index (its `sourceRef`) finds the same elements again.
+   */
+  private targets(content: Document): Target[] {
+    const targets: Target[] = [];
+    const walk = (el: Element) => {
+      Array.from(el.children).forEach(child => {
+        if (is(child, TEXT_NS, 'p') || is(child, TEXT_NS, 'h')) {
+          if (!child.textContent!.trim() && childrenOf(child, TEXT_NS, 's').length === 0) {
+            if (!this.ancestor(child, TEXT_NS, 'list')) targets.push({ kind: 'empty' });
+          } else {
+            targets.push({ kind: 'block', el: child });
+          }
+        } else if (is(child, TABLE_NS, 'table-cell')) {
+          const paragraphs = Array.from(child.children).filter(c => is(c, TEXT_NS, 'p') || is(c, TEXT_NS, 'h'));
+          if (paragraphs.some(p => p.textContent!.trim())) {
+            targets.push({ kind: 'cell', el: child, paragraphs });
+          }
+          // Lists and nested tables inside the cell are targets of their own
+          Array.from(child.children).filter(c => !paragraphs.includes(c)).forEach(c => walk(c));
+        } else if (!is(child, TEXT_NS, 'tracked-changes') && !is(child, OFFICE_NS, 'annotation') && !is(child, TABLE_NS, 'covered-table-cell')) {
+          walk(child);
+        }
+      });
+    };
+    const body = content.getElementsByTagNameNS(OFFICE_NS, 'text')[0];
+    if (body) walk(body);
+    return targets;
+  }
+
+  /** Bold, italic, underline and superscript of every named style, following parent styles. */
+  private styleFormats(content: Document, styles: Document | null): Map<string, Format> {
+    const elements = new Map<string, Element>();
+    [styles, content].forEach(doc => {
+      if (!doc) return;
+      Array.from(doc.getElementsByTagNameNS(STYLE_NS, 'style')).forEach(s => elements.set(attr(s, STYLE_NS, 'name') || '', s));
+    });
+    const formats = new Map<string, Format>();
+    const resolve = (name: string, depth = 0): Format => {
+      if (formats.has(name)) return formats.get(name)!;
+      const style = elements.get(name);
+      if (!style || depth > 10) return {};
+      const parent = attr(style, STYLE_NS, 'parent-style-name');
+      const format: Format = { ...(parent ? resolve(parent, depth + 1) : {}) };
+      const props = childrenOf(style, STYLE_NS, 'text-properties')[0];
+      if (props) {
+        const weight = attr(props, FO_NS, 'font-weight');
+        const fontStyle = attr(props, FO_NS, 'font-style');
+        const underline = attr(props, STYLE_NS, 'text-underline-style');
+        const position = attr(props, STYLE_NS, 'text-position');
+        if (weight) format.bold = weight === 'bold' || Number(weight) >= 600 || undefined;
+        if (fontStyle) format.italic = fontStyle === 'italic' || fontStyle === 'oblique' || undefined;
+        if (underline) format.underline = underline !== 'none' || undefined;
+        if (position) format.superscript = position.startsWith('super') || /^[1-9]/.test(position) || undefined;
+      }
+      formats.set(name, format);
+      return format;
+    };
+    elements.forEach((_, name) => resolve(name));
+    return formats;
+  }
+
+  private readRuns(paragraph: Element, formats: Map<string, Format>): InlineRun[] {
+    const runs: InlineRun[] = [];
+    const styleOf = (el: Element) => formats.get(attr(el, TEXT_NS, 'style-name') || '') || {};
+    const visit = (node: Node, format: Format) => {
+      if (node.nodeType === node.TEXT_NODE) {
+        runs.push({ ...format, text: node.textContent!.replace(/\s+/g, ' ') });
+        return;
+      }
+      if (node.nodeType !== node.ELEMENT_NODE) return;
+      const el = node as Element;
+      if (SKIP_INLINE.has(el.localName)) return;
+      if (el.namespaceURI !== TEXT_NS) {
+        el.childNodes.forEach(child => visit(child, format));
+        return;
+      }
+      if (el.localName === 's') runs.push({ ...format, text: ' '.repeat(Number(attr(el, TEXT_NS, 'c')) || 1) });
+      else if (el.localName === 'tab') runs.push({ ...format, text: ' ' });
+      else if (el.localName === 'line-break') runs.push({ ...format, href: undefined, text: '\n' });
+      else {
+        const next = { ...format, ...styleOf(el) };
+        const href = el.localName === 'a' ? el.getAttributeNS(XLINK_NS, 'href') : null;
+        if (href && !href.startsWith('#')) next.href = href;
+        el.childNodes.forEach(child => visit(child, next));
+      }
+    };
+    paragraph.childNodes.forEach(child => visit(child, styleOf(paragraph)));
+
+    const collapsed = inlineMarkup.normalize(runs.map(r => ({ ...r, text: r.text.replace(/ ?\n ?/g, '\n') })));
+    if (collapsed.length > 0) {
+      collapsed[0].text = collapsed[0].text.replace(/^\s+/, '');
+      collapsed[collapsed.length - 1].text = collapsed[collapsed.length - 1].text.replace(/\s+$/, '');
+    }
+    return inlineMarkup.normalize(collapsed);
+  }
+
+  /**
+   * Replaces a paragraph's text. Plain text in a single text node is swapped in place; anything
+   * else is rebuilt from the runs, with automatic text styles for their formatting. Frames,
+   * footnotes and bookmarks stay where they were.
+   */
+  private writeParagraph(paragraph: Element, runs: InlineRun[], plain: boolean, spanStyles: Map<string, string>) {
+    const textNodes: Node[] = [];
+    const collect = (node: Node) => {
+      if (node.nodeType === node.TEXT_NODE) {
+        if (node.textContent!.trim()) textNodes.push(node);
+      } else if (is(node, TEXT_NS, 'span') || is(node, TEXT_NS, 'a')) {
+        node.childNodes.forEach(collect);
+      }
+    };
+    paragraph.childNodes.forEach(collect);
+    const text = inlineMarkup.toPlain(runs);
+
+    if (plain && textNodes.length === 1 && !/ {2}|\t/.test(text)) {
+      const [, lead, , trail] = textNodes[0].textContent!.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+      textNodes[0].textContent = lead + text + trail;
+      return;
+    }
+
+    const doc = paragraph.ownerDocument;
+    Array.from(paragraph.childNodes)
+      .filter(n => n.nodeType === n.TEXT_NODE || (n.nodeType === n.ELEMENT_NODE && (n as Element).namespaceURI === TEXT_NS && TEXT_CONTENT.has((n as Element).localName)))
+      .forEach(n => paragraph.removeChild(n));
+
+    runs.forEach(run => {
+      if (!run.text) return;
+      let parent: Element = paragraph;
+      if (run.href) {
+        const link = doc.createElementNS(TEXT_NS, 'text:a');
+        link.setAttributeNS(XLINK_NS, 'xlink:type', 'simple');
+        link.setAttributeNS(XLINK_NS, 'xlink:href', run.href);
+        paragraph.appendChild(link);
+        parent = link;
+      }
+      const style = this.spanStyle(doc, run, spanStyles);
+      if (style) {
+        const span = doc.createElementNS(TEXT_NS, 'text:span');
+        span.setAttributeNS(TEXT_NS, 'text:style-name', style);
+        parent.appendChild(span);
+        parent = span;
+      }
+      this.appendText(parent, run.text);
+    });
+  }
+
+  /** Runs split at line breaks, one list of runs per line. */
+  private splitLines(runs: InlineRun[]): InlineRun[][] {
+    const lines: InlineRun[][] = [[]];
+    runs.forEach(run => run.text.split('\n').forEach((text, i) => {
+      if (i > 0) lines.push([]);
+      if (text) lines[lines.length - 1].push({ ...run, text });
+    }));
+    return lines;
+  }
+
+  /** Text with ODF's markup for repeated spaces, tabs and line breaks. */
+  private appendText(parent: Element, text: string) {
+    const doc = parent.ownerDocument;
+    text.split(/(\n|\t| {2,})/).forEach(part => {
+      if (!part) return;
+      if (part === '\n') parent.appendChild(doc.createElementNS(TEXT_NS, 'text:line-break'));
+      else if (part === '\t') parent.appendChild(doc.createElementNS(TEXT_NS, 'text:tab'));
+      else if (/^ {2,}$/.test(part)) {
+        parent.appendChild(doc.createTextNode(' '));
+        const spaces = doc.createElementNS(TEXT_NS, 'text:s');
+        spaces.setAttributeNS(TEXT_NS, 'text:c', String(part.length - 1));
+        parent.appendChild(spaces);
+      } else parent.appendChild(doc.createTextNode(part));
+    });
+  }
+
+  /** An automatic text style for the run's formatting, added to content.xml on first use. */
+  private spanStyle(doc: Document, run: InlineRun, spanStyles: Map<string, string>): string | null {
+    const key = `${run.bold ? 'b' : ''}${run.italic ? 'i' : ''}${run.underline ? 'u' : ''}${run.superscript ? 's' : ''}`;
+    if (!key) return null;
+    if (spanStyles.has(key)) return spanStyles.get(key)!;
+
+    const automatic = doc.getElementsByTagNameNS(OFFICE_NS, 'automatic-styles')[0]
+      || doc.documentElement.insertBefore(doc.createElementNS(OFFICE_NS, 'office:automatic-styles'), doc.getElementsByTagNameNS(OFFICE_NS, 'body')[0] || null);
+    const name = `RetransT_${key}`;
+    const style = doc.createElementNS(STYLE_NS, 'style:style');
+    style.setAttributeNS(STYLE_NS, 'style:name', name);
+    style.setAttributeNS(STYLE_NS, 'style:family', 'text');
+    const props = doc.createElementNS(STYLE_NS, 'style:text-properties');
+    if (run.bold) props.setAttributeNS(FO_NS, 'fo:font-weight', 'bold');
+    if (run.italic) props.setAttributeNS(FO_NS, 'fo:font-style', 'italic');
+    if (run.underline) {
+      props.setAttributeNS(STYLE_NS, 'style:text-underline-style', 'solid');
+      props.setAttributeNS(STYLE_NS, 'style:text-underline-width', 'auto');
+      props.setAttributeNS(STYLE_NS, 'style:text-underline-color', 'font-color');
+    }
+    if (run.superscript) props.setAttributeNS(STYLE_NS, 'style:text-position', 'super 58%');
+    style.appendChild(props);
+    automatic.appendChild(style);
+    spanStyles.set(key, name);
+    return name;
+  }
+
+  /** The default paragraph language in styles.xml and the language in meta.xml. */
+  private setLanguage(styles: Document | null, meta: Document | null, targetLang: string) {
+    const [language, country] = targetLang.split(/[-_]/);
+    if (styles) {
+      Array.from(styles.getElementsByTagNameNS(STYLE_NS, 'default-style'))
+        .filter(s => attr(s, STYLE_NS, 'family') === 'paragraph')
+        .forEach(s => {
+          let props = childrenOf(s, STYLE_NS, 'text-properties')[0];
+          if (!props) props = s.appendChild(styles.createElementNS(STYLE_NS, 'style:text-properties')) as Element;
+          props.setAttributeNS(FO_NS, 'fo:language', language);
+          if (country) props.setAttributeNS(FO_NS, 'fo:country', country.toUpperCase());
+          else props.removeAttributeNS(FO_NS, 'country');
+        });
+    }
+    const dcLanguage = meta?.getElementsByTagNameNS(DC_NS, 'language')[0];
+    if (dcLanguage) dcLanguage.textContent = targetLang;
+  }
+
+  private alignmentOf(paragraph: Element, content: Document, styles: Document | null): 'left' | 'center' | 'right' | 'justify' {
+    const name = attr(paragraph, TEXT_NS, 'style-name');
+    const style = [content, styles].flatMap(doc => (doc ? Array.from(doc.getElementsByTagNameNS(STYLE_NS, 'style')) : []))
+      .find(s => attr(s, STYLE_NS, 'name') === name);
+    const align = style ? attr(childrenOf(style, STYLE_NS, 'paragraph-properties')[0] || style, FO_NS, 'text-align') : null;
+    if (align === 'center') return 'center';
+    if (align === 'end' || align === 'right') return 'right';
+    if (align === 'justify') return 'justify';
+    return 'left';
+  }
+
+  /** Whether the list style gives this level numbers rather than bullets. */
+  private isOrdered(list: Element, level: number, content: Document, styles: Document | null): boolean {
+    const named = this.ancestors(list).concat(list).reverse().find(l => is(l, TEXT_NS, 'list') && attr(l, TEXT_NS, 'style-name'));
+    const name = named ? attr(named, TEXT_NS, 'style-name') : null;
+    const listStyle = [content, styles].flatMap(doc => (doc ? Array.from(doc.getElementsByTagNameNS(TEXT_NS, 'list-style')) : []))
+      .find(s => attr(s, STYLE_NS, 'name') === name);
+    if (!listStyle) return false;
+    const levelStyle = Array.from(listStyle.children).find(c => Number(attr(c, TEXT_NS, 'level')) === level);
+    return levelStyle?.localName === 'list-level-style-number' && !!attr(levelStyle, STYLE_NS, 'num-format');
+  }
+
+  private ancestor(el: Element, ns: string, localName: string): Element | null {
+    for (let a = el.parentElement; a; a = a.parentElement) if (is(a, ns, localName)) return a;
+    return null;
+  }
+
+  private ancestors(el: Element): Element[] {
+    const found: Element[] = [];
+    for (let a = el.parentElement; a; a = a.parentElement) found.push(a);
+    return found;
+  }
+}
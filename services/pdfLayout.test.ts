@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { DocumentChunk } from "../types";
+import { LayoutItem, LayoutPage, pdfLayout } from "./pdfLayout";
+
+const item = (text: string, x: number, y: number, size = 10, options: Partial<LayoutItem> = {}): LayoutItem => ({
+  text,
+  x,
+  y,
+  size,
+  width: text.length * size * 0.5,
+  bold: false,
+  italic: false,
+  ...options
+});
+
+const page = (number: number, items: LayoutItem[]): LayoutPage => ({ page: number, width: 600, height: 800, items });
+
+const summary = (chunks: DocumentChunk[]) => chunks.map(c => [c.type, c.originalText, c.metadata?.level]);
+
+describe("PdfLayoutAnalyzer", () => {
+  it("joins wrapped lines into paragraphs and ranks headings by size", () => {
+    const [chunks] = pdfLayout.analyze([page(1, [
+      item("Lease Agreement", 72, 700, 20),
+      item("Rent and Deposit", 72, 660, 14),
+      item("The Lessee shall pay the monthly rent with-", 72, 640),
+      item("out delay to the Lessor at the address set", 72, 628),
+      item("out in the schedule.", 72, 616),
+      item("Deposits are held in trust.", 72, 590)
+    ])]);
+
+    expect(summary(chunks)).toEqual([
+      ['heading', "Lease Agreement", 1],
+      ['heading', "Rent and Deposit", 2],
+      ['paragraph', "The Lessee shall pay the monthly rent without delay to the Lessor at the address set out in the schedule.", undefined],
+      ['paragraph', "Deposits are held in trust.", undefined]
+    ]);
+    expect(chunks[2].metadata?.bbox).toEqual({ x: 72, y: 613.5, width: 215, height: 36.5 });
+  });
+
+  it("translates running headers and footers once, ignoring page numbers", () => {
+    const pages = [1, 2].map(n => page(n, [
+      item("ACME Property Lease", 72, 770),
+      item(`Clause text on page ${n}.`, 72, 600),
+      item(`Page ${n} of 2`, 280, 30)
+    ]));
+
+    const [first, second] = pdfLayout.analyze(pages);
+
+    expect(first.map(c => [c.originalText, c.metadata?.pageRegion, c.metadata?.repeatOf])).toEqual([
+      ["ACME Property Lease", 'header', undefined],
+      ["Clause text on page 1.", undefined, undefined],
+      ["Page 1 of 2", 'footer', undefined]
+    ]);
+    expect(second.map(c => [c.originalText, c.metadata?.pageRegion, c.metadata?.repeatOf])).toEqual([
+      ["ACME Property Lease", 'header', first[0].id],
+      ["Clause text on page 2.", undefined, undefined],
+      ["Page 2 of 2", 'footer', first[2].id]
+    ]);
+  });
+
+  it("turns column-aligned lines into table cells, wrapped cell text included", () => {
+    const [chunks] = pdfLayout.analyze([page(1, [
+      item("Item", 72, 600, 10, { bold: true }),
+      item("Amount", 300, 600, 10, { bold: true }),
+      item("Monthly rent", 72, 586),
+      item("1,500", 300, 586),
+      item("(due on the 1st)", 72, 574),
+      item("Deposit", 72, 560),
+      item("3,000", 300, 560)
+    ])]);
+
+    const cells = chunks.filter(c => c.type === 'table-cell');
+    expect(cells.map(c => [c.metadata?.row, c.metadata?.col, c.originalText])).toEqual([
+      [0, 0, "Item"], [0, 1, "Amount"],
+      [1, 0, "Monthly rent (due on the 1st)"], [1, 1, "1,500"],
+      [2, 0, "Deposit"], [2, 1, "3,000"]
+    ]);
+    expect(new Set(cells.map(c => c.metadata?.tableId))).toEqual(new Set(['pdf-t-0']));
+  });
+
+  it("reads two-column prose column by column", () => {
+    const width = 200;
+    const [chunks] = pdfLayout.analyze([page(1, [
+      item("In the left column the first line runs", 72, 700, 10, { width }),
+      item("The right column starts its own story", 320, 700, 10, { width }),
+      item("on and then a second line continues it", 72, 688, 10, { width }),
+      item("which a reader takes up only after the", 320, 688, 10, { width }),
+      item("and the third line ends the paragraph.", 72, 676, 10, { width }),
+      item("left column has been read to the end.", 320, 676, 10, { width })
+    ])]);
+
+    expect(summary(chunks)).toEqual([
+      ['paragraph', "In the left column the first line runs on and then a second line continues it and the third line ends the paragraph.", undefined],
+      ['paragraph', "The right column starts its own story which a reader takes up only after the left column has been read to the end.", undefined]
+    ]);
+  });
+});
@@ -0,0 +1,517 @@
+
+import { BoundingBox, DocumentChunk } from "../types";
+import { listNumbering } from "./listNumbering";
+
+/** A positioned text run from a PDF text layer, in PDF units with the origin at the bottom left. */
+export interface LayoutItem {
+  text: string;
+  x: number;
+  /** Baseline. */
+  y: number;
+  width: number;
+  size: number;
+  fontFamily?: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface LayoutPage {
+  page: number;
+  width: number;
+  height: number;
+  items: LayoutItem[];
+}
+
+/** Items on one baseline with no wide gap between them: a whole line, or one column or cell of it. */
+interface Segment {
+  text: string;
+  x: number;
+  right: number;
+  y: number;
+  size: number;
+  bold: boolean;
+  italic: boolean;
+  fontFamily?: string;
+}
+
+interface Line {
+  y: number;
+  size: number;
+  segments: Segment[];
+}
+
+interface TableBlock {
+  /** rows[row][col] holds the segments of a cell, one per wrapped line. */
+  rows: Segment[][][];
+  x: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+type Element = { kind: 'segment'; segment: Segment } | { kind: 'table'; table: TableBlock };
+
+type Block =
+  | { kind: 'running'; region: 'header' | 'footer'; segment: Segment }
+  | { kind: 'text'; segments: Segment[] }
+  | { kind: 'table'; table: TableBlock };
+
+// Share of the page height at the top and bottom where running headers and footers live
+const MARGIN_BAND = 0.1;
+// Horizontal gap, in font sizes, that separates columns or table cells on one baseline
+const SEGMENT_GAP = 1.2;
+// Narrowest blank strip, in PDF units, that counts as a gutter between columns
+const MIN_GUTTER = 6;
+// Body text is at least this much smaller than a heading
+const HEADING_SCALE = 1.15;
+const PAGE_NUMBER = /^[-–—\s]*(page\s*)?#(\s*(of|\/)\s*#)?[-–—\s]*$/i;
+
+const topOf = (s: Segment) => s.y + s.size;
+const bottomOf = (s: Segment) => s.y - s.size * 0.25;
+const boundsOf = (el: Element) => el.kind === 'segment'
+  ? { x: el.segment.x, right: el.segment.right, top: topOf(el.segment), bottom: bottomOf(el.segment) }
+  : el.table;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length === 0 ? 0 : sorted[Math.floor(sorted.length / 2)];
+};
+
+/** The value most characters have, e.g. the body font size. */
+const dominant = <T,>(segments: Segment[], value: (s: Segment) => T): T | undefined => {
+  const weights = new Map<T, number>();
+  segments.forEach(s => weights.set(value(s), (weights.get(value(s)) || 0) + s.text.length));
+  let best: T | undefined;
+  weights.forEach((weight, key) => {
+    if (best === undefined || weight > weights.get(best)!) best = key;
+  });
+  return best;
+};
+
+/**
+ * Recovers document structure from a PDF text layer, which only has positioned runs. Running
+ * headers and footers are found by repetition across pages, tables by column-aligned lines,
+ * reading order by the gutters between columns, and paragraphs by joining wrapped lines.
+ * Headings are the paragraphs set larger or bolder than the body text.
+ */
+export class PdfLayoutAnalyzer {
+  /** Chunks for each page, in the order the pages were given. */
+  analyze(pages: LayoutPage[]): DocumentChunk[][] {
+    const lines = pages.map(page => this.buildLines(page.items));
+    const regions = this.findRunningText(pages, lines);
+
+    const blocks: Block[][] = pages.map((_, p) => {
+      const header: Block[] = [];
+      const footer: Block[] = [];
+      const body: Line[] = [];
+      lines[p].forEach((line, l) => {
+        const region = regions[p].get(l);
+        if (!region) body.push(line);
+        else (region === 'header' ? header : footer).push({ kind: 'running', region, segment: this.mergeSegments(line.segments) });
+      });
+      return [...header, ...this.paragraphs(this.readingOrder(this.findTables(body))), ...footer];
+    });
+
+    const bodySegments = blocks.flat().flatMap(b => (b.kind === 'text' ? b.segments : []));
+    const bodySize = dominant(bodySegments, s => Math.round(s.size * 2) / 2) || 0;
+    const bodyBold = (dominant(bodySegments, s => s.bold) ?? false) as boolean;
+    const isHeading = (segments: Segment[]) => {
+      const text = this.joinLines(segments);
+      if (text.length > 200 || segments.length > 3) return false;
+      if (Math.max(...segments.map(s => s.size)) >= bodySize * HEADING_SCALE) return true;
+      return !bodyBold && segments.every(s => s.bold) && text.length <= 150 && !/[.;,]$/.test(text);
+    };
+
+    // Heading levels follow size, largest first; bold headings at body size come last
+    const headingSizes = Array.from(new Set(blocks.flat()
+      .filter((b): b is Extract<Block, { kind: 'text' }> => b.kind === 'text' && isHeading(b.segments))
+      .map(b => Math.round(Math.max(...b.segments.map(s => s.size)) * 2) / 2)
+      .filter(size => size >= bodySize * HEADING_SCALE)))
+      .sort((a, b) => b - a);
+
+    let counter = 0;
+    let tables = 0;
+    let previousLabel: string | undefined;
+    const firstRunning = new Map<string, string>();
+
+    return blocks.map((pageBlocks, p) => {
+      const page = pages[p];
+      const content = this.contentBounds(pageBlocks);
+
+      return pageBlocks.flatMap((block): DocumentChunk[] => {
+        if (block.kind === 'table') return this.tableChunks(block.table, page.page, `pdf-t-${tables++}`, () => counter++);
+
+        if (block.kind === 'running') {
+          const id = `pdf-hf-${counter++}`;
+          // Translated once; later pages reuse it with their own page numbers
+          const key = `${block.region}:${this.repeatKey(block.segment.text)}`;
+          const repeatOf = firstRunning.get(key);
+          if (!repeatOf) firstRunning.set(key, id);
+          return [{
+            id,
+            type: 'metadata',
+            originalText: block.segment.text,
+            metadata: { ...this.textMetadata([block.segment], page.page), pageRegion: block.region, repeatOf }
+          }];
+        }
+
+        const text = this.joinLines(block.segments);
+        const metadata = this.textMetadata(block.segments, page.page);
+        if (isHeading(block.segments)) {
+          const size = Math.round(Math.max(...block.segments.map(s => s.size)) * 2) / 2;
+          const rank = headingSizes.indexOf(size);
+          const { x, width } = metadata.bbox!;
+          const centered = Math.abs(x + width / 2 - page.width / 2) < page.width * 0.03
+            && x - content.x > (content.right - content.x) * 0.1;
+          return [{
+            id: `pdf-h-${counter++}`,
+            type: 'heading',
+            originalText: text,
+            metadata: { ...metadata, alignment: centered ? 'center' : 'left', level: Math.min(6, (rank < 0 ? headingSizes.length : rank) + 1) }
+          }];
+        }
+
+        const parsed = listNumbering.parseLabel(text, previousLabel);
+        if (parsed) {
+          previousLabel = parsed.label;
+          return [{
+            id: `pdf-li-${counter++}`,
+            type: 'list-item',
+            originalText: parsed.rest,
+            metadata: {
+              ...metadata,
+              level: parsed.level,
+              listType: parsed.format === 'bullet' ? 'bullet' : 'ordered',
+              listLabel: parsed.label,
+              listLabelInText: true
+            }
+          }];
+        }
+        return [{ id: `pdf-p-${counter++}`, type: 'paragraph', originalText: text, metadata }];
+      });
+    });
+  }
+
+  /** Groups items by baseline, then splits each line wherever a gap is too wide to be a space. */
+  private buildLines(items: LayoutItem[]): Line[] {
+    const sorted = items.filter(i => i.text.trim()).sort((a, b) => b.y - a.y || a.x - b.x);
+    const groups: { y: number; size: number; items: LayoutItem[] }[] = [];
+
+    for (const item of sorted) {
+      const last = groups[groups.length - 1];
+      // Superscripts sit a little above the baseline and still belong to the line
+      if (last && Math.abs(last.y - item.y) <= Math.max(last.size, item.size) * 0.4) {
+        last.items.push(item);
+        if (item.size > last.size) {
+          last.size = item.size;
+          last.y = item.y;
+        }
+      } else {
+        groups.push({ y: item.y, size: item.size, items: [item] });
+      }
+    }
+
+    return groups.map(group => {
+      const lineItems = group.items.sort((a, b) => a.x - b.x);
+      const parts: LayoutItem[][] = [];
+      lineItems.forEach(item => {
+        const part = parts[parts.length - 1];
+        const previous = part?.[part.length - 1];
+        if (previous && item.x - (previous.x + previous.width) <= Math.max(previous.size, item.size) * SEGMENT_GAP) part.push(item);
+        else parts.push([item]);
+      });
+      return { y: group.y, size: group.size, segments: parts.map(part => this.segment(part, group.y)) };
+    });
+  }
+
+  private segment(items: LayoutItem[], y: number): Segment {
+    let text = '';
+    items.forEach((item, i) => {
+      const previous = items[i - 1];
+      const gap = previous ? item.x - (previous.x + previous.width) : 0;
+      if (previous && gap > previous.size * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.text)) text += ' ';
+      text += item.text;
+    });
+
+    const chars = (pick: (i: LayoutItem) => boolean) => items.filter(pick).reduce((n, i) => n + i.text.length, 0);
+    const total = chars(() => true);
+    const largest = items.reduce((a, b) => (b.size > a.size ? b : a));
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      x: items[0].x,
+      right: Math.max(...items.map(i => i.x + i.width)),
+      y,
+      size: largest.size,
+      bold: chars(i => i.bold) * 2 > total,
+      italic: chars(i => i.italic) * 2 > total,
+      fontFamily: largest.fontFamily
+    };
+  }
+
+  private mergeSegments(segments: Segment[]): Segment {
+    return {
+      ...segments[0],
+      text: segments.map(s => s.text).join(' '),
+      right: segments[segments.length - 1].right,
+      size: Math.max(...segments.map(s => s.size))
+    };
+  }
+
+  /** Digits vary from page to page ("Page 3 of 12"), so they don't count toward repetition. */
+  private repeatKey(text: string): string {
+    return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Lines in the top or bottom margin band that recur on other pages, or that are just a page
+   * number, keyed by line index per page.
+   */
+  private findRunningText(pages: LayoutPage[], lines: Line[][]): Map<number, 'header' | 'footer'>[] {
+    const candidates = pages.map((page, p) => {
+      const found = new Map<number, { region: 'header' | 'footer'; key: string }>();
+      lines[p].forEach((line, l) => {
+        const region = line.y >= page.height * (1 - MARGIN_BAND) ? 'header' : line.y <= page.height * MARGIN_BAND ? 'footer' : null;
+        if (region) found.set(l, { region, key: this.repeatKey(this.mergeSegments(line.segments).text) });
+      });
+      return found;
+    });
+
+    const pagesWith = new Map<string, Set<number>>();
+    candidates.forEach((found, p) => found.forEach(({ region, key }) => {
+      const id = `${region}:${key}`;
+      pagesWith.set(id, (pagesWith.get(id) || new Set()).add(p));
+    }));
+
+    return candidates.map(found => {
+      const regions = new Map<number, 'header' | 'footer'>();
+      found.forEach(({ region, key }, l) => {
+        if (PAGE_NUMBER.test(key) || pagesWith.get(`${region}:${key}`)!.size >= 2) regions.set(l, region);
+      });
+      return regions;
+    });
+  }
+
+  /** Replaces runs of column-aligned lines with table blocks; everything else stays as segments. */
+  private findTables(lines: Line[]): Element[] {
+    const elements: Element[] = [];
+    let i = 0;
+    while (i < lines.length) {
+      const found = lines[i].segments.length >= 2 ? this.tableAt(lines, i) : null;
+      if (found) {
+        elements.push({ kind: 'table', table: found.table });
+        i = found.end;
+        continue;
+      }
+      lines[i].segments.forEach(segment => elements.push({ kind: 'segment', segment }));
+      i++;
+    }
+    return elements;
+  }
+
+  /**
+   * A table starting at `start`: at least two consecutive multi-segment lines whose segments fall
+   * into the same columns. Single-segment lines between rows are wrapped cell text.
+   */
+  private tableAt(lines: Line[], start: number): { table: TableBlock; end: number } | null {
+    let last = start;
+    for (let j = start + 1; j < lines.length; j++) {
+      if (lines[j - 1].y - lines[j].y > lines[j - 1].size * 3) break;
+      if (lines[j].segments.length >= 2) last = j;
+      else if (j - last > 2) break;
+    }
+    const block = lines.slice(start, last + 1);
+    const rowLines = block.filter(l => l.segments.length >= 2);
+    if (rowLines.length < 2) return null;
+
+    // Columns are the x ranges that cell segments overlap into
+    const columns: [number, number][] = [];
+    rowLines.flatMap(l => l.segments).map(s => [s.x, s.right] as [number, number])
+      .sort((a, b) => a[0] - b[0])
+      .forEach(([x, right]) => {
+        const column = columns[columns.length - 1];
+        if (column && x < column[1]) column[1] = Math.max(column[1], right);
+        else columns.push([x, right]);
+      });
+    if (columns.length < 2) return null;
+
+    const columnOf = (s: Segment) => columns.findIndex(([x, right]) => s.x < right && s.right > x);
+    const fits = (s: Segment) => columns.filter(([x, right]) => s.x < right && s.right > x).length === 1;
+    const cells = rowLines.flatMap(l => l.segments);
+
+    // Prose set in two or three columns lines up the same way, but fills its columns with long lines
+    const fill = columns.map(([x, right], k) => median(cells.filter(s => columnOf(s) === k).map(s => (s.right - s.x) / (right - x))));
+    const averageLength = cells.reduce((n, s) => n + s.text.length, 0) / cells.length;
+    if (columns.length <= 3 && fill.every(f => f > 0.85) && averageLength > 25) return null;
+
+    const rows: Segment[][][] = [];
+    for (const line of block) {
+      if (line.segments.length >= 2) {
+        const row: Segment[][] = columns.map(() => []);
+        line.segments.forEach(s => row[columnOf(s)].push(s));
+        rows.push(row);
+      } else {
+        if (!fits(line.segments[0])) return null;
+        rows[rows.length - 1][columnOf(line.segments[0])].push(line.segments[0]);
+      }
+    }
+
+    const segments = block.flatMap(l => l.segments);
+    return {
+      table: {
+        rows,
+        x: columns[0][0],
+        right: Math.max(...columns.map(c => c[1])),
+        top: Math.max(...segments.map(topOf)),
+        bottom: Math.min(...segments.map(bottomOf))
+      },
+      end: last + 1
+    };
+  }
+
+  /**
+   * Orders elements for reading. When a blank vertical strip splits the page into columns, each
+   * column is read top to bottom before the next; elements crossing the strip (titles, full-width
+   * tables) start a new band of columns below them.
+   */
+  private readingOrder(elements: Element[]): Element[] {
+    const bounds = elements.map(boundsOf);
+    const topDown = () => elements
+      .map((el, i) => ({ el, b: bounds[i] }))
+      .sort((a, b) => (Math.abs(b.b.top - a.b.top) < 2 ? a.b.x - b.b.x : b.b.top - a.b.top))
+      .map(({ el }) => el);
+    if (elements.length < 6) return topDown();
+
+    let best: { gutter: number; crossing: number; width: number } | null = null;
+    for (const candidate of bounds) {
+      const gutter = candidate.right + 0.5;
+      const left = bounds.filter(b => b.right <= gutter);
+      const right = bounds.filter(b => b.x >= gutter);
+      const crossing = bounds.length - left.length - right.length;
+      if (left.length < 3 || right.length < 3 || crossing > bounds.length * 0.2) continue;
+
+      const width = Math.min(...right.map(b => b.x)) - Math.max(...left.map(b => b.right));
+      if (width < MIN_GUTTER) continue;
+
+      // Side by side, not a left block above a right one
+      const span = (side: typeof bounds) => [Math.min(...side.map(b => b.bottom)), Math.max(...side.map(b => b.top))];
+      const [leftBottom, leftTop] = span(left);
+      const [rightBottom, rightTop] = span(right);
+      const overlap = Math.min(leftTop, rightTop) - Math.max(leftBottom, rightBottom);
+      if (overlap < Math.min(leftTop - leftBottom, rightTop - rightBottom) * 0.5) continue;
+
+      if (!best || crossing < best.crossing || (crossing === best.crossing && width > best.width)) {
+        best = { gutter, crossing, width };
+      }
+    }
+    if (!best) return topDown();
+
+    const { gutter } = best;
+    const centerY = (i: number) => (bounds[i].top + bounds[i].bottom) / 2;
+    const crossing = elements.map((_, i) => i)
+      .filter(i => bounds[i].x < gutter && bounds[i].right > gutter)
+      .sort((a, b) => centerY(b) - centerY(a));
+
+    const ordered: Element[] = [];
+    for (let band = 0; band <= crossing.length; band++) {
+      const inBand = elements.map((_, i) => i).filter(i => !crossing.includes(i)
+        && crossing.filter(c => centerY(c) > centerY(i)).length === band);
+      ordered.push(...this.readingOrder(inBand.filter(i => bounds[i].right <= gutter).map(i => elements[i])));
+      ordered.push(...this.readingOrder(inBand.filter(i => bounds[i].x >= gutter).map(i => elements[i])));
+      if (band < crossing.length) ordered.push(elements[crossing[band]]);
+    }
+    return ordered;
+  }
+
+  /** Joins wrapped lines into paragraphs; tables pass through. */
+  private paragraphs(elements: Element[]): Block[] {
+    const segments = elements.flatMap(el => (el.kind === 'segment' ? [el.segment] : []));
+    // Typical baseline distance within a paragraph, in font sizes
+    const ratios = segments.slice(1).map((s, i) => (segments[i].y - s.y) / Math.max(segments[i].size, s.size)).filter(r => r >= 0.9 && r <= 2.5);
+    const pitch = median(ratios) || 1.2;
+
+    const blocks: Block[] = [];
+    let current: Segment[] | null = null;
+    const flush = () => {
+      if (current) blocks.push({ kind: 'text', segments: current });
+      current = null;
+    };
+
+    for (const el of elements) {
+      if (el.kind === 'table') {
+        flush();
+        blocks.push(el);
+      } else if (current && this.continues(current, el.segment, pitch)) {
+        current.push(el.segment);
+      } else {
+        flush();
+        current = [el.segment];
+      }
+    }
+    flush();
+    return blocks;
+  }
+
+  private continues(paragraph: Segment[], next: Segment, pitch: number): boolean {
+    const last = paragraph[paragraph.length - 1];
+    const size = Math.max(last.size, next.size);
+    const gap = last.y - next.y;
+    if (gap <= 0 || gap > size * pitch * 1.3) return false;
+    if (Math.abs(last.size - next.size) > 0.5 || last.bold !== next.bold) return false;
+    if (next.x >= last.right || next.right <= last.x) return false;
+    if (listNumbering.parseLabel(next.text)) return false;
+
+    // A sentence ending well short of the right edge closes the paragraph
+    const right = Math.max(next.right, ...paragraph.map(s => s.right));
+    return !(/[.:;!?)"”]$/.test(last.text) && last.right < right - size * 4);
+  }
+
+  /** Paragraph text from its lines, undoing end-of-line hyphenation. */
+  private joinLines(segments: Segment[]): string {
+    return segments.reduce((text, s) => {
+      if (!text) return s.text;
+      if (/\p{L}-$/u.test(text) && /^\p{Ll}/u.test(s.text)) return text.slice(0, -1) + s.text;
+      return `${text} ${s.text}`;
+    }, '');
+  }
+
+  private textMetadata(segments: Segment[], page: number) {
+    const size = Math.max(...segments.map(s => s.size));
+    const bbox: BoundingBox = {
+      x: Math.min(...segments.map(s => s.x)),
+      y: Math.min(...segments.map(bottomOf)),
+      width: Math.max(...segments.map(s => s.right)) - Math.min(...segments.map(s => s.x)),
+      height: Math.max(...segments.map(topOf)) - Math.min(...segments.map(bottomOf))
+    };
+    return {
+      alignment: 'left' as const,
+      page,
+      bbox,
+      fontSize: `${Math.round(size * 10) / 10}pt`,
+      fontFamily: dominant(segments, s => s.fontFamily),
+      isBold: dominant(segments, s => s.bold),
+      isItalic: dominant(segments, s => s.italic)
+    };
+  }
+
+  private contentBounds(blocks: Block[]): { x: number; right: number } {
+    const segments = blocks.flatMap(b => (b.kind === 'text' ? b.segments : []));
+    if (segments.length === 0) return { x: 0, right: 0 };
+    return { x: Math.min(...segments.map(s => s.x)), right: Math.max(...segments.map(s => s.right)) };
+  }
+
+  private tableChunks(table: TableBlock, page: number, tableId: string, nextId: () => number): DocumentChunk[] {
+    return table.rows.flatMap((row, r) => row.map((cell, c): DocumentChunk => ({
+      id: `pdf-c-${nextId()}`,
+      type: 'table-cell',
+      originalText: this.joinLines(cell),
+      metadata: {
+        ...(cell.length > 0 ? this.textMetadata(cell, page) : { alignment: 'left' as const, page }),
+        tableId,
+        row: r,
+        col: c
+      }
+    })));
+  }
+}
+
+export const pdfLayout = new PdfLayoutAnalyzer();
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf.mjs";
+import { pdfTextRemover } from "./pdfTextRemover";
+
+const pageText = async (bytes: Uint8Array): Promise<string[]> => {
+  const doc = await pdfjs.getDocument({ data: bytes, verbosity: pdfjs.VerbosityLevel.ERRORS }).promise;
+  const content = await (await doc.getPage(1)).getTextContent();
+  return content.items.map((item: any) => item.str).filter(Boolean);
+};
+
+describe("PdfTextRemover", () => {
+  it("removes the text that starts inside the boxes and keeps the rest", async () => {
+    const pdf = await PDFDocument.create();
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const page = pdf.addPage([400, 400]);
+    page.drawText("Translated away", { x: 50, y: 300, size: 12, font });
+    page.drawText("Left alone", { x: 50, y: 100, size: 12, font });
+    const original = await pdf.save();
+
+    const copy = await PDFDocument.load(original);
+    const removed = pdfTextRemover.remove(copy, copy.getPage(0), [{ x: 50, y: 297, width: 90, height: 12 }]);
+
+    expect(removed).toBe(1);
+    expect(await pageText(await copy.save())).toEqual(["Left alone"]);
+  });
+
+  it("follows text positioning and graphics state", () => {
+    const source = [
+      "q 1 0 0 1 0 500 cm",
+      "BT /F1 10 Tf 14 TL 72 0 Td (First) Tj T* (Second) Tj ET",
+      "Q",
+      "BT /F1 10 Tf 72 300 Td [(Far) -200 (away)] TJ ET"
+    ].join("\n");
+
+    const { output, removed } = pdfTextRemover.rewrite(source, [{ x: 70, y: 480, width: 100, height: 10 }]);
+
+    expect(removed).toBe(1);
+    expect(output).toContain("(First) Tj");
+    expect(output).not.toContain("(Second)");
+    expect(output).toContain("[(Far) -200 (away)] TJ");
+  });
+
+  it("keeps the line move of a removed quote operator and skips strings and inline images", () => {
+    const source = "BT /F1 10 Tf 12 TL 0 100 Td (a\\) Tj \\(b) Tj (Next) ' ET BI /W 1 /H 1 ID \x00Tj\x01 EI";
+
+    const { output, removed } = pdfTextRemover.rewrite(source, [{ x: 0, y: 80, width: 50, height: 8 }]);
+
+    expect(removed).toBe(1);
+    expect(output).toBe("BT /F1 10 Tf 12 TL 0 100 Td (a\\) Tj \\(b) Tj T* ET BI /W 1 /H 1 ID \x00Tj\x01 EI");
+  });
+});
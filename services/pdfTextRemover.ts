@@ -0,0 +1,240 @@
+import { PDFArray, PDFDocument, PDFName, PDFPage, PDFRawStream, PDFRef, PDFStream, decodePDFRawStream } from "pdf-lib";
+import { BoundingBox } from "../types";
+
+type Matrix = [number, number, number, number, number, number];
+
+interface Token {
+  kind: 'operand' | 'operator' | 'open' | 'close';
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Operation {
+  operator: string;
+  operands: Token[];
+  start: number;
+  end: number;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  leading: number;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  scale: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[\0\t\n\f\r ()<>[\]{}/%]/;
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+// Operators that paint text
+const SHOW_TEXT = new Set(['Tj', 'TJ', "'", '"']);
+
+// A glyph's advance isn't known without the font's metrics; half an em is close enough to tell
+// which box a run that follows another on the same line starts in
+const ESTIMATED_ADVANCE = 0.5;
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5]
+];
+
+const translate = (tx: number, ty: number): Matrix => [1, 0, 0, 1, tx, ty];
+
+/**
+ * Takes the source text out of a PDF page's content stream, so a translated PDF doesn't still
+ * copy, search and extract as the original. Text-showing operators whose starting point lies in
+ * one of the boxes are dropped; everything else (graphics, images, text elsewhere) is kept byte
+ * for byte. Text inside form XObjects is left alone.
+ */
+export class PdfTextRemover {
+  /** Removes the text that starts inside the boxes and returns how many text operators went. */
+  remove(pdf: PDFDocument, page: PDFPage, boxes: BoundingBox[]): number {
+    if (boxes.length === 0) return 0;
+    const streams = this.contentStreams(pdf, page);
+    if (streams.length === 0) return 0;
+
+    // Content streams are one stream split into parts, so they are edited as one
+    const source = streams.map(stream => this.latin1(this.decode(stream))).join('\n');
+    const { output, removed } = this.rewrite(source, boxes);
+    if (removed === 0) return 0;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+    page.node.set(PDFName.of('Contents'), pdf.context.register(pdf.context.flateStream(bytes)));
+    return removed;
+  }
+
+  /** The content stream rewritten without the text shown inside the boxes. */
+  rewrite(source: string, boxes: BoundingBox[]): { output: string; removed: number } {
+    const stack: GraphicsState[] = [];
+    let state: GraphicsState = { ctm: IDENTITY, leading: 0, fontSize: 0, charSpacing: 0, wordSpacing: 0, scale: 1 };
+    let tm: Matrix = IDENTITY;
+    let tlm: Matrix = IDENTITY;
+    const edits: { start: number; end: number; text: string }[] = [];
+
+    const nextLine = () => {
+      tlm = multiply(translate(0, -state.leading), tlm);
+      tm = tlm;
+    };
+    const inBox = () => {
+      const [, , , , x, y] = multiply(tm, state.ctm);
+      const margin = Math.max(2, Math.abs(state.fontSize * tm[3] * state.ctm[3]) * 0.5);
+      return boxes.some(b => x >= b.x - margin && x <= b.x + b.width + margin && y >= b.y - margin && y <= b.y + b.height + margin);
+    };
+
+    for (const op of this.operations(source)) {
+      const n = op.operands.map(t => Number(t.text));
+      switch (op.operator) {
+        case 'q': stack.push({ ...state }); break;
+        case 'Q': state = stack.pop() || state; break;
+        case 'cm': if (n.length === 6) state = { ...state, ctm: multiply(n as Matrix, state.ctm) }; break;
+        case 'BT': tm = tlm = IDENTITY; break;
+        case 'Tm': if (n.length === 6) tm = tlm = n as Matrix; break;
+        case 'TD': state = { ...state, leading: -n[1] }; tlm = multiply(translate(n[0], n[1]), tlm); tm = tlm; break;
+        case 'Td': tlm = multiply(translate(n[0], n[1]), tlm); tm = tlm; break;
+        case 'T*': nextLine(); break;
+        case 'TL': state = { ...state, leading: n[0] }; break;
+        case 'Tf': state = { ...state, fontSize: Number(op.operands[1]?.text) || 0 }; break;
+        case 'Tc': state = { ...state, charSpacing: n[0] }; break;
+        case 'Tw': state = { ...state, wordSpacing: n[0] }; break;
+        case 'Tz': state = { ...state, scale: n[0] / 100 }; break;
+      }
+      if (!SHOW_TEXT.has(op.operator)) continue;
+
+      if (op.operator === "'") nextLine();
+      if (op.operator === '"') {
+        state = { ...state, wordSpacing: n[0], charSpacing: n[1] };
+        nextLine();
+      }
+      if (inBox()) {
+        // The line moves of ' and " still apply to whatever follows
+        const replacement = op.operator === "'" ? 'T*'
+          : op.operator === '"' ? `${op.operands[0].text} Tw ${op.operands[1].text} Tc T*`
+          : '';
+        edits.push({ start: op.start, end: op.end, text: replacement });
+      }
+      tm = multiply(translate(this.advance(op), 0), tm);
+    }
+
+    let output = '';
+    let last = 0;
+    edits.forEach(edit => {
+      output += source.slice(last, edit.start) + edit.text;
+      last = edit.end;
+    });
+    return { output: output + source.slice(last), removed: edits.length };
+  }
+
+  /** Rough horizontal advance of a text-showing operation, in text space. */
+  private advance(op: Operation): number {
+    // TJ arrays come with their brackets as operands; numbers inside are kerning in thousandths of an em
+    return op.operands.reduce((sum, token) => {
+      if (token.text.startsWith('(')) return sum + this.stringLength(token.text) * ESTIMATED_ADVANCE;
+      if (token.text.startsWith('<')) return sum + Math.ceil((token.text.length - 2) / 2) * ESTIMATED_ADVANCE;
+      if (NUMBER.test(token.text) && op.operator === 'TJ') return sum - Number(token.text) / 1000;
+      return sum;
+    }, 0);
+  }
+
+  private stringLength(literal: string): number {
+    return literal.slice(1, -1).replace(/\\(\d{1,3}|.)/gs, 'x').length;
+  }
+
+  private operations(source: string): Operation[] {
+    const operations: Operation[] = [];
+    let operands: Token[] = [];
+    let depth = 0;
+    for (const token of this.tokens(source)) {
+      if (token.kind === 'open') depth++;
+      if (token.kind === 'close') depth = Math.max(0, depth - 1);
+      if (token.kind !== 'operator' || depth > 0) {
+        operands.push(token);
+        continue;
+      }
+      const values = operands.filter(t => t.kind === 'operand');
+      operations.push({ operator: token.text, operands: values, start: operands[0]?.start ?? token.start, end: token.end });
+      operands = [];
+    }
+    return operations;
+  }
+
+  private *tokens(source: string): Generator<Token> {
+    let i = 0;
+    while (i < source.length) {
+      const ch = source[i];
+      const start = i;
+      if (WHITESPACE.test(ch)) { i++; continue; }
+      if (ch === '%') {
+        while (i < source.length && source[i] !== '\n' && source[i] !== '\r') i++;
+        continue;
+      }
+      if (ch === '(') {
+        let nesting = 0;
+        for (; i < source.length; i++) {
+          if (source[i] === '\\') { i++; continue; }
+          if (source[i] === '(') nesting++;
+          if (source[i] === ')' && --nesting === 0) break;
+        }
+        i++;
+        yield { kind: 'operand', text: source.slice(start, i), start, end: i };
+        continue;
+      }
+      if (ch === '<' && source[i + 1] === '<') { i += 2; yield { kind: 'open', text: '<<', start, end: i }; continue; }
+      if (ch === '>' && source[i + 1] === '>') { i += 2; yield { kind: 'close', text: '>>', start, end: i }; continue; }
+      if (ch === '<') {
+        i = source.indexOf('>', i) + 1 || source.length;
+        yield { kind: 'operand', text: source.slice(start, i), start, end: i };
+        continue;
+      }
+      if (ch === '[' || ch === '{') { i++; yield { kind: 'open', text: ch, start, end: i }; continue; }
+      if (ch === ']' || ch === '}') { i++; yield { kind: 'close', text: ch, start, end: i }; continue; }
+
+      i++;
+      while (i < source.length && !DELIMITER.test(source[i])) i++;
+      const text = source.slice(start, i);
+      if (ch === '/' || NUMBER.test(text) || text === 'true' || text === 'false' || text === 'null') {
+        yield { kind: 'operand', text, start, end: i };
+        continue;
+      }
+      yield { kind: 'operator', text, start, end: i };
+
+      // Inline image data is binary and ends at the first "EI" standing on its own
+      if (text === 'ID') {
+        const dataStart = i;
+        const end = source.slice(i + 1).search(/[\0\t\n\f\r ]EI(?=[\0\t\n\f\r ]|$)/);
+        i = end < 0 ? source.length : i + 1 + end + 3;
+        yield { kind: 'operator', text: 'EI', start: dataStart, end: i };
+      }
+    }
+  }
+
+  private contentStreams(pdf: PDFDocument, page: PDFPage): PDFStream[] {
+    const contents = page.node.get(PDFName.of('Contents'));
+    const resolve = (obj: unknown) => (obj instanceof PDFRef ? pdf.context.lookup(obj) : obj);
+    const target = resolve(contents);
+    const parts = target instanceof PDFArray ? target.asArray().map(resolve) : [target];
+    return parts.filter((part): part is PDFStream => part instanceof PDFStream);
+  }
+
+  private decode(stream: PDFStream): Uint8Array {
+    return stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+  }
+
+  private latin1(bytes: Uint8Array): string {
+    let text = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return text;
+  }
+}
+
+export const pdfTextRemover = new PdfTextRemover();
@@ -0,0 +1,133 @@
+
+import { DocumentChunk, GlossaryItem, QaIssue, TranslationTone } from "../types";
+import { fileService } from "./fileService";
+import { translationService } from "./translationService";
+import { glossaryService } from "./glossaryService";
+import { profileService } from "./profileService";
+import { qaService } from "./qaService";
+import { editHistory } from "./editHistory";
+import { listNumbering } from "./listNumbering";
+
+/** How a document is translated when nobody is watching: the batch queue and the CLI. */
+export interface PipelineSettings {
+  sourceLang: string;
+  targetLangs: string[];
+  tone: TranslationTone;
+  engine: string;
+  groundingEnabled: boolean;
+  memory?: { threshold: number };
+  listNumbering: 'keep' | 'localize';
+  /** Glossaries by target language, used instead of the ones saved for each language pair. */
+  glossaries?: Record<string, GlossaryItem[]>;
+}
+
+export interface PipelineProgress {
+  stage: 'reading' | 'translating' | 'writing';
+  targetLang?: string;
+  /** 0–100 across reading, every target language and writing. */
+  percent: number;
+  message: string;
+  /** Segments of the language being translated. */
+  completed?: number;
+  total?: number;
+}
+
+export interface PipelineTarget {
+  targetLang: string;
+  chunks: DocumentChunk[];
+  issues: QaIssue[];
+  blob: Blob;
+  /** The written file's extension, without the dot. */
+  extension: string;
+  /** Segments that failed or were never sent because the run was cancelled. */
+  failedSegments: number;
+}
+
+export interface PipelineResult {
+  sourceLang: string;
+  segments: number;
+  targets: PipelineTarget[];
+}
+
+/**
+ * Read → translate → QA → write for one file, into each target language in turn. Uses only the
+ * environment-agnostic services, so it runs the same in the browser and under Node.
+ */
+export class TranslationPipeline {
+  async run(
+    file: File,
+    settings: PipelineSettings,
+    hooks: { signal?: AbortSignal; onProgress?: (progress: PipelineProgress) => void } = {}
+  ): Promise<PipelineResult> {
+    const { signal, onProgress } = hooks;
+
+    const processed = await fileService.processFile(file, {
+      ocrLanguages: [settings.sourceLang],
+      signal,
+      onStatus: message => onProgress?.({ stage: 'reading', percent: 5, message })
+    });
+    const chunks = processed.chunks;
+    const sourceLang = settings.sourceLang === 'auto'
+      ? await translationService.detectLanguage(chunks.slice(0, 3).map(c => c.originalText).join(' '), settings.engine)
+      : settings.sourceLang;
+    const profile = profileService.get(settings.tone);
+    const share = 85 / settings.targetLangs.length;
+    const targets: PipelineTarget[] = [];
+
+    for (const [index, targetLang] of settings.targetLangs.entries()) {
+      if (signal?.aborted) break;
+      const offset = 10 + index * share;
+      const label = settings.targetLangs.length > 1 ? `${targetLang.toUpperCase()} · ` : '';
+      // Saved glossaries are chosen per language pair, so look up the detected source first
+      const glossary = settings.glossaries?.[targetLang]
+        ?? (glossaryService.activeFor(sourceLang, targetLang) || glossaryService.activeFor(settings.sourceLang, targetLang))?.items
+        ?? [];
+
+      const outcome = await translationService.translateChunks(chunks, sourceLang, targetLang, settings.tone, settings.engine, settings.groundingEnabled, glossary, {
+        signal,
+        memory: settings.memory,
+        onProgress: ({ completed, total }) => onProgress?.({
+          stage: 'translating',
+          targetLang,
+          percent: Math.round(offset + (total > 0 ? completed / total : 1) * share),
+          message: `${label}${completed} / ${total} Segments`,
+          completed,
+          total
+        })
+      });
+      if (outcome.failedChunkIds.length > 0 && outcome.failedChunkIds.length === chunks.length) {
+        throw new Error(outcome.errors[outcome.failedChunkIds[0]] || "Translation failed.");
+      }
+
+      const translated: DocumentChunk[] = chunks.map(chunk => {
+        const text = outcome.translations[chunk.id];
+        if (text === undefined) return { ...chunk, translationError: outcome.errors[chunk.id] || "Cancelled before translation." };
+        const listLabel = chunk.metadata?.listLabel;
+        return editHistory.commit({
+          ...chunk,
+          memoryMatch: outcome.memoryMatches[chunk.id],
+          translatedListLabel: settings.listNumbering === 'localize' && listLabel ? listNumbering.localize(listLabel, targetLang) : undefined
+        }, { text, runs: outcome.runs[chunk.id], status: 'machine' }, 'machine');
+      });
+
+      const issues = qaService.run(translated, profileService.glossaryFor(profile, sourceLang, targetLang, glossary), profile.qaRules);
+      onProgress?.({ stage: 'writing', targetLang, percent: Math.round(offset + share), message: `${label}Writing` });
+      const { blob, extension } = await fileService.writeTranslation(
+        translated,
+        { fileName: file.name, fileData: processed.fileData, mimeType: processed.mimeType },
+        targetLang
+      );
+      targets.push({
+        targetLang,
+        chunks: translated,
+        issues,
+        blob,
+        extension,
+        failedSegments: outcome.failedChunkIds.length + outcome.cancelledChunkIds.length
+      });
+    }
+    return { sourceLang, segments: chunks.length, targets };
+  }
+}
+
+export const translationPipeline = new TranslationPipeline();
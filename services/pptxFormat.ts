@@ -0,0 +1,294 @@
+
+import JSZip from "jszip";
+import { DocumentChunk, InlineRun } from "../types";
+import { DocumentFormat, chunkRuns, outputText } from "./documentFormat";
+import { inlineMarkup } from "./inlineMarkup";
+import { listNumbering } from "./listNumbering";
+import { runtime } from "./runtime";
+
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PPTX_MIME = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+// Children of a:rPr that must follow a hyperlink, per the schema
+const AFTER_HLINK = ['hlinkMouseOver', 'rtl', 'extLst'];
+
+/** A translatable unit of a slide: a shape paragraph, or a table cell with its paragraphs. */
+type Target =
+  | { kind: 'paragraph'; p: Element; shape: Element }
+  | { kind: 'cell'; tc: Element; paragraphs: Element[]; tableIndex: number; row: number; col: number };
+
+interface Slide {
+  path: string;
+  doc: Document;
+  /** Relationship id → external target, for hyperlinks. */
+  links: Map<string, string>;
+}
+
+const own = (el: Element, localName: string) => Array.from(el.children).filter(c => c.localName === localName);
+const first = (el: Element | undefined, ...path: string[]): Element | undefined =>
+  path.reduce<Element | undefined>((node, name) => (node ? own(node, name)[0] : undefined), el);
+
+/**
+ * PowerPoint decks: slides in presentation order and, within a slide, shapes in the order they
+ * are stacked, which is the order PowerPoint reads them out. Groups are walked into; tables give
+ * one chunk per cell. Translations are written back into the same paragraphs.
+ */
+export class PptxFormat implements DocumentFormat {
+  readonly id = 'pptx';
+  readonly name = 'PowerPoint';
+  readonly extensions = ['pptx'];
+  readonly mimeTypes = [PPTX_MIME];
+
+  async parse(file: File): Promise<DocumentChunk[]> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch {
+      throw new Error("PowerPoint extraction failed. The file might be corrupted or protected.");
+    }
+    const chunks: DocumentChunk[] = [];
+    const slides = await this.readSlides(zip);
+
+    slides.forEach((slide, s) => {
+      const counters = new Map<Element, number>();
+      this.targets(slide.doc).forEach((target, t) => {
+        const sourceRef = `${s}:${t}`;
+        if (target.kind === 'cell') {
+          const paragraphRuns = target.paragraphs.map(p => this.readRuns(p, slide.links));
+          const text = paragraphRuns.map(runs => inlineMarkup.toPlain(runs)).join('\n').trim();
+          const base = inlineMarkup.baseFormat(paragraphRuns.flat().filter(r => r.text.trim()));
+          chunks.push({
+            id: `pptx-c-${chunks.length}`,
+            type: 'table-cell',
+            originalText: text,
+            metadata: {
+              isBold: !!base.bold,
+              isItalic: !!base.italic,
+              isUnderlined: !!base.underline,
+              page: s + 1,
+              tableId: `pptx-t-${s}-${target.tableIndex}`,
+              row: target.row,
+              col: target.col,
+              rowSpan: Number(target.tc.getAttribute('rowSpan')) || undefined,
+              colSpan: Number(target.tc.getAttribute('gridSpan')) || undefined,
+              sourceRef
+            }
+          });
+          return;
+        }
+
+        const runs = this.readRuns(target.p, slide.links);
+        const text = inlineMarkup.toPlain(runs).trim();
+        if (!text) return;
+        const base = inlineMarkup.baseFormat(runs);
+        const formatting = {
+          isBold: !!base.bold,
+          isItalic: !!base.italic,
+          isUnderlined: !!base.underline
+        };
+        const inline = chunkRuns(runs);
+        const placeholder = first(target.shape, 'nvSpPr', 'nvPr', 'ph');
+        const placeholderType = placeholder?.getAttribute('type');
+
+        if (placeholderType === 'title' || placeholderType === 'ctrTitle') {
+          chunks.push({ id: `pptx-h-${chunks.length}`, type: 'heading', originalText: text, runs: inline, metadata: { ...formatting, level: 1, page: s + 1, sourceRef } });
+          return;
+        }
+
+        const pPr = own(target.p, 'pPr')[0];
+        const level = Number(pPr?.getAttribute('lvl') || 0) + 1;
+        const autoNumbered = !!(pPr && own(pPr, 'buAutoNum').length > 0);
+        // Body placeholders are bulleted unless the paragraph turns bullets off
+        const bulleted = autoNumbered || !!(pPr && own(pPr, 'buChar').length > 0)
+          || (!!placeholder && (placeholderType === null || placeholderType === 'body') && !(pPr && own(pPr, 'buNone').length > 0));
+
+        if (bulleted) {
+          const index = (counters.get(target.shape) || 0) + 1;
+          counters.set(target.shape, index);
+          chunks.push({
+            id: `pptx-li-${chunks.length}`,
+            type: 'list-item',
+            originalText: text,
+            runs: inline,
+            metadata: {
+              ...formatting,
+              level,
+              listType: autoNumbered ? 'ordered' : 'bullet',
+              listLabel: listNumbering.defaultLabel(index, level, autoNumbered),
+              page: s + 1,
+              sourceRef
+            }
+          });
+          return;
+        }
+        chunks.push({ id: `pptx-p-${chunks.length}`, type: 'paragraph', originalText: text, runs: inline, metadata: { ...formatting, page: s + 1, sourceRef } });
+      });
+    });
+    return chunks;
+  }
+
+  async write(chunks: DocumentChunk[], original: string): Promise<Blob> {
+    const zip = await JSZip.loadAsync(original, { base64: true });
+    const slides = await this.readSlides(zip);
+    const bySource = new Map(chunks.filter(c => c.metadata?.sourceRef && c.translatedText).map(c => [c.metadata!.sourceRef!, c]));
+
+    slides.forEach((slide, s) => {
+      let changed = false;
+      this.targets(slide.doc).forEach((target, t) => {
+        const chunk = bySource.get(`${s}:${t}`);
+        if (!chunk) return;
+        changed = true;
+        const meta = chunk.metadata!;
+        const format = { bold: meta.isBold, italic: meta.isItalic, underline: meta.isUnderlined };
+        if (target.kind === 'paragraph') {
+          this.writeRuns(target.p, chunk.translatedRuns || [{ ...format, text: outputText(chunk) }], slide.links);
+          return;
+        }
+        // One line per paragraph when the counts agree; otherwise everything in the first
+        const lines = outputText(chunk).split('\n');
+        const { paragraphs } = target;
+        paragraphs.forEach((p, i) => {
+          const text = lines.length === paragraphs.length ? lines[i] : i === 0 ? lines.join('\n') : '';
+          this.writeRuns(p, [{ ...format, text }], slide.links);
+        });
+      });
+      if (changed) zip.file(slide.path, new runtime.XMLSerializer().serializeToString(slide.doc));
+    });
+
+    return zip.generateAsync({ type: 'blob', mimeType: PPTX_MIME });
+  }
+
+  private async readSlides(zip: JSZip): Promise<Slide[]> {
+    const presentationXml = await zip.file('ppt/presentation.xml')?.async('string');
+    const relsXml = await zip.file('ppt/_rels/presentation.xml.rels')?.async('string');
+    if (!presentationXml || !relsXml) throw new Error("This file is not a PowerPoint presentation.");
+
+    const parser = new runtime.DOMParser();
+    const rels = Array.from(parser.parseFromString(relsXml, 'application/xml').getElementsByTagName('Relationship'));
+    const presentation = parser.parseFromString(presentationXml, 'application/xml');
+    const slides: Slide[] = [];
+
+    for (const sldId of Array.from(presentation.getElementsByTagNameNS(P_NS, 'sldId'))) {
+      const target = rels.find(r => r.getAttribute('Id') === sldId.getAttributeNS(R_NS, 'id'))?.getAttribute('Target');
+      if (!target) continue;
+      const path = target.startsWith('/') ? target.slice(1) : `ppt/${target}`;
+      const xml = await zip.file(path)?.async('string');
+      if (!xml) continue;
+
+      const slideRelsPath = path.replace(/([^/]+)$/, '_rels/$1.rels');
+      const slideRelsXml = await zip.file(slideRelsPath)?.async('string');
+      const links = new Map<string, string>();
+      if (slideRelsXml) {
+        Array.from(parser.parseFromString(slideRelsXml, 'application/xml').getElementsByTagName('Relationship'))
+          .filter(r => r.getAttribute('TargetMode') === 'External')
+          .forEach(r => links.set(r.getAttribute('Id')!, r.getAttribute('Target')!));
+      }
+      slides.push({ path, doc: parser.parseFromString(xml, 'application/xml'), links });
+    }
+    return slides;
+  }
+
+  private targets(doc: Document): Target[] {
+    const targets: Target[] = [];
+    let tableIndex = 0;
+    const tree = doc.getElementsByTagNameNS(P_NS, 'spTree')[0];
+    if (!tree) return targets;
+
+    const walk = (container: Element) => {
+      for (const child of Array.from(container.children)) {
+        if (child.localName === 'sp') {
+          const body = own(child, 'txBody')[0];
+          if (body) own(body, 'p').forEach(p => targets.push({ kind: 'paragraph', p, shape: child }));
+        } else if (child.localName === 'grpSp') {
+          walk(child);
+        } else if (child.localName === 'graphicFrame') {
+          const table = child.getElementsByTagNameNS(A_NS, 'tbl')[0];
+          if (!table) continue;
+          const index = tableIndex++;
+          own(table, 'tr').forEach((tr, row) => {
+            let col = 0;
+            own(tr, 'tc').forEach(tc => {
+              // Cells covered by a merge carry no content of their own
+              if (!tc.getAttribute('hMerge') && !tc.getAttribute('vMerge')) {
+                const body = own(tc, 'txBody')[0];
+                targets.push({ kind: 'cell', tc, paragraphs: body ? own(body, 'p') : [], tableIndex: index, row, col });
+              }
+              col++;
+            });
+          });
+        }
+      }
+    };
+    walk(tree);
+    return targets;
+  }
+
+  private readRuns(p: Element, links: Map<string, string>): InlineRun[] {
+    const runs: InlineRun[] = [];
+    Array.from(p.children).forEach(child => {
+      if (child.localName === 'br') {
+        runs.push({ text: '\n' });
+        return;
+      }
+      if (child.localName !== 'r' && child.localName !== 'fld') return;
+      const rPr = own(child, 'rPr')[0];
+      const link = first(rPr, 'hlinkClick')?.getAttributeNS(R_NS, 'id');
+      runs.push({
+        text: own(child, 't')[0]?.textContent || '',
+        bold: rPr?.getAttribute('b') === '1' || undefined,
+        italic: rPr?.getAttribute('i') === '1' || undefined,
+        underline: (!!rPr?.getAttribute('u') && rPr.getAttribute('u') !== 'none') || undefined,
+        superscript: Number(rPr?.getAttribute('baseline') || 0) > 0 || undefined,
+        href: link ? links.get(link) : undefined
+      });
+    });
+    return inlineMarkup.normalize(runs);
+  }
+
+  /**
+   * Replaces a paragraph's runs, breaks and fields with the given runs. The first run's
+   * properties are the template, so font, size and color carry over.
+   */
+  private writeRuns(p: Element, runs: InlineRun[], links: Map<string, string>) {
+    const doc = p.ownerDocument;
+    const old = Array.from(p.children).filter(c => ['r', 'br', 'fld'].includes(c.localName));
+    const template = old.map(r => own(r, 'rPr')[0]).find(Boolean);
+    old.forEach(r => p.removeChild(r));
+    const end = own(p, 'endParaRPr')[0] || null;
+    const linkIds = new Map(Array.from(links.entries()).map(([id, href]) => [href, id]));
+
+    const append = (node: Element) => p.insertBefore(node, end);
+    runs.forEach(run => {
+      run.text.split('\n').forEach((line, i) => {
+        if (i > 0) append(doc.createElementNS(A_NS, 'a:br'));
+        if (!line) return;
+        const r = doc.createElementNS(A_NS, 'a:r');
+        const rPr = template ? (template.cloneNode(true) as Element) : doc.createElementNS(A_NS, 'a:rPr');
+        const toggle = (name: string, on: boolean | undefined, value = '1') => {
+          if (on) rPr.setAttribute(name, value);
+          else rPr.removeAttribute(name);
+        };
+        toggle('b', run.bold);
+        toggle('i', run.italic);
+        toggle('u', run.underline, 'sng');
+        toggle('baseline', run.superscript, '30000');
+
+        own(rPr, 'hlinkClick').forEach(h => rPr.removeChild(h));
+        const linkId = run.href ? linkIds.get(run.href) : undefined;
+        if (linkId) {
+          const hlink = doc.createElementNS(A_NS, 'a:hlinkClick');
+          hlink.setAttributeNS(R_NS, 'r:id', linkId);
+          rPr.insertBefore(hlink, Array.from(rPr.children).find(c => AFTER_HLINK.includes(c.localName)) || null);
+        }
+
+        const t = doc.createElementNS(A_NS, 'a:t');
+        t.textContent = line;
+        r.appendChild(rPr);
+        r.appendChild(t);
+        append(r);
+      });
+    });
+  }
+}
@@ -0,0 +1,154 @@
+
+import { DomainProfile, GlossaryItem, ProfileExample, QaIssue } from "../types";
+import { TRANSLATION_TONES } from "../constants";
+
+const STORAGE_KEY = 'retrans.profiles';
+
+const QA_KINDS: QaIssue['kind'][] = ['glossary', 'number', 'date', 'clause', 'currency', 'formatting', 'terminology'];
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const storage = (): Storage | null => (typeof localStorage !== 'undefined' ? localStorage : null);
+
+const samePair = (entry: { sourceLang: string; targetLang: string }, sourceLang: string, targetLang: string) =>
+  entry.targetLang === targetLang && (entry.sourceLang === sourceLang || entry.sourceLang === 'auto' || sourceLang === 'auto');
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+
+export class ProfileService {
+  /** Built-in profiles first, then the user's own in the order they were saved. */
+  list(): DomainProfile[] {
+    return [...TRANSLATION_TONES, ...this.custom()];
+  }
+
+  /** The profile for a tone id; unknown ids (e.g. a deleted profile) fall back to Professional. */
+  get(id: string): DomainProfile {
+    return this.list().find(p => p.id === id) || TRANSLATION_TONES[0];
+  }
+
+  has(id: string): boolean {
+    return this.list().some(p => p.id === id);
+  }
+
+  save(profile: DomainProfile): DomainProfile {
+    if (TRANSLATION_TONES.some(p => p.id === profile.id)) {
+      throw new Error(`"${profile.name}" is built in; clone it to make changes.`);
+    }
+    const saved: DomainProfile = { ...profile, builtIn: false, updatedAt: Date.now() };
+    const others = this.custom().filter(p => p.id !== profile.id);
+    storage()?.setItem(STORAGE_KEY, JSON.stringify([...others, saved]));
+    return saved;
+  }
+
+  remove(id: string) {
+    storage()?.setItem(STORAGE_KEY, JSON.stringify(this.custom().filter(p => p.id !== id)));
+  }
+
+  create(name: string): DomainProfile {
+    const base = TRANSLATION_TONES[0];
+    return this.save({
+      ...base,
+      id: newId(),
+      name,
+      icon: '📝',
+      description: 'Custom profile',
+      terminologyRules: [...base.terminologyRules],
+      defaultGlossary: [],
+      qaRules: { ...base.qaRules, forbiddenTerms: [] },
+      examples: []
+    });
+  }
+
+  /** A user-owned copy of any profile, built-in or custom. */
+  clone(id: string, name: string): DomainProfile {
+    const source = this.get(id);
+    return this.save({ ...JSON.parse(JSON.stringify(source)), id: newId(), name });
+  }
+
+  // --- Exchange ------------------------------------------------------------------
+
+  toJson(profile: DomainProfile): string {
+    const { builtIn, updatedAt, ...data } = profile;
+    return JSON.stringify({ format: 'retrans-profile', version: 1, profile: data }, null, 2);
+  }
+
+  /**
+   * Reads a profile exported by toJson (or the bare profile object) and saves it as a custom
+   * profile. An id that clashes with an existing profile is replaced so nothing is overwritten.
+   */
+  fromJson(text: string): DomainProfile {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("The profile file is not valid JSON.");
+    }
+    const raw = data?.profile ?? data;
+    if (!raw || typeof raw.name !== 'string' || !raw.name.trim() || typeof raw.systemInstruction !== 'string' || !raw.systemInstruction.trim()) {
+      throw new Error("The file is not a ReTrans profile: a name and a system instruction are required.");
+    }
+
+    const pairEntries = <T extends { sourceLang: string; targetLang: string }>(value: unknown, fields: (keyof T)[]): T[] =>
+      (Array.isArray(value) ? value : []).filter((entry: any) =>
+        entry && ['sourceLang', 'targetLang', ...fields].every(f => typeof entry[f] === 'string' && entry[f].trim())
+      ).map((entry: any) => {
+        const picked: any = { sourceLang: entry.sourceLang, targetLang: entry.targetLang };
+        fields.forEach(f => { picked[f] = entry[f]; });
+        return picked as T;
+      });
+    const kinds = (value: unknown) => strings(value).filter((k): k is QaIssue['kind'] => QA_KINDS.includes(k as QaIssue['kind']));
+
+    const id = typeof raw.id === 'string' && raw.id.trim() && !this.has(raw.id) ? raw.id : newId();
+    return this.save({
+      id,
+      name: raw.name.trim(),
+      icon: typeof raw.icon === 'string' && raw.icon.trim() ? raw.icon : '📝',
+      description: typeof raw.description === 'string' ? raw.description : '',
+      systemInstruction: raw.systemInstruction.trim(),
+      terminologyRules: strings(raw.terminologyRules),
+      defaultGlossary: pairEntries(raw.defaultGlossary, ['original', 'target']),
+      qaRules: {
+        checks: raw.qaRules?.checks ? kinds(raw.qaRules.checks) : [...QA_KINDS],
+        blocking: kinds(raw.qaRules?.blocking),
+        forbiddenTerms: strings(raw.qaRules?.forbiddenTerms)
+      },
+      examples: pairEntries<ProfileExample>(raw.examples, ['source', 'target'])
+    });
+  }
+
+  // --- Use in a translation ------------------------------------------------------
+
+  /**
+   * The profile's default terms for the pair merged into the user's glossary. A user term with
+   * the same original wins, so a team glossary can override the profile's choices.
+   */
+  glossaryFor(profile: DomainProfile, sourceLang: string, targetLang: string, glossary: GlossaryItem[]): GlossaryItem[] {
+    const taken = new Set(glossary.map(item => item.original.trim().toLowerCase()));
+    const defaults = profile.defaultGlossary
+      .map((term, i) => ({ term, i }))
+      .filter(({ term }) => samePair(term, sourceLang, targetLang) && !taken.has(term.original.trim().toLowerCase()))
+      .map(({ term, i }): GlossaryItem => ({
+        id: `profile:${profile.id}:${i}`,
+        original: term.original,
+        target: term.target,
+        caseSensitive: false,
+        wholeWord: true
+      }));
+    return [...glossary, ...defaults];
+  }
+
+  examplesFor(profile: DomainProfile, sourceLang: string, targetLang: string): ProfileExample[] {
+    return profile.examples.filter(example => samePair(example, sourceLang, targetLang));
+  }
+
+  private custom(): DomainProfile[] {
+    try {
+      return JSON.parse(storage()?.getItem(STORAGE_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+}
+
+export const profileService = new ProfileService();
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DocumentChunk } from "../types";
+import { qaService } from "./qaService";
+
+const check = (originalText: string, translatedText: string) =>
+  qaService.checkNumbers([{ id: 'c0', type: 'paragraph', originalText, translatedText } as DocumentChunk])
+    .map(issue => [issue.kind, issue.source]);
+
+describe("QaService.checkNumbers", () => {
+  it("accepts amounts in the target locale's number format", () => {
+    expect(check("The rent is 1,500.00 per month, rising 3.5% a year.", "La renta es de 1.500,00 al mes y sube un 3,5 % al año.")).toEqual([]);
+    expect(check("Pay 1,200 and 2 more.", "Paga 1 200 y 2 más.")).toEqual([]);
+  });
+
+  it("flags an amount that changed or went missing", () => {
+    expect(check("The rent is 1,500 per month.", "La renta es de 1.600 al mes.")).toEqual([['number', '1,500']]);
+    expect(check("Late fees are 5% of 200.", "Los recargos son del 5 %.")).toEqual([['number', '200']]);
+  });
+
+  it("matches dates written in the target's own format", () => {
+    expect(check("Signed on January 5, 2024.", "Firmado el 5 de enero de 2024.")).toEqual([]);
+    expect(check("Signed on January 5, 2024.", "Подписано 5 января 2024 г.")).toEqual([]);
+    expect(check("Signed on January 5, 2024.", "2024年1月5日に署名。")).toEqual([]);
+    expect(check("Due 2024-03-01.", "Fällig am 01.03.2024.")).toEqual([]);
+    expect(check("Due 01/03/2024.", "Vence el 1 de marzo de 2024.")).toEqual([]);
+  });
+
+  it("flags a date whose parts only appear elsewhere in the translation", () => {
+    // Every number of the source date is in the target, but not as that date
+    expect(check("Pay 1,500 by January 5, 2024.", "Pague 1.500 el 5 de febrero de 2024, 1 vez.")).toEqual([['date', 'January 5, 2024']]);
+    expect(check("Rent is due on March 1, 2025.", "La renta vence el 1 de 2025, en marzo.")).toEqual([['date', 'March 1, 2025']]);
+    expect(check("Due 2024-03-01.", "Fällig am 01.04.2024.")).toEqual([['date', '2024-03-01']]);
+  });
+
+  it("needs a date in the translation for each date in the source", () => {
+    expect(check("From May 1, 2024 to May 1, 2025.", "Del 1 de mayo de 2024 al 1 de mayo de 2025.")).toEqual([]);
+    expect(check("From May 1, 2024 to May 1, 2025.", "Desde el 1 de mayo de 2024 por un año (2025).")).toEqual([['date', 'May 1, 2025']]);
+  });
+
+  it("checks currency codes and symbols", () => {
+    expect(check("A deposit of $2,000 in EUR.", "Un depósito de 2.000 USD en €.")).toEqual([]);
+    expect(check("A deposit of 2,000 GBP.", "Un depósito de 2.000 libras.")).toEqual([['currency', 'GBP']]);
+    expect(check("A deposit of £2,000.", "Un depósito de 2.000 libras.")).toEqual([['currency', '£']]);
+  });
+});
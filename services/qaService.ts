@@ -0,0 +1,311 @@
+
+import { DocumentChunk, DomainProfile, GlossaryItem, QaIssue } from "../types";
+import { LANGUAGES } from "../constants";
+import { glossaryService } from "./glossaryService";
+import { inlineMarkup } from "./inlineMarkup";
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'CNY', 'HKD', 'SGD', 'INR', 'BRL', 'MXN', 'KRW', 'RUB', 'TRY', 'PLN', 'SEK', 'NOK', 'DKK', 'CZK', 'HUF', 'ZAR', 'AED', 'SAR', 'THB', 'VND'];
+
+// A currency symbol in the source is satisfied by the symbol or any of its codes in the translation
+const CURRENCY_SYMBOLS: Record<string, string[]> = {
+  '$': ['$', 'USD', 'US$', 'CAD', 'AUD', 'MXN'],
+  '€': ['€', 'EUR'],
+  '£': ['£', 'GBP'],
+  '¥': ['¥', 'JPY', 'CNY', '円', '元'],
+  '₹': ['₹', 'INR', 'Rs'],
+  '₩': ['₩', 'KRW'],
+  '₽': ['₽', 'RUB'],
+  '₺': ['₺', 'TRY'],
+  'R$': ['R$', 'BRL'],
+  'CHF': ['CHF', 'Fr.']
+};
+
+const CLAUSE_REF = /(?:\b(?:Sections?|Articles?|Clauses?|Paragraphs?|Schedules?|Sec\.|Art\.|Para\.)|§§?)\s*(\d+(?:\.\d+)*(?:\s*\([A-Za-z0-9]{1,4}\))*)/gi;
+
+const NUMBER = /\d{1,3}(?:[\u00A0\u202F ]\d{3})+(?:[.,]\d+)?|\d+(?:[.,']\d+)*/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Month names (long and short) in every app language, mapped to a 0-based month index. Both the
+ * standalone form and the one used in dates are kept, since they differ in Russian or Polish
+ * ("январь", "15 января").
+ */
+const MONTH_NAMES: { name: string; month: number }[] = (() => {
+  const names = new Map<string, number>();
+  const inDateWords = new Map<string, Set<number>>();
+  const locales = ['en', ...LANGUAGES.map(l => l.code).filter(c => c !== 'auto')];
+  for (let month = 0; month < 12; month++) {
+    const date = new Date(Date.UTC(2000, month, 15));
+    for (const locale of locales) {
+      for (const style of ['long', 'short'] as const) {
+        try {
+          const name = new Intl.DateTimeFormat(locale, { month: style, timeZone: 'UTC' }).format(date).replace(/\.$/, '').toLowerCase();
+          // Purely numeric forms ("3月") are matched by the CJK date pattern
+          if (name.length >= 3 && !/\d/.test(name) && !names.has(name)) names.set(name, month);
+          const inDate = new Intl.DateTimeFormat(locale, { day: 'numeric', month: style, timeZone: 'UTC' }).format(date);
+          (inDate.toLowerCase().match(/[\p{L}\p{M}]{3,}/gu) || []).forEach(word => {
+            inDateWords.set(word, (inDateWords.get(word) || new Set<number>()).add(month));
+          });
+        } catch { /* locale not supported by this runtime */ }
+      }
+    }
+  }
+  // Words every month shares ("tháng" in "15 tháng 1") aren't month names
+  inDateWords.forEach((months, word) => {
+    if (months.size === 1 && !names.has(word)) names.set(word, [...months][0]);
+  });
+  return Array.from(names, ([name, month]) => ({ name, month })).sort((a, b) => b.name.length - a.name.length);
+})();
+
+const MONTH_ALTERNATION = MONTH_NAMES.map(m => escapeRegExp(m.name)).join('|');
+
+const DATE_PATTERNS: RegExp[] = [
+  /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g,
+  /\b(\d{1,2})[\/.](\d{1,2})[\/.](\d{2,4})\b/g,
+  new RegExp(`(?<![\\p{L}])(${MONTH_ALTERNATION})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'giu'),
+  new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th|\\.)?\\s+(?:de\\s+)?(${MONTH_ALTERNATION})\\.?,?\\s+(?:de\\s+)?(\\d{4})\\b`, 'giu'),
+  /(\d{4})\s*[年년]\s*(\d{1,2})\s*[月월]\s*(\d{1,2})\s*[日일]/g,
+  /\b(\d{1,2})\s+tháng\s+(\d{1,2}),?\s+(?:năm\s+)?(\d{4})\b/giu
+];
+
+interface DateToken {
+  text: string;
+  year: number;
+  day?: number;
+  /** Numeric components whose role (day or month) is ambiguous. */
+  parts: number[];
+  month?: number;
+}
+
+/**
+ * Every value a number token could mean. "1,200" is 1200 in English and 1.2 in German, so
+ * a token with a single separator followed by three digits yields both readings.
+ */
+const candidateValues = (token: string): string[] => {
+  const t = token.replace(/[\u00A0\u202F ']/g, '');
+  const seps = t.match(/[.,]/g) || [];
+  const canonical = (n: number) => String(Math.round(n * 1e6) / 1e6);
+  if (seps.length === 0) return [canonical(Number(t))];
+
+  const kinds = new Set(seps);
+  if (kinds.size === 2) {
+    const decimal = t[Math.max(t.lastIndexOf('.'), t.lastIndexOf(','))];
+    const grouping = decimal === '.' ? ',' : '.';
+    return [canonical(Number(t.split(grouping).join('').replace(decimal, '.')))];
+  }
+
+  const sep = seps[0];
+  const grouped = canonical(Number(t.split(sep).join('')));
+  if (seps.length > 1) return [grouped];
+  const decimal = canonical(Number(t.replace(sep, '.')));
+  return t.split(sep)[1].length === 3 ? [grouped, decimal] : [decimal];
+};
+
+const hash = (text: string): string => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+};
+
+export class QaService {
+  /**
+   * Glossary compliance: every chunk whose source contains a glossary term must contain that
+   * term's required translation, under the same case and whole-word options.
+   */
+  checkGlossary(chunks: DocumentChunk[], glossary: GlossaryItem[]): QaIssue[] {
+    const issues: QaIssue[] = [];
+    const terms = glossary.filter(item => item.original.trim() && item.target.trim());
+    if (terms.length === 0) return issues;
+
+    for (const chunk of chunks) {
+      if (!chunk.translatedText || !chunk.originalText) continue;
+      for (const item of terms) {
+        if (!glossaryService.matches(item, chunk.originalText)) continue;
+        const required = { ...item, original: item.target };
+        if (glossaryService.matches(required, chunk.translatedText)) continue;
+
+        issues.push({
+          id: `glossary-${chunk.id}-${item.id}`,
+          chunkId: chunk.id,
+          kind: 'glossary',
+          severity: 'warning',
+          message: `"${item.original}" should be translated as "${item.target}".`,
+          source: item.original,
+          expected: item.target,
+          glossaryItemId: item.id
+        });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Integrity of figures: amounts, percentages, dates, clause references and currencies found in
+   * the source must survive in the translation, allowing for the target locale's number and date
+   * formatting. Mismatches are blocking because a changed rent amount is a liability.
+   */
+  checkNumbers(chunks: DocumentChunk[]): QaIssue[] {
+    const issues: QaIssue[] = [];
+
+    for (const chunk of chunks) {
+      if (!chunk.translatedText || !chunk.originalText || !/\d|[$€£¥₹₩₽₺]|\b[A-Z]{3}\b/.test(chunk.originalText)) continue;
+      const source = chunk.originalText;
+      const target = chunk.translatedText;
+      const version = hash(target);
+      const issue = (kind: QaIssue['kind'], token: string, message: string, expected?: string): QaIssue => ({
+        id: `${kind}-${chunk.id}-${token}-${version}`,
+        chunkId: chunk.id,
+        kind,
+        severity: 'blocking',
+        message,
+        source: token,
+        expected
+      });
+
+      // Clause references and dates are checked as a whole, then blanked so their digits aren't re-checked as amounts
+      let remaining = source;
+      const compactTarget = target.replace(/\s+/g, '');
+      for (const match of source.matchAll(CLAUSE_REF)) {
+        const ref = match[1].replace(/\s+/g, '');
+        if (!compactTarget.includes(ref)) {
+          issues.push(issue('clause', match[0].trim(), `Clause reference "${match[0].trim()}" is missing or changed.`, ref));
+        }
+        remaining = remaining.replace(match[0], ' ');
+      }
+
+      const targetNumbers = new Map<string, number>();
+      (target.match(NUMBER) || []).forEach(token => {
+        candidateValues(token).forEach(v => targetNumbers.set(v, (targetNumbers.get(v) || 0) + 1));
+      });
+      // Each source date needs a date of its own in the translation, in whatever format the target uses
+      const targetDates = this.extractDates(target);
+      for (const date of this.extractDates(remaining)) {
+        const match = targetDates.findIndex(d => this.sameDate(date, d));
+        if (match < 0) issues.push(issue('date', date.text, `Date "${date.text}" is missing or changed.`));
+        else targetDates.splice(match, 1);
+        remaining = remaining.replace(date.text, ' ');
+      }
+
+      // Amounts: each source figure must appear in the translation at least as often
+      const consumed = new Map<string, number>();
+      for (const token of remaining.match(NUMBER) || []) {
+        const candidates = candidateValues(token);
+        const found = candidates.find(v => (targetNumbers.get(v) || 0) > (consumed.get(v) || 0));
+        if (found) {
+          consumed.set(found, (consumed.get(found) || 0) + 1);
+        } else {
+          const isPercent = new RegExp(`${escapeRegExp(token)}\\s*%`).test(remaining);
+          issues.push(issue('number', token, `${isPercent ? 'Percentage' : 'Figure'} "${token}${isPercent ? '%' : ''}" is missing or changed.`));
+        }
+      }
+
+      for (const code of CURRENCY_CODES) {
+        if (!new RegExp(`\\b${code}\\b`).test(source)) continue;
+        const accepted = [code, ...Object.keys(CURRENCY_SYMBOLS).filter(symbol => CURRENCY_SYMBOLS[symbol][1] === code)];
+        if (!accepted.some(a => target.includes(a))) {
+          issues.push(issue('currency', code, `Currency code "${code}" is missing.`, accepted.join(' / ')));
+        }
+      }
+      for (const [symbol, accepted] of Object.entries(CURRENCY_SYMBOLS)) {
+        if (symbol.length > 1 && /^[A-Z]+$/.test(symbol)) continue;
+        if (source.includes(symbol) && !accepted.some(a => target.includes(a))) {
+          issues.push(issue('currency', symbol, `Currency "${symbol}" is missing.`, accepted.join(' / ')));
+        }
+      }
+    }
+    return issues;
+  }
+
+  /** Whether two dates can be the same day, given that "01/02/2025" reads either way round. */
+  private sameDate(a: DateToken, b: DateToken): boolean {
+    const year = (n: number) => (n < 100 ? n + 2000 : n);
+    if (year(a.year) !== year(b.year)) return false;
+    if (a.parts.length === 0 && b.parts.length === 0) return a.day === b.day && a.month === b.month;
+    const dayAndMonth = (d: DateToken) => (d.parts.length > 0 ? d.parts : [d.day, d.month! + 1]).sort((x, y) => x - y).join();
+    return dayAndMonth(a) === dayAndMonth(b);
+  }
+
+  private extractDates(text: string): DateToken[] {
+    const dates: DateToken[] = [];
+    const seen = new Set<string>();
+    const monthIndex = (name: string) => MONTH_NAMES.find(m => m.name === name.toLowerCase().replace(/\.$/, ''))?.month;
+
+    DATE_PATTERNS.forEach((pattern, p) => {
+      for (const m of text.matchAll(pattern)) {
+        if (seen.has(m[0]) || dates.some(d => d.text.includes(m[0]))) continue;
+        seen.add(m[0]);
+        if (p === 0) dates.push({ text: m[0], year: +m[1], month: +m[2] - 1, day: +m[3], parts: [] });
+        else if (p === 1) dates.push({ text: m[0], year: +m[3], parts: [+m[1], +m[2]] });
+        else if (p === 2) dates.push({ text: m[0], year: +m[3], month: monthIndex(m[1]), day: +m[2], parts: [] });
+        else if (p === 3) dates.push({ text: m[0], year: +m[3], month: monthIndex(m[2]), day: +m[1], parts: [] });
+        else if (p === 4) dates.push({ text: m[0], year: +m[1], month: +m[2] - 1, day: +m[3], parts: [] });
+        else dates.push({ text: m[0], year: +m[3], month: +m[2] - 1, day: +m[1], parts: [] });
+      }
+    });
+    return dates;
+  }
+
+  /** Chunks whose inline formatting tags the model mangled, so the translation lost its bold, links etc. */
+  checkFormatting(chunks: DocumentChunk[]): QaIssue[] {
+    return chunks
+      .filter(c => c.translatedText && !c.translatedRuns && inlineMarkup.hasInlineFormatting(c.runs))
+      .map(c => ({
+        id: `formatting-${c.id}`,
+        chunkId: c.id,
+        kind: 'formatting',
+        severity: 'warning',
+        message: "Inline formatting (bold, italic, links) could not be carried over; the clause is exported unformatted.",
+        source: c.originalText
+      }));
+  }
+
+  /** Terms the domain profile forbids (e.g. lease jargon in a medical leaflet) that made it into a translation. */
+  checkTerminology(chunks: DocumentChunk[], forbiddenTerms: string[]): QaIssue[] {
+    const terms = forbiddenTerms.filter(t => t.trim()).map(t => ({ term: t.trim(), pattern: glossaryService.termPattern({ id: '', original: t, target: '' }, '') }));
+    const issues: QaIssue[] = [];
+    for (const chunk of chunks) {
+      if (!chunk.translatedText) continue;
+      for (const { term, pattern } of terms) {
+        // A term that is already in the source (a name, a quoted title) is not the translator's choice
+        if (!pattern.test(chunk.translatedText) || pattern.test(chunk.originalText)) continue;
+        issues.push({
+          id: `terminology-${chunk.id}-${term.toLowerCase()}`,
+          chunkId: chunk.id,
+          kind: 'terminology',
+          severity: 'warning',
+          message: `"${term}" does not belong in this domain's translations.`,
+          source: term
+        });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Runs the checks a profile's QA rules enable and applies its severities; without rules every
+   * check runs with its default severity.
+   */
+  run(chunks: DocumentChunk[], glossary: GlossaryItem[], rules?: DomainProfile['qaRules']): QaIssue[] {
+    const issues = [
+      ...this.checkNumbers(chunks),
+      ...this.checkGlossary(chunks, glossary),
+      ...this.checkFormatting(chunks),
+      ...this.checkTerminology(chunks, rules?.forbiddenTerms || [])
+    ];
+    if (!rules) return issues;
+    return issues
+      .filter(issue => rules.checks.includes(issue.kind))
+      .map(issue => ({ ...issue, severity: rules.blocking.includes(issue.kind) ? 'blocking' : 'warning' }));
+  }
+
+  byChunk(issues: QaIssue[]): Record<string, QaIssue[]> {
+    const grouped: Record<string, QaIssue[]> = {};
+    issues.forEach(issue => {
+      (grouped[issue.chunkId] = grouped[issue.chunkId] || []).push(issue);
+    });
+    return grouped;
+  }
+}
+
+export const qaService = new QaService();
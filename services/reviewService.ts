@@ -0,0 +1,81 @@
+
+import { DocumentChunk } from "../types";
+
+const REVIEWER_KEY = 'retrans.reviewer';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const storage = (): Storage | null => (typeof localStorage !== 'undefined' ? localStorage : null);
+
+export type ReviewFilter = 'all' | 'unapproved' | 'commented';
+
+export interface ReviewProgress {
+  /** Clauses that need sign-off: everything with text that is not locked. */
+  total: number;
+  approved: number;
+  rejected: number;
+  /** Clauses with comments nobody has resolved yet. */
+  commented: number;
+}
+
+/**
+ * Clause-by-clause sign-off. Approvals and rejections are translation states kept by the edit
+ * history; this service adds the discussion around them (comments, assignees) and the counts the
+ * export gate relies on.
+ */
+export class ReviewService {
+  /** Empty lines and locked cells carry nothing to sign off. */
+  needsReview(chunk: DocumentChunk): boolean {
+    return chunk.type !== 'empty-line' && !!chunk.originalText.trim() && !chunk.metadata?.locked;
+  }
+
+  /** Clauses still awaiting approval; export is gated until this is empty. */
+  pending(chunks: DocumentChunk[]): DocumentChunk[] {
+    return chunks.filter(c => this.needsReview(c) && c.status !== 'approved');
+  }
+
+  openComments(chunk: DocumentChunk) {
+    return (chunk.comments || []).filter(c => !c.resolved);
+  }
+
+  progress(chunks: DocumentChunk[]): ReviewProgress {
+    const reviewable = chunks.filter(c => this.needsReview(c));
+    return {
+      total: reviewable.length,
+      approved: reviewable.filter(c => c.status === 'approved').length,
+      rejected: reviewable.filter(c => c.status === 'rejected').length,
+      commented: reviewable.filter(c => this.openComments(c).length > 0).length
+    };
+  }
+
+  matches(chunk: DocumentChunk, filter: ReviewFilter): boolean {
+    if (filter === 'unapproved') return this.needsReview(chunk) && chunk.status !== 'approved';
+    if (filter === 'commented') return this.openComments(chunk).length > 0;
+    return true;
+  }
+
+  addComment(chunk: DocumentChunk, author: string, text: string): DocumentChunk {
+    return { ...chunk, comments: [...(chunk.comments || []), { id: newId(), author, text: text.trim(), at: Date.now() }] };
+  }
+
+  resolveComment(chunk: DocumentChunk, commentId: string, resolved: boolean = true): DocumentChunk {
+    return { ...chunk, comments: (chunk.comments || []).map(c => c.id === commentId ? { ...c, resolved } : c) };
+  }
+
+  assign(chunk: DocumentChunk, assignee: string): DocumentChunk {
+    return { ...chunk, assignee: assignee.trim() || undefined };
+  }
+
+  // --- Persistence -------------------------------------------------------------
+
+  /** The name comments, approvals and export overrides are signed with on this device. */
+  getReviewer(): string {
+    return storage()?.getItem(REVIEWER_KEY) || '';
+  }
+
+  setReviewer(name: string) {
+    storage()?.setItem(REVIEWER_KEY, name.trim());
+  }
+}
+
+export const reviewService = new ReviewService();
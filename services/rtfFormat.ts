@@ -0,0 +1,386 @@
+
+import { DocumentChunk, InlineRun } from "../types";
+import { DocumentFormat, chunkRuns, outputText } from "./documentFormat";
+import { inlineMarkup } from "./inlineMarkup";
+import { listNumbering } from "./listNumbering";
+
+type Format = Omit<InlineRun, 'text'>;
+
+// Groups whose text is never shown: tables of fonts and styles, document info, pictures, headers and footers
+const SKIP_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'filetbl', 'revtbl', 'xe', 'tc'
+]);
+const SYMBOLS: Record<string, string> = {
+  tab: '\t', line: '\n', emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+  emspace: '\u2003', enspace: '\u2002', qmspace: '\u2005'
+};
+const PARAGRAPH_WORDS = new Set(['par', 'pard', 'intbl', 'ql', 'qc', 'qr', 'qj', 'outlinelevel', 'ilvl']);
+// Bullets drawn from the Symbol and Wingdings fonts arrive as these Latin characters
+const SYMBOL_BULLETS = ['·', 'o', '§', '\uf0b7', '\uf0a7'];
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+// Twips: page text width for table columns, and the indent per list level
+const TEXT_WIDTH = 9360;
+const LIST_INDENT = 720;
+
+/** Formatting and destination state of one `{...}` group. */
+interface GroupState {
+  format: Format;
+  skip: boolean;
+  /** The group holds a list label (`\listtext`, `\pntext`) or a field instruction rather than text. */
+  capture?: 'label' | 'fldinst';
+  /** Characters to skip after `\uN`, the fallback for readers without Unicode. */
+  uc: number;
+}
+
+interface Paragraph {
+  runs: InlineRun[];
+  label: string;
+  alignment: 'left' | 'center' | 'right' | 'justify';
+  inTable: boolean;
+  outline?: number;
+  listLevel?: number;
+}
+
+const escapeRtf = (text: string) => Array.from(text).map(ch => {
+  if (ch === '\\' || ch === '{' || ch === '}') return `\\${ch}`;
+  if (ch === '\n') return '\\line ';
+  if (ch === '\t') return '\\tab ';
+  const code = ch.codePointAt(0)!;
+  if (code < 128) return ch;
+  // \uN takes a signed 16-bit value; characters beyond the BMP are written as surrogate pairs
+  return ch.split('').map(unit => {
+    const n = unit.charCodeAt(0);
+    return `\\u${n > 32767 ? n - 65536 : n}?`;
+  }).join('');
+}).join('');
+
+/**
+ * Rich Text Format. The reader follows the group structure, skipping font tables, pictures and
+ * other destinations, and picks up paragraphs, `\intbl` table rows, list labels, hyperlink fields
+ * and bold/italic/underline runs. RTF has no stable structure to patch, so the writer produces a
+ * clean RTF document from the chunks.
+ */
+export class RtfFormat implements DocumentFormat {
+  readonly id = 'rtf';
+  readonly name = 'RTF';
+  readonly extensions = ['rtf'];
+  readonly mimeTypes = ['application/rtf', 'text/rtf'];
+
+  async parse(file: File): Promise<DocumentChunk[]> {
+    const source = await file.text();
+    if (!source.trimStart().startsWith('{\\rtf')) {
+      throw new Error("RTF extraction failed. The file is not a valid RTF document.");
+    }
+
+    const chunks: DocumentChunk[] = [];
+    const stack: GroupState[] = [];
+    let state: GroupState = { format: {}, skip: false, uc: 1 };
+    let paragraph = this.newParagraph();
+    let pendingSkip = 0;
+    let bytes: number[] = [];
+    let decoder = new TextDecoder('windows-1252');
+    let fieldHref: string | undefined;
+    let captured = '';
+    let tables = 0;
+    let table: { id: string; row: number; col: number } | null = null;
+    let previousLabel: string | undefined;
+
+    const flushBytes = () => {
+      if (bytes.length === 0) return;
+      const text = decoder.decode(new Uint8Array(bytes));
+      bytes = [];
+      emit(text);
+    };
+    const emit = (text: string) => {
+      if (state.skip) return;
+      if (state.capture) captured += text;
+      else paragraph.runs.push({ ...state.format, text });
+    };
+
+    const endParagraph = (cell: boolean) => {
+      flushBytes();
+      const runs = this.trimRuns(paragraph.runs);
+      const text = inlineMarkup.toPlain(runs);
+      const base = inlineMarkup.baseFormat(runs);
+      const metadata = { isBold: !!base.bold, isItalic: !!base.italic, isUnderlined: !!base.underline, alignment: paragraph.alignment };
+      const common = { originalText: text, runs: chunkRuns(runs) };
+
+      if (cell || paragraph.inTable) {
+        if (!table) table = { id: `rtf-t-${tables++}`, row: 0, col: 0 };
+        // Paragraphs inside a cell are joined by line breaks until `\cell` closes it
+        if (!cell) {
+          paragraph.runs.push({ ...state.format, text: '\n' });
+          return;
+        }
+        chunks.push({ id: `rtf-td-${chunks.length}`, type: 'table-cell', ...common, metadata: { ...metadata, tableId: table.id, row: table.row, col: table.col } });
+        table.col++;
+      } else if (!text) {
+        table = null;
+        chunks.push({ id: `rtf-e-${chunks.length}`, type: 'empty-line', originalText: "" });
+      } else if (paragraph.outline !== undefined && paragraph.outline < 9) {
+        table = null;
+        chunks.push({ id: `rtf-h-${chunks.length}`, type: 'heading', ...common, metadata: { ...metadata, level: Math.min(paragraph.outline + 1, 6) } });
+      } else {
+        table = null;
+        const label = paragraph.label;
+        const parsed = label ? listNumbering.parseLabel(`${label} x`, previousLabel) : null;
+        if (label) {
+          previousLabel = label;
+          chunks.push({
+            id: `rtf-li-${chunks.length}`,
+            type: 'list-item',
+            ...common,
+            metadata: {
+              ...metadata,
+              level: (paragraph.listLevel ?? (parsed ? parsed.level - 1 : 0)) + 1,
+              listType: !parsed || parsed.format === 'bullet' ? 'bullet' : 'ordered',
+              listLabel: label
+            }
+          });
+        } else {
+          // Labels typed into the text ("1. The Lessee...") make the paragraph a list item too
+          const typed = listNumbering.parseLabel(text, previousLabel);
+          if (typed) {
+            previousLabel = typed.label;
+            const restRuns = common.runs && inlineMarkup.sliceFrom(common.runs, text.length - typed.rest.length);
+            chunks.push({
+              id: `rtf-li-${chunks.length}`,
+              type: 'list-item',
+              originalText: typed.rest,
+              runs: chunkRuns(restRuns),
+              metadata: {
+                ...metadata,
+                level: typed.level,
+                listType: typed.format === 'bullet' ? 'bullet' : 'ordered',
+                listLabel: typed.label,
+                listLabelInText: true
+              }
+            });
+          } else {
+            chunks.push({ id: `rtf-p-${chunks.length}`, type: 'paragraph', ...common, metadata });
+          }
+        }
+      }
+      paragraph = { ...this.newParagraph(), alignment: paragraph.alignment, inTable: paragraph.inTable, outline: paragraph.outline, listLevel: paragraph.listLevel };
+    };
+
+    const controlWord = (word: string, param: number | undefined) => {
+      const on = param !== 0;
+      if (state.skip) return;
+      // A list label group repeats its paragraph's properties; they belong to the paragraph
+      if (state.capture === 'label' && PARAGRAPH_WORDS.has(word)) return;
+      switch (word) {
+        case 'par': endParagraph(false); return;
+        case 'cell': endParagraph(true); return;
+        case 'row':
+          if (table) {
+            table.row++;
+            table.col = 0;
+          }
+          return;
+        case 'pard':
+          paragraph.alignment = 'left';
+          paragraph.inTable = false;
+          paragraph.outline = undefined;
+          paragraph.listLevel = undefined;
+          return;
+        case 'intbl': paragraph.inTable = true; return;
+        case 'ql': paragraph.alignment = 'left'; return;
+        case 'qc': paragraph.alignment = 'center'; return;
+        case 'qr': paragraph.alignment = 'right'; return;
+        case 'qj': paragraph.alignment = 'justify'; return;
+        case 'outlinelevel': paragraph.outline = param; return;
+        case 'ilvl': paragraph.listLevel = param; return;
+        case 'plain': state.format = {}; return;
+        case 'b': state.format = { ...state.format, bold: on || undefined }; return;
+        case 'i': state.format = { ...state.format, italic: on || undefined }; return;
+        case 'ul': state.format = { ...state.format, underline: on || undefined }; return;
+        case 'ulnone': state.format = { ...state.format, underline: undefined }; return;
+        case 'super': state.format = { ...state.format, superscript: true }; return;
+        case 'nosupersub': state.format = { ...state.format, superscript: undefined }; return;
+        case 'ansicpg':
+          try {
+            decoder = new TextDecoder(`windows-${param}`);
+          } catch {
+            // Unknown code pages keep the Windows Latin default
+          }
+          return;
+        case 'uc': state.uc = param ?? 1; return;
+        case 'u':
+          flushBytes();
+          emit(String.fromCharCode(param! < 0 ? param! + 65536 : param!));
+          pendingSkip = state.uc;
+          return;
+        case 'listtext':
+        case 'pntext':
+          state.capture = 'label';
+          return;
+        case 'fldinst': state.capture = 'fldinst'; return;
+        case 'fldrslt': state.format = { ...state.format, href: fieldHref }; return;
+      }
+      if (SYMBOLS[word]) {
+        flushBytes();
+        emit(SYMBOLS[word]);
+      } else if (SKIP_DESTINATIONS.has(word)) {
+        state.skip = true;
+      }
+    };
+
+    let i = source.indexOf('{');
+    while (i < source.length) {
+      const ch = source[i];
+      if (ch === '{') {
+        flushBytes();
+        stack.push(state);
+        state = { ...state };
+        i++;
+      } else if (ch === '}') {
+        flushBytes();
+        if (state.capture === 'label' && !stack[stack.length - 1]?.capture) paragraph.label = this.labelOf(captured);
+        if (state.capture === 'fldinst' && !stack[stack.length - 1]?.capture) fieldHref = captured.match(/HYPERLINK\s+"([^"]+)"/)?.[1];
+        if (state.capture && !stack[stack.length - 1]?.capture) captured = '';
+        state = stack.pop() || state;
+        i++;
+      } else if (ch === '\\') {
+        const next = source[i + 1];
+        if (next === "'") {
+          const byte = parseInt(source.substr(i + 2, 2), 16);
+          if (pendingSkip > 0) pendingSkip--;
+          else if (!isNaN(byte)) bytes.push(byte);
+          i += 4;
+        } else if (next === '*') {
+          // An ignorable destination: skipped unless it is one we read
+          const word = source.slice(i + 2).match(/^\s*\\([a-zA-Z]+)/)?.[1];
+          if (word !== 'fldinst') state.skip = true;
+          i += 2;
+        } else if (/[a-zA-Z]/.test(next)) {
+          const match = source.slice(i + 1, i + 48).match(/^([a-zA-Z]{1,32})(-?\d{1,10})? ?/)!;
+          flushBytes();
+          const word = match[1];
+          if (pendingSkip > 0 && word !== 'u') pendingSkip--;
+          controlWord(word, match[2] !== undefined ? Number(match[2]) : undefined);
+          i += 1 + match[0].length;
+        } else {
+          // Control symbols: escaped braces and backslashes, non-breaking space and hyphen
+          flushBytes();
+          if (next === '\\' || next === '{' || next === '}') emit(next);
+          else if (next === '~') emit('\u00a0');
+          else if (next === '_') emit('\u2011');
+          else if (next === '\n' || next === '\r') endParagraph(false);
+          i += 2;
+        }
+      } else {
+        if (ch !== '\r' && ch !== '\n') {
+          if (pendingSkip > 0) pendingSkip--;
+          else {
+            flushBytes();
+            emit(ch);
+          }
+        }
+        i++;
+      }
+    }
+    flushBytes();
+    if (paragraph.runs.some(r => r.text.trim())) endParagraph(false);
+
+    // Word ends every document with an empty paragraph
+    while (chunks.length > 0 && chunks[chunks.length - 1].type === 'empty-line') chunks.pop();
+    return chunks;
+  }
+
+  async write(chunks: DocumentChunk[], _original: string, targetLang: string): Promise<Blob> {
+    const rtl = RTL_LANGUAGES.includes(targetLang.split(/[-_]/)[0]);
+    const direction = rtl ? '\\rtlpar' : '';
+    const body: string[] = [];
+
+    const runsOf = (chunk: DocumentChunk) => chunk.translatedRuns
+      || [{ text: outputText(chunk), bold: chunk.metadata?.isBold, italic: chunk.metadata?.isItalic, underline: chunk.metadata?.isUnderlined }];
+    const alignment = (chunk: DocumentChunk) => ({ center: '\\qc', right: '\\qr', justify: '\\qj' } as Record<string, string>)[chunk.metadata?.alignment || ''] || '';
+
+    for (let n = 0; n < chunks.length; n++) {
+      const chunk = chunks[n];
+      if (chunk.metadata?.repeatOf) continue;
+
+      if (chunk.type === 'table-cell') {
+        const tableId = chunk.metadata?.tableId;
+        const cells: DocumentChunk[] = [];
+        while (n < chunks.length && chunks[n].type === 'table-cell' && chunks[n].metadata?.tableId === tableId) cells.push(chunks[n++]);
+        n--;
+        body.push(this.writeTable(cells, runsOf, direction));
+        continue;
+      }
+      if (chunk.type === 'empty-line') {
+        body.push(`\\pard${direction}\\par`);
+        continue;
+      }
+
+      const text = this.writeRuns(runsOf(chunk));
+      if (chunk.type === 'heading') {
+        const level = chunk.metadata?.level || 1;
+        body.push(`\\pard${direction}${alignment(chunk)}\\outlinelevel${level - 1}\\sb240\\sa120{\\b\\fs${Math.max(36 - (level - 1) * 4, 24)} ${text}}\\par`);
+      } else if (chunk.type === 'list-item') {
+        const level = chunk.metadata?.level || 1;
+        const label = escapeRtf(chunk.translatedListLabel ?? chunk.metadata?.listLabel ?? '•');
+        body.push(`\\pard${direction}\\li${LIST_INDENT * level}\\fi-360\\sa60 ${label}\\tab ${text}\\par`);
+      } else if (chunk.type === 'checkbox') {
+        body.push(`\\pard${direction}\\sa60 ${chunk.metadata?.isChecked ? '\\u9746?' : '\\u9744?'} ${text}\\par`);
+      } else {
+        body.push(`\\pard${direction}${alignment(chunk)}\\sa120 ${text}\\par`);
+      }
+    }
+
+    const document = `{\\rtf1\\ansi\\ansicpg1252\\deff0{\\fonttbl{\\f0\\fswiss Calibri;}}\\uc1\\fs22\n${body.join('\n')}\n}`;
+    return new Blob([document], { type: 'application/rtf' });
+  }
+
+  private newParagraph(): Paragraph {
+    return { runs: [], label: '', alignment: 'left', inTable: false };
+  }
+
+  private labelOf(captured: string): string {
+    const label = captured.replace(/\t/g, ' ').trim();
+    return SYMBOL_BULLETS.includes(label) ? '•' : label;
+  }
+
+  private trimRuns(runs: InlineRun[]): InlineRun[] {
+    const normalized = inlineMarkup.normalize(runs.map(r => ({ ...r, text: r.text.replace(/\t/g, ' ') })));
+    if (normalized.length > 0) {
+      normalized[0].text = normalized[0].text.replace(/^\s+/, '');
+      normalized[normalized.length - 1].text = normalized[normalized.length - 1].text.replace(/\s+$/, '');
+    }
+    return inlineMarkup.normalize(normalized);
+  }
+
+  private writeRuns(runs: InlineRun[]): string {
+    return runs.map(run => {
+      if (!run.text) return '';
+      let text = escapeRtf(run.text);
+      const codes = `${run.bold ? '\\b' : ''}${run.italic ? '\\i' : ''}${run.underline ? '\\ul' : ''}${run.superscript ? '\\super' : ''}`;
+      if (codes) text = `{${codes} ${text}}`;
+      if (run.href) text = `{\\field{\\*\\fldinst HYPERLINK "${run.href.replace(/["\\{}]/g, '')}"}{\\fldrslt ${text}}}`;
+      return text;
+    }).join('');
+  }
+
+  /** One `\trowd` row per table row, with equal column widths across the text width. */
+  private writeTable(cells: DocumentChunk[], runsOf: (chunk: DocumentChunk) => InlineRun[], direction: string): string {
+    const columns = Math.max(...cells.map(c => (c.metadata?.col ?? 0) + (c.metadata?.colSpan ?? 1)), 1);
+    const width = Math.floor(TEXT_WIDTH / columns);
+    const rows = new Map<number, DocumentChunk[]>();
+    cells.forEach(cell => {
+      const row = cell.metadata?.row ?? 0;
+      rows.set(row, [...(rows.get(row) || []), cell]);
+    });
+
+    return Array.from(rows.values()).map(row => {
+      const sorted = [...row].sort((a, b) => (a.metadata?.col ?? 0) - (b.metadata?.col ?? 0));
+      const edges = sorted.map(cell => `\\clbrdrt\\brdrs\\clbrdrl\\brdrs\\clbrdrb\\brdrs\\clbrdrr\\brdrs\\cellx${width * ((cell.metadata?.col ?? 0) + (cell.metadata?.colSpan ?? 1))}`).join('');
+      const content = sorted.map(cell => {
+        const text = this.writeRuns(runsOf(cell));
+        return `\\pard\\intbl${direction} ${text}\\cell`;
+      }).join(' ');
+      return `\\trowd\\trgaph108${edges}\n${content}\\row`;
+    }).join('\n') + '\n\\pard';
+  }
+}
@@ -0,0 +1,55 @@
+import { PDF_FONT_CDN } from '../constants';
+
+/**
+ * What the services need from the environment they run in. In the web app everything comes from
+ * the page: the browser's DOM, the libraries index.html loads from a CDN and the API key Vite
+ * injects. The CLI configures Node replacements once at startup (see cli/nodeRuntime.ts), so the
+ * parsing, translation and export pipeline never touches a browser-only global itself.
+ */
+export interface Runtime {
+  /** Parses XML packages and, for 'text/html', HTML. */
+  DOMParser: new () => DOMParser;
+  XMLSerializer: new () => XMLSerializer;
+  /** mammoth.js, which turns DOCX into HTML; undefined until its script has loaded. */
+  mammoth?: any;
+  /** pdf.js, which reads the text layer of PDFs; undefined until its script has loaded. */
+  pdfjsLib?: any;
+  /** A blank canvas for rendering pages to OCR; without one, scans and photos can't be read. */
+  createCanvas?: (width: number, height: number) => HTMLCanvasElement;
+  apiKey?: string;
+  /**
+   * Reads a font file for PDF export, named by its @expo-google-fonts package ("noto-sans@0.4.2")
+   * and its path inside it ("400Regular/NotoSans_400Regular.ttf"). The page fetches it from the CDN.
+   */
+  loadFont: (pkg: string, file: string) => Promise<ArrayBuffer>;
+}
+
+let configured: Partial<Runtime> = {};
+
+export const configureRuntime = (overrides: Partial<Runtime>) => {
+  configured = { ...configured, ...overrides };
+};
+
+const browserCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const fetchFont = async (pkg: string, file: string): Promise<ArrayBuffer> => {
+  const response = await fetch(`${PDF_FONT_CDN}/${pkg}/${file}`);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.arrayBuffer();
+};
+
+// Getters, since the CDN scripts may finish loading after the services were imported
+export const runtime: Runtime = {
+  get DOMParser() { return configured.DOMParser ?? globalThis.DOMParser; },
+  get XMLSerializer() { return configured.XMLSerializer ?? globalThis.XMLSerializer; },
+  get mammoth() { return configured.mammoth ?? (globalThis as any).mammoth; },
+  get pdfjsLib() { return configured.pdfjsLib ?? (globalThis as any).pdfjsLib; },
+  get createCanvas() { return 'createCanvas' in configured ? configured.createCanvas : typeof document !== 'undefined' ? browserCanvas : undefined; },
+  get apiKey() { return configured.apiKey ?? process.env.API_KEY; },
+  get loadFont() { return configured.loadFont ?? fetchFont; }
+};
@@ -0,0 +1,108 @@
+
+import { SessionSummary, TranslationState } from "../types";
+import { SESSION_MAX_RECENT } from "../constants";
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from "./idb";
+
+const DB_NAME = 'retrans-sessions';
+const DB_VERSION = 1;
+const SUMMARIES = 'summaries';
+const STATES = 'states';
+const FILES = 'files';
+
+/** What a session keeps: the document and its settings, without the progress of jobs that died with the page. */
+export type SavedState = Omit<TranslationState, 'isProcessing' | 'progress' | 'statusMessage' | 'error' | 'jobs'>;
+
+/**
+ * Keeps the document being translated in IndexedDB so a refresh or a crashed tab doesn't lose
+ * translations already paid for. A session is three records under one id: a small summary for the
+ * "Recent documents" list, the state, and the uploaded file, which is written once per page load
+ * since it never changes.
+ */
+export class SessionStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private storedFiles = new Set<string>();
+
+  isAvailable(): boolean {
+    return isIndexedDbAvailable();
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        [SUMMARIES, STATES, FILES].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+        });
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /** Saves the document on screen with every target language; does nothing before an upload. */
+  async save(state: TranslationState): Promise<void> {
+    const id = state.sessionId;
+    if (!id || !state.originalFileName || state.chunks.length === 0) return;
+    const { isProcessing, progress, statusMessage, error, jobs, originalFileData, ...saved } = state;
+
+    const db = await this.db();
+    const tx = db.transaction([SUMMARIES, STATES, FILES], 'readwrite');
+    const summaries = tx.objectStore(SUMMARIES);
+    const existing = await requestToPromise(summaries.get(id)) as SessionSummary | undefined;
+    const now = Date.now();
+    summaries.put({ ...this.summarize(state), createdAt: existing?.createdAt ?? now, updatedAt: now });
+    tx.objectStore(STATES).put({ id, state: saved });
+    if (!this.storedFiles.has(id)) tx.objectStore(FILES).put({ id, fileData: originalFileData });
+    await transactionDone(tx);
+    this.storedFiles.add(id);
+    await this.prune();
+  }
+
+  /** Most recently saved first. */
+  async list(): Promise<SessionSummary[]> {
+    const db = await this.db();
+    const all = await requestToPromise(db.transaction(SUMMARIES, 'readonly').objectStore(SUMMARIES).getAll()) as SessionSummary[];
+    return all.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async load(id: string): Promise<SavedState> {
+    const db = await this.db();
+    const tx = db.transaction([STATES, FILES], 'readonly');
+    const [record, file] = await Promise.all([
+      requestToPromise(tx.objectStore(STATES).get(id)) as Promise<{ state: SavedState } | undefined>,
+      requestToPromise(tx.objectStore(FILES).get(id)) as Promise<{ fileData?: string } | undefined>
+    ]);
+    if (!record) throw new Error("This session is no longer saved.");
+    this.storedFiles.add(id);
+    return { ...record.state, originalFileData: file?.fileData };
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction([SUMMARIES, STATES, FILES], 'readwrite');
+    [SUMMARIES, STATES, FILES].forEach(name => tx.objectStore(name).delete(id));
+    await transactionDone(tx);
+    this.storedFiles.delete(id);
+  }
+
+  private summarize(state: TranslationState): Omit<SessionSummary, 'createdAt' | 'updatedAt'> {
+    const documents = state.targetLangs.map(lang =>
+      lang === state.targetLang ? state.chunks : state.parkedTargets[lang]?.chunks || []);
+    return {
+      id: state.sessionId!,
+      fileName: state.originalFileName!,
+      fileType: state.originalFileType,
+      sourceLang: state.detectedSourceLang || state.sourceLang,
+      targetLangs: state.targetLangs,
+      tone: state.tone,
+      segments: documents.reduce((sum, chunks) => sum + chunks.length, 0),
+      translated: documents.reduce((sum, chunks) => sum + chunks.filter(c => c.translatedText !== undefined).length, 0)
+    };
+  }
+
+  // Only the most recent sessions are kept; the file data makes old ones expensive
+  private async prune() {
+    const stale = (await this.list()).slice(SESSION_MAX_RECENT);
+    for (const summary of stale) await this.remove(summary.id);
+  }
+}
+
+export const sessionStore = new SessionStore();
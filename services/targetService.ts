@@ -0,0 +1,114 @@
+
+import { DocumentChunk, TargetDocument, TargetJob, TranslationState } from "../types";
+import { editHistory } from "./editHistory";
+
+/**
+ * Several target languages of one document. The language on screen lives in `state.chunks`, so
+ * editing, review, QA and XLIFF work on it unchanged; the others are parked with their own
+ * acknowledged QA issues and swapped in when their tab is opened. Every language is a copy of
+ * the same parsed chunks, so chunk ids line up across languages.
+ */
+export class TargetService {
+  /** An untranslated copy of the chunks, to start a new language from. */
+  fresh(chunks: DocumentChunk[]): DocumentChunk[] {
+    return chunks.map(chunk => ({
+      ...editHistory.clear(chunk),
+      translatedText: undefined,
+      translatedRuns: undefined,
+      translatedListLabel: undefined,
+      translationError: undefined,
+      memoryMatch: undefined,
+      comments: undefined,
+      assignee: undefined
+    }));
+  }
+
+  document(state: TranslationState, lang: string): TargetDocument | undefined {
+    if (lang === state.targetLang) return { chunks: state.chunks, acknowledgedIssueIds: state.acknowledgedIssueIds };
+    return state.parkedTargets[lang];
+  }
+
+  /** The state as it would be with the language's tab open, e.g. to export or certify it. */
+  view(state: TranslationState, lang: string): TranslationState {
+    const doc = this.document(state, lang);
+    return doc ? { ...state, targetLang: lang, chunks: doc.chunks, acknowledgedIssueIds: doc.acknowledgedIssueIds } : state;
+  }
+
+  /** Applies a change to one language's document, wherever it currently lives. */
+  update(state: TranslationState, lang: string, change: (doc: TargetDocument) => TargetDocument): TranslationState {
+    if (lang === state.targetLang) {
+      const doc = change({ chunks: state.chunks, acknowledgedIssueIds: state.acknowledgedIssueIds });
+      return { ...state, chunks: doc.chunks, acknowledgedIssueIds: doc.acknowledgedIssueIds };
+    }
+    const parked = state.parkedTargets[lang];
+    if (!parked) return state;
+    return { ...state, parkedTargets: { ...state.parkedTargets, [lang]: change(parked) } };
+  }
+
+  updateAll(state: TranslationState, change: (doc: TargetDocument, lang: string) => TargetDocument): TranslationState {
+    return state.targetLangs.reduce((next, lang) => this.update(next, lang, doc => change(doc, lang)), state);
+  }
+
+  /** Opens a language's tab, parking the one on screen. */
+  switchTo(state: TranslationState, lang: string): TranslationState {
+    if (lang === state.targetLang || !state.parkedTargets[lang]) return state;
+    const { [lang]: next, ...others } = state.parkedTargets;
+    return {
+      ...state,
+      targetLang: lang,
+      chunks: next.chunks,
+      acknowledgedIssueIds: next.acknowledgedIssueIds,
+      parkedTargets: { ...others, [state.targetLang]: { chunks: state.chunks, acknowledgedIssueIds: state.acknowledgedIssueIds } }
+    };
+  }
+
+  /** Adds a language with an untranslated copy of the document; it still has to be translated. */
+  add(state: TranslationState, lang: string): TranslationState {
+    if (state.targetLangs.includes(lang)) return state;
+    return {
+      ...state,
+      targetLangs: [...state.targetLangs, lang],
+      parkedTargets: state.chunks.length > 0
+        ? { ...state.parkedTargets, [lang]: { chunks: this.fresh(state.chunks), acknowledgedIssueIds: [] } }
+        : state.parkedTargets
+    };
+  }
+
+  /** Drops a language and its translation; the last language can't be removed. */
+  remove(state: TranslationState, lang: string): TranslationState {
+    if (!state.targetLangs.includes(lang) || state.targetLangs.length < 2) return state;
+    const targetLangs = state.targetLangs.filter(l => l !== lang);
+    const shown = lang === state.targetLang && state.chunks.length > 0 ? this.switchTo(state, targetLangs[0]) : state;
+    const { [lang]: _dropped, ...parkedTargets } = shown.parkedTargets;
+    const { [lang]: _job, ...jobs } = shown.jobs;
+    return this.summarize({
+      ...shown,
+      targetLang: shown.targetLang === lang ? targetLangs[0] : shown.targetLang,
+      targetLangs,
+      parkedTargets,
+      jobs
+    });
+  }
+
+  /** Records a language's job progress and refreshes the overall status from all jobs. */
+  setJob(state: TranslationState, lang: string, job: Partial<TargetJob>): TranslationState {
+    const current = state.jobs[lang] || { isProcessing: false, progress: 0, statusMessage: '' };
+    return this.summarize({ ...state, jobs: { ...state.jobs, [lang]: { ...current, ...job } } });
+  }
+
+  private summarize(state: TranslationState): TranslationState {
+    const running = state.targetLangs.filter(lang => state.jobs[lang]?.isProcessing);
+    if (running.length === 0) {
+      const job = state.jobs[state.targetLang];
+      return { ...state, isProcessing: false, progress: 100, statusMessage: job?.statusMessage ?? state.statusMessage };
+    }
+    const progress = Math.round(running.reduce((sum, lang) => sum + state.jobs[lang].progress, 0) / running.length);
+    const single = state.jobs[running[0]];
+    const statusMessage = running.length > 1
+      ? `${running.length} Languages · ${progress}%`
+      : state.targetLangs.length > 1 ? `${running[0].toUpperCase()} · ${single.statusMessage}` : single.statusMessage;
+    return { ...state, isProcessing: true, progress, statusMessage };
+  }
+}
+
+export const targetService = new TargetService();
@@ -0,0 +1,65 @@
+
+import { OcrEngine, OcrImage, OcrLine, OcrOptions } from "./ocrEngine";
+
+declare const Tesseract: any;
+
+// Tesseract traineddata names for the app's languages
+const TESSERACT_LANGS: Record<string, string> = {
+  en: 'eng', es: 'spa', fr: 'fra', de: 'deu', it: 'ita', ja: 'jpn', zh: 'chi_sim', pt: 'por',
+  ru: 'rus', ko: 'kor', ar: 'ara', hi: 'hin', tr: 'tur', nl: 'nld', pl: 'pol', vi: 'vie', th: 'tha'
+};
+
+/** Where tesseract.js loads its worker, WASM core and language data from; self-host these to run offline. */
+export interface TesseractPaths {
+  workerPath?: string;
+  corePath?: string;
+  langPath?: string;
+}
+
+/**
+ * Local OCR with tesseract.js, running in a web worker. One worker is kept per language set
+ * because loading traineddata is the slow part.
+ */
+export class TesseractOcrEngine implements OcrEngine {
+  readonly id = 'tesseract';
+  readonly name = 'Tesseract (local)';
+  readonly offline = true;
+
+  private worker: any = null;
+  private workerLangs = '';
+
+  constructor(private paths: TesseractPaths = {}) {}
+
+  isAvailable(): boolean {
+    return typeof Tesseract !== 'undefined';
+  }
+
+  async recognize(image: OcrImage, options: OcrOptions): Promise<OcrLine[]> {
+    const langs = Array.from(new Set(
+      options.languages.map(l => TESSERACT_LANGS[l]).filter(Boolean)
+    )).join('+') || 'eng';
+
+    if (!this.worker || this.workerLangs !== langs) {
+      await this.worker?.terminate();
+      this.worker = await Tesseract.createWorker(langs, 1, this.paths);
+      this.workerLangs = langs;
+    }
+    if (options.signal?.aborted) throw new Error("OCR cancelled.");
+
+    const { data } = await this.worker.recognize(`data:${image.mimeType};base64,${image.data}`);
+    if (options.signal?.aborted) throw new Error("OCR cancelled.");
+
+    return (data.lines || [])
+      .filter((line: any) => line.text?.trim())
+      .map((line: any) => ({
+        text: line.text.trim(),
+        bbox: {
+          x: line.bbox.x0,
+          y: line.bbox.y0,
+          width: line.bbox.x1 - line.bbox.x0,
+          height: line.bbox.y1 - line.bbox.y0
+        },
+        confidence: typeof line.confidence === 'number' ? line.confidence / 100 : undefined
+      }));
+  }
+}
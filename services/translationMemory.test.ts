@@ -0,0 +1,51 @@
+import "fake-indexeddb/auto";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { DOMParser } from "linkedom";
+import { DocumentChunk } from "../types";
+import { configureRuntime } from "./runtime";
+import { translationMemory } from "./translationMemory";
+
+const chunk = (id: string, originalText: string): DocumentChunk => ({ id, type: 'paragraph', originalText });
+
+describe("TranslationMemoryService TMX", () => {
+  beforeAll(() => {
+    configureRuntime({ DOMParser: DOMParser as unknown as new () => globalThis.DOMParser });
+  });
+
+  beforeEach(() => translationMemory.clear());
+
+  it("round-trips entries with their tone and markup characters", async () => {
+    await translationMemory.store([{ sourceText: "The Lessee <shall> pay & sign.", targetText: "El Arrendatario <deberá> pagar & firmar." }], 'en', 'es', 'legal');
+    await translationMemory.store([{ sourceText: "Welcome", targetText: "Bienvenue" }], 'en', 'fr', '*');
+    const tmx = await translationMemory.exportTmx();
+
+    await translationMemory.clear();
+    expect(await translationMemory.importTmx(tmx)).toBe(2);
+
+    const entries = (await translationMemory.all()).sort((a, b) => a.targetLang.localeCompare(b.targetLang));
+    expect(entries.map(e => [e.sourceLang, e.targetLang, e.tone, e.sourceText, e.targetText])).toEqual([
+      ['en', 'es', 'legal', "The Lessee <shall> pay & sign.", "El Arrendatario <deberá> pagar & firmar."],
+      ['en', 'fr', '*', "Welcome", "Bienvenue"]
+    ]);
+  });
+
+  it("imports every target of a unit from the header's source language", async () => {
+    const tmx = `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header srclang="en-US" datatype="plaintext" segtype="sentence" adminlang="en" o-tmf="x" creationtool="x" creationtoolversion="1"/>
+  <body>
+    <tu>
+      <tuv xml:lang="de-DE"><seg>Mieter</seg></tuv>
+      <tuv xml:lang="en-US"><seg>LESSEE</seg></tuv>
+      <tuv xml:lang="fr-FR"><seg>Preneur</seg></tuv>
+    </tu>
+    <tu><tuv xml:lang="en-US"><seg>Only a source</seg></tuv></tu>
+  </body>
+</tmx>`;
+
+    expect(await translationMemory.importTmx(tmx)).toBe(2);
+    const lookup = await translationMemory.lookup([chunk('c0', 'LESSEE'), chunk('c1', 'Lessee')], 'en', 'de', 'legal', 0.99);
+    // Imports match any tone; exact matches keep case
+    expect(lookup.exact).toEqual({ c0: 'Mieter' });
+  });
+});
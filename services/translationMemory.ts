@@ -0,0 +1,279 @@
+
+import { DocumentChunk, MemoryMatch, TranslationMemoryEntry, TranslationTone } from "../types";
+import { MEMORY_MAX_REFERENCES } from "../constants";
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from "./idb";
+import { runtime } from "./runtime";
+
+const DB_NAME = 'retrans-memory';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+export interface MemoryReference {
+  source: string;
+  target: string;
+  score: number;
+}
+
+export interface MemoryLookup {
+  exact: Record<string, string>;
+  fuzzy: Record<string, MemoryReference[]>;
+  matches: Record<string, MemoryMatch>;
+}
+
+export interface MemoryRecord {
+  sourceText: string;
+  targetText: string;
+  origin?: TranslationMemoryEntry['origin'];
+}
+
+// Exact matches keep case: "LESSOR" in a heading and "Lessor" as a defined term are different segments
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+const primaryLang = (lang: string) => lang.trim().toLowerCase().split(/[-_]/)[0];
+
+// Fuzzy scoring ignores case
+const tokenize = (text: string) => normalize(text).toLowerCase().split(' ').filter(Boolean);
+
+/**
+ * Word-level edit-distance similarity. Words rather than characters keep the cost manageable
+ * for clause-length segments and match how reviewers judge "the same clause".
+ */
+const similarity = (a: string[], b: string[]): number => {
+  if (a.length === 0 && b.length === 0) return 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return 1 - prev[b.length] / Math.max(a.length, b.length);
+};
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const tmxDate = (ms: number) => new Date(ms).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export class TranslationMemoryService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  isAvailable(): boolean {
+    return isIndexedDbAvailable();
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'key' });
+          store.createIndex('pair', 'pair');
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private keyFor(sourceLang: string, targetLang: string, tone: string, sourceText: string) {
+    return `${sourceLang}|${targetLang}|${tone}|${normalize(sourceText)}`;
+  }
+
+  private async entriesForPair(sourceLang: string, targetLang: string): Promise<TranslationMemoryEntry[]> {
+    const db = await this.db();
+    const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('pair');
+    return requestToPromise(index.getAll(`${sourceLang}|${targetLang}`)) as Promise<TranslationMemoryEntry[]>;
+  }
+
+  /**
+   * Finds exact matches (same source and tone, ignoring surrounding and repeated whitespace) and fuzzy matches at or above the
+   * threshold for each chunk. Entries imported without a tone match any tone.
+   */
+  async lookup(
+    chunks: DocumentChunk[],
+    sourceLang: string,
+    targetLang: string,
+    tone: TranslationTone,
+    threshold: number
+  ): Promise<MemoryLookup> {
+    const result: MemoryLookup = { exact: {}, fuzzy: {}, matches: {} };
+    if (!this.isAvailable()) return result;
+
+    const entries = (await this.entriesForPair(sourceLang, targetLang)).filter(e => e.tone === tone || e.tone === '*');
+    if (entries.length === 0) return result;
+
+    const byKey = new Map<string, TranslationMemoryEntry>();
+    // Tone-specific entries win over tone-less imports
+    [...entries].sort((a, b) => (a.tone === '*' ? 0 : 1) - (b.tone === '*' ? 0 : 1))
+      .forEach(e => byKey.set(normalize(e.sourceText), e));
+    const tokenized = entries.map(e => ({ entry: e, tokens: tokenize(e.sourceText) }));
+    const used: TranslationMemoryEntry[] = [];
+
+    for (const chunk of chunks) {
+      if (chunk.type === 'empty-line' || !chunk.originalText.trim()) continue;
+
+      const exact = byKey.get(normalize(chunk.originalText));
+      if (exact) {
+        result.exact[chunk.id] = exact.targetText;
+        result.matches[chunk.id] = { kind: 'exact', score: 1 };
+        used.push(exact);
+        continue;
+      }
+
+      const tokens = tokenize(chunk.originalText);
+      const candidates: MemoryReference[] = [];
+      for (const { entry, tokens: entryTokens } of tokenized) {
+        // Length alone already caps the achievable score; skip pairs that cannot reach the threshold
+        const shorter = Math.min(tokens.length, entryTokens.length);
+        const longer = Math.max(tokens.length, entryTokens.length);
+        if (longer === 0 || shorter / longer < threshold) continue;
+
+        const score = similarity(tokens, entryTokens);
+        if (score >= threshold) candidates.push({ source: entry.sourceText, target: entry.targetText, score });
+      }
+
+      if (candidates.length > 0) {
+        candidates.sort((a, b) => b.score - a.score);
+        result.fuzzy[chunk.id] = candidates.slice(0, MEMORY_MAX_REFERENCES);
+        result.matches[chunk.id] = { kind: 'fuzzy', score: Math.round(candidates[0].score * 100) / 100 };
+      }
+    }
+
+    if (used.length > 0) {
+      this.touch(used).catch(err => console.warn("Translation memory usage update failed:", err));
+    }
+    return result;
+  }
+
+  /**
+   * Adds or updates entries. An existing entry keeps its creation date and usage count.
+   */
+  async store(records: MemoryRecord[], sourceLang: string, targetLang: string, tone: TranslationTone | '*'): Promise<void> {
+    if (!this.isAvailable() || records.length === 0) return;
+    const db = await this.db();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const now = Date.now();
+
+    for (const record of records) {
+      if (!record.sourceText.trim() || !record.targetText.trim()) continue;
+      const key = this.keyFor(sourceLang, targetLang, tone, record.sourceText);
+      const existing = await requestToPromise(store.get(key)) as TranslationMemoryEntry | undefined;
+      // Human edits are never overwritten by later machine output
+      if (existing?.origin === 'edited' && (record.origin || 'machine') === 'machine') continue;
+      store.put({
+        key,
+        pair: `${sourceLang}|${targetLang}`,
+        sourceLang,
+        targetLang,
+        tone,
+        sourceText: record.sourceText,
+        targetText: record.targetText,
+        origin: record.origin || 'machine',
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        usageCount: existing?.usageCount ?? 0
+      } as TranslationMemoryEntry);
+    }
+    await transactionDone(tx);
+  }
+
+  private async touch(entries: TranslationMemoryEntry[]): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    entries.forEach(e => store.put({ ...e, usageCount: e.usageCount + 1 }));
+    await transactionDone(tx);
+  }
+
+  async count(): Promise<number> {
+    if (!this.isAvailable()) return 0;
+    const db = await this.db();
+    return requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).count());
+  }
+
+  async all(): Promise<TranslationMemoryEntry[]> {
+    if (!this.isAvailable()) return [];
+    const db = await this.db();
+    return requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).getAll()) as Promise<TranslationMemoryEntry[]>;
+  }
+
+  async clear(): Promise<void> {
+    if (!this.isAvailable()) return;
+    const db = await this.db();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+  }
+
+  /**
+   * Serializes the whole memory as TMX 1.4. Each entry becomes one translation unit; the tone
+   * travels as an `x-tone` property so it survives a round trip.
+   */
+  async exportTmx(): Promise<string> {
+    const entries = await this.all();
+    const units = entries.map(e => {
+      const tone = e.tone !== '*' ? `<prop type="x-tone">${e.tone}</prop>` : '';
+      return `    <tu creationdate="${tmxDate(e.createdAt)}" changedate="${tmxDate(e.updatedAt)}" usagecount="${e.usageCount}">${tone}<prop type="x-origin">${e.origin}</prop>
+      <tuv xml:lang="${e.sourceLang}"><seg>${escapeXml(e.sourceText)}</seg></tuv>
+      <tuv xml:lang="${e.targetLang}"><seg>${escapeXml(e.targetText)}</seg></tuv>
+    </tu>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="ReTrans" creationtoolversion="1.0" datatype="plaintext" segtype="sentence" adminlang="en" srclang="*all*" o-tmf="ReTrans"/>
+  <body>
+${units.join('\n')}
+  </body>
+</tmx>
+`;
+  }
+
+  /**
+   * Imports a TMX document and returns the number of entries written. Every non-source variant
+   * of a unit becomes its own entry; the source is the header `srclang` or the unit's first variant.
+   */
+  async importTmx(xml: string): Promise<number> {
+    const doc = new runtime.DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error("The TMX file could not be parsed.");
+    }
+
+    const headerLang = doc.querySelector('header')?.getAttribute('srclang');
+    const groups = new Map<string, { sourceLang: string; targetLang: string; tone: TranslationTone | '*'; records: MemoryRecord[] }>();
+    let imported = 0;
+
+    doc.querySelectorAll('tu').forEach(tu => {
+      const variants = Array.from(tu.querySelectorAll('tuv')).map(tuv => ({
+        lang: primaryLang(tuv.getAttribute('xml:lang') || tuv.getAttribute('lang') || ''),
+        text: tuv.querySelector('seg')?.textContent || ''
+      })).filter(v => v.lang && v.text.trim());
+      if (variants.length < 2) return;
+
+      const srcLang = headerLang && headerLang !== '*all*' ? primaryLang(headerLang) : variants[0].lang;
+      const source = variants.find(v => v.lang === srcLang);
+      if (!source) return;
+
+      const toneProp = Array.from(tu.querySelectorAll('prop')).find(p => p.getAttribute('type') === 'x-tone')?.textContent;
+      const tone = (toneProp?.trim() || '*') as TranslationTone | '*';
+
+      variants.filter(v => v !== source).forEach(target => {
+        const groupKey = `${source.lang}|${target.lang}|${tone}`;
+        if (!groups.has(groupKey)) groups.set(groupKey, { sourceLang: source.lang, targetLang: target.lang, tone, records: [] });
+        groups.get(groupKey)!.records.push({ sourceText: source.text, targetText: target.text, origin: 'import' });
+      });
+    });
+
+    for (const group of groups.values()) {
+      await this.store(group.records, group.sourceLang, group.targetLang, group.tone);
+      imported += group.records.length;
+    }
+    return imported;
+  }
+}
+
+export const translationMemory = new TranslationMemoryService();
@@ -0,0 +1,61 @@
+
+import { DomainProfile, GlossaryItem, TranslationTone } from "../types";
+import { MemoryReference } from "./translationMemory";
+
+export interface TranslationSegment {
+  id: string;
+  text: string;
+}
+
+/** Everything a provider needs to translate one batch of segments. */
+export interface BatchRequest {
+  sourceLang: string;
+  targetLang: string;
+  tone: TranslationTone;
+  /** The domain profile the tone names: prompt, rules and example translations. */
+  profile: DomainProfile;
+  engine: string;
+  /** Short excerpt of the document so the model knows whether it is a lease, invoice, etc. */
+  abstract: string;
+  useGrounding: boolean;
+  glossary: GlossaryItem[];
+  /** Glossary targets are mandatory; set when retranslating chunks that failed the glossary check. */
+  enforceGlossary?: boolean;
+  /** The user's wording instruction for a retranslation, e.g. "more formal". */
+  instruction?: string;
+  /** Fuzzy translation-memory matches keyed by segment id, offered as wording references. */
+  references?: Record<string, MemoryReference[]>;
+  signal?: AbortSignal;
+}
+
+export interface ProviderCapabilities {
+  /** Can consult web search while translating. */
+  grounding: boolean;
+  /** Has its own language identification rather than a fixed fallback. */
+  languageDetection: boolean;
+  /** Needs network access and an API key to run. */
+  requiresApiKey: boolean;
+  /** Output is a real translation worth keeping in the translation memory. */
+  memoryWritable: boolean;
+}
+
+/**
+ * A translation backend. Providers only translate batches and identify languages; batching,
+ * retries and response alignment are handled by the TranslationService around them.
+ */
+export interface TranslationProvider {
+  readonly id: string;
+  readonly name: string;
+  /** Engine ids this provider serves, as listed in ENGINES. */
+  readonly engines: string[];
+  readonly capabilities: ProviderCapabilities;
+
+  /** Segments per request for the given engine. */
+  batchSize(engine: string): number;
+
+  /** Returns one segment per input id. Callers validate the ids, so providers may return raw model output. */
+  translateBatch(segments: TranslationSegment[], request: BatchRequest): Promise<TranslationSegment[]>;
+
+  /** Two-letter ISO code of the sample's language. */
+  detectLanguage(sample: string): Promise<string>;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest";
+import { DocumentChunk } from "../types";
+import { TranslationProvider, TranslationSegment } from "./translationProvider";
+import { TranslationService } from "./translationService";
+
+const chunk = (id: string): DocumentChunk => ({ id, type: 'paragraph', originalText: `Clause ${id}` });
+
+/** Answers every batch, except that a batch holding c2 loses its last segment and c2 alone comes back empty. */
+const misaligningProvider = (calls: string[][]): TranslationProvider => ({
+  id: 'test',
+  name: 'Test',
+  engines: ['test-engine'],
+  capabilities: { grounding: false, languageDetection: false, requiresApiKey: false, memoryWritable: false },
+  batchSize: () => 4,
+  translateBatch: async (segments: TranslationSegment[]) => {
+    calls.push(segments.map(s => s.id));
+    const translated = segments.map(s => ({ id: s.id, text: `[es] ${s.text}` }));
+    if (!segments.some(s => s.id === 'c2')) return translated;
+    return segments.length === 1 ? [{ id: 'c2', text: ' ' }] : translated.slice(0, -1);
+  },
+  detectLanguage: async () => 'en'
+});
+
+describe("TranslationService.translateChunks", () => {
+  it("splits a misaligned batch until only the segment that won't align fails", async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const calls: string[][] = [];
+    const service = new TranslationService([misaligningProvider(calls)]);
+
+    const outcome = await service.translateChunks(
+      ['c0', 'c1', 'c2', 'c3'].map(chunk), 'en', 'es', 'professional', 'test-engine', false, [], { scheduler: { baseDelayMs: 0 } }
+    );
+
+    expect(calls).toEqual([['c0', 'c1', 'c2', 'c3'], ['c0', 'c1'], ['c2', 'c3'], ['c2'], ['c3']]);
+    expect(outcome.translations).toEqual({ c0: '[es] Clause c0', c1: '[es] Clause c1', c3: '[es] Clause c3' });
+    expect(outcome.failedChunkIds).toEqual(['c2']);
+    expect(outcome.errors.c2).toMatch(/could not be aligned/);
+  });
+});
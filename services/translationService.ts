@@ -0,0 +1,323 @@
+
+import { DocumentChunk, GlossaryItem, TranslationOutcome, TranslationProgress, TranslationTone } from "../types";
+import { ENGINES, TRANSLATION_SCHEDULER } from "../constants";
+import { BatchScheduler, SchedulerOptions, errorMessage } from "./batchScheduler";
+import { BatchRequest, TranslationProvider } from "./translationProvider";
+import { geminiService } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+import { glossaryService } from "./glossaryService";
+import { profileService } from "./profileService";
+import { inlineMarkup } from "./inlineMarkup";
+import { MemoryLookup, TranslationMemoryService, translationMemory } from "./translationMemory";
+
+export interface TranslateOptions {
+  scheduler?: Partial<SchedulerOptions>;
+  /** Reported after every batch settles. */
+  onProgress?: (progress: TranslationProgress) => void;
+  /**
+   * The translations of each batch as soon as it comes back, before the run finishes, so callers
+   * can keep paid-for output even if the page goes away mid-run.
+   */
+  onBatch?: (batch: Pick<TranslationOutcome, 'translations' | 'runs' | 'memoryMatches'>) => void;
+  /** Aborting stops pending batches; chunks already translated are still returned. */
+  signal?: AbortSignal;
+  /** Consult and update the translation memory; omit to bypass it. */
+  memory?: { threshold: number };
+  /** Insist on glossary targets verbatim (used to retranslate glossary QA failures). */
+  enforceGlossary?: boolean;
+  /**
+   * A retranslation the user asked for: memory hits become references instead of answers, so the
+   * model produces a fresh translation, following the instruction if one is given.
+   */
+  retranslate?: { instruction?: string };
+}
+
+/**
+ * A repeated running header or footer takes the translation of its first occurrence with its own
+ * numbers swapped in ("Page 3 of 12"), or null when the numbers can't be lined up.
+ */
+const adaptRepeat = (translation: string, firstSource: string, source: string): string | null => {
+  const firstNumbers = firstSource.match(/\d+/g) || [];
+  const numbers = source.match(/\d+/g) || [];
+  const translatedNumbers = translation.match(/\d+/g) || [];
+  if (numbers.length !== firstNumbers.length || translatedNumbers.join() !== firstNumbers.join()) return null;
+  let i = 0;
+  return translation.replace(/\d+/g, () => numbers[i++]);
+};
+
+export class TranslationService {
+  private providers: TranslationProvider[];
+  private memory?: TranslationMemoryService;
+
+  constructor(providers: TranslationProvider[], memory?: TranslationMemoryService) {
+    this.providers = providers;
+    this.memory = memory;
+  }
+
+  register(provider: TranslationProvider) {
+    this.providers = [...this.providers.filter(p => p.id !== provider.id), provider];
+  }
+
+  listProviders(): TranslationProvider[] {
+    return [...this.providers];
+  }
+
+  getProvider(engine: string): TranslationProvider {
+    const provider = this.providers.find(p => p.engines.includes(engine));
+    if (!provider) throw new Error(`No translation provider is registered for engine "${engine}".`);
+    return provider;
+  }
+
+  /**
+   * Translates text chunks in scheduled batches through the provider serving the given engine.
+   */
+  async translateChunks(
+    chunks: DocumentChunk[],
+    sourceLang: string,
+    targetLang: string,
+    tone: TranslationTone,
+    engine: string = ENGINES.FLASH,
+    useGrounding: boolean = false,
+    glossary: GlossaryItem[] = [],
+    options: TranslateOptions = {}
+  ): Promise<TranslationOutcome> {
+    const { onProgress, signal } = options;
+    const provider = this.getProvider(engine);
+    const profile = profileService.get(tone);
+    glossary = profileService.glossaryFor(profile, sourceLang, targetLang, glossary);
+    const batchSize = provider.batchSize(engine);
+
+    // Create a context abstract from the document to help the model understand if it's a Lease or Invoice
+    const abstract = chunks
+      .filter(c => c.originalText.length > 5)
+      .slice(0, 15)
+      .map(c => c.originalText)
+      .join(' ')
+      .substring(0, 1000);
+
+    // Exact memory hits skip the model entirely; fuzzy hits ride along as references
+    let lookup: MemoryLookup = { exact: {}, fuzzy: {}, matches: {} };
+    if (options.memory && this.memory) {
+      try {
+        lookup = await this.memory.lookup(chunks, sourceLang, targetLang, tone, options.memory.threshold);
+      } catch (err) {
+        console.warn("Translation memory lookup failed:", err);
+      }
+    }
+    // Memory stores plain text, so formatted chunks still go to the model, with the hit as a reference;
+    // so does a chunk the user asked to have retranslated
+    chunks.forEach(c => {
+      if (lookup.exact[c.id] === undefined || (!c.runs && !options.retranslate)) return;
+      lookup.fuzzy[c.id] = [{ source: c.originalText, target: lookup.exact[c.id], score: 1 }];
+      lookup.matches[c.id] = { kind: 'fuzzy', score: 1 };
+      delete lookup.exact[c.id];
+    });
+    // Running headers and footers are sent once and copied to the pages that repeat them
+    const ids = new Set(chunks.map(c => c.id));
+    const repeats = chunks.filter(c => c.metadata?.repeatOf && ids.has(c.metadata.repeatOf));
+    // Locked chunks (spreadsheet numbers and formulas) are context only and keep their source text
+    const locked = chunks.filter(c => c.metadata?.locked);
+    const toTranslate = chunks.filter(c => lookup.exact[c.id] === undefined && !repeats.includes(c) && !locked.includes(c));
+    const glossaryUsage = glossaryService.findUsage(glossary, chunks);
+
+    const batches: DocumentChunk[][] = [];
+    for (let i = 0; i < toTranslate.length; i += batchSize) {
+      batches.push(toTranslate.slice(i, i + batchSize));
+    }
+
+    const request: Omit<BatchRequest, 'signal'> = {
+      sourceLang,
+      targetLang,
+      tone,
+      profile,
+      engine,
+      abstract,
+      useGrounding: useGrounding && provider.capabilities.grounding,
+      glossary,
+      enforceGlossary: options.enforceGlossary,
+      instruction: options.retranslate?.instruction?.trim() || undefined,
+      references: lookup.fuzzy
+    };
+
+    const startedAt = Date.now();
+    const skipped = chunks.length - toTranslate.length;
+    const progress: TranslationProgress = { completed: skipped, total: chunks.length, failed: 0 };
+    onProgress?.({ ...progress });
+
+    const result: TranslationOutcome = {
+      translations: { ...lookup.exact },
+      failedChunkIds: [],
+      cancelledChunkIds: [],
+      errors: {},
+      memoryMatches: { ...lookup.matches },
+      glossaryUsage,
+      runs: {}
+    };
+
+    const scheduler = new BatchScheduler({ ...TRANSLATION_SCHEDULER, ...options.scheduler });
+    const outcomes = await scheduler.run(
+      batches,
+      (batch, _index, batchSignal) => {
+        // Only send the glossary terms that actually occur in this batch
+        const batchIds = new Set(batch.map(c => c.id));
+        const batchGlossary = glossary.filter(item => glossaryUsage[item.id]?.some(id => batchIds.has(id)));
+        return this.translateAligned(provider, batch, { ...request, glossary: batchGlossary, signal: batchSignal });
+      },
+      {
+        signal,
+        onSettled: outcome => {
+          if (outcome.status === 'cancelled') return;
+          const size = batches[outcome.index].length;
+          progress.completed += size;
+          if (outcome.status === 'failed') progress.failed += size;
+          else {
+            progress.failed += outcome.value!.unaligned.length;
+            this.collect(result, batches[outcome.index], outcome.value!.translations);
+            if (options.onBatch) {
+              const ids = Object.keys(outcome.value!.translations);
+              const pick = <T>(record: Record<string, T>) =>
+                Object.fromEntries(ids.filter(id => record[id] !== undefined).map(id => [id, record[id]]));
+              options.onBatch({ translations: pick(result.translations), runs: pick(result.runs), memoryMatches: pick(result.memoryMatches) });
+            }
+          }
+          const elapsed = Date.now() - startedAt;
+          const sent = progress.completed - skipped;
+          progress.etaMs = Math.round(elapsed / Math.max(sent, 1) * (progress.total - progress.completed));
+          onProgress?.({ ...progress });
+        }
+      }
+    );
+
+    // Fulfilled batches were collected as they settled
+    outcomes.forEach((outcome, b) => {
+      if (outcome.status === 'fulfilled') {
+        outcome.value!.unaligned.forEach(id => {
+          result.failedChunkIds.push(id);
+          result.errors[id] = "The model response could not be aligned with this segment.";
+        });
+      } else if (outcome.status === 'cancelled') {
+        result.cancelledChunkIds.push(...batches[b].map(chunk => chunk.id));
+      } else {
+        batches[b].forEach(chunk => {
+          result.failedChunkIds.push(chunk.id);
+          result.errors[chunk.id] = errorMessage(outcome.error) || "Translation request failed.";
+        });
+      }
+    });
+
+    locked.forEach(chunk => {
+      result.translations[chunk.id] = chunk.originalText;
+      if (chunk.runs) result.runs[chunk.id] = chunk.runs;
+      delete result.memoryMatches[chunk.id];
+    });
+
+    const byId = new Map(chunks.map(c => [c.id, c]));
+    repeats.forEach(chunk => {
+      const first = byId.get(chunk.metadata!.repeatOf!)!;
+      const translation = result.translations[first.id];
+      if (translation === undefined) {
+        if (result.cancelledChunkIds.includes(first.id)) result.cancelledChunkIds.push(chunk.id);
+        else {
+          result.failedChunkIds.push(chunk.id);
+          result.errors[chunk.id] = result.errors[first.id] || "The repeated header was not translated.";
+        }
+        return;
+      }
+      const adapted = adaptRepeat(translation, first.originalText, chunk.originalText);
+      if (adapted === null) {
+        // Retrying sends it on its own, without the first occurrence
+        result.failedChunkIds.push(chunk.id);
+        result.errors[chunk.id] = "The page numbers in this repeated header could not be matched; retry to translate it separately.";
+      } else {
+        result.translations[chunk.id] = adapted;
+      }
+    });
+
+    if (options.memory && this.memory && provider.capabilities.memoryWritable) {
+      const fresh = toTranslate
+        .filter(c => result.translations[c.id])
+        .map(c => ({ sourceText: c.originalText, targetText: result.translations[c.id] }));
+      await this.memory.store(fresh, sourceLang, targetLang, tone)
+        .catch(err => console.warn("Translation memory update failed:", err));
+    }
+
+    return result;
+  }
+
+  /** Adds a batch's translations to the result, turning tagged text back into formatted runs. */
+  private collect(result: TranslationOutcome, batch: DocumentChunk[], translations: Record<string, string>) {
+    Object.entries(translations).forEach(([id, text]) => {
+      const chunk = batch.find(c => c.id === id);
+      if (!inlineMarkup.hasInlineFormatting(chunk?.runs)) {
+        result.translations[id] = text;
+        // A link or superscript over the whole chunk applies to the whole translation
+        if (chunk?.runs) result.runs[id] = [{ ...inlineMarkup.baseFormat(chunk.runs), text }];
+        return;
+      }
+      // Untrustworthy tags cost the formatting, not the translation
+      const runs = inlineMarkup.fromTagged(text, chunk!.runs);
+      if (runs) result.runs[id] = runs;
+      result.translations[id] = runs ? inlineMarkup.toPlain(runs) : inlineMarkup.stripTags(text, chunk!.runs);
+    });
+  }
+
+  /**
+   * Requests a batch and checks that every chunk id came back exactly once. On a mismatch the
+   * batch is split in half and each half re-requested; single chunks that still can't be aligned
+   * are reported as unaligned rather than guessed.
+   */
+  private async translateAligned(
+    provider: TranslationProvider,
+    batch: DocumentChunk[],
+    request: BatchRequest
+  ): Promise<{ translations: Record<string, string>; unaligned: string[] }> {
+    const translations: Record<string, string> = {};
+    const pending = batch.filter(c => {
+      if (c.type === 'empty-line' || !c.originalText.trim()) {
+        translations[c.id] = "";
+        return false;
+      }
+      // Bare page numbers in headers and footers stay as they are
+      if (c.metadata?.pageRegion && !/\p{L}/u.test(c.originalText)) {
+        translations[c.id] = c.originalText;
+        return false;
+      }
+      return true;
+    });
+    if (pending.length === 0) return { translations, unaligned: [] };
+
+    const segments = await provider.translateBatch(pending.map(c => ({
+      id: c.id,
+      text: inlineMarkup.hasInlineFormatting(c.runs) ? inlineMarkup.toTagged(c.runs) : c.originalText
+    })), request);
+    const expected = new Set(pending.map(c => c.id));
+    const returnedIds = segments.map(s => s.id);
+    const aligned = segments.length === pending.length
+      && new Set(returnedIds).size === returnedIds.length
+      && returnedIds.every(id => expected.has(id))
+      && segments.every(s => typeof s.text === 'string' && s.text.trim().length > 0);
+
+    if (aligned) {
+      segments.forEach(s => { translations[s.id] = s.text; });
+      return { translations, unaligned: [] };
+    }
+
+    if (pending.length === 1) {
+      console.warn(`Segment ${pending[0].id} could not be aligned:`, segments);
+      return { translations, unaligned: [pending[0].id] };
+    }
+
+    const mid = Math.ceil(pending.length / 2);
+    const halves = await Promise.all([pending.slice(0, mid), pending.slice(mid)].map(half =>
+      this.translateAligned(provider, half, request)
+    ));
+    halves.forEach(h => Object.assign(translations, h.translations));
+    return { translations, unaligned: halves.flatMap(h => h.unaligned) };
+  }
+
+  async detectLanguage(sample: string, engine: string = ENGINES.FLASH): Promise<string> {
+    return this.getProvider(engine).detectLanguage(sample);
+  }
+}
+
+export const translationService = new TranslationService([geminiService, mockProvider], translationMemory);
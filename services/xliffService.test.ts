@@ -0,0 +1,92 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { DOMParser } from "@xmldom/xmldom";
+import { DocumentChunk } from "../types";
+import { configureRuntime } from "./runtime";
+import { xliffService } from "./xliffService";
+
+const OPTIONS = { sourceLang: 'en', targetLang: 'es', fileName: 'lease.docx' };
+
+const formatted: DocumentChunk = {
+  id: 'c0',
+  type: 'paragraph',
+  originalText: "Pay rent and fees by npm run pay.",
+  runs: [
+    { text: "Pay " },
+    { text: "rent", bold: true },
+    { text: " and " },
+    { text: "fees", bold: true },
+    { text: " by " },
+    { text: "npm run pay", code: true },
+    { text: "." }
+  ],
+  translatedText: "Pague la renta y las cuotas con npm run pay.",
+  translatedRuns: [
+    { text: "Pague la " },
+    { text: "renta", bold: true },
+    { text: " y las " },
+    { text: "cuotas", bold: true },
+    { text: " con " },
+    { text: "npm run pay", code: true },
+    { text: "." }
+  ]
+};
+
+const plain: DocumentChunk = { id: 'c1', type: 'paragraph', originalText: "The Lessee & the Lessor.", translatedText: "El Arrendatario y el Arrendador." };
+
+const ids = (xml: string, element: string) => Array.from(xml.matchAll(new RegExp(`<${element} id="([^"]+)"`, 'g')), m => m[1]);
+
+describe("XliffService", () => {
+  beforeAll(() => {
+    configureRuntime({ DOMParser: DOMParser as unknown as new () => globalThis.DOMParser });
+  });
+
+  it("gives each inline code its own id when a format repeats", () => {
+    const xml = xliffService.toXliff([formatted], OPTIONS);
+    const source = xml.slice(xml.indexOf('<source>'), xml.indexOf('</source>'));
+    const target = xml.slice(xml.indexOf('<target>'), xml.indexOf('</target>'));
+
+    expect(ids(source, 'pc')).toEqual(['2', '4']);
+    expect(ids(target, 'pc')).toEqual(['2', '4']);
+    expect(ids(target, 'ph')).toEqual(['6']);
+
+    const extraBold = xliffService.toXliff([{ ...formatted, translatedRuns: [...formatted.translatedRuns!, { text: " ya", bold: true }] }], OPTIONS);
+    expect(ids(extraBold.slice(extraBold.indexOf('<target>')), 'pc')).toEqual(['2', '4', '2-2']);
+  });
+
+  it("round-trips unchanged translations and reads edited targets back into runs", () => {
+    const xml = xliffService.toXliff([formatted, plain], OPTIONS);
+    expect(xliffService.fromXliff(xml, [formatted, plain], 'es')).toEqual({ updates: [], unchangedCount: 2, missingIds: [], unknownIds: [], conflicts: [] });
+
+    const edited = xml
+      .replace('<pc id="4" type="fmt" subType="xlf:b">cuotas</pc>', '<pc id="4" type="fmt" subType="xlf:b">tasas</pc>')
+      .replace('El Arrendatario y el Arrendador.', 'El Arrendatario &amp; el Arrendador.');
+    const result = xliffService.fromXliff(edited, [formatted, plain], 'es');
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.updates.map(u => [u.chunkId, u.text, u.state])).toEqual([
+      ['c0', "Pague la renta y las tasas con npm run pay.", 'translated'],
+      ['c1', "El Arrendatario & el Arrendador.", 'translated']
+    ]);
+    expect(result.updates[0].runs).toEqual([
+      { text: "Pague la " },
+      { text: "renta", bold: true },
+      { text: " y las " },
+      { text: "tasas", bold: true },
+      { text: " con " },
+      { text: "npm run pay", code: true },
+      { text: "." }
+    ]);
+  });
+
+  it("reports edits made in both the app and the file as conflicts", () => {
+    const xml = xliffService.toXliff([plain], OPTIONS).replace('El Arrendatario y el Arrendador.', 'El Inquilino y el Arrendador.');
+    const editedInApp = { ...plain, translatedText: "El Arrendatario y la Arrendadora." };
+
+    const result = xliffService.fromXliff(xml, [editedInApp], 'es');
+
+    expect(result.updates).toEqual([]);
+    expect(result.conflicts.map(c => [c.chunkId, c.kind, c.incoming.text, c.current])).toEqual([
+      ['c1', 'both-changed', "El Inquilino y el Arrendador.", "El Arrendatario y la Arrendadora."]
+    ]);
+  });
+});
@@ -0,0 +1,228 @@
+
+import { DocumentChunk, InlineRun, XliffImportResult, XliffUpdate } from "../types";
+import { inlineMarkup } from "./inlineMarkup";
+import { runtime } from "./runtime";
+
+const XLIFF_NS = 'urn:oasis:names:tc:xliff:document:2.0';
+const MDA_NS = 'urn:oasis:names:tc:xliff:metadata:2.0';
+// Metadata written as notes for the translator; positions and file references mean nothing in a CAT tool
+const NOTE_KEYS = ['level', 'listType', 'listLabel', 'tableId', 'row', 'col', 'rowSpan', 'colSpan', 'page', 'pageRegion', 'isCheckbox', 'isChecked', 'alignment'] as const;
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/** A short fingerprint of a translation, stored with each unit to tell later edits apart. */
+const fingerprint = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+};
+
+const primaryLang = (code: string) => code.split(/[-_]/)[0].toLowerCase();
+const sameText = (a: string, b: string) => a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+
+/**
+ * XLIFF 2.0 exchange with CAT tools. Every chunk becomes a unit carrying its id, type and
+ * metadata as notes, its source and its current translation; inline formatting travels as `<pc>`
+ * codes numbered like the model's `<gN>` tags. Each unit also records a fingerprint of the
+ * exported translation, so an import can tell edits in the file from edits made in the app since.
+ */
+export class XliffService {
+  toXliff(chunks: DocumentChunk[], options: { sourceLang: string; targetLang: string; fileName: string }): string {
+    const units = chunks.map(chunk => {
+      const translatable = !!chunk.originalText.trim() && !chunk.metadata?.locked;
+      const target = chunk.translatedText ?? '';
+      const notes = [
+        `<note category="type">${chunk.type}</note>`,
+        ...NOTE_KEYS.flatMap(key => {
+          const value = chunk.metadata?.[key];
+          return value === undefined || value === false ? [] : [`<note category="${key}">${escapeXml(String(value))}</note>`];
+        }),
+        ...(chunk.memoryMatch ? [`<note category="memoryMatch">${chunk.memoryMatch.kind} ${Math.round(chunk.memoryMatch.score * 100)}%</note>`] : [])
+      ];
+      const state = !target ? 'initial' : chunk.status === 'approved' ? 'reviewed' : 'translated';
+      const targetXml = target ? `\n        <target>${this.codes(chunk.translatedRuns || [{ text: target }], chunk.runs)}</target>` : '';
+
+      return `    <unit id="${escapeXml(chunk.id)}"${translatable ? '' : ' translate="no"'}>
+      <mda:metadata><mda:metaGroup category="retrans"><mda:meta type="exportedTarget">${fingerprint(target)}</mda:meta></mda:metaGroup></mda:metadata>
+      <notes>${notes.join('')}</notes>
+      <segment state="${state}">
+        <source>${this.codes(chunk.runs || [{ text: chunk.originalText }], chunk.runs)}</source>${targetXml}
+      </segment>
+    </unit>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<xliff xmlns="${XLIFF_NS}" xmlns:mda="${MDA_NS}" version="2.0" srcLang="${escapeXml(options.sourceLang)}" trgLang="${escapeXml(options.targetLang)}">
+  <file id="f1" original="${escapeXml(options.fileName)}" xml:space="preserve">
+${units.join('\n')}
+  </file>
+</xliff>
+`;
+  }
+
+  /**
+   * Reads an XLIFF file exported from this document. Targets edited in the file become updates;
+   * a unit whose source changed, or whose translation was also edited in the app since the export,
+   * becomes a conflict for the user to settle instead.
+   */
+  fromXliff(xml: string, chunks: DocumentChunk[], targetLang: string): XliffImportResult {
+    const doc = new runtime.DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error("The XLIFF file could not be parsed.");
+    }
+    const root = doc.documentElement;
+    if (root.localName !== 'xliff' || !(root.getAttribute('version') || '').startsWith('2.')) {
+      throw new Error("Only XLIFF 2.0 files are supported.");
+    }
+    const fileLang = root.getAttribute('trgLang');
+    if (fileLang && primaryLang(fileLang) !== primaryLang(targetLang)) {
+      throw new Error(`This XLIFF file holds ${fileLang} translations, but the document is being translated into ${targetLang}.`);
+    }
+
+    const byId = new Map(chunks.map(c => [c.id, c]));
+    const seen = new Set<string>();
+    const result: XliffImportResult = { updates: [], unchangedCount: 0, missingIds: [], unknownIds: [], conflicts: [] };
+
+    Array.from(doc.getElementsByTagNameNS(XLIFF_NS, 'unit')).forEach(unit => {
+      const id = unit.getAttribute('id') || '';
+      const chunk = byId.get(id);
+      if (!chunk) {
+        result.unknownIds.push(id);
+        return;
+      }
+      seen.add(id);
+      if (unit.getAttribute('translate') === 'no' || chunk.metadata?.locked) return;
+
+      const segments = Array.from(unit.getElementsByTagNameNS(XLIFF_NS, 'segment'));
+      // Read through the codes, so a `<ph>` counts as the code it stands for
+      const sources = segments.map(s => s.getElementsByTagNameNS(XLIFF_NS, 'source')[0]).filter(Boolean);
+      const source = inlineMarkup.toPlain(sources.flatMap(s => this.readCodes(s, chunk.runs)));
+      const targets = segments.map(s => s.getElementsByTagNameNS(XLIFF_NS, 'target')[0]);
+      if (targets.some(t => !t)) return;
+
+      const runs = inlineMarkup.normalize(targets.flatMap(t => this.readCodes(t, chunk.runs)));
+      const text = inlineMarkup.toPlain(runs);
+      if (!text.trim()) return;
+      const states = segments.map(s => s.getAttribute('state') || 'initial');
+      const incoming: XliffUpdate = {
+        chunkId: id,
+        text,
+        runs: chunk.runs ? runs : undefined,
+        // A unit is only as far along as its least advanced segment
+        state: ['initial', 'translated', 'reviewed', 'final'].find(s => states.includes(s))
+      };
+
+      if (!sameText(source, chunk.originalText)) {
+        result.conflicts.push({
+          chunkId: id,
+          kind: 'source-changed',
+          message: "The source text in the file differs from the document; the segment may belong to another version.",
+          incoming,
+          current: chunk.translatedText
+        });
+        return;
+      }
+
+      const exported = Array.from(unit.getElementsByTagNameNS(MDA_NS, 'meta')).find(m => m.getAttribute('type') === 'exportedTarget')?.textContent ?? null;
+      const current = chunk.translatedText ?? '';
+      if (fingerprint(text) === exported || sameText(text, current)) {
+        result.unchangedCount++;
+        return;
+      }
+      // Files from other tools carry no fingerprint; their targets simply apply
+      if (exported !== null && fingerprint(current) !== exported) {
+        result.conflicts.push({
+          chunkId: id,
+          kind: 'both-changed',
+          message: "This segment was edited in the app after the export and in the file.",
+          incoming,
+          current
+        });
+        return;
+      }
+      result.updates.push(incoming);
+    });
+
+    result.missingIds = chunks
+      .filter(c => !seen.has(c.id) && c.originalText.trim() && !c.metadata?.locked)
+      .map(c => c.id);
+    return result;
+  }
+
+  /**
+   * Runs as XLIFF inline content. A run that differs from the base format becomes a `<pc>` whose
+   * id is the 1-based index of a source run with that format, as in `inlineMarkup.toTagged`.
+   * Code runs are locked and become a `<ph>` naming the source run. Ids are unique within the
+   * unit: each run takes the first matching source run not taken yet, and a format used more often
+   * than in the source gets a suffixed id ("2-2").
+   */
+  private codes(runs: InlineRun[], sourceRuns?: InlineRun[]): string {
+    if (!sourceRuns) return escapeXml(inlineMarkup.toPlain(runs));
+    const base = { text: '', ...inlineMarkup.baseFormat(sourceRuns) };
+    const taken = new Set<number>();
+    const repeats = new Map<number, number>();
+    const idFor = (matches: (source: InlineRun) => boolean): string | null => {
+      const indexes = sourceRuns.map((_, i) => i).filter(i => matches(sourceRuns[i]));
+      if (indexes.length === 0) return null;
+      const free = indexes.find(i => !taken.has(i));
+      if (free !== undefined) {
+        taken.add(free);
+        return String(free + 1);
+      }
+      const count = (repeats.get(indexes[0]) || 1) + 1;
+      repeats.set(indexes[0], count);
+      return `${indexes[0] + 1}-${count}`;
+    };
+
+    return runs.map(run => {
+      const text = escapeXml(run.text);
+      if (run.code) {
+        const id = idFor(r => !!r.code && r.text === run.text);
+        return id === null ? text : `<ph id="${id}" disp="${text}" equiv="${text}"/>`;
+      }
+      if (inlineMarkup.sameFormat(run, base)) return text;
+      const id = idFor(r => !r.code && inlineMarkup.sameFormat(r, run));
+      if (id === null) return text;
+      const subType = run.bold ? 'xlf:b' : run.italic ? 'xlf:i' : run.underline ? 'xlf:u' : undefined;
+      const type = run.href ? ' type="link"' : ` type="fmt"${subType ? ` subType="${subType}"` : ''}`;
+      return `<pc id="${id}"${type}>${text}</pc>`;
+    }).join('');
+  }
+
+  /** Inline content back to runs: `<pc>` codes take the format of the source run they name. */
+  private readCodes(el: Element, sourceRuns?: InlineRun[]): InlineRun[] {
+    const base = sourceRuns ? inlineMarkup.baseFormat(sourceRuns) : {};
+    const runs: InlineRun[] = [];
+    const visit = (node: Node, format: Omit<InlineRun, 'text'>) => {
+      if (node.nodeType === node.TEXT_NODE || node.nodeType === node.CDATA_SECTION_NODE) {
+        runs.push({ ...format, text: node.textContent || '' });
+        return;
+      }
+      if (node.nodeType !== node.ELEMENT_NODE) return;
+      const child = node as Element;
+      if (child.localName === 'ph') {
+        const source = sourceRuns?.[parseInt(child.getAttribute('id') || '', 10) - 1];
+        if (source?.code) runs.push({ ...source });
+        return;
+      }
+      let next = format;
+      if (child.localName === 'pc') {
+        const source = sourceRuns?.[parseInt(child.getAttribute('id') || '', 10) - 1];
+        if (source) {
+          const { text: _text, ...sourceFormat } = source;
+          next = sourceFormat;
+        }
+      }
+      // Markers (`<mrk>`) and unknown codes keep their text
+      Array.from(child.childNodes).forEach(n => visit(n, next));
+    };
+    Array.from(el.childNodes).forEach(n => visit(n, base));
+    return runs;
+  }
+}
+
+export const xliffService = new XliffService();
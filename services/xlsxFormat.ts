@@ -0,0 +1,193 @@
+
+import JSZip from "jszip";
+import { DocumentChunk } from "../types";
+import { DocumentFormat } from "./documentFormat";
+import { runtime } from "./runtime";
+
+const S_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+interface Workbook {
+  sheets: { name: string; path: string }[];
+  stringsPath: string;
+  strings: Document | null;
+}
+
+const own = (el: Element, localName: string) => Array.from(el.children).filter(c => c.localName === localName);
+const textOf = (el: Element) => Array.from(el.getElementsByTagNameNS(S_NS, 't'))
+  // Phonetic guides (rPh) repeat the reading of East Asian text and aren't part of the value
+  .filter(t => t.parentElement?.localName !== 'rPh')
+  .map(t => t.textContent || '')
+  .join('');
+
+/** "B4" → row 3, col 1. */
+const position = (ref: string) => {
+  const [, letters, digits] = ref.match(/^([A-Z]+)(\d+)$/) || [, 'A', '1'];
+  const col = letters!.split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+  return { row: Number(digits) - 1, col };
+};
+
+/**
+ * Excel workbooks: each sheet becomes a table of cells. Text cells are translated; numbers,
+ * booleans and formula results are kept as locked cells so the grid still lines up, and are never
+ * written back, which leaves formulas to recalculate as before.
+ */
+export class XlsxFormat implements DocumentFormat {
+  readonly id = 'xlsx';
+  readonly name = 'Excel';
+  readonly extensions = ['xlsx'];
+  readonly mimeTypes = [XLSX_MIME];
+
+  async parse(file: File): Promise<DocumentChunk[]> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await file.arrayBuffer());
+    } catch {
+      throw new Error("Excel workbook extraction failed. The file might be corrupted or protected.");
+    }
+    const workbook = await this.readWorkbook(zip);
+    const sharedStrings = workbook.strings ? own(workbook.strings.documentElement, 'si').map(textOf) : [];
+    const chunks: DocumentChunk[] = [];
+
+    for (const [s, sheet] of workbook.sheets.entries()) {
+      const xml = await zip.file(sheet.path)?.async('string');
+      if (!xml) continue;
+      const doc = new runtime.DOMParser().parseFromString(xml, 'application/xml');
+
+      chunks.push({
+        id: `xlsx-s-${chunks.length}`,
+        type: 'heading',
+        originalText: sheet.name,
+        // Formulas refer to sheets by name, so sheet names stay as they are
+        metadata: { level: 2, locked: true }
+      });
+
+      for (const cell of Array.from(doc.getElementsByTagNameNS(S_NS, 'c'))) {
+        const ref = cell.getAttribute('r');
+        if (!ref) continue;
+        const type = cell.getAttribute('t') || 'n';
+        const value = own(cell, 'v')[0]?.textContent ?? '';
+        const isFormula = own(cell, 'f').length > 0;
+
+        let text: string;
+        if (type === 's') text = sharedStrings[Number(value)] ?? '';
+        else if (type === 'inlineStr') text = own(cell, 'is')[0] ? textOf(own(cell, 'is')[0]) : '';
+        else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+        else text = value;
+        if (!text.trim()) continue;
+
+        const { row, col } = position(ref);
+        chunks.push({
+          id: `xlsx-c-${chunks.length}`,
+          type: 'table-cell',
+          originalText: text,
+          metadata: {
+            tableId: `xlsx-t-${s}`,
+            row,
+            col,
+            alignment: type === 's' || type === 'inlineStr' || type === 'str' ? 'left' : 'right',
+            locked: isFormula || !(type === 's' || type === 'inlineStr'),
+            sourceRef: `${s}!${ref}`
+          }
+        });
+      }
+    }
+    return chunks;
+  }
+
+  /**
+   * Writes translated text cells back. A shared string takes the first translation made for it;
+   * a cell whose translation differs from that gets an inline string of its own.
+   */
+  async write(chunks: DocumentChunk[], original: string): Promise<Blob> {
+    const zip = await JSZip.loadAsync(original, { base64: true });
+    const workbook = await this.readWorkbook(zip);
+    const translations = new Map<string, string>();
+    chunks.forEach(chunk => {
+      const ref = chunk.metadata?.sourceRef;
+      if (ref && !chunk.metadata?.locked && chunk.translatedText) translations.set(ref, chunk.translatedText);
+    });
+
+    const sharedItems = workbook.strings ? own(workbook.strings.documentElement, 'si') : [];
+    const sharedTranslations = new Map<number, string>();
+
+    for (const [s, sheet] of workbook.sheets.entries()) {
+      const xml = await zip.file(sheet.path)?.async('string');
+      if (!xml) continue;
+      const doc = new runtime.DOMParser().parseFromString(xml, 'application/xml');
+      let changed = false;
+
+      for (const cell of Array.from(doc.getElementsByTagNameNS(S_NS, 'c'))) {
+        const translation = translations.get(`${s}!${cell.getAttribute('r')}`);
+        if (translation === undefined) continue;
+
+        if (cell.getAttribute('t') === 's') {
+          const index = Number(own(cell, 'v')[0]?.textContent);
+          const shared = sharedTranslations.get(index);
+          if (shared === undefined && sharedItems[index]) {
+            sharedTranslations.set(index, translation);
+            continue;
+          }
+          if (shared === translation) continue;
+        }
+        this.setInlineString(cell, translation);
+        changed = true;
+      }
+      if (changed) zip.file(sheet.path, new runtime.XMLSerializer().serializeToString(doc));
+    }
+
+    if (workbook.strings && sharedTranslations.size > 0) {
+      sharedTranslations.forEach((translation, index) => this.setStringItem(sharedItems[index], translation));
+      zip.file(workbook.stringsPath, new runtime.XMLSerializer().serializeToString(workbook.strings));
+    }
+    return zip.generateAsync({ type: 'blob', mimeType: XLSX_MIME });
+  }
+
+  private async readWorkbook(zip: JSZip): Promise<Workbook> {
+    const workbookXml = await zip.file('xl/workbook.xml')?.async('string');
+    const relsXml = await zip.file('xl/_rels/workbook.xml.rels')?.async('string');
+    if (!workbookXml || !relsXml) throw new Error("This file is not an Excel workbook.");
+
+    const parser = new runtime.DOMParser();
+    const rels = Array.from(parser.parseFromString(relsXml, 'application/xml').getElementsByTagName('Relationship'));
+    const resolve = (target: string) => (target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    const targetOf = (id: string | null) => rels.find(r => r.getAttribute('Id') === id)?.getAttribute('Target');
+
+    const workbook = parser.parseFromString(workbookXml, 'application/xml');
+    const sheets = Array.from(workbook.getElementsByTagNameNS(S_NS, 'sheet')).flatMap(sheet => {
+      const target = targetOf(sheet.getAttributeNS(R_NS, 'id'));
+      return target ? [{ name: sheet.getAttribute('name') || '', path: resolve(target) }] : [];
+    });
+
+    const stringsTarget = rels.find(r => r.getAttribute('Type')?.endsWith('/sharedStrings'))?.getAttribute('Target');
+    const stringsPath = stringsTarget ? resolve(stringsTarget) : 'xl/sharedStrings.xml';
+    const stringsXml = await zip.file(stringsPath)?.async('string');
+    return { sheets, stringsPath, strings: stringsXml ? parser.parseFromString(stringsXml, 'application/xml') : null };
+  }
+
+  /** Puts text into the first run of a shared string item, keeping that run's font. */
+  private setStringItem(item: Element, text: string) {
+    const runs = own(item, 'r');
+    const target = runs.length > 0 ? own(runs[0], 't')[0] : own(item, 't')[0];
+    runs.slice(1).forEach(r => item.removeChild(r));
+    own(item, 'rPh').forEach(r => item.removeChild(r));
+    if (!target) return;
+    target.textContent = text;
+    target.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+  }
+
+  private setInlineString(cell: Element, text: string) {
+    const doc = cell.ownerDocument;
+    const prefix = cell.prefix ? `${cell.prefix}:` : '';
+    Array.from(cell.children).filter(c => c.localName !== 'f').forEach(c => cell.removeChild(c));
+    const is = doc.createElementNS(S_NS, `${prefix}is`);
+    const t = doc.createElementNS(S_NS, `${prefix}t`);
+    t.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+    t.textContent = text;
+    is.appendChild(t);
+    cell.appendChild(is);
+    cell.setAttribute('t', 'inlineStr');
+  }
+}
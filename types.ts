@@ -5,12 +5,172 @@ export interface Language {
   flag: string;
 }
 
-export type TranslationTone = 'professional' | 'legal' | 'technical' | 'creative' | 'medical';
+/** The id of a domain profile; the built-in ones are listed in TRANSLATION_TONES. */
+export type TranslationTone = string;
 
 export interface GlossaryItem {
   id: string;
   original: string;
   target: string;
+  /** Match the original term with its exact casing (default: case-insensitive). */
+  caseSensitive?: boolean;
+  /** Only match the original term as a whole word (default: true). */
+  wholeWord?: boolean;
+  /** Ids of the chunks of the last translated document that contained the term. */
+  appliedTo?: string[];
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  /** 'auto' when the glossary applies to any source language. */
+  sourceLang: string;
+  targetLang: string;
+  items: GlossaryItem[];
+  updatedAt: number;
+}
+
+/** A reference translation shown to the model so it picks up the profile's style. */
+export interface ProfileExample {
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  target: string;
+}
+
+/** A glossary term a profile brings for one language pair; user glossaries override it. */
+export interface ProfileTerm {
+  sourceLang: string;
+  targetLang: string;
+  original: string;
+  target: string;
+}
+
+/**
+ * Everything that makes a translation domain-specific, stored as data so teams can add their own.
+ * The profile's id is what the rest of the app calls the tone.
+ */
+export interface DomainProfile {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  /** Built-in profiles can be cloned but not changed. */
+  builtIn?: boolean;
+  /** Who the model is and what it translates, opening the prompt. */
+  systemInstruction: string;
+  /** Domain rules listed in the prompt, one per entry. */
+  terminologyRules: string[];
+  defaultGlossary: ProfileTerm[];
+  qaRules: {
+    /** The QA checks that run; others are skipped. */
+    checks: QaIssue['kind'][];
+    /** Checks whose findings block export until acknowledged. */
+    blocking: QaIssue['kind'][];
+    /** Words that must not appear in a translation, e.g. another domain's jargon. */
+    forbiddenTerms: string[];
+  };
+  examples: ProfileExample[];
+  updatedAt?: number;
+}
+
+export interface TranslationMemoryEntry {
+  /** `${sourceLang}|${targetLang}|${tone}|${normalized source}` */
+  key: string;
+  /** `${sourceLang}|${targetLang}`, indexed for lookups. */
+  pair: string;
+  sourceLang: string;
+  targetLang: string;
+  /** '*' for entries imported without a tone; they match any tone. */
+  tone: TranslationTone | '*';
+  sourceText: string;
+  targetText: string;
+  origin: 'machine' | 'import' | 'edited';
+  createdAt: number;
+  updatedAt: number;
+  usageCount: number;
+}
+
+export interface MemoryMatch {
+  kind: 'exact' | 'fuzzy';
+  /** Similarity to the stored source, 0–1. */
+  score: number;
+}
+
+/** Position of a text block in PDF user space (origin at the bottom-left of the page). */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A span of text with uniform inline formatting. */
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  superscript?: boolean;
+  /** Hyperlink target. */
+  href?: string;
+  /** Inline code, e.g. a Markdown code span: sent as a locked placeholder and written back verbatim. */
+  code?: boolean;
+}
+
+/**
+ * Who last vouched for a translation: the engine, a person who rewrote it, or a reviewer who
+ * approved it or sent it back.
+ */
+export type ChunkStatus = 'machine' | 'edited' | 'approved' | 'rejected';
+
+/** One state of a chunk's translation, kept so edits can be undone and redone. */
+export interface ChunkRevision {
+  text: string;
+  runs?: InlineRun[];
+  status: ChunkStatus;
+  /** What produced the revision. */
+  kind: 'machine' | 'retranslate' | 'edit' | 'approve' | 'reject' | 'xliff';
+  /** The instruction given with a per-chunk retranslation. */
+  instruction?: string;
+  /** The reviewer who made the change, for edits, approvals and rejections. */
+  by?: string;
+  at: number;
+}
+
+export interface ReviewComment {
+  id: string;
+  author: string;
+  text: string;
+  at: number;
+  resolved?: boolean;
+}
+
+/** An export made before every clause was approved, with the reason given for it. */
+export interface ReviewOverride {
+  reason: string;
+  by: string;
+  at: number;
+  /** The clauses that were not approved at the time. */
+  pendingChunkIds: string[];
+}
+
+/** A job-level step in the audit log; clause-level history lives in each chunk's revisions. */
+export interface AuditEvent {
+  at: number;
+  kind: 'upload' | 'translation' | 'xliff-import' | 'review-override' | 'export';
+  by?: string;
+  /** One line for people reading the log. */
+  summary: string;
+  details?: Record<string, string | number | boolean | undefined>;
+}
+
+export interface AuditTrail {
+  jobId: string;
+  startedAt: number;
+  /** SHA-256 of the uploaded file, hex-encoded. */
+  sourceSha256?: string;
+  events: AuditEvent[];
 }
 
 export interface DocumentChunk {
@@ -18,38 +178,238 @@ export interface DocumentChunk {
   type: 'heading' | 'paragraph' | 'list-item' | 'table-cell' | 'metadata' | 'empty-line' | 'checkbox';
   originalText: string;
   translatedText?: string;
+  /**
+   * Inline formatting of originalText, present only when it varies within the chunk; the run
+   * texts concatenate to originalText. Uniform formatting lives in the metadata flags.
+   */
+  runs?: InlineRun[];
+  /** The runs mapped onto translatedText; absent when the model's tags could not be mapped back. */
+  translatedRuns?: InlineRun[];
+  /** List items: the numbering label in the target language's conventions, when localized. */
+  translatedListLabel?: string;
+  /** Present when the translation came from (exact) or was guided by (fuzzy) the translation memory. */
+  memoryMatch?: MemoryMatch;
+  /** Set when the chunk failed or could not be aligned with the model output; cleared once a retry succeeds. */
+  translationError?: string;
+  /** Absent until the chunk is translated. Edited and approved translations survive a retranslation of the document. */
+  status?: ChunkStatus;
+  /** Translation states, oldest first; `revisionIndex` points at the current one. */
+  revisions?: ChunkRevision[];
+  revisionIndex?: number;
+  /** Reviewer discussion of the clause. */
+  comments?: ReviewComment[];
+  /** The reviewer responsible for signing off the clause. */
+  assignee?: string;
   metadata?: {
+    /** Heading level, or list nesting level (1-based) for list items. */
     level?: number;
+    listType?: 'ordered' | 'bullet';
+    /** Numbering as shown in the source, e.g. "(a)", "1.2", "•"; never sent for translation. */
+    listLabel?: string;
+    /** The label was typed into the paragraph text rather than generated by Word's numbering. */
+    listLabelInText?: boolean;
     isBold?: boolean;
     isItalic?: boolean;
     isUnderlined?: boolean;
     isCheckbox?: boolean;
     isChecked?: boolean;
     alignment?: 'left' | 'center' | 'right' | 'justify';
+    /** Table cells: the table they belong to, so adjacent tables stay separate. */
+    tableId?: string;
+    /** Cells of a nested table: the id of the cell chunk that contains the table. */
+    parentCellId?: string;
+    /** Grid position; `col` accounts for spans in the same and earlier rows. */
     row?: number;
     col?: number;
     rowSpan?: number;
     colSpan?: number;
     fontSize?: string;
     fontFamily?: string;
+    page?: number;
+    bbox?: BoundingBox;
+    /** 0–1, set on chunks recognized by OCR. */
+    ocrConfidence?: number;
+    /** Running headers and footers repeated on each page. */
+    pageRegion?: 'header' | 'footer';
+    /** An earlier running header or footer with the same text apart from page numbers. */
+    repeatOf?: string;
+    /** Shown for context only (spreadsheet numbers and formulas, code); passes through untranslated. */
+    locked?: boolean;
+    /** Where the chunk came from in the source file, for writers that patch it in place. */
+    sourceRef?: string;
   };
 }
 
+export interface TranslationProgress {
+  completed: number;
+  total: number;
+  failed: number;
+  /** Estimated milliseconds remaining, once at least one batch has finished. */
+  etaMs?: number;
+}
+
+export interface TranslationOutcome {
+  /** Translations keyed by chunk id; chunks that failed or could not be aligned are absent. */
+  translations: Record<string, string>;
+  failedChunkIds: string[];
+  /** Chunks whose batch never ran or was interrupted because the run was aborted. */
+  cancelledChunkIds: string[];
+  errors: Record<string, string>;
+  memoryMatches: Record<string, MemoryMatch>;
+  /** Chunk ids each glossary item was found in, keyed by item id. */
+  glossaryUsage: Record<string, string[]>;
+  /** Inline runs of translated chunks that carry inline formatting and whose tags mapped back. */
+  runs: Record<string, InlineRun[]>;
+}
+
+/** A translation taken from an imported XLIFF file. */
+export interface XliffUpdate {
+  chunkId: string;
+  text: string;
+  /** Present when the chunk has source runs; mapped from the file's `<pc>` codes. */
+  runs?: InlineRun[];
+  /** The segment state in the file: 'translated', 'reviewed' or 'final'. */
+  state?: string;
+}
+
+export interface XliffConflict {
+  chunkId: string;
+  /**
+   * source-changed: the unit's source no longer matches the document, so its target is not applied.
+   * both-changed: the translation was edited in the app and in the file since the export.
+   */
+  kind: 'source-changed' | 'both-changed';
+  message: string;
+  /** The translation in the file, applied if the user picks it. */
+  incoming: XliffUpdate;
+  /** The chunk's translation at import time. */
+  current?: string;
+}
+
+export interface XliffImportResult {
+  updates: XliffUpdate[];
+  /** Units whose target is still what was exported. */
+  unchangedCount: number;
+  /** Translatable chunks of the document without a unit in the file. */
+  missingIds: string[];
+  /** Units whose id matches no chunk of the document. */
+  unknownIds: string[];
+  conflicts: XliffConflict[];
+}
+
+/** A target language's copy of the document while another language's tab is open. */
+export interface TargetDocument {
+  chunks: DocumentChunk[];
+  acknowledgedIssueIds: string[];
+}
+
+/** Progress of the translation job of one target language. */
+export interface TargetJob {
+  isProcessing: boolean;
+  progress: number;
+  statusMessage: string;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** One target language's translated file of a queued document. */
+export interface BatchOutput {
+  targetLang: string;
+  fileName: string;
+  blob: Blob;
+  segments: number;
+  failedSegments: number;
+  qaWarnings: number;
+  /** Blocking QA findings (figures, dates...) nobody has reviewed, since the queue runs unattended. */
+  qaBlocking: number;
+}
+
+/** A document in the batch queue. */
+export interface BatchItem {
+  id: string;
+  file: File;
+  /** The folder or archive path the file came from; empty for loose files. */
+  path: string;
+  status: BatchItemStatus;
+  /** 0–100 across reading, translating every target language and writing the output. */
+  progress: number;
+  statusMessage: string;
+  error?: string;
+  outputs: BatchOutput[];
+  detectedSourceLang?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+/** A saved document as listed under "Recent documents"; the full state is loaded on resume. */
+export interface SessionSummary {
+  id: string;
+  fileName: string;
+  fileType: string | null;
+  sourceLang: string;
+  targetLangs: string[];
+  tone: TranslationTone;
+  /** Segments across every target language, and how many of them have a translation. */
+  segments: number;
+  translated: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface TranslationState {
   isProcessing: boolean;
   progress: number;
   statusMessage?: string;
   error: string | null;
+  /** The saved session this document is kept in; null until a file is uploaded. */
+  sessionId: string | null;
   originalFileName: string | null;
   originalFileType: string | null;
   originalFileData?: string; 
   mimeType?: string;
   chunks: DocumentChunk[];
   sourceLang: string;
+  /** The language detected for the document when `sourceLang` is 'auto'. */
+  detectedSourceLang?: string;
+  /** The language shown; its document is `chunks`. */
   targetLang: string;
+  /** Every language the document is translated into, in tab order; includes `targetLang`. */
+  targetLangs: string[];
+  /** The documents of the other target languages, swapped with `chunks` when their tab opens. */
+  parkedTargets: Record<string, TargetDocument>;
+  /** Per-language jobs; `isProcessing`, `progress` and `statusMessage` summarize them. */
+  jobs: Record<string, TargetJob>;
   tone: TranslationTone;
   groundingEnabled: boolean;
   glossary: GlossaryItem[];
+  activeGlossaryId: string | null;
+  /** Blocking QA issues the user has reviewed and accepted; ids change when the translation does. */
+  acknowledgedIssueIds: string[];
+  memoryEnabled: boolean;
+  /** Minimum similarity (0–1) for a memory entry to be offered to the model as a reference. */
+  memoryThreshold: number;
+  /** Keep list labels as in the source, or rewrite them in the target language's conventions. */
+  listNumbering: 'keep' | 'localize';
+  /** Exports made while clauses were still awaiting approval. */
+  reviewOverrides: ReviewOverride[];
+  /** The audit log of the current document; null until a file is uploaded. */
+  audit: AuditTrail | null;
+  /** Exports also carry a certificate of translation and the JSON audit manifest. */
+  attachCertificate: boolean;
+}
+
+export interface QaIssue {
+  id: string;
+  chunkId: string;
+  kind: 'glossary' | 'number' | 'date' | 'clause' | 'currency' | 'formatting' | 'terminology';
+  /** Blocking issues must be acknowledged before export. */
+  severity: 'warning' | 'blocking';
+  message: string;
+  /** The source-side text that triggered the check. */
+  source: string;
+  /** What the translation was required to contain. */
+  expected?: string;
+  glossaryItemId?: string;
 }
 
 export interface AppState {